@@ -0,0 +1,85 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import { audioEffectsService } from '../src/services/AudioEffectsService';
+
+/**
+ * Lets the re-apply triggered by a settings change reach the native module
+ */
+const flush = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+  await ensureStorageReady();
+  await settingsManager.resetToDefaults();
+});
+
+afterEach(() => {
+  audioEffectsService.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('AudioEffectsService', () => {
+  test('applies the saved strengths to the native effects', async () => {
+    await settingsManager.setMultipleSettings({ bassBoostStrength: 60, virtualizerStrength: 25 });
+    await audioEffectsService.initialize();
+
+    expect(audioEffectsService.getState()).toMatchObject({
+      capabilities: { bassBoost: true, virtualizer: true },
+      bassBoostStrength: 60,
+      virtualizerStrength: 25,
+    });
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ bassBoostStrength: 60, virtualizerStrength: 25 });
+
+    await audioEffectsService.setBassBoostStrength(0);
+    await flush();
+    expect(fakeVolumeBoosterModule.getState().bassBoostStrength).toBe(0);
+  });
+
+  test('rejects strengths outside the setting range', async () => {
+    await audioEffectsService.initialize();
+
+    const result = await audioEffectsService.setVirtualizerStrength(150);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.reason).toBe('range');
+    expect(settingsManager.getSetting('virtualizerStrength')).toBe(0);
+  });
+
+  test('skips effects the device does not provide', async () => {
+    fakeVolumeBoosterModule.setEffectCapabilities({ virtualizer: false });
+    await settingsManager.setMultipleSettings({ bassBoostStrength: 40, virtualizerStrength: 80 });
+    await audioEffectsService.initialize();
+
+    expect(audioEffectsService.getState()).toMatchObject({
+      capabilities: { bassBoost: true, virtualizer: false },
+      bassBoostStrength: 40,
+      virtualizerStrength: 0,
+    });
+    expect(fakeVolumeBoosterModule.getState().virtualizerStrength).toBe(0);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  test('reports no effects when the query fails', async () => {
+    fakeVolumeBoosterModule.failNextCall('getAudioEffectCapabilities');
+    await settingsManager.setSetting('bassBoostStrength', 50);
+    await audioEffectsService.initialize();
+
+    expect(audioEffectsService.getState().capabilities).toEqual({
+      bassBoost: false,
+      virtualizer: false,
+      equalizer: false,
+      compressor: false,
+    });
+    expect(fakeVolumeBoosterModule.getState().bassBoostStrength).toBe(0);
+  });
+});
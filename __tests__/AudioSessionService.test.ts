@@ -0,0 +1,96 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule, FAKE_APP_SESSION_ID } from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import {
+  audioSessionService,
+  describeBoostTarget,
+  getBoostTarget,
+} from '../src/services/AudioSessionService';
+
+const PLAYER_SESSION = { sessionId: 81, packageName: 'com.example.player' };
+
+const startSessions = async () => {
+  await ensureStorageReady();
+  await audioSessionService.initialize();
+};
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+  await require('@react-native-async-storage/async-storage').clear();
+});
+
+afterEach(() => {
+  audioSessionService.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('AudioSessionService', () => {
+  test('follows sessions opened and closed by players', async () => {
+    await startSessions();
+    expect(audioSessionService.getState()).toEqual({
+      appSessionId: FAKE_APP_SESSION_ID,
+      openSessions: [],
+      boostedSessions: [],
+    });
+
+    fakeVolumeBoosterModule.openAudioSession(PLAYER_SESSION);
+    expect(audioSessionService.getState().openSessions).toEqual([PLAYER_SESSION]);
+
+    fakeVolumeBoosterModule.closeAudioSession(PLAYER_SESSION.sessionId);
+    expect(audioSessionService.getState().openSessions).toEqual([]);
+  });
+
+  test('attaches boost to a player session instead of all audio', async () => {
+    await startSessions();
+    fakeVolumeBoosterModule.openAudioSession(PLAYER_SESSION);
+
+    expect(await audioSessionService.attach(PLAYER_SESSION.sessionId)).toEqual({ success: true });
+    const state = audioSessionService.getState();
+    expect(state.boostedSessions).toEqual([PLAYER_SESSION.sessionId]);
+    expect(getBoostTarget(state)).toBe('sessions');
+    expect(describeBoostTarget(state)).toBe('Boost applies only to: com.example.player');
+
+    // Closing the player's session drops it and boost falls back to all audio
+    fakeVolumeBoosterModule.closeAudioSession(PLAYER_SESSION.sessionId);
+    expect(getBoostTarget(audioSessionService.getState())).toBe('deviceWide');
+    expect(fakeVolumeBoosterModule.getState().boostedSessions).toEqual([]);
+  });
+
+  test('reports sessions that cannot be boosted', async () => {
+    await startSessions();
+
+    const result = await audioSessionService.attach(999);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('999');
+    expect(audioSessionService.getState().boostedSessions).toEqual([]);
+  });
+
+  test('saves app-only mode only while boost targets just the app session', async () => {
+    await startSessions();
+    fakeVolumeBoosterModule.openAudioSession(PLAYER_SESSION);
+
+    await audioSessionService.setAppOnly(true);
+    expect(getBoostTarget(audioSessionService.getState())).toBe('appOnly');
+    expect(settingsManager.getSetting('appOnlyBoost')).toBe(true);
+
+    await audioSessionService.attach(PLAYER_SESSION.sessionId);
+    expect(audioSessionService.getState().boostedSessions).toEqual([FAKE_APP_SESSION_ID, PLAYER_SESSION.sessionId]);
+    expect(settingsManager.getSetting('appOnlyBoost')).toBe(false);
+
+    await audioSessionService.detach(PLAYER_SESSION.sessionId);
+    expect(settingsManager.getSetting('appOnlyBoost')).toBe(true);
+
+    await audioSessionService.setAppOnly(false);
+    expect(audioSessionService.getState().boostedSessions).toEqual([]);
+    expect(settingsManager.getSetting('appOnlyBoost')).toBe(false);
+  });
+});
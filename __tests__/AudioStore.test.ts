@@ -0,0 +1,125 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { SettingsManager } from '../src/storage/SettingsManager';
+import { audioStore, deriveAudioState, AudioActual } from '../src/store/AudioStore';
+
+const actual = (patch: Partial<AudioActual>): AudioActual => ({
+  volume: 100,
+  device: null,
+  appliedBoost: 0,
+  appliedBoostEnabled: false,
+  backgroundModeEnabled: false,
+  serviceRunning: false,
+  serviceStartError: null,
+  serviceBoostLevel: null,
+  serviceBoostActive: null,
+  activeProfileName: null,
+  ...patch,
+});
+
+const intent = {
+  volume: 100,
+  boost: 80,
+  boostEnabled: true,
+  gradualBoost: false,
+  appOnlyBoost: false,
+  backgroundModeEnabled: false,
+};
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+  await require('@react-native-async-storage/async-storage').clear();
+});
+
+afterEach(() => {
+  audioStore.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('deriveAudioState', () => {
+  test('flags boost that is requested but not applied in-app', () => {
+    const derived = deriveAudioState(intent, actual({ appliedBoost: 0, appliedBoostEnabled: true }), true);
+
+    expect(derived.boostRequested).toBe(true);
+    expect(derived.boostActive).toBe(false);
+    expect(derived.boostRequestedButInactive).toBe(true);
+  });
+
+  test('uses the service state while the background service runs', () => {
+    const derived = deriveAudioState(
+      intent,
+      actual({ serviceRunning: true, serviceBoostActive: true, serviceBoostLevel: 50 }),
+      true,
+    );
+
+    expect(derived.boostActive).toBe(true);
+    expect(derived.boostRequestedButInactive).toBe(false);
+    expect(derived.serviceBoostMismatch).toBe(true);
+  });
+
+  test('does not flag anything before native state is known', () => {
+    const derived = deriveAudioState(intent, actual({ appliedBoost: null, appliedBoostEnabled: null }), false);
+
+    expect(derived.boostRequestedButInactive).toBe(false);
+  });
+
+  test('tolerates volume step rounding', () => {
+    expect(deriveAudioState(intent, actual({ volume: 93.3 }), true).volumeOutOfSync).toBe(false);
+    expect(deriveAudioState(intent, actual({ volume: 40 }), true).volumeOutOfSync).toBe(true);
+  });
+});
+
+describe('AudioStore', () => {
+  test('loads intent from settings and actual state from the native module', async () => {
+    await fakeVolumeBoosterModule.setBackgroundMode(true);
+    await audioStore.initialize();
+
+    const state = audioStore.getState();
+    expect(state.intentLoaded).toBe(true);
+    expect(state.actualLoaded).toBe(true);
+    expect(state.intent.boost).toBe(SettingsManager.getInstance().getSetting('boost'));
+    expect(state.actual).toMatchObject({
+      volume: 100,
+      backgroundModeEnabled: true,
+      serviceRunning: true,
+      device: { name: 'Device Speaker' },
+    });
+  });
+
+  test('follows settings changes and native events', async () => {
+    await audioStore.initialize();
+    const listener = jest.fn();
+    const unsubscribe = audioStore.subscribe(listener);
+
+    await SettingsManager.getInstance().setMultipleSettings({ boost: 120, boostEnabled: true });
+    expect(audioStore.getState().intent).toMatchObject({ boost: 120, boostEnabled: true });
+    expect(audioStore.getState().derived.boostRequestedButInactive).toBe(true);
+
+    await fakeVolumeBoosterModule.setBackgroundMode(true);
+    await audioStore.refreshNative();
+    await fakeVolumeBoosterModule.setBoostEnabled(true);
+    await fakeVolumeBoosterModule.setBoost(120, 3000);
+    expect(audioStore.getState().actual).toMatchObject({ serviceRunning: true, serviceBoostLevel: 120 });
+    expect(audioStore.getState().derived.boostActive).toBe(true);
+    expect(audioStore.getState().derived.boostRequestedButInactive).toBe(false);
+
+    fakeVolumeBoosterModule.setServiceRunning(false);
+    expect(audioStore.getState().derived.backgroundServiceStopped).toBe(true);
+
+    expect(listener).toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  test('keeps the same snapshot when nothing changed', async () => {
+    await audioStore.initialize();
+    expect(audioStore.getState()).toBe(audioStore.getState());
+  });
+});
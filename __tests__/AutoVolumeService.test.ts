@@ -0,0 +1,122 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../src/modules/VolumeBoosterModule';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { audioStore } from '../src/store/AudioStore';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import { AutoVolumeService, autoVolumeService } from '../src/services/AutoVolumeService';
+
+/**
+ * Starts the store and auto-volume at the given device volume
+ */
+const startAutoVolume = async (volume: number, enabled: boolean = true) => {
+  await ensureStorageReady();
+  await settingsManager.setSetting('autoVolumeEnabled', enabled);
+  await VolumeBoosterModule.setVolume(volume);
+  await audioStore.initialize();
+  await autoVolumeService.initialize();
+};
+
+const deviceVolume = () => VolumeBoosterModule.getVolume();
+
+const setBoostApplied = (applied: boolean) => {
+  audioStore.updateActual({ appliedBoostEnabled: applied, appliedBoost: applied ? 60 : 0 });
+};
+
+const poll = () => jest.advanceTimersByTimeAsync(AutoVolumeService.POLL_INTERVAL_MS);
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+  await require('@react-native-async-storage/async-storage').clear();
+});
+
+afterEach(async () => {
+  await autoVolumeService.dispose();
+  await settingsManager.setSafetyLimits(null);
+  audioStore.dispose();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('AutoVolumeService', () => {
+  test('raises the volume during boosted playback and restores it afterwards', async () => {
+    await startAutoVolume(40);
+    setBoostApplied(true);
+    expect(autoVolumeService.getState()).toEqual({ enabled: true, raised: false, originalVolume: 40 });
+
+    fakeVolumeBoosterModule.setMusicActive(true);
+    await poll();
+    expect(await deviceVolume()).toBe(100);
+    expect(autoVolumeService.isRaised()).toBe(true);
+
+    fakeVolumeBoosterModule.setMusicActive(false);
+    await poll();
+    expect(await deviceVolume()).toBe(40);
+    expect(autoVolumeService.getState()).toEqual({ enabled: true, raised: false, originalVolume: 40 });
+  });
+
+  test('leaves the volume alone without boost or while disabled', async () => {
+    await startAutoVolume(40, false);
+    setBoostApplied(true);
+    fakeVolumeBoosterModule.setMusicActive(true);
+    await poll();
+    expect(await deviceVolume()).toBe(40);
+
+    await autoVolumeService.setEnabled(true);
+    setBoostApplied(false);
+    await poll();
+    expect(await deviceVolume()).toBe(40);
+
+    // Switching boost on during playback raises the volume without waiting for a poll
+    setBoostApplied(true);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await deviceVolume()).toBe(100);
+  });
+
+  test('backs up manual volume changes only while not raised', async () => {
+    await startAutoVolume(40);
+    setBoostApplied(true);
+
+    fakeVolumeBoosterModule.simulateVolumeChange(60);
+    expect(autoVolumeService.getState().originalVolume).toBe(60);
+
+    fakeVolumeBoosterModule.setMusicActive(true);
+    await poll();
+    fakeVolumeBoosterModule.simulateVolumeChange(80);
+    expect(autoVolumeService.getState().originalVolume).toBe(60);
+
+    fakeVolumeBoosterModule.setMusicActive(false);
+    await poll();
+    expect(await deviceVolume()).toBe(60);
+  });
+
+  test('restores the volume when disabled while raised', async () => {
+    await startAutoVolume(40);
+    setBoostApplied(true);
+    fakeVolumeBoosterModule.setMusicActive(true);
+    await poll();
+
+    await autoVolumeService.setEnabled(false);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await deviceVolume()).toBe(40);
+    expect(autoVolumeService.getState()).toEqual({ enabled: false, raised: false, originalVolume: null });
+  });
+
+  test('raises no higher than the safety lock allows', async () => {
+    await startAutoVolume(40);
+    await settingsManager.setSafetyLimits({ maxBoost: 100, maxVolume: 80 });
+    setBoostApplied(true);
+    fakeVolumeBoosterModule.setMusicActive(true);
+    await poll();
+
+    expect(await deviceVolume()).toBe(80);
+  });
+});
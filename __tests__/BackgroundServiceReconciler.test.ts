@@ -0,0 +1,85 @@
+/**
+ * @format
+ */
+
+import { AppState, Platform } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import { audioStore } from '../src/store/AudioStore';
+import { backgroundServiceReconciler } from '../src/services/BackgroundServiceReconciler';
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await ensureStorageReady();
+  await settingsManager.resetToDefaults();
+});
+
+afterEach(() => {
+  backgroundServiceReconciler.dispose();
+  audioStore.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('BackgroundServiceReconciler', () => {
+  test('restarts a service that died while background mode is on', async () => {
+    await settingsManager.setSetting('backgroundModeEnabled', true);
+
+    const result = await backgroundServiceReconciler.reconcile();
+
+    expect(result).toEqual({ success: true, action: 'started' });
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ backgroundModeEnabled: true, serviceRunning: true });
+    expect(audioStore.getState().actual).toMatchObject({ serviceRunning: true, serviceStartError: null });
+  });
+
+  test('stops a service that runs while background mode is off', async () => {
+    await fakeVolumeBoosterModule.setBackgroundMode(true);
+
+    const result = await backgroundServiceReconciler.reconcile();
+
+    expect(result).toEqual({ success: true, action: 'stopped' });
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ backgroundModeEnabled: false, serviceRunning: false });
+  });
+
+  test('leaves a service that matches the setting alone', async () => {
+    await settingsManager.setSetting('backgroundModeEnabled', true);
+    await fakeVolumeBoosterModule.setBackgroundMode(true);
+    const setBackgroundMode = jest.spyOn(fakeVolumeBoosterModule, 'setBackgroundMode');
+
+    const result = await backgroundServiceReconciler.reconcile();
+
+    expect(result).toEqual({ success: true, action: 'none' });
+    expect(setBackgroundMode).not.toHaveBeenCalled();
+  });
+
+  test('records when Android refuses to start the service and retries on the next pass', async () => {
+    await settingsManager.setSetting('backgroundModeEnabled', true);
+    fakeVolumeBoosterModule.failNextCall('setBackgroundMode', new Error('Foreground service start not allowed'));
+
+    const refused = await backgroundServiceReconciler.reconcile();
+
+    expect(refused).toEqual({ success: false, action: 'started', error: 'Foreground service start not allowed' });
+    expect(audioStore.getState().actual.serviceStartError).toBe('Foreground service start not allowed');
+
+    const retried = await backgroundServiceReconciler.reconcile();
+
+    expect(retried).toEqual({ success: true, action: 'started' });
+    expect(audioStore.getState().actual).toMatchObject({ serviceRunning: true, serviceStartError: null });
+  });
+
+  test('reconciles again when the app returns to the foreground', async () => {
+    await settingsManager.setSetting('backgroundModeEnabled', true);
+    await backgroundServiceReconciler.initialize();
+    const handleAppStateChange = (AppState.addEventListener as jest.Mock).mock.calls.at(-1)[1];
+
+    handleAppStateChange('background');
+    fakeVolumeBoosterModule.setServiceRunning(false);
+    handleAppStateChange('active');
+    await backgroundServiceReconciler.reconcile();
+
+    expect(fakeVolumeBoosterModule.getState().serviceRunning).toBe(true);
+  });
+});
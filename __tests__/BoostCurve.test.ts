@@ -0,0 +1,77 @@
+/**
+ * @format
+ */
+
+import { settingsManager } from '../src/storage/SettingsManager';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import { boostGainMillibels, boostToDb, boostToMillibels, dbToBoost } from '../src/services/BoostCurve';
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await ensureStorageReady();
+  await settingsManager.resetToDefaults();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('boostToDb', () => {
+  test('maps no boost to 0 dB and full boost to the max gain on every curve', () => {
+    (['linear', 'logarithmic', 'perceptual'] as const).forEach(curve => {
+      expect(boostToDb(0, curve, 30)).toBeCloseTo(0);
+      expect(boostToDb(200, curve, 30)).toBeCloseTo(30);
+    });
+  });
+
+  test('linear with the default cap keeps the previous native mapping of 25 mB per percent', () => {
+    [0, 1, 60, 100, 150, 200].forEach(boost => {
+      expect(boostToMillibels(boost)).toBe(boost * 25);
+    });
+  });
+
+  test('logarithmic holds the gain back and perceptual brings it forward', () => {
+    const linear = boostToDb(50, 'linear', 40);
+
+    expect(boostToDb(50, 'logarithmic', 40)).toBeLessThan(linear);
+    expect(boostToDb(50, 'perceptual', 40)).toBeGreaterThan(linear);
+  });
+
+  test('perceptual takes equal steps of perceived loudness', () => {
+    // 40 dB at full boost is 2^4 = 16x loudness; halfway is 8.5x loudness
+    const halfway = boostToDb(100, 'perceptual', 40);
+    expect(Math.pow(2, halfway / 10)).toBeCloseTo(8.5);
+  });
+
+  test('clamps boost levels outside the slider range', () => {
+    expect(boostToDb(-20)).toBe(0);
+    expect(boostToDb(400, 'linear', 20)).toBe(20);
+  });
+});
+
+describe('dbToBoost', () => {
+  test('inverts boostToDb on every curve', () => {
+    (['linear', 'logarithmic', 'perceptual'] as const).forEach(curve => {
+      [0, 35, 100, 170, 200].forEach(boost => {
+        expect(dbToBoost(boostToDb(boost, curve, 30), curve, 30)).toBeCloseTo(boost);
+      });
+    });
+  });
+
+  test('clamps gains outside the curve range', () => {
+    expect(dbToBoost(-5)).toBe(0);
+    expect(dbToBoost(60, 'perceptual', 40)).toBe(200);
+    expect(dbToBoost(10, 'linear', 0)).toBe(0);
+  });
+});
+
+describe('boostGainMillibels', () => {
+  test('uses the saved curve and max gain', async () => {
+    expect(boostGainMillibels(100)).toBe(2500);
+
+    await settingsManager.setMultipleSettings({ boostCurve: 'logarithmic', maxBoostGainDb: 20 });
+
+    expect(boostGainMillibels(100)).toBe(boostToMillibels(100, 'logarithmic', 20));
+    expect(boostGainMillibels(200)).toBe(2000);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @format
+ */
+
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { boostRamp, interpolateBoost, RAMP_STEP_MS } from '../src/services/BoostRamp';
+import { boostToDb } from '../src/services/BoostCurve';
+
+/**
+ * Advances fake timers one ramp step at a time, letting the awaited
+ * native calls between steps resolve
+ */
+const advanceSteps = async (steps: number) => {
+  for (let i = 0; i < steps; i++) {
+    await jest.advanceTimersByTimeAsync(RAMP_STEP_MS);
+  }
+};
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+});
+
+afterEach(() => {
+  boostRamp.cancel();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('interpolateBoost', () => {
+  test('hits both endpoints on every curve', () => {
+    (['linear', 'exponential', 'equalLoudness'] as const).forEach(curve => {
+      expect(interpolateBoost(20, 160, 0, curve)).toBeCloseTo(20);
+      expect(interpolateBoost(20, 160, 1, curve)).toBeCloseTo(160);
+    });
+  });
+
+  test('exponential starts slower than linear', () => {
+    expect(interpolateBoost(0, 100, 0.5, 'exponential')).toBeLessThan(interpolateBoost(0, 100, 0.5, 'linear'));
+  });
+
+  test('equal loudness takes equal dB-loudness steps', () => {
+    // 0% and 160% are 1x and 2^4 = 16x loudness; halfway is 8.5x loudness
+    const halfway = interpolateBoost(0, 160, 0.5, 'equalLoudness');
+    expect(Math.pow(2, boostToDb(halfway) / 10)).toBeCloseTo(8.5);
+  });
+
+  test('equal loudness follows the boost curve and max gain', () => {
+    const loudness = (boost: number) => Math.pow(2, boostToDb(boost, 'logarithmic', 30) / 10);
+    const halfway = interpolateBoost(20, 160, 0.5, 'equalLoudness', 'logarithmic', 30);
+
+    expect(loudness(halfway)).toBeCloseTo((loudness(20) + loudness(160)) / 2);
+  });
+});
+
+describe('BoostRamp', () => {
+  test('steps the gain to the target over the duration', async () => {
+    const done = boostRamp.rampTo(100, { durationMs: 500, curve: 'linear', from: 0 });
+
+    await advanceSteps(10);
+
+    await expect(done).resolves.toBe(true);
+    const { gainSteps } = fakeVolumeBoosterModule.getState();
+    expect(gainSteps.length).toBeGreaterThan(3);
+    expect(gainSteps).toEqual([...gainSteps].sort((a, b) => a - b));
+    expect(gainSteps[gainSteps.length - 1]).toBe(100);
+    expect(boostRamp.isRunning()).toBe(false);
+  });
+
+  test('skips the ramp when the duration is 0', async () => {
+    await expect(boostRamp.rampTo(80, { durationMs: 0, curve: 'linear', from: 0 })).resolves.toBe(true);
+
+    expect(fakeVolumeBoosterModule.getState().gainSteps).toEqual([]);
+    expect(boostRamp.getCurrentLevel()).toBe(80);
+  });
+
+  test('a new ramp cancels the previous one and continues from its level', async () => {
+    const first = boostRamp.rampTo(200, { durationMs: 1000, curve: 'linear', from: 0 });
+    await advanceSteps(5);
+    const reached = boostRamp.getCurrentLevel();
+
+    const second = boostRamp.rampTo(0, { durationMs: 500, curve: 'linear', from: 150 });
+    await expect(first).resolves.toBe(false);
+
+    const stepsBefore = fakeVolumeBoosterModule.getState().gainSteps.length;
+    await advanceSteps(10);
+    await expect(second).resolves.toBe(true);
+
+    const downSteps = fakeVolumeBoosterModule.getState().gainSteps.slice(stepsBefore);
+    expect(reached).toBeGreaterThan(0);
+    expect(reached).toBeLessThan(200);
+    expect(downSteps[0]).toBeLessThan(reached);
+    expect(downSteps[downSteps.length - 1]).toBe(0);
+  });
+
+  test('cancel stops at the level reached', async () => {
+    const ramp = boostRamp.rampTo(100, { durationMs: 1000, curve: 'linear', from: 0 });
+    await advanceSteps(4);
+
+    boostRamp.cancel();
+    await expect(ramp).resolves.toBe(false);
+
+    const steps = fakeVolumeBoosterModule.getState().gainSteps.length;
+    await advanceSteps(10);
+    expect(fakeVolumeBoosterModule.getState().gainSteps).toHaveLength(steps);
+    expect(fakeVolumeBoosterModule.getState().boost).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule, FAKE_EQUALIZER_LAYOUT } from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { ensureStorageReady, resetAudioInitialization } from '../src/hooks/initialization';
+import { boostGainMillibels } from '../src/services/BoostCurve';
+import { restoreBoost } from '../src/services/BoostRestore';
+import { notificationSync } from '../src/services/NotificationSync';
+import { equalizerPresetLevels, equalizerService } from '../src/services/EqualizerService';
+import { audioEffectsService } from '../src/services/AudioEffectsService';
+import { compressorService } from '../src/services/CompressorService';
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  resetAudioInitialization();
+  await ensureStorageReady();
+  await settingsManager.resetToDefaults();
+});
+
+afterEach(() => {
+  notificationSync.dispose();
+  equalizerService.dispose();
+  audioEffectsService.dispose();
+  compressorService.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('restoreBoost', () => {
+  test('starts the background service and reapplies the saved boost after a reboot', async () => {
+    await settingsManager.setMultipleSettings({
+      boost: 120,
+      boostEnabled: true,
+      boostCurve: 'perceptual',
+      backgroundModeEnabled: true,
+    });
+
+    const result = await restoreBoost('boot');
+
+    expect(result).toEqual({ success: true, restored: true });
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({
+      backgroundModeEnabled: true,
+      serviceRunning: true,
+      boostEnabled: true,
+      boost: 120,
+      boostGainMillibels: boostGainMillibels(120),
+    });
+  });
+
+  test('reapplies the saved equalizer and effects', async () => {
+    await settingsManager.setMultipleSettings({
+      backgroundModeEnabled: true,
+      equalizerEnabled: true,
+      equalizerPreset: 'vocal',
+      bassBoostStrength: 60,
+      virtualizerStrength: 25,
+      compressorEnabled: true,
+    });
+
+    await restoreBoost('boot');
+
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({
+      equalizerEnabled: true,
+      equalizerBandLevels: equalizerPresetLevels('vocal', FAKE_EQUALIZER_LAYOUT),
+      bassBoostStrength: 60,
+      virtualizerStrength: 25,
+      compressor: { enabled: true, thresholdDb: settingsManager.getSetting('compressorThresholdDb') },
+    });
+  });
+
+  test('saves notification controls pressed without the app open', async () => {
+    await settingsManager.setMultipleSettings({ boost: 60, boostEnabled: true, backgroundModeEnabled: true });
+
+    await restoreBoost('serviceRestarted');
+    await notificationSync.whenIdle();
+    fakeVolumeBoosterModule.pressNotificationAction('boostUp');
+    fakeVolumeBoosterModule.pressNotificationAction('toggleBoost');
+    await notificationSync.whenIdle();
+
+    expect(settingsManager.getAllSettings()).toMatchObject({ boost: 70, boostEnabled: false });
+  });
+
+  test('restores the service without gain when boost was off', async () => {
+    await settingsManager.setMultipleSettings({ boost: 80, boostEnabled: false, backgroundModeEnabled: true });
+
+    await restoreBoost('serviceRestarted');
+
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({
+      serviceRunning: true,
+      boostEnabled: false,
+      boost: 0,
+    });
+  });
+
+  test('leaves the service off after a reboot when auto-start is off', async () => {
+    await settingsManager.setMultipleSettings({
+      boost: 120,
+      boostEnabled: true,
+      backgroundModeEnabled: true,
+      autoStartEnabled: false,
+    });
+
+    const result = await restoreBoost('boot');
+
+    expect(result).toEqual({ success: true, restored: false });
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ serviceRunning: false, boost: 0 });
+  });
+
+  test('stops a restarted service when background mode was turned off', async () => {
+    await fakeVolumeBoosterModule.setBackgroundMode(true);
+
+    const result = await restoreBoost('serviceRestarted');
+
+    expect(result.restored).toBe(false);
+    expect(fakeVolumeBoosterModule.getState().serviceRunning).toBe(false);
+  });
+
+  test('stops a restarted service when auto-start is off', async () => {
+    await settingsManager.setMultipleSettings({ backgroundModeEnabled: true, autoStartEnabled: false });
+    await fakeVolumeBoosterModule.setBackgroundMode(true);
+
+    await restoreBoost('serviceRestarted');
+
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ backgroundModeEnabled: false, serviceRunning: false });
+  });
+
+  test('reports when Android refuses to start the service', async () => {
+    await settingsManager.setMultipleSettings({ boost: 120, boostEnabled: true, backgroundModeEnabled: true });
+    fakeVolumeBoosterModule.failNextCall('setBackgroundMode', new Error('Foreground service start not allowed'));
+
+    const result = await restoreBoost('boot');
+
+    expect(result).toEqual({ success: false, restored: false, error: 'Foreground service start not allowed' });
+    expect(fakeVolumeBoosterModule.getState().serviceRunning).toBe(false);
+  });
+});
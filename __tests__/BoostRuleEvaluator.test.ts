@@ -0,0 +1,129 @@
+/**
+ * @format
+ */
+
+import type { BoostRule } from '../src/storage/BoostRuleManager';
+import {
+  activeRuleWindow,
+  findActiveRule,
+  formatRuleTrigger,
+  isRuleActive,
+  nextRuleChange,
+  nextRuleStart,
+} from '../src/services/BoostRuleEvaluator';
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+/** Local time on Monday 19 October 2026 plus the given days */
+const monday = (hours: number, minutes = 0, days = 0) => new Date(2026, 9, 19 + days, hours, minutes).getTime();
+
+const rule = (patch: Partial<BoostRule> = {}): BoostRule => ({
+  id: 'night',
+  name: 'Night',
+  enabled: true,
+  startMinute: 22 * 60,
+  endMinute: 7 * 60,
+  weekdays: EVERY_DAY,
+  action: { type: 'disableBoost' },
+  createdAt: 0,
+  updatedAt: 0,
+  ...patch,
+});
+
+/**
+ * Moves the fake clock, which the evaluator reads by default
+ */
+const setClock = (time: number) => {
+  jest.setSystemTime(time);
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('BoostRuleEvaluator', () => {
+  test('a window that crosses midnight is active until its end the next morning', () => {
+    const night = rule();
+
+    setClock(monday(21, 59));
+    expect(isRuleActive(night)).toBe(false);
+
+    setClock(monday(22, 0));
+    expect(activeRuleWindow(night)).toEqual({ start: monday(22, 0), end: monday(7, 0, 1) });
+
+    setClock(monday(6, 59, 1));
+    expect(isRuleActive(night)).toBe(true);
+
+    setClock(monday(7, 0, 1));
+    expect(isRuleActive(night)).toBe(false);
+  });
+
+  test('weekdays pick the day a window starts on', () => {
+    // Friday and Saturday nights only
+    const weekend = rule({ weekdays: [5, 6] });
+
+    setClock(monday(23, 0));
+    expect(isRuleActive(weekend)).toBe(false);
+
+    setClock(monday(23, 0, 4));
+    expect(isRuleActive(weekend)).toBe(true);
+
+    // Saturday night runs into Sunday morning
+    setClock(monday(3, 0, 6));
+    expect(isRuleActive(weekend)).toBe(true);
+
+    setClock(monday(23, 0, 6));
+    expect(isRuleActive(weekend)).toBe(false);
+  });
+
+  test('daytime windows and disabled rules', () => {
+    const work = rule({ id: 'work', startMinute: 9 * 60, endMinute: 17 * 60, weekdays: [1, 2, 3, 4, 5] });
+
+    setClock(monday(12, 0));
+    expect(isRuleActive(work)).toBe(true);
+    expect(isRuleActive({ ...work, enabled: false })).toBe(false);
+    expect(nextRuleStart({ ...work, enabled: false })).toBeNull();
+
+    setClock(monday(17, 0));
+    expect(isRuleActive(work)).toBe(false);
+  });
+
+  test('earlier rules win when windows overlap', () => {
+    const night = rule();
+    const late = rule({ id: 'late', startMinute: 23 * 60, endMinute: 1 * 60, action: { type: 'setBoost', boost: 20 } });
+
+    setClock(monday(23, 30));
+    expect(findActiveRule([night, late])?.id).toBe('night');
+    expect(findActiveRule([late, night])?.id).toBe('late');
+    expect(findActiveRule([])).toBeNull();
+  });
+
+  test('previews the next start and finds the next change', () => {
+    const night = rule();
+    const weekend = rule({ id: 'weekend', startMinute: 10 * 60, endMinute: 12 * 60, weekdays: [6] });
+
+    setClock(monday(8, 0));
+    expect(nextRuleStart(night)).toBe(monday(22, 0));
+    expect(nextRuleStart(weekend)).toBe(monday(10, 0, 5));
+    expect(nextRuleChange([night, weekend])).toBe(monday(22, 0));
+
+    // While the night window runs, its end comes before the next start
+    setClock(monday(23, 0));
+    expect(nextRuleStart(night)).toBe(monday(22, 0, 1));
+    expect(nextRuleChange([night, weekend])).toBe(monday(7, 0, 1));
+
+    expect(nextRuleChange([])).toBeNull();
+  });
+
+  test('formats trigger times relative to now', () => {
+    setClock(monday(8, 0));
+
+    expect(formatRuleTrigger(monday(22, 0))).toBe('Today 22:00');
+    expect(formatRuleTrigger(monday(7, 30, 1))).toBe('Tomorrow 07:30');
+    expect(formatRuleTrigger(monday(10, 0, 5))).toBe('Sat 10:00');
+  });
+});
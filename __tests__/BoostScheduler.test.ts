@@ -0,0 +1,115 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { presetManager } from '../src/storage/PresetManager';
+import { boostRuleManager, BoostRuleInput } from '../src/storage/BoostRuleManager';
+import { ensureStorageReady, resetAudioInitialization } from '../src/hooks/initialization';
+import { audioStore } from '../src/store/AudioStore';
+import { boostScheduler } from '../src/services/BoostScheduler';
+
+/** Local time on Monday 19 October 2026 plus the given days */
+const monday = (hours: number, minutes = 0, days = 0) => new Date(2026, 9, 19 + days, hours, minutes).getTime();
+
+const NIGHT: BoostRuleInput = {
+  name: 'Night',
+  enabled: true,
+  startMinute: 22 * 60,
+  endMinute: 7 * 60,
+  weekdays: [0, 1, 2, 3, 4, 5, 6],
+  action: { type: 'setBoost', boost: 20 },
+};
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  jest.setSystemTime(monday(21, 0));
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  resetAudioInitialization();
+  await ensureStorageReady();
+  await settingsManager.resetToDefaults();
+  await presetManager.replacePresets([]);
+  await boostRuleManager.replaceRules([]);
+  await boostRuleManager.saveScheduleState({ activeRuleId: null, restoreSettings: null });
+  await settingsManager.setMultipleSettings({ boost: 120, boostEnabled: true });
+});
+
+afterEach(() => {
+  boostScheduler.dispose();
+  audioStore.dispose();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('BoostScheduler', () => {
+  test('applies a rule when its window starts and restores the settings when it ends', async () => {
+    await boostRuleManager.createRule(NIGHT);
+
+    const before = await boostScheduler.evaluate();
+    expect(before).toEqual({ success: true, activeRuleId: null, nextCheckAt: monday(22, 0) });
+    expect(fakeVolumeBoosterModule.getState().nextRuleCheckAt).toBe(monday(22, 0));
+
+    jest.setSystemTime(monday(22, 0));
+    const during = await boostScheduler.evaluate();
+    expect(during.activeRuleId).not.toBeNull();
+    expect(during.nextCheckAt).toBe(monday(7, 0, 1));
+    expect(settingsManager.getSetting('boost')).toBe(20);
+    expect(fakeVolumeBoosterModule.getState().boost).toBe(20);
+
+    jest.setSystemTime(monday(7, 0, 1));
+    const after = await boostScheduler.evaluate();
+    expect(after.activeRuleId).toBeNull();
+    expect(after.nextCheckAt).toBe(monday(22, 0, 1));
+    expect(settingsManager.getSetting('boost')).toBe(120);
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boost: 120, boostEnabled: true });
+  });
+
+  test('evaluates on a timer while the app is open', async () => {
+    const listener = jest.fn();
+    boostScheduler.addEvaluationListener(listener);
+    await boostRuleManager.createRule({ ...NIGHT, action: { type: 'disableBoost' } });
+    await boostScheduler.initialize();
+    expect(settingsManager.getSetting('boostEnabled')).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    await boostScheduler.evaluate();
+
+    expect(settingsManager.getSetting('boostEnabled')).toBe(false);
+    expect(boostRuleManager.getScheduleState().restoreSettings).toEqual({ boostEnabled: true });
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ success: true, nextCheckAt: monday(7, 0, 1) }));
+    boostScheduler.removeEvaluationListener(listener);
+  });
+
+  test('applies a preset rule and re-evaluates when rules change', async () => {
+    const quiet = await presetManager.createPreset('Quiet', { volume: 40, boost: 0, boostEnabled: false, gradualBoost: false });
+    await boostScheduler.initialize();
+
+    jest.setSystemTime(monday(23, 0));
+    await boostRuleManager.createRule({ ...NIGHT, action: { type: 'applyPreset', presetId: quiet!.id } });
+    await boostScheduler.evaluate();
+
+    expect(settingsManager.getAllSettings()).toMatchObject({ volume: 40, boostEnabled: false });
+
+    // Deleting the rule in effect ends it right away
+    await boostRuleManager.deleteRule(boostRuleManager.getRules()[0].id);
+    await boostScheduler.evaluate();
+
+    expect(settingsManager.getAllSettings()).toMatchObject({ volume: 100, boost: 120, boostEnabled: true });
+    expect(fakeVolumeBoosterModule.getState().nextRuleCheckAt).toBeNull();
+  });
+
+  test('keeps boost under the safety lock cap', async () => {
+    await settingsManager.setSafetyLimits({ maxBoost: 100, maxVolume: 100 });
+    await boostRuleManager.createRule({ ...NIGHT, action: { type: 'setBoost', boost: 180 } });
+
+    await boostScheduler.evaluate(monday(23, 0));
+
+    expect(settingsManager.getSetting('boost')).toBe(100);
+    await settingsManager.setSafetyLimits(null);
+  });
+});
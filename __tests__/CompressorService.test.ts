@@ -0,0 +1,84 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import { COMPRESSOR_PRESETS, compressorService } from '../src/services/CompressorService';
+
+/**
+ * Lets the re-apply triggered by a settings change reach the native module
+ */
+const flush = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const presetParameters = (id: string) => COMPRESSOR_PRESETS.find(preset => preset.id === id)!.parameters;
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+  await ensureStorageReady();
+  await settingsManager.resetToDefaults();
+});
+
+afterEach(() => {
+  compressorService.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('CompressorService', () => {
+  test('applies the saved settings to the native compressor', async () => {
+    await compressorService.initialize();
+
+    expect(compressorService.getState()).toMatchObject({ available: true, enabled: false, preset: 'movie' });
+    expect(fakeVolumeBoosterModule.getState().compressor).toEqual({ enabled: false, ...presetParameters('movie') });
+
+    await compressorService.setEnabled(true);
+    await flush();
+    expect(fakeVolumeBoosterModule.getState().compressor?.enabled).toBe(true);
+  });
+
+  test('selecting a preset stores its parameters', async () => {
+    await compressorService.initialize();
+
+    const result = await compressorService.selectPreset('speech');
+    await flush();
+
+    expect(result.success).toBe(true);
+    expect(settingsManager.getSetting('compressorThresholdDb')).toBe(-30);
+    expect(compressorService.getState()).toMatchObject({ preset: 'speech', parameters: presetParameters('speech') });
+    expect(fakeVolumeBoosterModule.getState().compressor).toMatchObject(presetParameters('speech'));
+  });
+
+  test('changing a parameter switches to the custom preset', async () => {
+    await compressorService.initialize();
+    await compressorService.selectPreset('music');
+
+    await compressorService.setParameters({ ratio: 8 });
+    await flush();
+
+    expect(compressorService.getState()).toMatchObject({
+      preset: 'custom',
+      parameters: { ...presetParameters('music'), ratio: 8 },
+    });
+
+    const rejected = await compressorService.setParameters({ ceilingDb: 3 });
+    expect(rejected.success).toBe(false);
+    expect(rejected.errors[0]).toMatchObject({ field: 'compressorCeilingDb', reason: 'range' });
+    expect(settingsManager.getSetting('compressorCeilingDb')).toBe(presetParameters('music').ceilingDb);
+  });
+
+  test('does not apply settings on devices without the compressor', async () => {
+    fakeVolumeBoosterModule.setEffectCapabilities({ compressor: false });
+    await settingsManager.setSetting('compressorEnabled', true);
+    await compressorService.initialize();
+
+    expect(compressorService.getState()).toMatchObject({ available: false, enabled: true });
+    expect(fakeVolumeBoosterModule.getState().compressor).toBeNull();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
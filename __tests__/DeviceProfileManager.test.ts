@@ -0,0 +1,138 @@
+/**
+ * @format
+ */
+
+import type { AudioDeviceInfo } from '../src/modules/VolumeBoosterModule';
+
+const device = (name: string, type: string, id: number): AudioDeviceInfo => ({
+  name,
+  type,
+  typeId: 0,
+  id,
+  channels: '2',
+  encodings: 'PCM 16-bit',
+  sampleRates: '48000',
+});
+
+const SPEAKER = device('Built-in Speaker', 'Device Speaker', 2);
+const BUDS = device('Galaxy Buds', 'Bluetooth', 7);
+
+/**
+ * Loads fresh storage singletons, optionally seeding storage, and initializes them
+ */
+const loadFreshStorage = async (seed: Array<[string, string]> = []) => {
+  jest.resetModules();
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  await AsyncStorage.multiSet(seed);
+  const { initializeStorage } = require('../src/storage');
+  await initializeStorage();
+  return {
+    AsyncStorage,
+    settingsManager: require('../src/storage/SettingsManager').SettingsManager.getInstance(),
+    deviceProfileManager: require('../src/storage/DeviceProfileManager').DeviceProfileManager.getInstance(),
+    getDeviceProfileKey: require('../src/storage/DeviceProfileManager').getDeviceProfileKey,
+  };
+};
+
+/**
+ * Waits for the save started by a settings listener
+ */
+const flushSaves = () => new Promise<void>(resolve => setImmediate(resolve));
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await require('@react-native-async-storage/async-storage').clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('profile keys combine type, name and id', async () => {
+  const { getDeviceProfileKey } = await loadFreshStorage();
+
+  expect(getDeviceProfileKey(BUDS)).toBe('Bluetooth:Galaxy Buds:7');
+  expect(getDeviceProfileKey({ ...BUDS, id: 8 })).not.toBe(getDeviceProfileKey(BUDS));
+});
+
+test('creates a profile from the current settings the first time a device is seen', async () => {
+  const { settingsManager, deviceProfileManager } = await loadFreshStorage();
+  await settingsManager.setMultipleSettings({ boost: 60, volume: 40 });
+
+  await deviceProfileManager.handleDeviceChange(BUDS);
+
+  expect(deviceProfileManager.getActiveProfile()).toMatchObject({
+    key: 'Bluetooth:Galaxy Buds:7',
+    deviceName: 'Galaxy Buds',
+    settings: { boost: 60, volume: 40 },
+  });
+  expect(settingsManager.getSetting('boost')).toBe(60);
+});
+
+test('records setting changes in the active profile and switches on device change', async () => {
+  const { settingsManager, deviceProfileManager } = await loadFreshStorage();
+  const listener = jest.fn();
+  deviceProfileManager.addChangeListener(listener);
+
+  await deviceProfileManager.handleDeviceChange(SPEAKER);
+  await settingsManager.setSetting('boost', 30);
+
+  await deviceProfileManager.handleDeviceChange(BUDS);
+  await settingsManager.setMultipleSettings({ boost: 150, volume: 80 });
+
+  // Back on the speaker, its own values return
+  await deviceProfileManager.handleDeviceChange(SPEAKER);
+  expect(settingsManager.getSetting('boost')).toBe(30);
+  expect(settingsManager.getSetting('volume')).not.toBe(80);
+
+  await deviceProfileManager.handleDeviceChange(BUDS);
+  expect(settingsManager.getSetting('boost')).toBe(150);
+  expect(settingsManager.getSetting('volume')).toBe(80);
+
+  expect(listener).toHaveBeenLastCalledWith(
+    expect.objectContaining({ type: 'activated', previousKey: 'Device Speaker:Built-in Speaker:2' }),
+  );
+});
+
+test('falls back to the most recent speaker profile when the device disconnects', async () => {
+  const { settingsManager, deviceProfileManager } = await loadFreshStorage();
+
+  await deviceProfileManager.handleDeviceChange(SPEAKER);
+  await settingsManager.setSetting('boost', 20);
+  await deviceProfileManager.handleDeviceChange(BUDS);
+  await settingsManager.setSetting('boost', 170);
+
+  await deviceProfileManager.handleDeviceChange(null);
+
+  expect(deviceProfileManager.getActiveProfile()?.deviceType).toBe('Device Speaker');
+  expect(settingsManager.getSetting('boost')).toBe(20);
+});
+
+test('keeps the current settings when disconnecting without a speaker profile', async () => {
+  const { settingsManager, deviceProfileManager } = await loadFreshStorage();
+
+  await deviceProfileManager.handleDeviceChange(BUDS);
+  await settingsManager.setSetting('boost', 90);
+  await deviceProfileManager.handleDeviceChange(null);
+
+  expect(deviceProfileManager.getActiveProfile()?.key).toBe('Bluetooth:Galaxy Buds:7');
+  expect(settingsManager.getSetting('boost')).toBe(90);
+});
+
+test('saves profiles and loads them after a restart', async () => {
+  const first = await loadFreshStorage();
+  await first.deviceProfileManager.handleDeviceChange(BUDS);
+  await first.settingsManager.setSetting('boost', 110);
+  await flushSaves();
+
+  const stored = await first.AsyncStorage.getItem('@VolumeBooster_DeviceProfiles_v1');
+  expect(JSON.parse(stored)['Bluetooth:Galaxy Buds:7'].settings.boost).toBe(110);
+
+  const { settingsManager, deviceProfileManager } = await loadFreshStorage([['@VolumeBooster_DeviceProfiles_v1', stored]]);
+  await settingsManager.setSetting('boost', 0);
+  expect(deviceProfileManager.getProfiles()).toHaveLength(1);
+
+  await deviceProfileManager.handleDeviceChange(BUDS);
+  expect(settingsManager.getSetting('boost')).toBe(110);
+});
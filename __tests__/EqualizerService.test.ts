@@ -0,0 +1,111 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import {
+  fakeVolumeBoosterModule,
+  FAKE_EQUALIZER_LAYOUT,
+  FAKE_SPEAKER_DEVICE,
+} from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { deviceProfileManager } from '../src/storage/DeviceProfileManager';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import {
+  equalizerPresetLevels,
+  equalizerService,
+  fitBandLevels,
+} from '../src/services/EqualizerService';
+
+const HEADPHONES = { ...FAKE_SPEAKER_DEVICE, name: 'Headphones', type: 'Wired Headphones', typeId: 3, id: 7 };
+
+/**
+ * Lets the re-apply triggered by a settings change reach the native module
+ */
+const flush = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+  await ensureStorageReady();
+  await settingsManager.resetToDefaults();
+});
+
+afterEach(() => {
+  equalizerService.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('equalizer curves', () => {
+  test('interpolates presets onto the band layout', () => {
+    expect(equalizerPresetLevels('flat', FAKE_EQUALIZER_LAYOUT)).toEqual([0, 0, 0, 0, 0]);
+    expect(equalizerPresetLevels('bassBoost', FAKE_EQUALIZER_LAYOUT)).toEqual([600, 400, 0, 0, 0]);
+    expect(equalizerPresetLevels('treble', { ...FAKE_EQUALIZER_LAYOUT, maxLevel: 500 })).toEqual([0, 0, 0, 300, 500]);
+  });
+
+  test('fits custom curves saved for another band count', () => {
+    expect(fitBandLevels([300, -2000], FAKE_EQUALIZER_LAYOUT)).toEqual([300, -1500, 0, 0, 0]);
+    expect(fitBandLevels([100, 200, 300, 400, 500, 600, 700], FAKE_EQUALIZER_LAYOUT)).toEqual([100, 200, 300, 400, 500]);
+  });
+});
+
+describe('EqualizerService', () => {
+  test('applies the saved preset to the native equalizer', async () => {
+    await settingsManager.setMultipleSettings({ equalizerEnabled: true, equalizerPreset: 'vocal' });
+    await equalizerService.initialize();
+
+    const expected = equalizerPresetLevels('vocal', FAKE_EQUALIZER_LAYOUT);
+    expect(equalizerService.getState()).toMatchObject({ available: true, enabled: true, preset: 'vocal', levels: expected });
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ equalizerEnabled: true, equalizerBandLevels: expected });
+
+    await equalizerService.setEnabled(false);
+    await flush();
+    expect(fakeVolumeBoosterModule.getState().equalizerEnabled).toBe(false);
+  });
+
+  test('turns a band change into the custom curve', async () => {
+    await equalizerService.initialize();
+    await equalizerService.selectPreset('bassBoost');
+    await flush();
+
+    const result = await equalizerService.setBandLevel(3, -420);
+    await flush();
+
+    expect(result.success).toBe(true);
+    expect(settingsManager.getSetting('equalizerPreset')).toBe('custom');
+    expect(settingsManager.getSetting('equalizerCustomLevels')).toEqual([600, 400, 0, -400, 0]);
+    expect(fakeVolumeBoosterModule.getState().equalizerBandLevels).toEqual([600, 400, 0, -400, 0]);
+
+    expect((await equalizerService.setBandLevel(9, 0)).success).toBe(false);
+  });
+
+  test('reports devices without an equalizer', async () => {
+    fakeVolumeBoosterModule.failNextCall('getEqualizerBands', new Error('Equalizer is not available on this device'));
+    await equalizerService.initialize();
+
+    expect(equalizerService.getState()).toMatchObject({ available: false, layout: null });
+    expect(fakeVolumeBoosterModule.getState().equalizerBandLevels).toEqual([]);
+  });
+
+  test('remembers a curve per output device', async () => {
+    await equalizerService.initialize();
+    await deviceProfileManager.handleDeviceChange(FAKE_SPEAKER_DEVICE);
+    await equalizerService.selectPreset('smallSpeaker');
+
+    await deviceProfileManager.handleDeviceChange(HEADPHONES);
+    await equalizerService.selectPreset('bassBoost');
+
+    await deviceProfileManager.handleDeviceChange(null);
+    await flush();
+    expect(settingsManager.getSetting('equalizerPreset')).toBe('smallSpeaker');
+    expect(fakeVolumeBoosterModule.getState().equalizerBandLevels).toEqual(
+      equalizerPresetLevels('smallSpeaker', FAKE_EQUALIZER_LAYOUT),
+    );
+
+    await deviceProfileManager.handleDeviceChange(HEADPHONES);
+    expect(settingsManager.getSetting('equalizerPreset')).toBe('bassBoost');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { SettingsManager } from '../src/storage/SettingsManager';
+import { storageManager } from '../src/storage/StorageManager';
+import { audioStore } from '../src/store/AudioStore';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import {
+  ExposureTracker,
+  exposureTracker,
+  ExposureChangeEvent,
+  allowedExposureMs,
+  estimateListeningLevel,
+  exposureDose,
+} from '../src/services/ExposureTracker';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const HEADPHONES = {
+  name: 'Wired Headphones',
+  type: 'Wired Headphones',
+  typeId: 3,
+  id: 7,
+  channels: '2',
+  encodings: 'PCM 16-bit',
+  sampleRates: '48000',
+};
+
+/**
+ * Starts the store and tracker with the given boost applied
+ */
+const startTracking = async (appliedBoost: number) => {
+  await ensureStorageReady();
+  await audioStore.initialize();
+  audioStore.updateActual({ appliedBoostEnabled: appliedBoost > 0, appliedBoost });
+  await exposureTracker.initialize();
+};
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+  await require('@react-native-async-storage/async-storage').clear();
+});
+
+afterEach(async () => {
+  await exposureTracker.dispose();
+  await exposureTracker.resetToday();
+  audioStore.dispose();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('dose model', () => {
+  test('follows the NIOSH 85 dB / 8 hour limit with a 3 dB exchange rate', () => {
+    expect(exposureDose(85, 8 * HOUR_MS)).toBeCloseTo(1);
+    expect(exposureDose(88, 4 * HOUR_MS)).toBeCloseTo(1);
+    expect(allowedExposureMs(94)).toBeCloseTo(HOUR_MS);
+  });
+
+  test('estimates louder levels for headphones and boost', () => {
+    expect(estimateListeningLevel(0, 100, HEADPHONES)).toBeNull();
+    expect(estimateListeningLevel(100, 0, HEADPHONES)).toBeCloseTo(100);
+    expect(estimateListeningLevel(50, 0, HEADPHONES)).toBeCloseTo(94, 0);
+    expect(estimateListeningLevel(100, 40, HEADPHONES)).toBeCloseTo(110);
+    expect(estimateListeningLevel(100, 0, fakeVolumeBoosterModule.getState().devices[0])).toBeCloseTo(85);
+  });
+
+  test('estimates the boost gain with the boost curve and max gain', () => {
+    // 20% of the slider on the perceptual curve gives 10 * log2(1 + 0.2 * (2^5 - 1)) dB
+    expect(estimateListeningLevel(100, 40, HEADPHONES, 'perceptual', 50)).toBeCloseTo(128.5, 1);
+    expect(estimateListeningLevel(100, 40, HEADPHONES, 'logarithmic', 50)).toBeLessThan(110);
+    expect(estimateListeningLevel(100, 200, HEADPHONES, 'linear', 20)).toBeCloseTo(120);
+  });
+});
+
+describe('ExposureTracker', () => {
+  test('only counts time while music is playing', async () => {
+    await startTracking(0);
+
+    await jest.advanceTimersByTimeAsync(ExposureTracker.SAMPLE_INTERVAL_MS * 2);
+    expect(exposureTracker.getToday().listeningMs).toBe(0);
+
+    fakeVolumeBoosterModule.setMusicActive(true);
+    await jest.advanceTimersByTimeAsync(ExposureTracker.SAMPLE_INTERVAL_MS);
+    await jest.advanceTimersByTimeAsync(ExposureTracker.SAMPLE_INTERVAL_MS);
+
+    const today = exposureTracker.getToday();
+    expect(today.listeningMs).toBe(ExposureTracker.SAMPLE_INTERVAL_MS);
+    expect(today.boostedMs).toBe(0);
+    expect(today.levels).toEqual({ '85': ExposureTracker.SAMPLE_INTERVAL_MS });
+    expect(today.dose).toBeCloseTo(exposureDose(85, ExposureTracker.SAMPLE_INTERVAL_MS));
+  });
+
+  test('persists daily totals', async () => {
+    fakeVolumeBoosterModule.setMusicActive(true);
+    await startTracking(40);
+
+    await jest.advanceTimersByTimeAsync(ExposureTracker.SAMPLE_INTERVAL_MS);
+    await exposureTracker.dispose();
+
+    const stored = await storageManager.getItem<Record<string, { boostedMs: number }>>('@VolumeBooster_Exposure_v1');
+    const days = Object.values(stored.data ?? {});
+    expect(days).toHaveLength(1);
+    expect(days[0].boostedMs).toBe(ExposureTracker.SAMPLE_INTERVAL_MS);
+  });
+
+  test('turns boost off once the daily limit is reached', async () => {
+    await ensureStorageReady();
+    await SettingsManager.getInstance().setMultipleSettings({
+      boost: 200,
+      boostEnabled: true,
+      rampDurationMs: 0,
+      exposureAction: 'reduceBoost',
+    });
+    fakeVolumeBoosterModule.setMusicActive(true);
+    await startTracking(200);
+
+    const events: ExposureChangeEvent['type'][] = [];
+    exposureTracker.addChangeListener(event => events.push(event.type));
+
+    await jest.advanceTimersByTimeAsync(ExposureTracker.SAMPLE_INTERVAL_MS);
+
+    expect(events).toContain('limitReached');
+    expect(exposureTracker.getToday().limitReachedAt).not.toBeNull();
+    expect(SettingsManager.getInstance().getSetting('boostEnabled')).toBe(false);
+    expect(SettingsManager.getInstance().getSetting('boost')).toBe(200);
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boostEnabled: false, boost: 0 });
+
+    await jest.advanceTimersByTimeAsync(ExposureTracker.SAMPLE_INTERVAL_MS);
+    expect(events.filter(type => type === 'limitReached')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { settingsManager } from '../src/storage/SettingsManager';
+import { presetManager } from '../src/storage/PresetManager';
+import { safetyLockManager } from '../src/storage/SafetyLockManager';
+import { ensureStorageReady } from '../src/hooks/initialization';
+import { audioStore } from '../src/store/AudioStore';
+import { boostGainMillibels } from '../src/services/BoostCurve';
+import { notificationSync } from '../src/services/NotificationSync';
+
+/**
+ * Starts the background service with boost applied at the saved level
+ */
+const startServiceWithBoost = async (boost: number) => {
+  await settingsManager.setMultipleSettings({ boost, boostEnabled: true });
+  await fakeVolumeBoosterModule.setBackgroundMode(true);
+  await fakeVolumeBoosterModule.setBoostEnabled(true);
+  await fakeVolumeBoosterModule.setBoost(boost, boostGainMillibels(boost));
+};
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+  await ensureStorageReady();
+  await settingsManager.resetToDefaults();
+  await presetManager.replacePresets([]);
+  notificationSync.initialize();
+});
+
+afterEach(() => {
+  notificationSync.dispose();
+  audioStore.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('NotificationSync', () => {
+  test('saves boost changes from the notification and re-applies the curve gain', async () => {
+    await settingsManager.setSetting('boostCurve', 'perceptual');
+    await startServiceWithBoost(100);
+
+    fakeVolumeBoosterModule.pressNotificationAction('boostUp');
+    await notificationSync.whenIdle();
+
+    expect(settingsManager.getSetting('boost')).toBe(110);
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boost: 110, boostGainMillibels: boostGainMillibels(110) });
+
+    fakeVolumeBoosterModule.pressNotificationAction('boostDown');
+    fakeVolumeBoosterModule.pressNotificationAction('boostDown');
+    await notificationSync.whenIdle();
+
+    expect(settingsManager.getSetting('boost')).toBe(90);
+    expect(fakeVolumeBoosterModule.getState().boostGainMillibels).toBe(boostGainMillibels(90));
+  });
+
+  test('sends the boost steps the service steps boost with', async () => {
+    await settingsManager.setMultipleSettings({ boostCurve: 'logarithmic', maxBoostGainDb: 30 });
+    await safetyLockManager.setLock('1234', { maxBoost: 100, maxVolume: 100 });
+    await notificationSync.whenIdle();
+
+    const { steps } = fakeVolumeBoosterModule.getState().boostLimits;
+    expect(steps.map(step => step.boost)).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+    expect(steps[5].gainMillibels).toBe(boostGainMillibels(50));
+
+    await startServiceWithBoost(100);
+    fakeVolumeBoosterModule.pressNotificationAction('boostUp');
+
+    // The service caps the step and applies its gain before JS hears about it
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boost: 100, boostGainMillibels: boostGainMillibels(100) });
+    await notificationSync.whenIdle();
+    expect(settingsManager.getSetting('boost')).toBe(100);
+
+    await safetyLockManager.removeLock('1234');
+    await notificationSync.whenIdle();
+    const unlockedSteps = fakeVolumeBoosterModule.getState().boostLimits.steps;
+    expect(unlockedSteps[unlockedSteps.length - 1].boost).toBe(200);
+  });
+
+  test('saves the boost toggle from the notification', async () => {
+    await startServiceWithBoost(60);
+
+    fakeVolumeBoosterModule.pressNotificationAction('toggleBoost');
+    await notificationSync.whenIdle();
+
+    expect(settingsManager.getSetting('boostEnabled')).toBe(false);
+    expect(settingsManager.getSetting('boost')).toBe(60);
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boostEnabled: false, boost: 0 });
+    expect(audioStore.getState().actual).toMatchObject({ appliedBoostEnabled: false, appliedBoost: 0 });
+  });
+
+  test('cycles through the saved presets', async () => {
+    const presetSettings = { volume: 80, boostEnabled: true, gradualBoost: false };
+    const quiet = await presetManager.createPreset('Quiet', { ...presetSettings, boost: 20 });
+    const loud = await presetManager.createPreset('Loud', { ...presetSettings, boost: 150 });
+    await startServiceWithBoost(100);
+
+    fakeVolumeBoosterModule.pressNotificationAction('cyclePreset');
+    await notificationSync.whenIdle();
+    expect(settingsManager.getSetting('boost')).toBe(quiet!.settings.boost);
+
+    fakeVolumeBoosterModule.pressNotificationAction('cyclePreset');
+    await notificationSync.whenIdle();
+    expect(settingsManager.getSetting('boost')).toBe(loud!.settings.boost);
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boost: 150, boostGainMillibels: boostGainMillibels(150) });
+
+    fakeVolumeBoosterModule.pressNotificationAction('cyclePreset');
+    await notificationSync.whenIdle();
+    expect(settingsManager.getSetting('boost')).toBe(quiet!.settings.boost);
+  });
+
+  test('stopping from the notification turns background mode off', async () => {
+    await startServiceWithBoost(100);
+
+    fakeVolumeBoosterModule.pressNotificationAction('stopService');
+    await notificationSync.whenIdle();
+
+    expect(fakeVolumeBoosterModule.getState()).toMatchObject({ backgroundModeEnabled: false, serviceRunning: false });
+    expect(audioStore.getState().actual).toMatchObject({ backgroundModeEnabled: false, serviceRunning: false });
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @format
+ */
+
+import { presetMatchesSettings, BoostPreset } from '../src/storage/PresetManager';
+
+const QUIET = { volume: 40, boost: 0, boostEnabled: false, gradualBoost: false };
+const LOUD = { volume: 90, boost: 180, boostEnabled: true, gradualBoost: true };
+
+/**
+ * Loads fresh storage singletons, optionally seeding storage, and initializes them
+ */
+const loadFreshStorage = async (seed: Array<[string, string]> = []) => {
+  jest.resetModules();
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  await AsyncStorage.multiSet(seed);
+  const { initializeStorage } = require('../src/storage');
+  await initializeStorage();
+  return {
+    AsyncStorage,
+    settingsManager: require('../src/storage/SettingsManager').SettingsManager.getInstance(),
+    safetyLockManager: require('../src/storage/SafetyLockManager').SafetyLockManager.getInstance(),
+    presetManager: require('../src/storage/PresetManager').PresetManager.getInstance(),
+  };
+};
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  await require('@react-native-async-storage/async-storage').clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('creates presets from the given or the current settings and saves them', async () => {
+  const { AsyncStorage, settingsManager, presetManager } = await loadFreshStorage();
+  await settingsManager.setMultipleSettings({ volume: 55, boost: 75 });
+
+  const quiet = await presetManager.createPreset('  Quiet  ', QUIET);
+  const current = await presetManager.createPreset('Current');
+
+  expect(quiet).toMatchObject({ name: 'Quiet', settings: QUIET });
+  expect(current?.settings).toMatchObject({ volume: 55, boost: 75 });
+  expect(await presetManager.createPreset('   ')).toBeNull();
+
+  const stored = await AsyncStorage.getItem('@VolumeBooster_Presets_v1');
+  expect(JSON.parse(stored).map((preset: BoostPreset) => preset.name)).toEqual(['Quiet', 'Current']);
+
+  const { presetManager: reloaded } = await loadFreshStorage([['@VolumeBooster_Presets_v1', stored]]);
+  expect(reloaded.getPresets().map((preset: BoostPreset) => preset.id)).toEqual([quiet!.id, current!.id]);
+});
+
+test('renames and deletes presets and notifies listeners', async () => {
+  const { presetManager } = await loadFreshStorage();
+  const listener = jest.fn();
+  presetManager.addChangeListener(listener);
+  const preset = await presetManager.createPreset('Quiet', QUIET);
+
+  expect(await presetManager.renamePreset(preset!.id, 'Night')).toBe(true);
+  expect(presetManager.getPreset(preset!.id)?.name).toBe('Night');
+  expect(await presetManager.renamePreset(preset!.id, ' ')).toBe(false);
+  expect(await presetManager.renamePreset('missing', 'Night')).toBe(false);
+
+  expect(await presetManager.deletePreset(preset!.id)).toBe(true);
+  expect(presetManager.getPresets()).toEqual([]);
+  expect(await presetManager.deletePreset(preset!.id)).toBe(false);
+
+  expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['created', 'renamed', 'deleted']);
+});
+
+test('applies a preset to the settings', async () => {
+  const { settingsManager, presetManager } = await loadFreshStorage();
+  const preset = await presetManager.createPreset('Loud', LOUD);
+
+  expect(await presetManager.applyPreset(preset!.id)).toBe(true);
+  expect(settingsManager.getAllSettings()).toMatchObject(LOUD);
+  expect(await presetManager.applyPreset('missing')).toBe(false);
+});
+
+test('caps a preset above the safety lock instead of rejecting it', async () => {
+  const { settingsManager, safetyLockManager, presetManager } = await loadFreshStorage();
+  const preset = await presetManager.createPreset('Loud', LOUD);
+  await safetyLockManager.setLock('1234', { maxBoost: 100, maxVolume: 70 });
+
+  expect(await presetManager.applyPreset(preset!.id)).toBe(true);
+  expect(settingsManager.getAllSettings()).toMatchObject({ volume: 70, boost: 100, boostEnabled: true });
+
+  // The stored preset keeps its own values
+  expect(presetManager.getPreset(preset!.id)?.settings).toEqual(LOUD);
+});
+
+test('presetMatchesSettings compares every preset field', () => {
+  const preset: BoostPreset = { id: 'p', name: 'Loud', settings: LOUD, createdAt: 0, updatedAt: 0 };
+
+  expect(presetMatchesSettings(preset, { ...LOUD })).toBe(true);
+  expect(presetMatchesSettings(preset, { ...LOUD, volume: 89 })).toBe(false);
+  expect(presetMatchesSettings(preset, { ...LOUD, boost: 179 })).toBe(false);
+  expect(presetMatchesSettings(preset, { ...LOUD, boostEnabled: false })).toBe(false);
+  expect(presetMatchesSettings(preset, { ...LOUD, gradualBoost: false })).toBe(false);
+});
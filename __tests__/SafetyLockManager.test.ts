@@ -0,0 +1,127 @@
+/**
+ * @format
+ */
+
+import { sha256 } from '../src/storage/sha256';
+
+/**
+ * Loads fresh storage singletons, optionally seeding storage, and initializes them
+ */
+const loadFreshStorage = async (seed: Array<[string, string]> = []) => {
+  jest.resetModules();
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  await AsyncStorage.multiSet(seed);
+  const { initializeStorage } = require('../src/storage');
+  await initializeStorage();
+  return {
+    AsyncStorage,
+    settingsManager: require('../src/storage/SettingsManager').SettingsManager.getInstance(),
+    safetyLockManager: require('../src/storage/SafetyLockManager').SafetyLockManager.getInstance(),
+    presetManager: require('../src/storage/PresetManager').PresetManager.getInstance(),
+  };
+};
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await require('@react-native-async-storage/async-storage').clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('sha256 matches the reference digest', () => {
+  expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+});
+
+test('caps boost and volume in setSetting and setMultipleSettings', async () => {
+  const { settingsManager, safetyLockManager } = await loadFreshStorage();
+  await settingsManager.setMultipleSettings({ boost: 180, volume: 100 });
+
+  expect(await safetyLockManager.setLock('1234', { maxBoost: 100, maxVolume: 70 })).toEqual({ success: true });
+
+  // Current values above the caps are lowered
+  expect(settingsManager.getSetting('boost')).toBe(100);
+  expect(settingsManager.getSetting('volume')).toBe(70);
+
+  const result = await settingsManager.setSetting('boost', 150);
+  expect(result).toEqual({
+    success: false,
+    error: { field: 'boost', reason: 'locked', received: 150, repairedTo: 100 },
+  });
+
+  const multiple = await settingsManager.setMultipleSettings({ boost: 50, volume: 90 });
+  expect(multiple.success).toBe(false);
+  expect(multiple.errors.map((error: { field: string }) => error.field)).toEqual(['volume']);
+  expect(settingsManager.getSetting('boost')).toBe(100);
+});
+
+test('presets and imports cannot get around the cap', async () => {
+  const { settingsManager, safetyLockManager, presetManager } = await loadFreshStorage();
+  const preset = await presetManager.createPreset('Loud', {
+    volume: 100,
+    boost: 200,
+    boostEnabled: true,
+    gradualBoost: false,
+  });
+  const exported = await settingsManager.exportSettings();
+
+  await safetyLockManager.setLock('1234', { maxBoost: 50, maxVolume: 80 });
+
+  expect(await presetManager.applyPreset(preset.id)).toBe(true);
+  expect(settingsManager.getSetting('boost')).toBe(50);
+  expect(settingsManager.getSetting('volume')).toBe(80);
+
+  const imported = await settingsManager.importSettings({ ...exported, settings: { ...exported.settings, boost: 200 } });
+  expect(imported.success).toBe(true);
+  expect(settingsManager.getSetting('boost')).toBe(50);
+});
+
+test('requires the PIN to change or remove the lock and persists it', async () => {
+  const { AsyncStorage, safetyLockManager } = await loadFreshStorage();
+  await safetyLockManager.setLock('2468', { maxBoost: 100, maxVolume: 100 });
+
+  expect(await safetyLockManager.updateLimits('0000', { maxBoost: 200, maxVolume: 100 })).toEqual({
+    success: false,
+    error: 'Wrong PIN',
+  });
+  expect(safetyLockManager.getLimits().maxBoost).toBe(100);
+
+  // The lock survives a restart
+  const reloaded = await loadFreshStorage(await AsyncStorage.multiGet(['@VolumeBooster_SafetyLock_v1']));
+  expect(reloaded.safetyLockManager.isLocked()).toBe(true);
+  expect(reloaded.settingsManager.getSafetyLimits()).toEqual({ maxBoost: 100, maxVolume: 100 });
+
+  expect(await reloaded.safetyLockManager.removeLock('2468')).toEqual({ success: true });
+  expect(reloaded.safetyLockManager.isLocked()).toBe(false);
+  expect(reloaded.settingsManager.getSafetyLimits()).toEqual({ maxBoost: 200, maxVolume: 100 });
+});
+
+test('refuses PINs for a while after repeated wrong entries', async () => {
+  const { safetyLockManager } = await loadFreshStorage();
+  await safetyLockManager.setLock('1357', { maxBoost: 100, maxVolume: 100 });
+
+  for (let i = 0; i < 5; i++) {
+    await safetyLockManager.verifyPin('9999');
+  }
+
+  expect((await safetyLockManager.verifyPin('1357')).error).toContain('Too many wrong PINs');
+});
+
+test('keeps wrong PIN attempts and the lockout across restarts', async () => {
+  const first = await loadFreshStorage();
+  await first.safetyLockManager.setLock('1357', { maxBoost: 100, maxVolume: 100 });
+  for (let i = 0; i < 4; i++) {
+    await first.safetyLockManager.verifyPin('9999');
+  }
+
+  // The fifth wrong PIN after a restart still triggers the lockout
+  const second = await loadFreshStorage(await first.AsyncStorage.multiGet(['@VolumeBooster_SafetyLock_v1']));
+  await second.safetyLockManager.verifyPin('9999');
+
+  const third = await loadFreshStorage(await second.AsyncStorage.multiGet(['@VolumeBooster_SafetyLock_v1']));
+  expect((await third.safetyLockManager.verifyPin('1357')).error).toContain('Too many wrong PINs');
+  expect(third.safetyLockManager.isLocked()).toBe(true);
+});
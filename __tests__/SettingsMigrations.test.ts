@@ -0,0 +1,237 @@
+/**
+ * @format
+ */
+
+import {
+  SETTINGS_SCHEMA_VERSION,
+  SettingsMigration,
+  migrateSettings,
+} from '../src/storage/SettingsMigrations';
+
+const loadFreshSettingsManager = () => {
+  jest.resetModules();
+  const AsyncStorage = require('@react-native-async-storage/async-storage');
+  const { SettingsManager } = require('../src/storage/SettingsManager');
+  return { AsyncStorage, settingsManager: SettingsManager.getInstance() };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('migrateSettings', () => {
+  test('runs migrations in order and reports each step', () => {
+    const migrations: SettingsMigration[] = [
+      { fromVersion: 2, toVersion: 3, description: 'v2 -> v3', migrate: s => ({ ...s, b: 2 }) },
+      { fromVersion: 1, toVersion: 2, description: 'v1 -> v2', migrate: s => ({ ...s, a: 1 }) },
+    ];
+
+    const result = migrateSettings({}, 1, migrations, 3);
+
+    expect(result.settings).toEqual({ a: 1, b: 2 });
+    expect(result.applied).toEqual(['v1 -> v2', 'v2 -> v3']);
+    expect(result.toVersion).toBe(3);
+  });
+
+  test('does nothing for an up-to-date blob', () => {
+    const result = migrateSettings({ volume: 50 }, SETTINGS_SCHEMA_VERSION);
+
+    expect(result.settings).toEqual({ volume: 50 });
+    expect(result.applied).toEqual([]);
+  });
+
+  test('throws when a migration step is missing', () => {
+    expect(() => migrateSettings({}, 1, [], 2)).toThrow('No settings migration registered');
+  });
+});
+
+describe('SettingsManager legacy payloads', () => {
+  test('upgrades the unversioned v1 blob and removes the legacy key', async () => {
+    const { AsyncStorage, settingsManager } = loadFreshSettingsManager();
+    await AsyncStorage.setItem(
+      '@VolumeBooster_Settings_v2',
+      JSON.stringify({ volume: 40, boost: 120, gradualBoost: true, appOnlyBoost: false, boostEnabled: true }),
+    );
+
+    await settingsManager.initialize();
+
+    expect(settingsManager.getAllSettings()).toMatchObject({
+      volume: 40,
+      boost: 120,
+      gradualBoost: true,
+      appOnlyBoost: false,
+      boostEnabled: true,
+      autoVolumeEnabled: false,
+    });
+    expect(settingsManager.getLastLoadReport()).toMatchObject({
+      source: 'legacy',
+      fromVersion: 1,
+      toVersion: SETTINGS_SCHEMA_VERSION,
+      repairedFields: [],
+    });
+    expect(settingsManager.getLastLoadReport()?.migrationsApplied).toHaveLength(SETTINGS_SCHEMA_VERSION - 1);
+
+    const stored = JSON.parse(await AsyncStorage.getItem('@VolumeBooster_Settings'));
+    expect(stored.schemaVersion).toBe(SETTINGS_SCHEMA_VERSION);
+    expect(stored.settings.boost).toBe(120);
+    expect(await AsyncStorage.getItem('@VolumeBooster_Settings_v2')).toBeNull();
+  });
+
+  test('keeps valid fields when one legacy field is bad', async () => {
+    const { AsyncStorage, settingsManager } = loadFreshSettingsManager();
+    await AsyncStorage.setItem(
+      '@VolumeBooster_Settings_v2',
+      JSON.stringify({ volume: 70, boost: 'loud', gradualBoost: true, appOnlyBoost: false, boostEnabled: true }),
+    );
+
+    await settingsManager.initialize();
+
+    const settings = settingsManager.getAllSettings();
+    expect(settings.volume).toBe(70);
+    expect(settings.gradualBoost).toBe(true);
+    expect(settings.boostEnabled).toBe(true);
+    expect(settings.boost).toBe(0);
+    expect(settingsManager.getLastLoadReport()?.repairedFields).toEqual([
+      { field: 'boost', reason: 'type', received: 'loud', repairedTo: 0 },
+    ]);
+  });
+
+  test('does not re-run migrations on a current envelope', async () => {
+    const { AsyncStorage, settingsManager } = loadFreshSettingsManager();
+    await AsyncStorage.setItem(
+      '@VolumeBooster_Settings',
+      JSON.stringify({
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        settings: {
+          volume: 90,
+          boost: 30,
+          gradualBoost: false,
+          appOnlyBoost: false,
+          boostEnabled: false,
+          autoVolumeEnabled: true,
+        },
+      }),
+    );
+
+    await settingsManager.initialize();
+
+    expect(settingsManager.getSetting('autoVolumeEnabled')).toBe(true);
+    expect(settingsManager.getLastLoadReport()).toMatchObject({ source: 'stored', migrationsApplied: [] });
+  });
+
+  test('does not downgrade settings saved by a newer app version', async () => {
+    const { AsyncStorage, settingsManager } = loadFreshSettingsManager();
+    const stored = {
+      schemaVersion: SETTINGS_SCHEMA_VERSION + 1,
+      settings: { volume: 70, boost: 'loud', futureSetting: 'on' },
+    };
+    await AsyncStorage.setItem('@VolumeBooster_Settings', JSON.stringify(stored));
+
+    await settingsManager.initialize();
+
+    // Repaired in memory only
+    expect(settingsManager.getSetting('boost')).toBe(0);
+    expect(settingsManager.getLastLoadReport()?.toVersion).toBe(SETTINGS_SCHEMA_VERSION + 1);
+    expect(JSON.parse(await AsyncStorage.getItem('@VolumeBooster_Settings'))).toEqual(stored);
+
+    // Later saves keep the newer version and the unknown fields
+    await settingsManager.setSetting('volume', 40);
+    const saved = JSON.parse(await AsyncStorage.getItem('@VolumeBooster_Settings'));
+    expect(saved.schemaVersion).toBe(SETTINGS_SCHEMA_VERSION + 1);
+    expect(saved.settings).toMatchObject({ volume: 40, futureSetting: 'on' });
+  });
+});
+
+describe('SettingsManager import', () => {
+  test('rejects documents from a future schema with a clear error', async () => {
+    const { settingsManager } = loadFreshSettingsManager();
+    await settingsManager.initialize();
+
+    const result = await settingsManager.importSettings({
+      format: 'VolumeBoosterSettings',
+      documentVersion: 1,
+      schemaVersion: SETTINGS_SCHEMA_VERSION + 1,
+      appVersion: '9.0.0',
+      exportedAt: '2030-01-01T00:00:00.000Z',
+      settings: {},
+      presets: [],
+      deviceProfiles: [],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`schema v${SETTINGS_SCHEMA_VERSION + 1}`);
+    expect(result.error).toContain('update the app');
+  });
+
+  test('rejects values that are not settings documents', async () => {
+    const { settingsManager } = loadFreshSettingsManager();
+    await settingsManager.initialize();
+
+    for (const input of ['[1, 2]', 42, null, ['VolumeBoosterSettings']]) {
+      expect(await settingsManager.previewImport(input)).toEqual({
+        success: false,
+        error: 'This is not a Volume Booster settings file',
+        diff: [],
+      });
+    }
+    expect((await settingsManager.previewImport('{')).error).toBe('The settings file is not valid JSON');
+  });
+
+  describe('when a part fails to save', () => {
+    const loadStorage = async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const { settingsManager } = loadFreshSettingsManager();
+      await require('../src/storage').initializeStorage();
+      const presetManager = require('../src/storage/PresetManager').PresetManager.getInstance();
+      const deviceProfileManager = require('../src/storage/DeviceProfileManager').DeviceProfileManager.getInstance();
+
+      await presetManager.createPreset('Quiet', { volume: 40, boost: 0, boostEnabled: false, gradualBoost: false });
+      const exported = await settingsManager.exportSettings();
+      const document = { ...exported, settings: { ...exported.settings, boost: 150 }, presets: [] };
+      return { settingsManager, presetManager, deviceProfileManager, exported, document };
+    };
+
+    test('exports the version reported by the module', async () => {
+      const { exported } = await loadStorage();
+      expect(exported.appVersion).toBe('development');
+    });
+
+    test('rolls back the parts already written', async () => {
+      const { settingsManager, presetManager, deviceProfileManager, exported, document } = await loadStorage();
+      jest.spyOn(deviceProfileManager, 'replaceProfiles').mockResolvedValueOnce(false);
+
+      const result = await settingsManager.importSettings(document);
+
+      expect(result).toMatchObject({ success: false, error: 'Failed to save device profiles', applied: [] });
+      expect(settingsManager.getSetting('boost')).toBe(exported.settings.boost);
+      expect(presetManager.getPresets()).toEqual(exported.presets);
+    });
+
+    test('reports the parts that could not be restored', async () => {
+      const { settingsManager, presetManager, exported, document } = await loadStorage();
+      jest.spyOn(presetManager, 'replacePresets').mockResolvedValue(false);
+
+      const result = await settingsManager.importSettings(document);
+
+      expect(result.success).toBe(false);
+      expect(result.applied).toEqual(['presets']);
+      expect(result.error).toBe('Failed to save presets. Could not undo the imported presets.');
+      expect(settingsManager.getSetting('boost')).toBe(exported.settings.boost);
+    });
+
+    test('lists every part after a successful import', async () => {
+      const { settingsManager, presetManager, document } = await loadStorage();
+
+      const result = await settingsManager.importSettings(document);
+
+      expect(result).toMatchObject({ success: true, applied: ['settings', 'presets', 'deviceProfiles'] });
+      expect(settingsManager.getSetting('boost')).toBe(150);
+      expect(presetManager.getPresets()).toEqual([]);
+    });
+  });
+});
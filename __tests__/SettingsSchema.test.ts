@@ -0,0 +1,82 @@
+/**
+ * @format
+ */
+
+import {
+  describeSettingsError,
+  getDefaultSettings,
+  repairSettings,
+  validateSettingField,
+} from '../src/storage/SettingsSchema';
+
+describe('settings schema', () => {
+  test('accepts valid values', () => {
+    expect(validateSettingField('boost', 150)).toBeNull();
+    expect(validateSettingField('boostEnabled', true)).toBeNull();
+  });
+
+  test('reports structured errors with the repaired value', () => {
+    expect(validateSettingField('boost', 250)).toEqual({
+      field: 'boost',
+      reason: 'range',
+      received: 250,
+      repairedTo: 200,
+    });
+    expect(validateSettingField('boost', 12.5)).toEqual({
+      field: 'boost',
+      reason: 'step',
+      received: 12.5,
+      repairedTo: 13,
+    });
+    expect(validateSettingField('gradualBoost', 'yes')).toEqual({
+      field: 'gradualBoost',
+      reason: 'type',
+      received: 'yes',
+      repairedTo: false,
+    });
+  });
+
+  test('repairs only the offending fields', () => {
+    const { settings, errors } = repairSettings({
+      ...getDefaultSettings(),
+      volume: 35,
+      boost: 250,
+      boostEnabled: true,
+    });
+
+    expect(settings.volume).toBe(35);
+    expect(settings.boostEnabled).toBe(true);
+    expect(settings.boost).toBe(200);
+    expect(errors.map(error => error.field)).toEqual(['boost']);
+  });
+
+  test('fills missing fields with defaults', () => {
+    const { settings, errors } = repairSettings({ volume: 80 });
+
+    expect(settings).toEqual({ ...getDefaultSettings(), volume: 80 });
+    expect(errors.every(error => error.reason === 'missing')).toBe(true);
+  });
+
+  test('restricts enum fields to their listed values', () => {
+    expect(validateSettingField('rampCurve', 'equalLoudness')).toBeNull();
+
+    const unknown = validateSettingField('rampCurve', 'sine');
+    expect(unknown).toEqual({ field: 'rampCurve', reason: 'range', received: 'sine', repairedTo: 'linear' });
+    expect(describeSettingsError(unknown!)).toBe('rampCurve must be one of linear, exponential, equalLoudness (got sine)');
+
+    expect(validateSettingField('rampCurve', 3)?.reason).toBe('type');
+  });
+
+  test('checks every element of list fields', () => {
+    expect(validateSettingField('equalizerCustomLevels', [300, 0, -1500])).toBeNull();
+
+    expect(validateSettingField('equalizerCustomLevels', [300, 2000, -250])).toEqual({
+      field: 'equalizerCustomLevels',
+      reason: 'range',
+      received: [300, 2000, -250],
+      repairedTo: [300, 1500, -200],
+    });
+    expect(validateSettingField('equalizerCustomLevels', new Array(12).fill(0))?.repairedTo).toHaveLength(10);
+    expect(validateSettingField('equalizerCustomLevels', [0, 'loud'])).toMatchObject({ reason: 'type', repairedTo: [] });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { TestSignalWaveform } from '../src/modules/VolumeBoosterModule';
+import {
+  normalizeTestSignalOptions,
+  testSignalPlayer,
+  TEST_SIGNAL_DEFAULTS,
+} from '../src/services/TestSignalPlayer';
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  await fakeVolumeBoosterModule.initializeAudio();
+});
+
+afterEach(() => {
+  testSignalPlayer.dispose();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('normalizeTestSignalOptions', () => {
+  test('fills in defaults and clamps to the generator ranges', () => {
+    expect(normalizeTestSignalOptions()).toEqual(TEST_SIGNAL_DEFAULTS);
+    expect(normalizeTestSignalOptions({ frequency: 5, durationMs: 999999, levelDb: 6 })).toEqual({
+      ...TEST_SIGNAL_DEFAULTS,
+      frequency: 20,
+      durationMs: 60000,
+      levelDb: 0,
+    });
+  });
+
+  test('falls back to a sine for unknown waveforms', () => {
+    const options = normalizeTestSignalOptions({ waveform: 'square' as TestSignalWaveform });
+    expect(options.waveform).toBe('sine');
+  });
+});
+
+describe('TestSignalPlayer', () => {
+  test('plays until the signal duration has passed', async () => {
+    const result = await testSignalPlayer.play({ waveform: 'sweep', frequency: 8000, durationMs: 2000 });
+
+    expect(result).toEqual({ success: true });
+    expect(fakeVolumeBoosterModule.getState().testSignal).toEqual({
+      ...TEST_SIGNAL_DEFAULTS,
+      waveform: 'sweep',
+      frequency: 8000,
+      durationMs: 2000,
+    });
+    expect(testSignalPlayer.getState().playing).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(testSignalPlayer.getState().playing).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(testSignalPlayer.getState()).toEqual({
+      playing: false,
+      options: expect.objectContaining({ waveform: 'sweep' }),
+    });
+  });
+
+  test('stops a signal early and notifies listeners', async () => {
+    const listener = jest.fn();
+    testSignalPlayer.addChangeListener(listener);
+
+    await testSignalPlayer.play({ waveform: 'pinkNoise', durationMs: 10000 });
+    expect(await testSignalPlayer.stop()).toEqual({ success: true });
+
+    expect(testSignalPlayer.getState().playing).toBe(false);
+    expect(fakeVolumeBoosterModule.getState().testSignal).toBeNull();
+    expect(listener.mock.calls.map(([event]) => event.state.playing)).toEqual([true, true, false]);
+
+    testSignalPlayer.removeChangeListener(listener);
+  });
+
+  test('reports native failures', async () => {
+    fakeVolumeBoosterModule.failNextCall('playTestSignal', new Error('AudioTrack unavailable'));
+
+    expect(await testSignalPlayer.play()).toEqual({ success: false, error: 'AudioTrack unavailable' });
+    expect(testSignalPlayer.getState().playing).toBe(false);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Platform, Text } from 'react-native';
+import { fakeVolumeBoosterModule } from '../src/modules/FakeVolumeBoosterModule';
+import { SettingsManager } from '../src/storage/SettingsManager';
+import { audioStore } from '../src/store/AudioStore';
+import { resetAudioInitialization } from '../src/hooks/initialization';
+import VolumeBooster from '../src/components/VolumeBooster';
+
+const HEADPHONES = {
+  name: 'Wired Headphones',
+  type: 'Wired Headphones',
+  typeId: 3,
+  id: 7,
+  channels: '2',
+  encodings: 'PCM 16-bit',
+  sampleRates: '48000',
+};
+
+/**
+ * Lets pending promises and the post-initialization timeout settle
+ */
+const settle = async () => {
+  await ReactTestRenderer.act(async () => {
+    await new Promise<void>(resolve => setTimeout(resolve, 300));
+  });
+};
+
+let mounted: ReactTestRenderer.ReactTestRenderer | null = null;
+
+const renderVolumeBooster = async () => {
+  await ReactTestRenderer.act(async () => {
+    mounted = ReactTestRenderer.create(<VolumeBooster />);
+  });
+  await settle();
+  return mounted!;
+};
+
+const findByTestId = (renderer: ReactTestRenderer.ReactTestRenderer, testID: string) =>
+  renderer.root.find(node => node.props.testID === testID && typeof node.type !== 'string');
+
+const toggle = async (renderer: ReactTestRenderer.ReactTestRenderer, testID: string, value: boolean) => {
+  await ReactTestRenderer.act(async () => {
+    await findByTestId(renderer, testID).props.onValueChange(value);
+  });
+};
+
+const renderedText = (renderer: ReactTestRenderer.ReactTestRenderer) =>
+  renderer.root.findAllByType(Text).map(node => [].concat(node.props.children).join('')).join('\n');
+
+beforeEach(async () => {
+  jest.replaceProperty(Platform, 'OS', 'android');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  fakeVolumeBoosterModule.reset();
+  resetAudioInitialization();
+  await require('@react-native-async-storage/async-storage').clear();
+});
+
+afterEach(async () => {
+  if (mounted) {
+    await ReactTestRenderer.act(async () => {
+      mounted?.unmount();
+    });
+    mounted = null;
+  }
+  audioStore.dispose();
+  jest.restoreAllMocks();
+});
+
+test('toggling boost applies the saved level natively and persists it', async () => {
+  const renderer = await renderVolumeBooster();
+  await ReactTestRenderer.act(async () => {
+    await SettingsManager.getInstance().setSetting('boost', 60);
+  });
+
+  await toggle(renderer, 'boost-enabled-switch', true);
+
+  expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boostEnabled: true, boost: 60 });
+  expect(SettingsManager.getInstance().getSetting('boostEnabled')).toBe(true);
+
+  await toggle(renderer, 'boost-enabled-switch', false);
+
+  expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boostEnabled: false, boost: 0 });
+  expect(SettingsManager.getInstance().getSetting('boost')).toBe(60);
+});
+
+/**
+ * Calls a control's handler, then a second one 50 ms later while the first
+ * one's boost ramp is still running
+ */
+const interleave = async (renderer: ReactTestRenderer.ReactTestRenderer, first: [string, unknown], second: [string, unknown]) => {
+  await ReactTestRenderer.act(async () => {
+    const firstCall = findByTestId(renderer, first[0]).props.onValueChange(first[1]);
+    await new Promise<void>(resolve => setTimeout(resolve, 50));
+    const secondCall = findByTestId(renderer, second[0]).props.onValueChange(second[1]);
+    await Promise.all([firstCall, secondCall]);
+  });
+};
+
+test('a slider move during the enable ramp keeps boost enabled', async () => {
+  const renderer = await renderVolumeBooster();
+  await ReactTestRenderer.act(async () => {
+    await SettingsManager.getInstance().setMultipleSettings({ boost: 60, boostEnabled: false, rampDurationMs: 300 });
+  });
+
+  await interleave(renderer, ['boost-enabled-switch', true], ['boost-slider', 150]);
+
+  expect(SettingsManager.getInstance().getAllSettings()).toMatchObject({ boostEnabled: true, boost: 150 });
+  expect(audioStore.getState().actual).toMatchObject({ appliedBoostEnabled: true, appliedBoost: 150 });
+  expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boostEnabled: true, boost: 150 });
+});
+
+test('turning boost off during a slider ramp keeps the new level', async () => {
+  const renderer = await renderVolumeBooster();
+  await toggle(renderer, 'boost-enabled-switch', true);
+  await ReactTestRenderer.act(async () => {
+    await SettingsManager.getInstance().setMultipleSettings({ boost: 40, rampDurationMs: 300 });
+  });
+
+  await interleave(renderer, ['boost-slider', 130], ['boost-enabled-switch', false]);
+
+  expect(SettingsManager.getInstance().getAllSettings()).toMatchObject({ boostEnabled: false, boost: 130 });
+  expect(audioStore.getState().actual.appliedBoostEnabled).toBe(false);
+  expect(fakeVolumeBoosterModule.getState().boostEnabled).toBe(false);
+});
+
+test('shows the boost gain in dB and re-applies it when the max gain changes', async () => {
+  const renderer = await renderVolumeBooster();
+  await ReactTestRenderer.act(async () => {
+    await SettingsManager.getInstance().setSetting('boost', 100);
+  });
+
+  await toggle(renderer, 'boost-enabled-switch', true);
+
+  expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boost: 100, boostGainMillibels: 2500 });
+  expect(findByTestId(renderer, 'boost-gain-db').props.children).toBe('+25.0 dB');
+
+  await ReactTestRenderer.act(async () => {
+    await findByTestId(renderer, 'max-gain-20').props.onPress();
+  });
+
+  expect(SettingsManager.getInstance().getSetting('maxBoostGainDb')).toBe(20);
+  expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boost: 100, boostGainMillibels: 1000 });
+  expect(findByTestId(renderer, 'boost-gain-db').props.children).toBe('+10.0 dB');
+
+  await toggle(renderer, 'boost-enabled-switch', false);
+  expect(fakeVolumeBoosterModule.getState()).toMatchObject({ boost: 0, boostGainMillibels: 0 });
+});
+
+test('shows the new output device and keeps settings per device', async () => {
+  const renderer = await renderVolumeBooster();
+  expect(findByTestId(renderer, 'device-name').props.children).toBe('Device Speaker');
+
+  await ReactTestRenderer.act(() => {
+    fakeVolumeBoosterModule.connectDevice(HEADPHONES);
+  });
+  await settle();
+
+  expect(findByTestId(renderer, 'device-name').props.children).toBe('Wired Headphones');
+
+  await toggle(renderer, 'boost-enabled-switch', true);
+  await ReactTestRenderer.act(() => {
+    fakeVolumeBoosterModule.disconnectDevice(HEADPHONES.id);
+  });
+  await settle();
+
+  expect(findByTestId(renderer, 'device-name').props.children).toBe('Device Speaker');
+  expect(SettingsManager.getInstance().getSetting('boostEnabled')).toBe(false);
+  expect(fakeVolumeBoosterModule.getState().boostEnabled).toBe(false);
+});
+
+test('starts on the profile of headphones connected before launch', async () => {
+  let renderer = await renderVolumeBooster();
+  const speakerBoost = SettingsManager.getInstance().getSetting('boost');
+  await ReactTestRenderer.act(() => {
+    fakeVolumeBoosterModule.connectDevice(HEADPHONES);
+  });
+  await settle();
+  await ReactTestRenderer.act(async () => {
+    await SettingsManager.getInstance().setSetting('boost', 140);
+  });
+  await ReactTestRenderer.act(() => {
+    fakeVolumeBoosterModule.disconnectDevice(HEADPHONES.id);
+  });
+  await settle();
+  expect(SettingsManager.getInstance().getSetting('boost')).toBe(speakerBoost);
+  expect(speakerBoost).not.toBe(140);
+
+  // Relaunch with the headphones plugged in
+  await ReactTestRenderer.act(async () => {
+    mounted?.unmount();
+  });
+  audioStore.dispose();
+  fakeVolumeBoosterModule.reset();
+  resetAudioInitialization();
+  fakeVolumeBoosterModule.connectDevice(HEADPHONES);
+
+  renderer = await renderVolumeBooster();
+
+  expect(findByTestId(renderer, 'device-name').props.children).toBe('Wired Headphones');
+  expect(SettingsManager.getInstance().getSetting('boost')).toBe(140);
+});
+
+test('lists every connected output and marks the one playing', async () => {
+  const renderer = await renderVolumeBooster();
+  expect(findByTestId(renderer, 'audio-output-1')).toBeTruthy();
+
+  await ReactTestRenderer.act(() => {
+    fakeVolumeBoosterModule.connectDevice(HEADPHONES);
+  });
+  await settle();
+
+  const outputText = (id: number) =>
+    findByTestId(renderer, `audio-output-${id}`)
+      .findAllByType(Text)
+      .map(node => node.props.children)
+      .join(' ');
+  expect(outputText(1)).toBe('○ Device Speaker Device Speaker');
+  expect(outputText(HEADPHONES.id)).toBe('● Wired Headphones Playing');
+
+  await ReactTestRenderer.act(() => {
+    fakeVolumeBoosterModule.disconnectDevice(HEADPHONES.id);
+  });
+  await settle();
+
+  expect(renderer.root.findAll(node => node.props.testID === `audio-output-${HEADPHONES.id}`)).toHaveLength(0);
+  expect(outputText(1)).toBe('● Device Speaker Playing');
+});
+
+test('follows and saves volume changes made outside the app', async () => {
+  const renderer = await renderVolumeBooster();
+
+  await ReactTestRenderer.act(() => {
+    fakeVolumeBoosterModule.simulateVolumeChange(40);
+  });
+  await settle();
+
+  const volume = fakeVolumeBoosterModule.getState().volumeStep / 15 * 100;
+  expect(SettingsManager.getInstance().getSetting('volume')).toBeCloseTo(volume);
+  expect(renderedText(renderer)).toContain(`${volume.toFixed(0)}%`);
+});
+
+test('enabling background mode starts the service', async () => {
+  const renderer = await renderVolumeBooster();
+  expect(renderedText(renderer)).toContain('Audio boost only works when the app is active');
+
+  await toggle(renderer, 'background-mode-switch', true);
+
+  expect(fakeVolumeBoosterModule.getState()).toMatchObject({ backgroundModeEnabled: true, serviceRunning: true });
+  expect(renderedText(renderer)).toContain('Service Status: Running');
+
+  // The system stopping the service is reported through 'serviceStateChanged'
+  await ReactTestRenderer.act(() => {
+    fakeVolumeBoosterModule.setServiceRunning(false);
+  });
+
+  expect(renderedText(renderer)).toContain('Service Status: Not Running');
+});
@@ -0,0 +1,100 @@
+/**
+ * @format
+ */
+
+const mockNativeUnsubscribe = jest.fn();
+const mockNativeHandlers: Record<string, (payload: unknown) => void> = {};
+
+jest.mock('../src/modules/VolumeBoosterModule', () => ({
+  subscribe: jest.fn((event: string, handler: (payload: unknown) => void) => {
+    mockNativeHandlers[event] = handler;
+    return mockNativeUnsubscribe;
+  }),
+  VolumeBoosterModule: {
+    startDeviceMonitoring: jest.fn(),
+    stopDeviceMonitoring: jest.fn(),
+    startVolumeMonitoring: jest.fn(),
+    stopVolumeMonitoring: jest.fn(),
+  },
+}));
+
+import { subscribe, VolumeBoosterModule } from '../src/modules/VolumeBoosterModule';
+import { subscribeShared, getSharedHandlerCount } from '../src/hooks/nativeEventHub';
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+test('shares one native subscription between handlers', () => {
+  const first = jest.fn();
+  const second = jest.fn();
+
+  const unsubscribeFirst = subscribeShared('volumeChanged', first);
+  const unsubscribeSecond = subscribeShared('volumeChanged', second);
+
+  expect(subscribe).toHaveBeenCalledTimes(1);
+  expect(getSharedHandlerCount('volumeChanged')).toBe(2);
+
+  mockNativeHandlers.volumeChanged(42);
+  expect(first).toHaveBeenCalledWith(42);
+  expect(second).toHaveBeenCalledWith(42);
+
+  unsubscribeFirst();
+  expect(mockNativeUnsubscribe).not.toHaveBeenCalled();
+
+  unsubscribeSecond();
+  expect(mockNativeUnsubscribe).toHaveBeenCalledTimes(1);
+  expect(getSharedHandlerCount('volumeChanged')).toBe(0);
+});
+
+test('unsubscribing twice does not drop other handlers', () => {
+  const handler = jest.fn();
+  const other = jest.fn();
+
+  const unsubscribe = subscribeShared('audioDeviceChanged', handler);
+  subscribeShared('audioDeviceChanged', other);
+
+  unsubscribe();
+  unsubscribe();
+
+  expect(getSharedHandlerCount('audioDeviceChanged')).toBe(1);
+  mockNativeHandlers.audioDeviceChanged(null);
+  expect(other).toHaveBeenCalledWith(null);
+  expect(handler).not.toHaveBeenCalled();
+});
+
+test('monitors volume changes while the event has handlers', () => {
+  const unsubscribeFirst = subscribeShared('volumeChanged', jest.fn());
+  const unsubscribeSecond = subscribeShared('volumeChanged', jest.fn());
+
+  expect(VolumeBoosterModule.startVolumeMonitoring).toHaveBeenCalledTimes(1);
+  expect(VolumeBoosterModule.startDeviceMonitoring).not.toHaveBeenCalled();
+
+  unsubscribeFirst();
+  expect(VolumeBoosterModule.stopVolumeMonitoring).not.toHaveBeenCalled();
+
+  unsubscribeSecond();
+  expect(VolumeBoosterModule.stopVolumeMonitoring).toHaveBeenCalledTimes(1);
+
+  subscribeShared('volumeChanged', jest.fn());
+  expect(VolumeBoosterModule.startVolumeMonitoring).toHaveBeenCalledTimes(2);
+});
+
+test('does not monitor for events the native module always emits', () => {
+  const unsubscribe = subscribeShared('serviceStateChanged', jest.fn());
+  unsubscribe();
+
+  expect(VolumeBoosterModule.startDeviceMonitoring).not.toHaveBeenCalled();
+  expect(VolumeBoosterModule.startVolumeMonitoring).not.toHaveBeenCalled();
+});
+
+test('device events share one device monitor', () => {
+  // 'audioDeviceChanged' still has the handler left by an earlier test
+  expect(getSharedHandlerCount('audioDeviceChanged')).toBe(1);
+
+  const unsubscribe = subscribeShared('audioDevicesChanged', jest.fn());
+  unsubscribe();
+
+  expect(VolumeBoosterModule.startDeviceMonitoring).not.toHaveBeenCalled();
+  expect(VolumeBoosterModule.stopDeviceMonitoring).not.toHaveBeenCalled();
+});
@@ -0,0 +1,47 @@
+package com.volumebooster
+
+import android.content.Context
+import android.content.Intent
+import com.facebook.react.HeadlessJsTaskService
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.jstasks.HeadlessJsTaskConfig
+
+/**
+ * Runs the RestoreBoost headless JS task
+ *
+ * Started after a reboot and when the system restarts VolumeBoosterService
+ * after the app process was killed. The task reads the saved settings, starts
+ * the background service again and reapplies boost, so it works without the
+ * UI being opened.
+ */
+class BoostRestoreTaskService : HeadlessJsTaskService() {
+
+    override fun getTaskConfig(intent: Intent?): HeadlessJsTaskConfig {
+        val data = Arguments.createMap().apply {
+            putString("reason", intent?.getStringExtra(EXTRA_REASON) ?: REASON_BOOT)
+        }
+        return HeadlessJsTaskConfig(TASK_KEY, data, TASK_TIMEOUT_MS, true)
+    }
+
+    companion object {
+        /** Must match BOOST_RESTORE_TASK in src/services/BoostRestore.ts */
+        private const val TASK_KEY = "RestoreBoost"
+        private const val TASK_TIMEOUT_MS = 30_000L
+        private const val EXTRA_REASON = "reason"
+
+        const val REASON_BOOT = "boot"
+        const val REASON_SERVICE_RESTARTED = "serviceRestarted"
+
+        fun start(context: Context, reason: String) {
+            val intent = Intent(context, BoostRestoreTaskService::class.java).apply {
+                putExtra(EXTRA_REASON, reason)
+            }
+            try {
+                context.startService(intent)
+                acquireWakeLockNow(context)
+            } catch (e: Exception) {
+                android.util.Log.e("BoostRestoreTaskService", "Failed to start the restore task", e)
+            }
+        }
+    }
+}
@@ -0,0 +1,37 @@
+package com.volumebooster
+
+import android.content.Context
+import android.content.Intent
+import com.facebook.react.HeadlessJsTaskService
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.jstasks.HeadlessJsTaskConfig
+
+/**
+ * Runs the EvaluateBoostRules headless JS task
+ *
+ * Started by VolumeBoosterService when the alarm for the next boost rule
+ * check fires. The task applies the rule in effect and schedules the
+ * following check, so rules work without the UI being opened.
+ */
+class BoostRulesTaskService : HeadlessJsTaskService() {
+
+    override fun getTaskConfig(intent: Intent?): HeadlessJsTaskConfig {
+        return HeadlessJsTaskConfig(TASK_KEY, Arguments.createMap(), TASK_TIMEOUT_MS, true)
+    }
+
+    companion object {
+        /** Must match BOOST_RULES_TASK in src/services/BoostScheduler.ts */
+        private const val TASK_KEY = "EvaluateBoostRules"
+        private const val TASK_TIMEOUT_MS = 30_000L
+
+        fun start(context: Context) {
+            val intent = Intent(context, BoostRulesTaskService::class.java)
+            try {
+                context.startService(intent)
+                acquireWakeLockNow(context)
+            } catch (e: Exception) {
+                android.util.Log.e("BoostRulesTaskService", "Failed to start the boost rules task", e)
+            }
+        }
+    }
+}
@@ -0,0 +1,14 @@
+package com.volumebooster
+
+/**
+ * One step of the notification boost -/+: a boost level and its gain
+ *
+ * The steps are computed on the JS side, which caps them at the safety lock
+ * and maps each level with the boost curve, and sent with setBoostLimits.
+ */
+data class BoostStep(
+    /** Boost level (0-200%) */
+    val boost: Int,
+    /** Gain of the level, in millibels */
+    val gainMillibels: Int
+)
@@ -0,0 +1,24 @@
+package com.volumebooster
+
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+
+/**
+ * Restores background boost after the device boots
+ *
+ * Only runs the restore task if background mode was on before the reboot;
+ * the task itself checks the auto-start setting.
+ */
+class BootReceiver : BroadcastReceiver() {
+
+    override fun onReceive(context: Context, intent: Intent) {
+        if (intent.action != Intent.ACTION_BOOT_COMPLETED) {
+            return
+        }
+
+        if (VolumeBoosterService.isBackgroundModeRemembered(context)) {
+            BoostRestoreTaskService.start(context, BoostRestoreTaskService.REASON_BOOT)
+        }
+    }
+}
@@ -0,0 +1,482 @@
+package com.volumebooster
+
+import android.media.audiofx.AudioEffect
+import android.media.audiofx.BassBoost
+import android.media.audiofx.DynamicsProcessing
+import android.media.audiofx.Equalizer
+import android.media.audiofx.LoudnessEnhancer
+import android.media.audiofx.Virtualizer
+import android.os.Build
+import androidx.annotation.RequiresApi
+import java.util.UUID
+import kotlin.math.min
+
+/**
+ * LoudnessEnhancers and the optional effects (Equalizer, BassBoost,
+ * Virtualizer, DynamicsProcessing compressor) of the boosted audio sessions
+ *
+ * Boost is attached to explicit audio session IDs. With no sessions
+ * attached it is device-wide and uses the global session (ID 0). Gain,
+ * band levels, strengths, compressor settings and enabled states are kept
+ * here so effects created for newly attached sessions start at the current
+ * settings.
+ *
+ * Shared by VolumeBoosterModule (foreground boost) and VolumeBoosterService
+ * (background boost).
+ */
+class SessionBoost(private val logTag: String) {
+
+    /** Attached session IDs, in attach order; empty means device-wide */
+    private val sessions = linkedSetOf<Int>()
+
+    /** One enhancer per targeted session */
+    private val enhancers = mutableMapOf<Int, LoudnessEnhancer>()
+
+    /** Current target gain in millibels */
+    private var gainMillibels = 0
+
+    /** Whether the enhancers are enabled */
+    private var enabled = false
+
+    /** One equalizer per targeted session (missing where the session has none) */
+    private val equalizers = mutableMapOf<Int, Equalizer>()
+
+    /** Equalizer band levels in millibels, or null to keep the effect defaults */
+    private var bandLevels: ShortArray? = null
+
+    /** Whether the equalizers are enabled */
+    private var equalizerEnabled = false
+
+    /** One bass boost per targeted session (missing where unsupported) */
+    private val bassBoosts = mutableMapOf<Int, BassBoost>()
+
+    /** Bass boost strength (0-1000); 0 disables the effect */
+    private var bassBoostStrength: Short = 0
+
+    /** One virtualizer per targeted session (missing where unsupported) */
+    private val virtualizers = mutableMapOf<Int, Virtualizer>()
+
+    /** Virtualizer strength (0-1000); 0 disables the effect */
+    private var virtualizerStrength: Short = 0
+
+    /** One compressor per targeted session (missing below Android 9) */
+    private val compressors = mutableMapOf<Int, DynamicsProcessing>()
+
+    /** Compressor and limiter settings */
+    private var compressorSettings = CompressorSettings()
+
+    /**
+     * Attached session IDs (empty when boost is device-wide)
+     */
+    fun getSessions(): List<Int> = sessions.toList()
+
+    /**
+     * Whether boost applies to all device audio
+     */
+    fun isDeviceWide(): Boolean = sessions.isEmpty()
+
+    /**
+     * Attaches boost to an audio session
+     *
+     * @throws RuntimeException if no LoudnessEnhancer can be created for the session
+     */
+    fun attach(sessionId: Int) {
+        if (sessions.contains(sessionId)) {
+            return
+        }
+
+        // Create the enhancer first so an invalid session is not recorded
+        val enhancer = createEnhancer(sessionId)
+        if (sessions.isEmpty()) {
+            releaseAll()
+        }
+        sessions.add(sessionId)
+        enhancers[sessionId] = enhancer
+        createOptionalEffects(sessionId)
+    }
+
+    /**
+     * Detaches boost from an audio session; boost becomes device-wide
+     * once the last session is detached
+     */
+    fun detach(sessionId: Int) {
+        if (!sessions.remove(sessionId)) {
+            return
+        }
+
+        enhancers.remove(sessionId)?.release()
+        equalizers.remove(sessionId)?.release()
+        bassBoosts.remove(sessionId)?.release()
+        virtualizers.remove(sessionId)?.release()
+        compressors.remove(sessionId)?.release()
+        if (sessions.isEmpty()) {
+            recreate()
+        }
+    }
+
+    /**
+     * Replaces the attached sessions; sessions whose enhancer cannot be
+     * created are skipped
+     */
+    fun setSessions(sessionIds: Collection<Int>) {
+        releaseAll()
+        sessions.clear()
+        sessions.addAll(sessionIds)
+        recreate()
+    }
+
+    /**
+     * Recreates the effects of all targeted sessions
+     *
+     * Used when a fresh effect instance is needed (e.g. before restarting
+     * playback).
+     */
+    fun recreate() {
+        releaseAll()
+
+        for (sessionId in targetSessions()) {
+            try {
+                enhancers[sessionId] = createEnhancer(sessionId)
+                createOptionalEffects(sessionId)
+            } catch (e: Exception) {
+                android.util.Log.e(logTag, "Dropping audio session $sessionId", e)
+                sessions.remove(sessionId)
+            }
+        }
+
+        // Every attached session may have been dropped
+        if (sessions.isEmpty() && enhancers.isEmpty()) {
+            enhancers[GLOBAL_SESSION] = createEnhancer(GLOBAL_SESSION)
+            createOptionalEffects(GLOBAL_SESSION)
+        }
+    }
+
+    /**
+     * Sets the target gain of all enhancers
+     */
+    fun setGain(millibels: Int) {
+        gainMillibels = millibels
+        enhancers.values.forEach { it.setTargetGain(millibels) }
+    }
+
+    /**
+     * Enables or disables all enhancers
+     */
+    fun setEnabled(enabled: Boolean) {
+        this.enabled = enabled
+        enhancers.values.forEach { it.enabled = enabled }
+    }
+
+    /**
+     * Whether any enhancer exists
+     */
+    fun hasEnhancers(): Boolean = enhancers.isNotEmpty()
+
+    /**
+     * Sets the band levels of all equalizers
+     *
+     * Levels beyond the band count are ignored and missing bands keep
+     * their level; each level is clamped to the equalizer's range.
+     *
+     * @param levels Band levels in millibels, in band order
+     */
+    fun setBandLevels(levels: ShortArray) {
+        bandLevels = levels.copyOf()
+        equalizers.values.forEach { applyBandLevels(it, levels) }
+    }
+
+    /**
+     * Current band levels in millibels, or null if never set
+     */
+    fun getBandLevels(): ShortArray? = bandLevels?.copyOf()
+
+    /**
+     * Enables or disables all equalizers
+     */
+    fun setEqualizerEnabled(enabled: Boolean) {
+        equalizerEnabled = enabled
+        equalizers.values.forEach { it.enabled = enabled }
+    }
+
+    /**
+     * Whether the equalizers are enabled
+     */
+    fun isEqualizerEnabled(): Boolean = equalizerEnabled
+
+    /**
+     * Reads the band layout from one of the equalizers, or from a temporary
+     * equalizer on the global session if none exists
+     *
+     * @throws RuntimeException if the device has no equalizer effect
+     */
+    fun getEqualizerLayout(): EqualizerLayout {
+        equalizers.values.firstOrNull()?.let { return readLayout(it) }
+
+        val probe = Equalizer(0, GLOBAL_SESSION)
+        try {
+            return readLayout(probe)
+        } finally {
+            probe.release()
+        }
+    }
+
+    /**
+     * Sets the bass boost strength of all sessions
+     *
+     * @param strength 0-1000; 0 disables bass boost
+     */
+    fun setBassBoostStrength(strength: Int) {
+        bassBoostStrength = strength.coerceIn(0, MAX_STRENGTH).toShort()
+        bassBoosts.values.forEach { applyStrength(it, bassBoostStrength) }
+    }
+
+    /**
+     * Current bass boost strength (0-1000)
+     */
+    fun getBassBoostStrength(): Int = bassBoostStrength.toInt()
+
+    /**
+     * Sets the virtualizer strength of all sessions
+     *
+     * @param strength 0-1000; 0 disables the virtualizer
+     */
+    fun setVirtualizerStrength(strength: Int) {
+        virtualizerStrength = strength.coerceIn(0, MAX_STRENGTH).toShort()
+        virtualizers.values.forEach { applyStrength(it, virtualizerStrength) }
+    }
+
+    /**
+     * Current virtualizer strength (0-1000)
+     */
+    fun getVirtualizerStrength(): Int = virtualizerStrength.toInt()
+
+    /**
+     * Sets the compressor and limiter of all sessions
+     *
+     * Ignored below Android 9, where DynamicsProcessing does not exist.
+     */
+    fun setCompressor(settings: CompressorSettings) {
+        compressorSettings = settings
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.P) {
+            compressors.values.forEach { applyCompressor(it, settings) }
+        }
+    }
+
+    /**
+     * Current compressor and limiter settings
+     */
+    fun getCompressor(): CompressorSettings = compressorSettings
+
+    /**
+     * Releases all effects, keeping the attached sessions
+     */
+    fun release() {
+        releaseAll()
+    }
+
+    private fun targetSessions(): List<Int> = if (sessions.isEmpty()) listOf(GLOBAL_SESSION) else sessions.toList()
+
+    private fun createEnhancer(sessionId: Int): LoudnessEnhancer {
+        return LoudnessEnhancer(sessionId).apply {
+            setTargetGain(gainMillibels)
+            enabled = this@SessionBoost.enabled
+        }
+    }
+
+    /**
+     * Creates the equalizer, bass boost and virtualizer of a session
+     *
+     * Each effect is skipped if the device or session does not support it;
+     * a missing effect only disables that effect, boost still works.
+     */
+    private fun createOptionalEffects(sessionId: Int) {
+        createEffect("Equalizer", sessionId) {
+            Equalizer(0, sessionId).apply {
+                bandLevels?.let { applyBandLevels(this, it) }
+                enabled = equalizerEnabled
+            }
+        }?.let { equalizers[sessionId] = it }
+
+        if (isEffectSupported(AudioEffect.EFFECT_TYPE_BASS_BOOST)) {
+            createEffect("BassBoost", sessionId) {
+                BassBoost(0, sessionId).apply { applyStrength(this, bassBoostStrength) }
+            }?.let { bassBoosts[sessionId] = it }
+        }
+
+        if (isEffectSupported(AudioEffect.EFFECT_TYPE_VIRTUALIZER)) {
+            createEffect("Virtualizer", sessionId) {
+                Virtualizer(0, sessionId).apply { applyStrength(this, virtualizerStrength) }
+            }?.let { virtualizers[sessionId] = it }
+        }
+
+        if (isCompressorSupported()) {
+            createEffect("DynamicsProcessing", sessionId) {
+                createCompressor(sessionId)
+            }?.let { compressors[sessionId] = it }
+        }
+    }
+
+    /**
+     * Creates a DynamicsProcessing effect with a single full-band
+     * compressor stage followed by the limiter
+     */
+    @RequiresApi(Build.VERSION_CODES.P)
+    private fun createCompressor(sessionId: Int): DynamicsProcessing {
+        val config = DynamicsProcessing.Config.Builder(
+            DynamicsProcessing.VARIANT_FAVOR_FREQUENCY_RESOLUTION,
+            COMPRESSOR_CHANNELS,
+            false, 0,
+            true, 1,
+            false, 0,
+            true
+        ).build()
+
+        return DynamicsProcessing(0, sessionId, config).apply {
+            applyCompressor(this, compressorSettings)
+        }
+    }
+
+    @RequiresApi(Build.VERSION_CODES.P)
+    private fun applyCompressor(effect: DynamicsProcessing, settings: CompressorSettings) {
+        val band = DynamicsProcessing.MbcBand(
+            true,
+            COMPRESSOR_CUTOFF_HZ,
+            settings.attackMs,
+            settings.releaseMs,
+            settings.ratio,
+            settings.thresholdDb,
+            COMPRESSOR_KNEE_DB,
+            NOISE_GATE_OFF_DB,
+            1f,
+            0f,
+            0f
+        )
+        val limiter = DynamicsProcessing.Limiter(
+            true,
+            true,
+            0,
+            LIMITER_ATTACK_MS,
+            LIMITER_RELEASE_MS,
+            LIMITER_RATIO,
+            settings.ceilingDb,
+            0f
+        )
+
+        effect.setMbcBandAllChannelsTo(0, band)
+        effect.setLimiterAllChannelsTo(limiter)
+        effect.enabled = settings.enabled
+    }
+
+    private fun <T : AudioEffect> createEffect(name: String, sessionId: Int, create: () -> T): T? {
+        return try {
+            create()
+        } catch (e: Exception) {
+            android.util.Log.e(logTag, "No $name for audio session $sessionId", e)
+            null
+        }
+    }
+
+    private fun applyStrength(effect: AudioEffect, strength: Short) {
+        when (effect) {
+            is BassBoost -> if (effect.strengthSupported) effect.setStrength(strength)
+            is Virtualizer -> if (effect.strengthSupported) effect.setStrength(strength)
+        }
+        effect.enabled = strength > 0
+    }
+
+    private fun applyBandLevels(equalizer: Equalizer, levels: ShortArray) {
+        val range = equalizer.bandLevelRange
+        val bandCount = min(equalizer.numberOfBands.toInt(), levels.size)
+        for (band in 0 until bandCount) {
+            equalizer.setBandLevel(band.toShort(), levels[band].coerceIn(range[0], range[1]))
+        }
+    }
+
+    private fun readLayout(equalizer: Equalizer): EqualizerLayout {
+        val range = equalizer.bandLevelRange
+        val bands = (0 until equalizer.numberOfBands.toInt()).map { band ->
+            val frequencyRange = equalizer.getBandFreqRange(band.toShort())
+            EqualizerBand(
+                index = band,
+                centerFrequency = equalizer.getCenterFreq(band.toShort()) / 1000,
+                minFrequency = frequencyRange[0] / 1000,
+                maxFrequency = frequencyRange[1] / 1000
+            )
+        }
+        return EqualizerLayout(bands, range[0].toInt(), range[1].toInt())
+    }
+
+    private fun releaseAll() {
+        listOf(enhancers, equalizers, bassBoosts, virtualizers, compressors).forEach { effects ->
+            effects.values.forEach {
+                try {
+                    it.release()
+                } catch (e: Exception) {
+                    android.util.Log.e(logTag, "Failed to release ${it.javaClass.simpleName}", e)
+                }
+            }
+            effects.clear()
+        }
+    }
+
+    /**
+     * Equalizer band; frequencies in Hz
+     */
+    data class EqualizerBand(val index: Int, val centerFrequency: Int, val minFrequency: Int, val maxFrequency: Int)
+
+    /**
+     * Equalizer bands and the band level range in millibels
+     */
+    data class EqualizerLayout(val bands: List<EqualizerBand>, val minLevel: Int, val maxLevel: Int)
+
+    /**
+     * Compressor and output limiter settings
+     *
+     * Levels in dBFS, times in milliseconds. Disabled by default.
+     */
+    data class CompressorSettings(
+        val enabled: Boolean = false,
+        val thresholdDb: Float = -24f,
+        val ratio: Float = 4f,
+        val attackMs: Float = 10f,
+        val releaseMs: Float = 200f,
+        val ceilingDb: Float = -1f
+    )
+
+    companion object {
+        /** Session ID of the global output mix */
+        const val GLOBAL_SESSION = 0
+
+        /** Highest bass boost and virtualizer strength */
+        const val MAX_STRENGTH = 1000
+
+        private const val COMPRESSOR_CHANNELS = 2
+
+        /** Upper edge of the single compressor band; covers the audible range */
+        private const val COMPRESSOR_CUTOFF_HZ = 20000f
+        private const val COMPRESSOR_KNEE_DB = 6f
+
+        /** Gate threshold low enough to never close */
+        private const val NOISE_GATE_OFF_DB = -90f
+
+        private const val LIMITER_ATTACK_MS = 1f
+        private const val LIMITER_RELEASE_MS = 60f
+        private const val LIMITER_RATIO = 10f
+
+        /**
+         * Whether the device provides an effect of the given type
+         * (AudioEffect.EFFECT_TYPE_*)
+         */
+        fun isEffectSupported(type: UUID): Boolean {
+            return AudioEffect.queryEffects()?.any { it.type == type } == true
+        }
+
+        /**
+         * Whether the compressor can be used (DynamicsProcessing, Android 9+)
+         */
+        fun isCompressorSupported(): Boolean {
+            return Build.VERSION.SDK_INT >= Build.VERSION_CODES.P &&
+                isEffectSupported(AudioEffect.EFFECT_TYPE_DYNAMICS_PROCESSING)
+        }
+    }
+}
@@ -0,0 +1,208 @@
+package com.volumebooster
+
+import android.media.AudioAttributes
+import android.media.AudioFormat
+import android.media.AudioTrack
+import kotlin.math.PI
+import kotlin.math.max
+import kotlin.math.min
+import kotlin.math.pow
+import kotlin.math.sin
+import kotlin.random.Random
+
+/**
+ * Test signal generator
+ *
+ * Generates sine tones, pink noise and logarithmic sweeps and plays them on
+ * an audio session through a streaming AudioTrack. Samples are generated in
+ * chunks on a worker thread, so long signals are never held in memory and
+ * playback can be stopped at any time. Signals fade in and out to avoid
+ * clicks.
+ *
+ * @param onStateChanged Called with (playing, waveform) when playback starts and ends
+ */
+class TestSignalGenerator(private val onStateChanged: (Boolean, String) -> Unit) {
+
+    /** Worker thread of the signal currently playing */
+    @Volatile
+    private var worker: Thread? = null
+
+    /** Track of the signal currently playing */
+    @Volatile
+    private var track: AudioTrack? = null
+
+    /** Set to end the current signal early */
+    @Volatile
+    private var stopRequested = false
+
+    /**
+     * Whether a signal is playing
+     */
+    fun isPlaying(): Boolean = worker?.isAlive == true
+
+    /**
+     * Plays a test signal, stopping any signal already playing
+     *
+     * @param sessionId Audio session to play on
+     * @param waveform "sine", "pinkNoise" or "sweep"
+     * @param frequency Sine frequency, or end frequency of the sweep (Hz)
+     * @param durationMs Signal length in milliseconds
+     * @param levelDb Peak level in dBFS (0 = full scale)
+     * @throws IllegalArgumentException for an unknown waveform
+     */
+    fun play(sessionId: Int, waveform: String, frequency: Double, durationMs: Int, levelDb: Double) {
+        val totalSamples = (SAMPLE_RATE.toLong() * durationMs.coerceIn(MIN_DURATION_MS, MAX_DURATION_MS) / 1000).toInt()
+        val source = createSource(waveform, frequency.coerceIn(MIN_FREQUENCY, MAX_FREQUENCY), totalSamples)
+        val amplitude = 10.0.pow(levelDb.coerceIn(MIN_LEVEL_DB, 0.0) / 20.0)
+
+        stop()
+
+        val bufferSize = max(
+            AudioTrack.getMinBufferSize(SAMPLE_RATE, AudioFormat.CHANNEL_OUT_MONO, AudioFormat.ENCODING_PCM_16BIT),
+            CHUNK_SAMPLES * 2
+        )
+        val audioTrack = AudioTrack.Builder()
+            .setAudioAttributes(AudioAttributes.Builder()
+                .setUsage(AudioAttributes.USAGE_MEDIA)
+                .setContentType(AudioAttributes.CONTENT_TYPE_MUSIC)
+                .build())
+            .setAudioFormat(AudioFormat.Builder()
+                .setEncoding(AudioFormat.ENCODING_PCM_16BIT)
+                .setSampleRate(SAMPLE_RATE)
+                .setChannelMask(AudioFormat.CHANNEL_OUT_MONO)
+                .build())
+            .setBufferSizeInBytes(bufferSize)
+            .setTransferMode(AudioTrack.MODE_STREAM)
+            .setSessionId(sessionId)
+            .build()
+
+        stopRequested = false
+        track = audioTrack
+        val thread = Thread({ stream(audioTrack, source, totalSamples, amplitude, waveform) }, "TestSignalGenerator")
+        worker = thread
+
+        audioTrack.play()
+        onStateChanged(true, waveform)
+        thread.start()
+    }
+
+    /**
+     * Stops the current signal and waits briefly for its thread to finish
+     */
+    fun stop() {
+        val thread = worker ?: return
+        stopRequested = true
+        try {
+            track?.pause()
+            track?.flush()
+        } catch (e: IllegalStateException) {
+            // Track already stopped by the worker
+        }
+        thread.join(STOP_TIMEOUT_MS)
+    }
+
+    /**
+     * Writes the signal to the track chunk by chunk, then releases it
+     */
+    private fun stream(audioTrack: AudioTrack, source: (Int) -> Double, totalSamples: Int, amplitude: Double, waveform: String) {
+        val buffer = ShortArray(CHUNK_SAMPLES)
+        val fadeSamples = min(FADE_SAMPLES, totalSamples / 2)
+        var written = 0
+
+        try {
+            while (written < totalSamples && !stopRequested) {
+                val count = min(CHUNK_SAMPLES, totalSamples - written)
+                for (i in 0 until count) {
+                    val index = written + i
+                    val fade = when {
+                        index < fadeSamples -> index.toDouble() / fadeSamples
+                        index >= totalSamples - fadeSamples -> (totalSamples - index).toDouble() / fadeSamples
+                        else -> 1.0
+                    }
+                    val sample = (source(index) * amplitude * fade * Short.MAX_VALUE).toInt()
+                    buffer[i] = sample.coerceIn(Short.MIN_VALUE.toInt(), Short.MAX_VALUE.toInt()).toShort()
+                }
+                audioTrack.write(buffer, 0, count)
+                written += count
+            }
+        } catch (e: Exception) {
+            android.util.Log.e("TestSignalGenerator", "Test signal playback failed", e)
+        } finally {
+            try {
+                audioTrack.stop()
+            } catch (e: IllegalStateException) {
+                // Never started or already stopped
+            }
+            audioTrack.release()
+            if (track === audioTrack) {
+                track = null
+            }
+            if (worker === Thread.currentThread()) {
+                worker = null
+            }
+            onStateChanged(false, waveform)
+        }
+    }
+
+    /**
+     * Creates the sample source of a waveform: sample index -> value in [-1, 1]
+     *
+     * Sources keep state between samples and must be called in order.
+     */
+    private fun createSource(waveform: String, frequency: Double, totalSamples: Int): (Int) -> Double {
+        return when (waveform) {
+            WAVEFORM_SINE -> { index -> sin(2 * PI * frequency * index / SAMPLE_RATE) }
+            WAVEFORM_PINK_NOISE -> {
+                // Paul Kellet's economy pink noise filter over white noise
+                val random = Random(System.nanoTime())
+                var b0 = 0.0
+                var b1 = 0.0
+                var b2 = 0.0
+                val source: (Int) -> Double = {
+                    val white = random.nextDouble(-1.0, 1.0)
+                    b0 = 0.99765 * b0 + white * 0.0990460
+                    b1 = 0.96300 * b1 + white * 0.2965164
+                    b2 = 0.57000 * b2 + white * 1.0526913
+                    (b0 + b1 + b2 + white * 0.1848) * PINK_NOISE_GAIN
+                }
+                source
+            }
+            WAVEFORM_SWEEP -> {
+                // Logarithmic sweep from SWEEP_START_HZ up to the given frequency
+                val endFrequency = max(frequency, SWEEP_START_HZ)
+                var phase = 0.0
+                val source: (Int) -> Double = { index ->
+                    val progress = index.toDouble() / totalSamples
+                    val instantFrequency = SWEEP_START_HZ * (endFrequency / SWEEP_START_HZ).pow(progress)
+                    val value = sin(phase)
+                    phase += 2 * PI * instantFrequency / SAMPLE_RATE
+                    value
+                }
+                source
+            }
+            else -> throw IllegalArgumentException("Unknown test signal waveform: $waveform")
+        }
+    }
+
+    companion object {
+        const val WAVEFORM_SINE = "sine"
+        const val WAVEFORM_PINK_NOISE = "pinkNoise"
+        const val WAVEFORM_SWEEP = "sweep"
+
+        private const val SAMPLE_RATE = 44100
+        private const val CHUNK_SAMPLES = 2048
+        private const val FADE_SAMPLES = 441 // 10 ms
+        private const val STOP_TIMEOUT_MS = 500L
+
+        private const val MIN_FREQUENCY = 20.0
+        private const val MAX_FREQUENCY = 20000.0
+        private const val MIN_DURATION_MS = 100
+        private const val MAX_DURATION_MS = 60000
+        private const val MIN_LEVEL_DB = -60.0
+
+        private const val SWEEP_START_HZ = 20.0
+
+        /** Keeps the filtered noise roughly within full scale */
+        private const val PINK_NOISE_GAIN = 0.11
+    }
+}
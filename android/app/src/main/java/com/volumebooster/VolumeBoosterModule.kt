@@ -1,29 +1,29 @@
 package com.volumebooster
 
 // Android Audio System Imports
+import android.content.BroadcastReceiver
 import android.content.Context
 import android.content.ComponentName
 import android.content.Intent
+import android.content.IntentFilter
 import android.content.ServiceConnection
+import android.database.ContentObserver
+import android.media.AudioDeviceCallback
 import android.media.AudioDeviceInfo
 import android.media.AudioFormat
 import android.media.AudioManager
-import android.media.AudioTrack
-import android.media.audiofx.LoudnessEnhancer
+import android.media.audiofx.AudioEffect
 import android.os.Build
 import android.os.Handler
 import android.os.IBinder
 import android.os.Looper
+import android.provider.Settings
 import android.view.KeyEvent
 
 // React Native Bridge Imports
 import com.facebook.react.bridge.*
 import com.facebook.react.modules.core.DeviceEventManagerModule
 
-// Math Utilities for Test Sound Generation
-import kotlin.math.sin
-import kotlin.math.PI
-
 /**
  * Main VolumeBooster Native Module Class
  * 
@@ -37,36 +37,80 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
     // CLASS VARIABLES - Audio System State Management
     // ============================================================================
     
-    /** Android AudioManager instance for volume control and device management */
-    private lateinit var audioManager: AudioManager
+    /**
+     * Android AudioManager instance for volume control and device management
+     * 
+     * Lazy rather than set in initializeAudio(), since the JS event hub may
+     * start monitoring before the app initializes audio.
+     */
+    private val audioManager: AudioManager by lazy {
+        reactContext.getSystemService(Context.AUDIO_SERVICE) as AudioManager
+    }
     
-    /** Unique audio session ID for app-only boost mode */
+    /** Unique audio session ID of this app (test sound, app-only boost) */
     private var audioSessionID = 0
     
-    /** LoudnessEnhancer instance for audio boost processing (fallback for foreground) */
-    private var loudnessEnhancer: LoudnessEnhancer? = null
+    /** LoudnessEnhancers of the boosted audio sessions (fallback for foreground) */
+    private val sessionBoost = SessionBoost("VolumeBoosterModule")
+    
+    /** Audio sessions announced by media players: session ID -> package name */
+    private val openAudioSessions = linkedMapOf<Int, String>()
     
-    /** AudioTrack instance for test sound generation */
-    private var audioTrack: AudioTrack? = null
+    /** Whether the audio session receiver is registered */
+    private var isSessionReceiverRegistered = false
+    
+    /** Generator for test signals played on the app's audio session */
+    private val testSignalGenerator = TestSignalGenerator { playing, waveform ->
+        emitTestSignalStateChanged(playing, waveform)
+    }
     
     /** Flag to control boost enable/disable state */
     private var isBoostEnabled = true
     
-    /** Flag to control app-only vs device-wide boost mode */
-    private var isAppOnlyBoost = false
-    
     /** Current boost level for tracking */
     private var currentBoostLevel = 0
     
+    /** Gain for the current boost level in millibels, as mapped by the JS boost curve */
+    private var currentGainMillibels = 0
+    
     /** Last detected audio device ID for change detection */
     private var lastDeviceId: Int? = null
     
     /** Last detected volume level for change detection */
     private var lastVolumeLevel: Int = -1
     
-    /** Handler for background monitoring tasks */
+    /** Main-thread handler the device and volume callbacks run on */
     private val handler = Handler(Looper.getMainLooper())
     
+    /** Whether the audio device callback is registered */
+    private var isDeviceMonitoring = false
+    
+    /** Whether the volume observer is registered */
+    private var isVolumeMonitoring = false
+    
+    /**
+     * Emits 'audioDevicesChanged' and 'audioDeviceChanged' when output
+     * devices are connected or disconnected
+     */
+    private val audioDeviceCallback = object : AudioDeviceCallback() {
+        override fun onAudioDevicesAdded(addedDevices: Array<out AudioDeviceInfo>) {
+            emitDevicesChanged(addedDevices.filter { it.isSink }, emptyList())
+            emitDeviceIfChanged()
+        }
+        
+        override fun onAudioDevicesRemoved(removedDevices: Array<out AudioDeviceInfo>) {
+            emitDevicesChanged(emptyList(), removedDevices.filter { it.isSink })
+            emitDeviceIfChanged()
+        }
+    }
+    
+    /** Emits 'volumeChanged' when the system settings (including stream volumes) change */
+    private val volumeObserver = object : ContentObserver(handler) {
+        override fun onChange(selfChange: Boolean) {
+            emitVolumeIfChanged()
+        }
+    }
+    
     /** Background service connection and state */
     private var volumeBoosterService: VolumeBoosterService? = null
     private var isServiceBound = false
@@ -79,11 +123,101 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
             volumeBoosterService = binder.getService()
             volumeBoosterService?.setReactContext(reactContext)
             isServiceBound = true
+            handBoostToService()
+            volumeBoosterService?.emitServiceStateChanged(true)
         }
         
         override fun onServiceDisconnected(name: ComponentName?) {
             volumeBoosterService = null
             isServiceBound = false
+            emitServiceStateChanged(false)
+        }
+    }
+
+    /**
+     * Tracks the audio sessions that media players open and close
+     * 
+     * Players announce their sessions with ACTION_OPEN/CLOSE_AUDIO_EFFECT_CONTROL_SESSION
+     * so equalizer apps can attach effects. Closed sessions are detached from boost.
+     */
+    private val audioSessionReceiver = object : BroadcastReceiver() {
+        override fun onReceive(context: Context?, intent: Intent?) {
+            val sessionId = intent?.getIntExtra(AudioEffect.EXTRA_AUDIO_SESSION, AudioEffect.ERROR) ?: return
+            if (sessionId == AudioEffect.ERROR || sessionId == SessionBoost.GLOBAL_SESSION) {
+                return
+            }
+            val packageName = intent.getStringExtra(AudioEffect.EXTRA_PACKAGE_NAME) ?: ""
+            
+            when (intent.action) {
+                AudioEffect.ACTION_OPEN_AUDIO_EFFECT_CONTROL_SESSION -> {
+                    openAudioSessions[sessionId] = packageName
+                    emitAudioSessionEvent("audioSessionOpened", sessionId, packageName)
+                }
+                AudioEffect.ACTION_CLOSE_AUDIO_EFFECT_CONTROL_SESSION -> {
+                    openAudioSessions.remove(sessionId)
+                    if (sessionBoost.getSessions().contains(sessionId)) {
+                        sessionBoost.detach(sessionId)
+                        syncServiceSessions()
+                    }
+                    emitAudioSessionEvent("audioSessionClosed", sessionId, packageName)
+                }
+            }
+        }
+    }
+
+    /**
+     * Emits 'audioSessionOpened' / 'audioSessionClosed'
+     * Payload shape matches AudioSessionInfo in VolumeBoosterModule.ts
+     */
+    private fun emitAudioSessionEvent(eventName: String, sessionId: Int, packageName: String) {
+        try {
+            reactContext
+                .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+                .emit(eventName, audioSessionMap(sessionId, packageName))
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to emit $eventName", e)
+        }
+    }
+
+    private fun audioSessionMap(sessionId: Int, packageName: String): WritableMap {
+        return WritableNativeMap().apply {
+            putInt("sessionId", sessionId)
+            putString("packageName", packageName)
+        }
+    }
+
+    /**
+     * Emits 'testSignalStateChanged' when a test signal starts or ends
+     * Payload shape matches TestSignalStateChangedEvent in VolumeBoosterModule.ts
+     */
+    private fun emitTestSignalStateChanged(playing: Boolean, waveform: String) {
+        try {
+            val data = WritableNativeMap().apply {
+                putBoolean("playing", playing)
+                putString("waveform", waveform)
+            }
+            reactContext
+                .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+                .emit("testSignalStateChanged", data)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to emit testSignalStateChanged", e)
+        }
+    }
+
+    /**
+     * Emits 'serviceStateChanged' from the module side, used when the
+     * service connection is lost and the service can no longer emit itself
+     */
+    private fun emitServiceStateChanged(running: Boolean) {
+        try {
+            val data = WritableNativeMap().apply {
+                putBoolean("running", running)
+            }
+            reactContext
+                .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+                .emit("serviceStateChanged", data)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to emit serviceStateChanged", e)
         }
     }
 
@@ -99,6 +233,15 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
         return "VolumeBooster"
     }
 
+    /**
+     * Constants exposed to JavaScript as properties of the module
+     *
+     * appVersion is the versionName of the build, recorded in settings exports.
+     */
+    override fun getConstants(): Map<String, Any> {
+        return mapOf("appVersion" to BuildConfig.VERSION_NAME)
+    }
+
     // ============================================================================
     // AUDIO SYSTEM INITIALIZATION
     // ============================================================================
@@ -110,7 +253,7 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
      * 1. Gets the Android AudioManager service
      * 2. Generates a unique audio session ID for app-only boost mode
      * 3. Initializes LoudnessEnhancer with device-wide boost (session ID 0)
-     * 4. Sets device volume to maximum for optimal boost effect
+     * 4. Starts tracking audio sessions opened by media players
      * 5. Initializes volume level tracking
      * 
      * @param promise Promise to resolve with max volume level or reject with error
@@ -118,11 +261,11 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
     @ReactMethod
     fun initializeAudio(promise: Promise) {
         try {
-            audioManager = reactContext.getSystemService(Context.AUDIO_SERVICE) as AudioManager
             audioSessionID = audioManager.generateAudioSessionId()
             
             // Initialize with device-wide boost by default
-            loudnessEnhancer = LoudnessEnhancer(0)
+            sessionBoost.recreate()
+            registerAudioSessionReceiver()
             
             val maxVolume = audioManager.getStreamMaxVolume(AudioManager.STREAM_MUSIC)
             // audioManager.setStreamVolume(AudioManager.STREAM_MUSIC, maxVolume, 0)
@@ -137,6 +280,27 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
         }
     }
 
+    /**
+     * Registers the receiver for audio sessions opened and closed by media players
+     */
+    private fun registerAudioSessionReceiver() {
+        if (isSessionReceiverRegistered) {
+            return
+        }
+        
+        val filter = IntentFilter().apply {
+            addAction(AudioEffect.ACTION_OPEN_AUDIO_EFFECT_CONTROL_SESSION)
+            addAction(AudioEffect.ACTION_CLOSE_AUDIO_EFFECT_CONTROL_SESSION)
+        }
+        // The broadcasts come from other apps, so the receiver must be exported
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
+            reactContext.registerReceiver(audioSessionReceiver, filter, Context.RECEIVER_EXPORTED)
+        } else {
+            reactContext.registerReceiver(audioSessionReceiver, filter)
+        }
+        isSessionReceiverRegistered = true
+    }
+
     // ============================================================================
     // VOLUME CONTROL METHODS
     // ============================================================================
@@ -182,6 +346,23 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
         }
     }
 
+    /**
+     * Checks whether any app is currently playing music
+     * 
+     * Used by the exposure tracker to only count time while audio is
+     * actually playing.
+     * 
+     * @param promise Promise to resolve with true if music is active
+     */
+    @ReactMethod
+    fun isMusicActive(promise: Promise) {
+        try {
+            promise.resolve(audioManager.isMusicActive)
+        } catch (e: Exception) {
+            promise.reject("VOLUME_ERROR", "Failed to check music activity", e)
+        }
+    }
+
     // ============================================================================
     // AUDIO BOOST METHODS
     // ============================================================================
@@ -192,57 +373,36 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
      * This is the core method that applies real-time audio enhancement.
      * It supports both app-only and device-wide boost modes.
      * 
-     * BOOST CALCULATION FORMULA:
-     * - boostLevel * 25 = gain in millibels (mB)
-     * - 1000 mB = 1 dB
-     * - Examples: 100% = 25 dB, 200% = 50 dB
+     * GAIN:
+     * - The gain is mapped from the boost level on the JS side (BoostCurve.ts),
+     *   which owns the curve shape and the max-gain cap
+     * - LoudnessEnhancer gain is in millibels (mB), 100 mB = 1 dB
      * 
      * SESSION ID MANAGEMENT:
-     * - App-only mode: Uses app's unique audioSessionID
-     * - Device-wide mode: Uses session ID 0 (global)
+     * - Attached sessions: One LoudnessEnhancer per attached session ID
+     * - Device-wide mode (nothing attached): Uses session ID 0 (global)
      * 
      * @param boostLevel Boost percentage (0-200)
+     * @param gainMillibels Gain for the boost level in millibels
      * @param promise Promise to resolve on success or reject on error
      */
     @ReactMethod
-    fun setBoost(boostLevel: Int, promise: Promise) {
+    fun setBoost(boostLevel: Int, gainMillibels: Int, promise: Promise) {
         try {
-            // Track current boost level
+            // Track current boost level and gain
             currentBoostLevel = boostLevel
+            currentGainMillibels = gainMillibels
             
             if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
                 // Use background service for boost control
-                volumeBoosterService?.setBoost(boostLevel, isAppOnlyBoost)
+                volumeBoosterService?.setBoost(boostLevel, gainMillibels, sessionBoost.getSessions())
             } else {
-                // Use local LoudnessEnhancer for foreground boost
-                // Initialize LoudnessEnhancer with appropriate session ID
-                if (isAppOnlyBoost) {
-                    // For app-only boost, use the app's audio session ID
-                    // This means boost only affects audio from this specific app
-                    loudnessEnhancer?.release()
-                    loudnessEnhancer = LoudnessEnhancer(audioSessionID)
-                } else {
-                    // For device-wide boost, use session ID 0 (global)
-                    // This means boost affects ALL audio on the device
-                    loudnessEnhancer?.release()
-                    loudnessEnhancer = LoudnessEnhancer(0)
-                }
-                
-                // BOOST CALCULATION:
-                // Android LoudnessEnhancer uses millibels (mB) where 1000 mB = 1 dB
-                // Formula: boostLevel * 25 = gain in millibels
-                // Examples:
-                // - 100% boost = 100 * 25 = 2500 mB = 25 dB
-                // - 200% boost = 200 * 25 = 5000 mB = 50 dB
-                // 
-                // TO CHANGE MAX BOOST LEVEL:
-                // 1. Change the multiplier (currently 25) to adjust gain per percentage
-                // 2. Higher multiplier = more gain per percentage point
-                // 3. Lower multiplier = less gain per percentage point
-                // 4. Android LoudnessEnhancer max is ~100 dB (10,000 mB)
-                // 5. So theoretical max with current formula: 400% (400 * 25 = 10,000 mB)
-                loudnessEnhancer?.setTargetGain(boostLevel * 25)
-                loudnessEnhancer?.enabled = true
+                // Use local LoudnessEnhancers for foreground boost
+                // Recreate one LoudnessEnhancer per attached session, or a single
+                // one on session ID 0 (global) when boost is device-wide
+                sessionBoost.recreate()
+                sessionBoost.setGain(gainMillibels)
+                sessionBoost.setEnabled(true)
                 
                 // Restart audio playback to apply the boost effect
                 if (isBoostEnabled) {
@@ -256,6 +416,40 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
         }
     }
 
+    /**
+     * Adjusts the boost gain without recreating the LoudnessEnhancer
+     * 
+     * Used for the intermediate steps of a boost ramp. Unlike setBoost, this
+     * keeps the current enhancer and audio session and does not restart
+     * playback, so it can be called many times per second. While boost is
+     * disabled only the stored level and the target gain change.
+     * 
+     * @param boostLevel Boost percentage (0-200)
+     * @param gainMillibels Gain for the boost level in millibels
+     * @param promise Promise to resolve on success or reject on error
+     */
+    @ReactMethod
+    fun setBoostGain(boostLevel: Int, gainMillibels: Int, promise: Promise) {
+        try {
+            currentBoostLevel = boostLevel
+            currentGainMillibels = gainMillibels
+            
+            if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
+                volumeBoosterService?.setGain(boostLevel, gainMillibels)
+            } else {
+                if (!sessionBoost.hasEnhancers() && isBoostEnabled) {
+                    sessionBoost.recreate()
+                }
+                sessionBoost.setGain(gainMillibels)
+                sessionBoost.setEnabled(isBoostEnabled && boostLevel > 0)
+            }
+            
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("BOOST_ERROR", "Failed to set boost gain", e)
+        }
+    }
+
     /**
      * Sets the boost enabled state
      * 
@@ -275,14 +469,14 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
                 volumeBoosterService?.enableBoost(enabled)
             } else {
                 // Use local LoudnessEnhancer for foreground boost
-                if (loudnessEnhancer != null) {
+                if (sessionBoost.hasEnhancers()) {
                     if (!enabled) {
-                        // If disabling boost, turn off loudness enhancer and set gain to 0
-                        loudnessEnhancer?.setTargetGain(0)
-                        loudnessEnhancer?.enabled = false
+                        // If disabling boost, turn off loudness enhancers and set gain to 0
+                        sessionBoost.setGain(0)
+                        sessionBoost.setEnabled(false)
                     } else {
-                        // If enabling boost, turn on loudness enhancer
-                        loudnessEnhancer?.enabled = true
+                        // If enabling boost, turn on loudness enhancers
+                        sessionBoost.setEnabled(true)
                     }
                 }
             }
@@ -296,12 +490,9 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
     /**
      * Toggles between app-only and device-wide boost modes
      * 
-     * This method switches the LoudnessEnhancer session ID:
-     * - App-only mode: Uses app's unique audioSessionID
-     * - Device-wide mode: Uses session ID 0 (global)
-     * 
-     * When switching modes, the LoudnessEnhancer is recreated with the new session ID
-     * to ensure proper audio isolation or global effect.
+     * Shorthand for the session API: app-only mode attaches boost to the
+     * app's own audioSessionID only, device-wide mode detaches all sessions
+     * so session ID 0 (global) is used.
      * 
      * @param enabled true for app-only boost, false for device-wide boost
      * @param promise Promise to resolve on success or reject on error
@@ -309,24 +500,362 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
     @ReactMethod
     fun setAppOnlyBoost(enabled: Boolean, promise: Promise) {
         try {
-            isAppOnlyBoost = enabled
+            sessionBoost.setSessions(if (enabled) listOf(audioSessionID) else emptyList())
+            syncServiceSessions()
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("APP_ONLY_BOOST_ERROR", "Failed to set app-only boost mode", e)
+        }
+    }
+
+    // ============================================================================
+    // AUDIO SESSION TARGETING METHODS
+    // ============================================================================
+
+    /**
+     * Gets the audio session ID of this app
+     * 
+     * Audio played by the app (e.g. the test sound) uses this session.
+     * 
+     * @param promise Promise to resolve with the session ID
+     */
+    @ReactMethod
+    fun getAppAudioSessionId(promise: Promise) {
+        promise.resolve(audioSessionID)
+    }
+
+    /**
+     * Attaches boost to an audio session
+     * 
+     * Once at least one session is attached, boost only applies to the
+     * attached sessions instead of all device audio. The session must be
+     * open (e.g. announced by a media player); closed sessions are detached
+     * automatically.
+     * 
+     * @param sessionId Audio session ID (non-zero)
+     * @param promise Promise to resolve on success or reject with "SESSION_ERROR"
+     */
+    @ReactMethod
+    fun attachBoostToSession(sessionId: Int, promise: Promise) {
+        if (sessionId == SessionBoost.GLOBAL_SESSION) {
+            promise.reject("SESSION_ERROR", "Session 0 is the global mix; detach all sessions for device-wide boost")
+            return
+        }
+        
+        try {
+            sessionBoost.attach(sessionId)
+            syncServiceSessions()
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("SESSION_ERROR", "Failed to attach boost to audio session $sessionId", e)
+        }
+    }
+
+    /**
+     * Detaches boost from an audio session
+     * 
+     * Boost becomes device-wide again once the last session is detached.
+     * 
+     * @param sessionId Audio session ID
+     * @param promise Promise to resolve on success or reject with "SESSION_ERROR"
+     */
+    @ReactMethod
+    fun detachBoostFromSession(sessionId: Int, promise: Promise) {
+        try {
+            sessionBoost.detach(sessionId)
+            syncServiceSessions()
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("SESSION_ERROR", "Failed to detach boost from audio session $sessionId", e)
+        }
+    }
+
+    /**
+     * Gets the audio sessions boost is attached to
+     * 
+     * @param promise Promise to resolve with the session IDs (empty when boost is device-wide)
+     */
+    @ReactMethod
+    fun getBoostedSessions(promise: Promise) {
+        val sessions = WritableNativeArray()
+        sessionBoost.getSessions().forEach { sessions.pushInt(it) }
+        promise.resolve(sessions)
+    }
+
+    /**
+     * Gets the audio sessions currently announced by media players
+     * 
+     * @param promise Promise to resolve with an array of { sessionId, packageName }
+     */
+    @ReactMethod
+    fun getOpenAudioSessions(promise: Promise) {
+        val sessions = WritableNativeArray()
+        openAudioSessions.forEach { (sessionId, packageName) ->
+            sessions.pushMap(audioSessionMap(sessionId, packageName))
+        }
+        promise.resolve(sessions)
+    }
+
+    /**
+     * Hands the attached sessions to the background service, if it is in control
+     */
+    private fun syncServiceSessions() {
+        if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
+            volumeBoosterService?.setBoost(currentBoostLevel, currentGainMillibels, sessionBoost.getSessions())
+        }
+    }
+
+    /**
+     * Moves the boost applied so far by the module to a newly bound service
+     *
+     * Covers boost set while the service was still starting, e.g. by the
+     * restore task after a reboot. The module's own effects are released so
+     * the gain is not applied twice; the other effects are pushed again from
+     * JS on serviceStateChanged.
+     */
+    private fun handBoostToService() {
+        val service = volumeBoosterService ?: return
+        if (!isBackgroundModeEnabled) {
+            return
+        }
+
+        sessionBoost.release()
+        service.enableBoost(isBoostEnabled)
+        service.setBoost(currentBoostLevel, currentGainMillibels, sessionBoost.getSessions())
+    }
+
+    // ============================================================================
+    // EQUALIZER METHODS
+    // ============================================================================
+
+    /**
+     * Gets the equalizer band layout of the device
+     * 
+     * Resolves with { bands: [{ index, centerFrequency, minFrequency, maxFrequency }],
+     * minLevel, maxLevel }. Frequencies are in Hz, levels in millibels.
+     * 
+     * @param promise Promise to resolve with the layout or reject with "EQUALIZER_ERROR"
+     */
+    @ReactMethod
+    fun getEqualizerBands(promise: Promise) {
+        try {
+            val layout = sessionBoost.getEqualizerLayout()
+            val bands = WritableNativeArray()
+            layout.bands.forEach { band ->
+                bands.pushMap(WritableNativeMap().apply {
+                    putInt("index", band.index)
+                    putInt("centerFrequency", band.centerFrequency)
+                    putInt("minFrequency", band.minFrequency)
+                    putInt("maxFrequency", band.maxFrequency)
+                })
+            }
+            
+            promise.resolve(WritableNativeMap().apply {
+                putArray("bands", bands)
+                putInt("minLevel", layout.minLevel)
+                putInt("maxLevel", layout.maxLevel)
+            })
+        } catch (e: Exception) {
+            promise.reject("EQUALIZER_ERROR", "Equalizer is not available on this device", e)
+        }
+    }
+
+    /**
+     * Sets the equalizer band levels
+     * 
+     * Applies to the same sessions as boost, through the background service
+     * while it is in control (like setBoost). Levels are clamped to the
+     * band level range.
+     * 
+     * @param levels Band levels in millibels, in band order
+     * @param promise Promise to resolve on success or reject with "EQUALIZER_ERROR"
+     */
+    @ReactMethod
+    fun setEqualizerBandLevels(levels: ReadableArray, promise: Promise) {
+        try {
+            val bandLevels = ShortArray(levels.size()) { index ->
+                levels.getDouble(index).toInt().coerceIn(Short.MIN_VALUE.toInt(), Short.MAX_VALUE.toInt()).toShort()
+            }
             
             if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
-                // Use background service for boost control
-                volumeBoosterService?.setBoost(currentBoostLevel, enabled)
+                volumeBoosterService?.let { it.setEqualizer(it.isEqualizerEnabled(), bandLevels) }
             } else {
-                // Reinitialize loudness enhancer with appropriate session ID
-                loudnessEnhancer?.release()
-                loudnessEnhancer = if (enabled) {
-                    LoudnessEnhancer(audioSessionID)
-                } else {
-                    LoudnessEnhancer(0)
-                }
+                sessionBoost.setBandLevels(bandLevels)
             }
             
             promise.resolve(null)
         } catch (e: Exception) {
-            promise.reject("APP_ONLY_BOOST_ERROR", "Failed to set app-only boost mode", e)
+            promise.reject("EQUALIZER_ERROR", "Failed to set equalizer band levels", e)
+        }
+    }
+
+    /**
+     * Gets the equalizer band levels last set
+     * 
+     * @param promise Promise to resolve with the levels in millibels (empty if never set)
+     */
+    @ReactMethod
+    fun getEqualizerBandLevels(promise: Promise) {
+        val bandLevels = if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
+            volumeBoosterService?.getEqualizerBandLevels()
+        } else {
+            sessionBoost.getBandLevels()
+        }
+        
+        val levels = WritableNativeArray()
+        bandLevels?.forEach { levels.pushInt(it.toInt()) }
+        promise.resolve(levels)
+    }
+
+    /**
+     * Enables or disables the equalizer
+     * 
+     * @param enabled true to apply the band levels, false to bypass the equalizer
+     * @param promise Promise to resolve on success or reject with "EQUALIZER_ERROR"
+     */
+    @ReactMethod
+    fun setEqualizerEnabled(enabled: Boolean, promise: Promise) {
+        try {
+            if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
+                volumeBoosterService?.setEqualizer(enabled, null)
+            } else {
+                sessionBoost.setEqualizerEnabled(enabled)
+            }
+            
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("EQUALIZER_ERROR", "Failed to set equalizer enabled state", e)
+        }
+    }
+
+    // ============================================================================
+    // BASS BOOST AND VIRTUALIZER METHODS
+    // ============================================================================
+
+    /**
+     * Reports which optional audio effects the device provides
+     * 
+     * Resolves with { bassBoost, virtualizer, equalizer } booleans. Devices
+     * (or audio HALs) without an effect cannot apply its strength.
+     * 
+     * @param promise Promise to resolve with the capabilities
+     */
+    @ReactMethod
+    fun getAudioEffectCapabilities(promise: Promise) {
+        try {
+            promise.resolve(WritableNativeMap().apply {
+                putBoolean("bassBoost", SessionBoost.isEffectSupported(AudioEffect.EFFECT_TYPE_BASS_BOOST))
+                putBoolean("virtualizer", SessionBoost.isEffectSupported(AudioEffect.EFFECT_TYPE_VIRTUALIZER))
+                putBoolean("equalizer", SessionBoost.isEffectSupported(AudioEffect.EFFECT_TYPE_EQUALIZER))
+                putBoolean("compressor", SessionBoost.isCompressorSupported())
+            })
+        } catch (e: Exception) {
+            promise.reject("EFFECT_ERROR", "Failed to query audio effects", e)
+        }
+    }
+
+    /**
+     * Sets the bass boost strength
+     * 
+     * Applies to the same sessions as boost, through the background service
+     * while it is in control (like setBoost).
+     * 
+     * @param strength Strength in percent (0-100); 0 disables bass boost
+     * @param promise Promise to resolve on success or reject with "EFFECT_ERROR"
+     */
+    @ReactMethod
+    fun setBassBoostStrength(strength: Int, promise: Promise) {
+        if (!SessionBoost.isEffectSupported(AudioEffect.EFFECT_TYPE_BASS_BOOST)) {
+            promise.reject("EFFECT_ERROR", "Bass boost is not supported on this device")
+            return
+        }
+        
+        try {
+            val clamped = strength.coerceIn(0, 100)
+            if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
+                volumeBoosterService?.setBassBoostStrength(clamped)
+            } else {
+                sessionBoost.setBassBoostStrength(clamped * 10)
+            }
+            
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("EFFECT_ERROR", "Failed to set bass boost strength", e)
+        }
+    }
+
+    /**
+     * Sets the virtualizer strength
+     * 
+     * Applies to the same sessions as boost, through the background service
+     * while it is in control (like setBoost). Most devices only virtualize
+     * headphone output.
+     * 
+     * @param strength Strength in percent (0-100); 0 disables the virtualizer
+     * @param promise Promise to resolve on success or reject with "EFFECT_ERROR"
+     */
+    @ReactMethod
+    fun setVirtualizerStrength(strength: Int, promise: Promise) {
+        if (!SessionBoost.isEffectSupported(AudioEffect.EFFECT_TYPE_VIRTUALIZER)) {
+            promise.reject("EFFECT_ERROR", "Virtualizer is not supported on this device")
+            return
+        }
+        
+        try {
+            val clamped = strength.coerceIn(0, 100)
+            if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
+                volumeBoosterService?.setVirtualizerStrength(clamped)
+            } else {
+                sessionBoost.setVirtualizerStrength(clamped * 10)
+            }
+            
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("EFFECT_ERROR", "Failed to set virtualizer strength", e)
+        }
+    }
+
+    // ============================================================================
+    // COMPRESSOR METHODS
+    // ============================================================================
+
+    /**
+     * Sets the dynamic range compressor and output limiter
+     * 
+     * The compressor evens out loud and quiet passages so boost can raise
+     * quiet parts without clipping on loud ones; the limiter keeps the
+     * output below the ceiling. Applies to the same sessions as boost,
+     * through the background service while it is in control (like setBoost).
+     * 
+     * @param options Map with enabled, thresholdDb, ratio, attackMs, releaseMs and ceilingDb
+     * @param promise Promise to resolve on success or reject with "EFFECT_ERROR"
+     */
+    @ReactMethod
+    fun setCompressor(options: ReadableMap, promise: Promise) {
+        if (!SessionBoost.isCompressorSupported()) {
+            promise.reject("EFFECT_ERROR", "The compressor requires Android 9 or newer")
+            return
+        }
+        
+        try {
+            val settings = SessionBoost.CompressorSettings(
+                enabled = options.getBoolean("enabled"),
+                thresholdDb = options.getDouble("thresholdDb").toFloat(),
+                ratio = options.getDouble("ratio").toFloat(),
+                attackMs = options.getDouble("attackMs").toFloat(),
+                releaseMs = options.getDouble("releaseMs").toFloat(),
+                ceilingDb = options.getDouble("ceilingDb").toFloat()
+            )
+            
+            if (isBackgroundModeEnabled && isServiceBound && volumeBoosterService != null) {
+                volumeBoosterService?.setCompressor(settings)
+            } else {
+                sessionBoost.setCompressor(settings)
+            }
+            
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("EFFECT_ERROR", "Failed to set compressor", e)
         }
     }
 
@@ -353,221 +882,284 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
     @ReactMethod
     fun getAudioDeviceInfo(promise: Promise) {
         try {
-            val devices = audioManager.getDevices(AudioManager.GET_DEVICES_OUTPUTS)
-            val activeDevice = devices.firstOrNull { isActiveOutputDevice(it) }
-                ?: devices.firstOrNull { it.type == AudioDeviceInfo.TYPE_BUILTIN_SPEAKER }
-
-            if (activeDevice == null) {
-                promise.resolve(null)
-                return
-            }
+            val activeDevice = findActiveDevice(audioManager.getDevices(AudioManager.GET_DEVICES_OUTPUTS))
+            promise.resolve(activeDevice?.let { deviceInfoMap(it) })
+        } catch (e: Exception) {
+            promise.reject("DEVICE_ERROR", "Failed to get device info", e)
+        }
+    }
 
-            val deviceInfo = WritableNativeMap().apply {
-                putString("name", activeDevice.productName?.toString() ?: "N/A")
-                putString("type", getDeviceType(activeDevice.type))
-                putInt("typeId", activeDevice.type)
-                putInt("id", activeDevice.id)
-                putString("channels", activeDevice.channelCounts.joinToString())
-                putString("encodings", getEncodingFormat(activeDevice.encodings))
-                putString("sampleRates", activeDevice.sampleRates.joinToString())
-            }
+    /**
+     * Lists every connected audio output
+     * 
+     * Each entry has the getAudioDeviceInfo fields plus isActive, which is
+     * true for the single output getAudioDeviceInfo reports as routing media.
+     * 
+     * @param promise Promise to resolve with the outputs or reject with "DEVICE_ERROR"
+     */
+    @ReactMethod
+    fun getAudioDevices(promise: Promise) {
+        try {
+            val devices = audioManager.getDevices(AudioManager.GET_DEVICES_OUTPUTS)
+            val activeId = findActiveDevice(devices)?.id
             
-            promise.resolve(deviceInfo)
+            promise.resolve(WritableNativeArray().apply {
+                devices.forEach { pushMap(outputDeviceMap(it, it.id == activeId)) }
+            })
         } catch (e: Exception) {
-            promise.reject("DEVICE_ERROR", "Failed to get device info", e)
+            promise.reject("DEVICE_ERROR", "Failed to list audio devices", e)
         }
     }
 
     /**
-     * Starts continuous monitoring of audio device changes
+     * Starts notifying audio device changes
      * 
-     * This method runs a background task that checks for audio device changes every 1.8 seconds.
-     * When a device change is detected, it emits an 'audioDeviceChanged' event to React Native.
+     * Registers an AudioDeviceCallback, so 'audioDeviceChanged' is emitted
+     * as soon as an output device is connected or disconnected instead of on
+     * a polling interval. The callback reports the current devices right
+     * after registration, so the active device is emitted once on start.
      * 
-     * MONITORING LOGIC:
-     * - Checks for active output devices (Bluetooth, headphones, speakers)
-     * - Only emits events when device actually changes (not on every check)
-     * - Handles cases where no device is detected
-     * - Uses Handler for background execution
+     * Only emits when the active device actually changes (null when no
+     * device is detected). Calling it again while monitoring does nothing.
      * 
-     * The monitoring continues until stopDeviceMonitoring() is called.
+     * Monitoring continues until stopDeviceMonitoring() is called. The JS
+     * event hub starts and stops it with the first and last listener.
      */
     @ReactMethod
     fun startDeviceMonitoring() {
-        handler.post(object : Runnable {
-            override fun run() {
-                try {
-                    val devices = audioManager.getDevices(AudioManager.GET_DEVICES_OUTPUTS)
-                    val activeDevice = devices.firstOrNull { isActiveOutputDevice(it) }
-                        ?: devices.firstOrNull { it.type == AudioDeviceInfo.TYPE_BUILTIN_SPEAKER }
-
-                    // If no active device found
-                    if (activeDevice == null) {
-                        if (lastDeviceId != null) { // Only update UI if previously there was a device
-                            lastDeviceId = null
-                            val eventEmitter = reactContext.getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
-                            eventEmitter.emit("audioDeviceChanged", null)
-                        }
-                        handler.postDelayed(this, 1800)
-                        return
-                    }
-
-                    // Avoid unnecessary UI updates if the same device is still active
-                    if (activeDevice.id == lastDeviceId) {
-                        handler.postDelayed(this, 1800)
-                        return
-                    }
-                    lastDeviceId = activeDevice.id
-
-                    val deviceInfo = WritableNativeMap().apply {
-                        putString("name", activeDevice.productName?.toString() ?: "N/A")
-                        putString("type", getDeviceType(activeDevice.type))
-                        putInt("typeId", activeDevice.type)
-                        putInt("id", activeDevice.id)
-                        putString("channels", activeDevice.channelCounts.joinToString())
-                        putString("encodings", getEncodingFormat(activeDevice.encodings))
-                        putString("sampleRates", activeDevice.sampleRates.joinToString())
-                    }
-                    
-                    val eventEmitter = reactContext.getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
-                    eventEmitter.emit("audioDeviceChanged", deviceInfo)
-                } catch (e: Exception) {
-                    // Handle error silently for monitoring
-                }
-                handler.postDelayed(this, 1800)
-            }
-        })
+        if (isDeviceMonitoring) {
+            return
+        }
+        
+        try {
+            lastDeviceId = null
+            audioManager.registerAudioDeviceCallback(audioDeviceCallback, handler)
+            isDeviceMonitoring = true
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to start device monitoring", e)
+        }
     }
 
     /**
-     * Stops audio device monitoring
+     * Stops notifying audio device changes
      * 
-     * Removes all pending monitoring tasks from the Handler queue.
-     * This should be called when the app is paused or destroyed to prevent
-     * unnecessary background processing.
+     * Unregisters the AudioDeviceCallback; volume monitoring is not affected.
      */
     @ReactMethod
     fun stopDeviceMonitoring() {
-        handler.removeCallbacksAndMessages(null)
+        if (!isDeviceMonitoring) {
+            return
+        }
+        
+        isDeviceMonitoring = false
+        try {
+            audioManager.unregisterAudioDeviceCallback(audioDeviceCallback)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to stop device monitoring", e)
+        }
     }
 
     /**
-     * Starts continuous monitoring of volume level changes
+     * Starts notifying media volume changes
      * 
-     * This method runs a background task that checks for volume changes every 500ms.
-     * When a volume change is detected, it emits a 'volumeChanged' event to React Native.
+     * Observes the system settings, which Android updates on every volume
+     * change (hardware buttons, other apps, this module), and emits
+     * 'volumeChanged' with the STREAM_MUSIC volume as a percentage (0-100).
+     * The current volume is emitted once on start.
      * 
-     * VOLUME MONITORING:
-     * - Converts Android volume steps to percentage (0-100)
-     * - Only emits events when volume actually changes
-     * - Uses STREAM_MUSIC for media volume tracking
-     * - Runs every 500ms for responsive UI updates
+     * Only emits when the percentage actually changes. Calling it again
+     * while monitoring does nothing.
      * 
-     * The monitoring continues until stopVolumeMonitoring() is called.
+     * Monitoring continues until stopVolumeMonitoring() is called. The JS
+     * event hub starts and stops it with the first and last listener.
      */
     @ReactMethod
     fun startVolumeMonitoring() {
-        handler.post(object : Runnable {
-            override fun run() {
-                try {
-                    val currentVolume = audioManager.getStreamVolume(AudioManager.STREAM_MUSIC)
-                    val maxVolume = audioManager.getStreamMaxVolume(AudioManager.STREAM_MUSIC)
-                    val volumePercentage = ((currentVolume.toFloat() / maxVolume) * 100).toInt()
-                    
-                    // Only emit if volume has changed
-                    if (volumePercentage != lastVolumeLevel) {
-                        lastVolumeLevel = volumePercentage
-                        val eventEmitter = reactContext.getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
-                        eventEmitter.emit("volumeChanged", volumePercentage)
-                    }
-                } catch (e: Exception) {
-                    // Handle error silently for monitoring
-                }
-                handler.postDelayed(this, 500) // Check every 500ms for volume changes
-            }
-        })
+        if (isVolumeMonitoring) {
+            return
+        }
+        
+        try {
+            lastVolumeLevel = -1
+            reactContext.contentResolver.registerContentObserver(Settings.System.CONTENT_URI, true, volumeObserver)
+            isVolumeMonitoring = true
+            emitVolumeIfChanged()
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to start volume monitoring", e)
+        }
     }
 
+    /**
+     * Stops notifying media volume changes
+     * 
+     * Unregisters the settings observer; device monitoring is not affected.
+     */
     @ReactMethod
     fun stopVolumeMonitoring() {
-        handler.removeCallbacksAndMessages(null)
+        if (!isVolumeMonitoring) {
+            return
+        }
+        
+        isVolumeMonitoring = false
+        try {
+            reactContext.contentResolver.unregisterContentObserver(volumeObserver)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to stop volume monitoring", e)
+        }
+    }
+
+    /**
+     * Emits 'audioDeviceChanged' if the active output device differs from
+     * the last one emitted
+     */
+    private fun emitDeviceIfChanged() {
+        try {
+            val activeDevice = findActiveDevice(audioManager.getDevices(AudioManager.GET_DEVICES_OUTPUTS))
+            val eventEmitter = reactContext.getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+
+            // If no active device found
+            if (activeDevice == null) {
+                if (lastDeviceId != null) { // Only update UI if previously there was a device
+                    lastDeviceId = null
+                    eventEmitter.emit("audioDeviceChanged", null)
+                }
+                return
+            }
+
+            // Avoid unnecessary UI updates if the same device is still active
+            if (activeDevice.id == lastDeviceId) {
+                return
+            }
+            lastDeviceId = activeDevice.id
+            
+            eventEmitter.emit("audioDeviceChanged", deviceInfoMap(activeDevice))
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to emit audio device change", e)
+        }
+    }
+
+    /**
+     * Emits 'audioDevicesChanged' with the outputs that were connected and
+     * disconnected
+     * 
+     * Right after startDeviceMonitoring() the callback reports every
+     * connected output as added.
+     */
+    private fun emitDevicesChanged(added: List<AudioDeviceInfo>, removed: List<AudioDeviceInfo>) {
+        if (added.isEmpty() && removed.isEmpty()) {
+            return
+        }
+        
+        try {
+            val activeId = findActiveDevice(audioManager.getDevices(AudioManager.GET_DEVICES_OUTPUTS))?.id
+            val payload = WritableNativeMap().apply {
+                putArray("added", WritableNativeArray().apply {
+                    added.forEach { pushMap(outputDeviceMap(it, it.id == activeId)) }
+                })
+                putArray("removed", WritableNativeArray().apply {
+                    removed.forEach { pushMap(outputDeviceMap(it, false)) }
+                })
+            }
+            
+            reactContext
+                .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+                .emit("audioDevicesChanged", payload)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to emit audio devices change", e)
+        }
+    }
+
+    /**
+     * Emits 'volumeChanged' if the media volume percentage differs from the
+     * last one emitted
+     */
+    private fun emitVolumeIfChanged() {
+        try {
+            val currentVolume = audioManager.getStreamVolume(AudioManager.STREAM_MUSIC)
+            val maxVolume = audioManager.getStreamMaxVolume(AudioManager.STREAM_MUSIC)
+            val volumePercentage = ((currentVolume.toFloat() / maxVolume) * 100).toInt()
+            
+            // Settings changes other than the media volume also reach the observer
+            if (volumePercentage != lastVolumeLevel) {
+                lastVolumeLevel = volumePercentage
+                val eventEmitter = reactContext.getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+                eventEmitter.emit("volumeChanged", volumePercentage)
+            }
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterModule", "Failed to emit volume change", e)
+        }
     }
 
     // ============================================================================
-    // TEST SOUND GENERATION
+    // TEST SIGNAL GENERATION
     // ============================================================================
     
     /**
      * Generates and plays a test sound (440Hz sine wave) for boost verification
      * 
-     * This method creates a pure 440Hz tone (A note) using AudioTrack to test
-     * the boost functionality. The sound is generated programmatically and played
-     * through the app's audio session, making it perfect for testing app-only boost mode.
-     * 
-     * TEST SOUND SPECIFICATIONS:
-     * - Frequency: 440Hz (A4 note)
-     * - Duration: 1 second
-     * - Sample Rate: 44.1kHz
-     * - Format: PCM 16-bit mono
-     * - Session: Uses app's audioSessionID for proper boost testing
-     * 
-     * The sound is automatically stopped after 1 second and resources are cleaned up.
+     * Shorthand for playTestSignal with a full-scale 440Hz sine of 1 second,
+     * played through the app's audio session, making it perfect for testing
+     * app-only boost mode.
      * 
      * @param promise Promise to resolve on success or reject on error
      */
     @ReactMethod
     fun playTestSound(promise: Promise) {
         try {
-            val sampleRate = 44100
-            val duration = 1.0 // 1 second
-            val numSamples = (sampleRate * duration).toInt()
-            val samples = ShortArray(numSamples)
-            
-            // Generate a 440Hz sine wave (A note)
-            val frequency = 440.0
-            for (i in 0 until numSamples) {
-                val sample = (sin(2 * PI * frequency * i / sampleRate) * Short.MAX_VALUE).toInt()
-                samples[i] = sample.toShort()
-            }
-            
-            // Create AudioTrack with the app's session ID
-            val bufferSize = AudioTrack.getMinBufferSize(
-                sampleRate,
-                AudioFormat.CHANNEL_OUT_MONO,
-                AudioFormat.ENCODING_PCM_16BIT
-            )
-            
-            audioTrack?.release()
-            audioTrack = AudioTrack.Builder()
-                .setAudioAttributes(android.media.AudioAttributes.Builder()
-                    .setUsage(android.media.AudioAttributes.USAGE_MEDIA)
-                    .setContentType(android.media.AudioAttributes.CONTENT_TYPE_MUSIC)
-                    .build())
-                .setAudioFormat(AudioFormat.Builder()
-                    .setEncoding(AudioFormat.ENCODING_PCM_16BIT)
-                    .setSampleRate(sampleRate)
-                    .setChannelMask(AudioFormat.CHANNEL_OUT_MONO)
-                    .build())
-                .setBufferSizeInBytes(bufferSize)
-                .setSessionId(audioSessionID) // Use app's session ID
-                .build()
-            
-            audioTrack?.play()
-            audioTrack?.write(samples, 0, samples.size)
-            
-            // Stop after duration
-            handler.postDelayed({
-                audioTrack?.stop()
-                audioTrack?.release()
-                audioTrack = null
-            }, (duration * 1000).toLong())
-            
+            testSignalGenerator.play(audioSessionID, TestSignalGenerator.WAVEFORM_SINE, 440.0, 1000, 0.0)
             promise.resolve(null)
         } catch (e: Exception) {
             promise.reject("TEST_SOUND_ERROR", "Failed to play test sound", e)
         }
     }
 
+    /**
+     * Plays a test signal for checking boost on the current output
+     * 
+     * TEST SIGNAL OPTIONS:
+     * - waveform: "sine", "pinkNoise" or "sweep" (logarithmic, 20Hz up to frequency)
+     * - frequency: Sine frequency or sweep end frequency (20-20000 Hz)
+     * - durationMs: Signal length (100-60000 ms)
+     * - levelDb: Peak level in dBFS (-60 to 0)
+     * 
+     * The signal is generated at 44.1kHz PCM 16-bit mono on the app's audioSessionID,
+     * replaces any signal already playing and emits 'testSignalStateChanged'
+     * when it starts and ends.
+     * 
+     * @param options Test signal options
+     * @param promise Promise to resolve once playback starts or reject with "TEST_SIGNAL_ERROR"
+     */
+    @ReactMethod
+    fun playTestSignal(options: ReadableMap, promise: Promise) {
+        try {
+            testSignalGenerator.play(
+                audioSessionID,
+                options.getString("waveform") ?: TestSignalGenerator.WAVEFORM_SINE,
+                options.getDouble("frequency"),
+                options.getInt("durationMs"),
+                options.getDouble("levelDb")
+            )
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("TEST_SIGNAL_ERROR", "Failed to play test signal", e)
+        }
+    }
+
+    /**
+     * Stops the test signal, if one is playing
+     * 
+     * @param promise Promise to resolve once playback has stopped
+     */
+    @ReactMethod
+    fun stopTestSignal(promise: Promise) {
+        try {
+            testSignalGenerator.stop()
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("TEST_SIGNAL_ERROR", "Failed to stop test signal", e)
+        }
+    }
+
     // ============================================================================
     // UTILITY METHODS - Audio Processing Helpers
     // ============================================================================
@@ -595,6 +1187,38 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
         audioManager.dispatchMediaKeyEvent(KeyEvent(KeyEvent.ACTION_UP, KeyEvent.KEYCODE_MEDIA_PLAY))
     }
 
+    /**
+     * Output that routes media: the first active output, falling back to
+     * the built-in speaker
+     */
+    private fun findActiveDevice(devices: Array<AudioDeviceInfo>): AudioDeviceInfo? {
+        return devices.firstOrNull { isActiveOutputDevice(it) }
+            ?: devices.firstOrNull { it.type == AudioDeviceInfo.TYPE_BUILTIN_SPEAKER }
+    }
+
+    /**
+     * Device payload shared by getAudioDeviceInfo and 'audioDeviceChanged'
+     * Payload shape matches AudioDeviceInfo in VolumeBoosterModule.ts
+     */
+    private fun deviceInfoMap(device: AudioDeviceInfo): WritableNativeMap {
+        return WritableNativeMap().apply {
+            putString("name", device.productName?.toString() ?: "N/A")
+            putString("type", getDeviceType(device.type))
+            putInt("typeId", device.type)
+            putInt("id", device.id)
+            putString("channels", device.channelCounts.joinToString())
+            putString("encodings", getEncodingFormat(device.encodings))
+            putString("sampleRates", device.sampleRates.joinToString())
+        }
+    }
+
+    /**
+     * Payload shape matches AudioOutputDevice in VolumeBoosterModule.ts
+     */
+    private fun outputDeviceMap(device: AudioDeviceInfo, isActive: Boolean): WritableNativeMap {
+        return deviceInfoMap(device).apply { putBoolean("isActive", isActive) }
+    }
+
     /**
      * Determines if an audio device is currently active for output
      * 
@@ -691,6 +1315,7 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
     fun setBackgroundMode(enabled: Boolean, promise: Promise) {
         try {
             isBackgroundModeEnabled = enabled
+            VolumeBoosterService.rememberBackgroundMode(reactContext, enabled)
             
             if (enabled) {
                 // Start foreground service
@@ -777,6 +1402,77 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
         }
     }
 
+    /**
+     * Schedules the next check of the scheduled boost rules
+     * 
+     * The time is remembered so the background service can re-arm its alarm
+     * when it starts; a bound service is updated right away.
+     * 
+     * @param timestamp Time of the check in milliseconds since the epoch, or 0 to cancel
+     * @param promise Promise to resolve when the check is scheduled
+     */
+    @ReactMethod
+    fun scheduleBoostRuleCheck(timestamp: Double, promise: Promise) {
+        try {
+            VolumeBoosterService.rememberNextRuleCheck(reactContext, timestamp.toLong())
+            if (isServiceBound && volumeBoosterService != null) {
+                volumeBoosterService?.scheduleRuleCheck()
+            }
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("RULE_CHECK_ERROR", "Failed to schedule the boost rule check", e)
+        }
+    }
+
+    /**
+     * Sets the boost steps of the service notification boost -/+
+     * 
+     * The steps are remembered so they hold after the service or the app
+     * process restarts; a bound service refreshes its notification.
+     * 
+     * @param limits Map with steps, an array of maps with boost and gainMillibels
+     * @param promise Promise to resolve when the steps are saved
+     */
+    @ReactMethod
+    fun setBoostLimits(limits: ReadableMap, promise: Promise) {
+        try {
+            val steps = limits.getArray("steps")
+                ?: throw IllegalArgumentException("Missing boost steps")
+            VolumeBoosterService.rememberBoostSteps(reactContext, (0 until steps.size()).map { index ->
+                val step = steps.getMap(index)
+                    ?: throw IllegalArgumentException("Missing boost step $index")
+                BoostStep(step.getInt("boost"), step.getInt("gainMillibels"))
+            })
+            if (isServiceBound && volumeBoosterService != null) {
+                volumeBoosterService?.refreshNotification()
+            }
+            promise.resolve(null)
+        } catch (e: Exception) {
+            promise.reject("BOOST_LIMITS_ERROR", "Failed to set the boost limits", e)
+        }
+    }
+
+    // ============================================================================
+    // EVENT EMITTER SUPPORT
+    // ============================================================================
+
+    /**
+     * Required by NativeEventEmitter on the JS side
+     * Events are emitted whenever monitoring is active, so listener tracking is a no-op
+     */
+    @ReactMethod
+    fun addListener(eventName: String) {
+        // No-op
+    }
+
+    /**
+     * Required by NativeEventEmitter on the JS side
+     */
+    @ReactMethod
+    fun removeListeners(count: Int) {
+        // No-op
+    }
+
     // ============================================================================
     // LIFECYCLE MANAGEMENT - Resource Cleanup
     // ============================================================================
@@ -790,18 +1486,29 @@ class VolumeBoosterModule(private val reactContext: ReactApplicationContext) : R
      * 
      * CLEANUP ACTIONS:
      * - Releases LoudnessEnhancer resources
-     * - Releases AudioTrack resources
+     * - Stops tracking audio sessions
+     * - Stops the test signal
+     * - Stops device and volume monitoring
      * - Removes all pending Handler tasks
-     * - Prevents background monitoring from continuing
      * - Unbinds from background service if connected
      */
     override fun onCatalystInstanceDestroy() {
         super.onCatalystInstanceDestroy()
         
         // Cleanup local audio resources
-        loudnessEnhancer?.release()
-        audioTrack?.release()
+        sessionBoost.release()
+        testSignalGenerator.stop()
+        stopDeviceMonitoring()
+        stopVolumeMonitoring()
         handler.removeCallbacksAndMessages(null)
+        if (isSessionReceiverRegistered) {
+            try {
+                reactContext.unregisterReceiver(audioSessionReceiver)
+            } catch (e: Exception) {
+                android.util.Log.e("VolumeBoosterModule", "Error unregistering audio session receiver", e)
+            }
+            isSessionReceiverRegistered = false
+        }
         
         // Cleanup background service connection
         if (isServiceBound) {
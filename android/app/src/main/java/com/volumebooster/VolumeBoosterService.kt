@@ -4,15 +4,18 @@ import android.app.*
 import android.content.Context
 import android.content.Intent
 import android.media.AudioManager
-import android.media.audiofx.LoudnessEnhancer
 import android.os.Binder
 import android.os.Build
 import android.os.IBinder
 import android.os.Looper
 import android.os.Handler
+import android.widget.RemoteViews
 import androidx.core.app.NotificationCompat
+import com.facebook.react.bridge.WritableNativeArray
 import com.facebook.react.bridge.WritableNativeMap
 import com.facebook.react.modules.core.DeviceEventManagerModule
+import org.json.JSONArray
+import org.json.JSONObject
 
 class VolumeBoosterService : Service() {
     
@@ -33,11 +36,11 @@ class VolumeBoosterService : Service() {
     // ============================================================================
     
     private lateinit var audioManager: AudioManager
-    private var audioSessionID = 0
-    private var loudnessEnhancer: LoudnessEnhancer? = null
+    private val sessionBoost = SessionBoost("VolumeBoosterService")
     private var isBoostEnabled = false
-    private var isAppOnlyBoost = false
     private var currentBoostLevel = 0
+    private var currentGainMillibels = 0
+    private var isForeground = false
     private val handler = Handler(Looper.getMainLooper())
     
     // React Native context for event emission (if available)
@@ -54,30 +57,105 @@ class VolumeBoosterService : Service() {
     }
     
     override fun onStartCommand(intent: Intent?, flags: Int, startId: Int): Int {
-        when (intent?.action) {
+        if (intent == null) {
+            // Restarted by the system after the app process was killed. The
+            // boost state died with the process, so let JS restore it.
+            restartAfterProcessDeath()
+            return START_STICKY
+        }
+        
+        when (intent.action) {
             ACTION_START_SERVICE -> {
+                isForeground = true
                 startForeground(NOTIFICATION_ID, createNotification())
+                scheduleRuleCheck()
             }
             ACTION_STOP_SERVICE -> {
+                // Stopping also ends background mode, so a reboot or process
+                // restart does not bring the service back when JS is not running
+                rememberBackgroundMode(this, false)
+                isForeground = false
                 stopForeground(true)
                 stopSelf()
             }
             ACTION_SET_BOOST -> {
                 val boostLevel = intent.getIntExtra(EXTRA_BOOST_LEVEL, 0)
-                val appOnly = intent.getBooleanExtra(EXTRA_APP_ONLY, false)
-                setBoost(boostLevel, appOnly)
+                val gainMillibels = intent.getIntExtra(EXTRA_GAIN_MILLIBELS, 0)
+                val sessions = intent.getIntArrayExtra(EXTRA_SESSIONS)?.toList() ?: emptyList()
+                setBoost(boostLevel, gainMillibels, sessions)
+            }
+            ACTION_STEP_BOOST -> {
+                stepBoost(intent.getIntExtra(EXTRA_STEP_DIRECTION, 0))
             }
             ACTION_ENABLE_BOOST -> {
                 val enabled = intent.getBooleanExtra(EXTRA_ENABLED, false)
                 enableBoost(enabled)
             }
+            ACTION_SET_EQUALIZER -> {
+                val enabled = intent.getBooleanExtra(EXTRA_ENABLED, false)
+                val levels = intent.getShortArrayExtra(EXTRA_BAND_LEVELS)
+                setEqualizer(enabled, levels)
+            }
+            ACTION_SET_BASS_BOOST -> {
+                setBassBoostStrength(intent.getIntExtra(EXTRA_STRENGTH, 0))
+            }
+            ACTION_SET_VIRTUALIZER -> {
+                setVirtualizerStrength(intent.getIntExtra(EXTRA_STRENGTH, 0))
+            }
+            ACTION_SET_COMPRESSOR -> {
+                val defaults = SessionBoost.CompressorSettings()
+                setCompressor(SessionBoost.CompressorSettings(
+                    enabled = intent.getBooleanExtra(EXTRA_ENABLED, false),
+                    thresholdDb = intent.getFloatExtra(EXTRA_THRESHOLD_DB, defaults.thresholdDb),
+                    ratio = intent.getFloatExtra(EXTRA_RATIO, defaults.ratio),
+                    attackMs = intent.getFloatExtra(EXTRA_ATTACK_MS, defaults.attackMs),
+                    releaseMs = intent.getFloatExtra(EXTRA_RELEASE_MS, defaults.releaseMs),
+                    ceilingDb = intent.getFloatExtra(EXTRA_CEILING_DB, defaults.ceilingDb)
+                ))
+            }
+            ACTION_CHECK_BOOST_RULES -> {
+                BoostRulesTaskService.start(this)
+            }
+            ACTION_CYCLE_PRESET -> {
+                // Presets live on the JS side, which applies the next one
+                // when it receives the notification action below
+            }
         }
+        
+        // Report changes made from the notification so JS can save them
+        intent.getStringExtra(EXTRA_NOTIFICATION_ACTION)?.let { emitNotificationAction(it) }
+        
         return START_STICKY // Restart service if killed by system
     }
     
+    /**
+     * Go back to the foreground and run the restore task, or stop if
+     * background mode was turned off before the process died
+     */
+    private fun restartAfterProcessDeath() {
+        if (!isBackgroundModeRemembered(this)) {
+            stopSelf()
+            return
+        }
+        
+        try {
+            isForeground = true
+            startForeground(NOTIFICATION_ID, createNotification())
+        } catch (e: Exception) {
+            // Android may refuse a foreground start while the app is in the background
+            isForeground = false
+            android.util.Log.w("VolumeBoosterService", "Could not return to the foreground after restart", e)
+        }
+        
+        BoostRestoreTaskService.start(this, BoostRestoreTaskService.REASON_SERVICE_RESTARTED)
+        scheduleRuleCheck()
+    }
+    
     override fun onDestroy() {
         super.onDestroy()
+        cancelRuleCheck()
         cleanupAudioResources()
+        emitServiceStateChanged(false)
     }
     
     // ============================================================================
@@ -87,10 +165,9 @@ class VolumeBoosterService : Service() {
     private fun initializeAudioSystem() {
         try {
             audioManager = getSystemService(Context.AUDIO_SERVICE) as AudioManager
-            audioSessionID = audioManager.generateAudioSessionId()
             
             // Initialize with device-wide boost by default
-            loudnessEnhancer = LoudnessEnhancer(0)
+            sessionBoost.recreate()
             
             // Don't change the current volume - preserve user's volume setting
             // The boost will work with whatever volume the user has set
@@ -103,8 +180,7 @@ class VolumeBoosterService : Service() {
     
     private fun cleanupAudioResources() {
         try {
-            loudnessEnhancer?.release()
-            loudnessEnhancer = null
+            sessionBoost.release()
         } catch (e: Exception) {
             android.util.Log.e("VolumeBoosterService", "Error cleaning up audio resources", e)
         }
@@ -114,61 +190,214 @@ class VolumeBoosterService : Service() {
     // BOOST CONTROL METHODS
     // ============================================================================
     
-    fun setBoost(boostLevel: Int, appOnly: Boolean) {
+    /**
+     * Sets the boost level, its gain and the audio sessions it is attached to
+     * (empty for device-wide boost)
+     * The gain is mapped from the boost level on the JS side (boost curve)
+     */
+    fun setBoost(boostLevel: Int, gainMillibels: Int, sessions: List<Int>) {
         try {
             currentBoostLevel = boostLevel
-            isAppOnlyBoost = appOnly
+            currentGainMillibels = gainMillibels
             
-            // Reinitialize loudness enhancer with appropriate session ID
-            loudnessEnhancer?.release()
-            loudnessEnhancer = if (appOnly) {
-                LoudnessEnhancer(audioSessionID)
-            } else {
-                LoudnessEnhancer(0)
-            }
+            // Reinitialize loudness enhancers for the attached sessions
+            sessionBoost.setSessions(sessions)
             
             // Apply boost if enabled
             if (isBoostEnabled && boostLevel > 0) {
-                val gainInMillibels = boostLevel * 25 // Convert percentage to millibels
-                loudnessEnhancer?.setTargetGain(gainInMillibels)
-                loudnessEnhancer?.setEnabled(true)
+                sessionBoost.setGain(gainMillibels)
+                sessionBoost.setEnabled(true)
             }
             
-            // Update notification
+            // Update notification and notify JS
             updateNotification()
+            emitBoostChanged()
             
         } catch (e: Exception) {
             android.util.Log.e("VolumeBoosterService", "Failed to set boost", e)
         }
     }
     
+    /**
+     * Adjusts the gain of the current enhancer without recreating it
+     * Used for boost ramp steps; the notification is not updated per step
+     */
+    fun setGain(boostLevel: Int, gainMillibels: Int) {
+        try {
+            currentBoostLevel = boostLevel
+            currentGainMillibels = gainMillibels
+            
+            sessionBoost.setGain(gainMillibels)
+            sessionBoost.setEnabled(isBoostEnabled && boostLevel > 0)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterService", "Failed to set gain", e)
+        }
+    }
+    
     fun enableBoost(enabled: Boolean) {
         try {
             isBoostEnabled = enabled
             
             if (enabled && currentBoostLevel > 0) {
-                val gainInMillibels = currentBoostLevel * 25
-                loudnessEnhancer?.setTargetGain(gainInMillibels)
-                loudnessEnhancer?.setEnabled(true)
+                sessionBoost.setGain(currentGainMillibels)
+                sessionBoost.setEnabled(true)
             } else {
                 // When disabling boost, set gain to 0 and disable
-                loudnessEnhancer?.setTargetGain(0)
-                loudnessEnhancer?.setEnabled(false)
+                sessionBoost.setGain(0)
+                sessionBoost.setEnabled(false)
             }
             
-            // Update notification
+            // Update notification and notify JS
             updateNotification()
+            emitBoostChanged()
             
         } catch (e: Exception) {
             android.util.Log.e("VolumeBoosterService", "Failed to enable/disable boost", e)
         }
     }
     
+    /**
+     * Moves boost to the next notification step up (direction > 0) or down
+     * 
+     * A level above the highest step goes down to it either way. Does
+     * nothing until JS has sent the steps.
+     */
+    private fun stepBoost(direction: Int) {
+        val steps = boostSteps(this)
+        val step = if (direction > 0) {
+            steps.firstOrNull { it.boost > currentBoostLevel } ?: steps.lastOrNull()
+        } else {
+            steps.lastOrNull { it.boost < currentBoostLevel } ?: steps.firstOrNull()
+        }
+        
+        if (step == null) {
+            android.util.Log.w("VolumeBoosterService", "No boost steps received, ignoring boost step")
+            return
+        }
+        setBoost(step.boost, step.gainMillibels, sessionBoost.getSessions())
+    }
+    
     fun getCurrentBoostLevel(): Int = currentBoostLevel
     
     fun isBoostActive(): Boolean = isBoostEnabled && currentBoostLevel > 0
     
-    fun isAppOnlyMode(): Boolean = isAppOnlyBoost
+    fun getBoostedSessions(): List<Int> = sessionBoost.getSessions()
+    
+    // ============================================================================
+    // EQUALIZER CONTROL METHODS
+    // ============================================================================
+    
+    /**
+     * Sets the equalizer of the boosted sessions
+     * 
+     * @param enabled Whether the equalizer is applied
+     * @param levels Band levels in millibels, or null to keep the current levels
+     */
+    fun setEqualizer(enabled: Boolean, levels: ShortArray?) {
+        try {
+            levels?.let { sessionBoost.setBandLevels(it) }
+            sessionBoost.setEqualizerEnabled(enabled)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterService", "Failed to set equalizer", e)
+        }
+    }
+    
+    fun getEqualizerBandLevels(): ShortArray? = sessionBoost.getBandLevels()
+    
+    fun isEqualizerEnabled(): Boolean = sessionBoost.isEqualizerEnabled()
+    
+    // ============================================================================
+    // BASS BOOST AND VIRTUALIZER CONTROL METHODS
+    // ============================================================================
+    
+    /**
+     * Sets the bass boost strength of the boosted sessions
+     * 
+     * @param strength Strength in percent (0-100); 0 disables bass boost
+     */
+    fun setBassBoostStrength(strength: Int) {
+        try {
+            sessionBoost.setBassBoostStrength(strength * 10)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterService", "Failed to set bass boost strength", e)
+        }
+    }
+    
+    /**
+     * Sets the virtualizer strength of the boosted sessions
+     * 
+     * @param strength Strength in percent (0-100); 0 disables the virtualizer
+     */
+    fun setVirtualizerStrength(strength: Int) {
+        try {
+            sessionBoost.setVirtualizerStrength(strength * 10)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterService", "Failed to set virtualizer strength", e)
+        }
+    }
+    
+    fun getBassBoostStrength(): Int = sessionBoost.getBassBoostStrength() / 10
+    
+    fun getVirtualizerStrength(): Int = sessionBoost.getVirtualizerStrength() / 10
+    
+    // ============================================================================
+    // COMPRESSOR CONTROL METHODS
+    // ============================================================================
+    
+    /**
+     * Sets the compressor and output limiter of the boosted sessions
+     * 
+     * @param settings Compressor settings; ignored below Android 9
+     */
+    fun setCompressor(settings: SessionBoost.CompressorSettings) {
+        try {
+            sessionBoost.setCompressor(settings)
+        } catch (e: Exception) {
+            android.util.Log.e("VolumeBoosterService", "Failed to set compressor", e)
+        }
+    }
+    
+    fun getCompressor(): SessionBoost.CompressorSettings = sessionBoost.getCompressor()
+    
+    // ============================================================================
+    // SCHEDULED BOOST RULES
+    // ============================================================================
+    
+    /**
+     * Sets the alarm for the next boost rule check remembered by the module
+     * 
+     * The rules themselves live on the JS side; the alarm runs the
+     * EvaluateBoostRules headless task, which applies them and schedules the
+     * following check. Uses an inexact alarm, so a check may run a few
+     * minutes late while the device is idle.
+     */
+    fun scheduleRuleCheck() {
+        val timestamp = nextRuleCheck(this)
+        if (timestamp <= 0L) {
+            cancelRuleCheck()
+            return
+        }
+        
+        val alarmManager = getSystemService(Context.ALARM_SERVICE) as AlarmManager
+        alarmManager.setAndAllowWhileIdle(AlarmManager.RTC_WAKEUP, timestamp, ruleCheckIntent())
+    }
+    
+    private fun cancelRuleCheck() {
+        val alarmManager = getSystemService(Context.ALARM_SERVICE) as AlarmManager
+        alarmManager.cancel(ruleCheckIntent())
+    }
+    
+    private fun ruleCheckIntent(): PendingIntent {
+        val intent = Intent(this, VolumeBoosterService::class.java).apply {
+            action = ACTION_CHECK_BOOST_RULES
+        }
+        return PendingIntent.getService(
+            this,
+            REQUEST_CHECK_BOOST_RULES,
+            intent,
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+    }
     
     // ============================================================================
     // NOTIFICATION MANAGEMENT
@@ -194,7 +423,7 @@ class VolumeBoosterService : Service() {
     
     private fun createNotification(): Notification {
         val boostText = if (isBoostActive()) {
-            "Boost: ${currentBoostLevel}% ${if (isAppOnlyBoost) "(App Only)" else "(Device Wide)"}"
+            "Boost: ${currentBoostLevel}% ${describeTarget()}"
         } else {
             "Boost: Disabled"
         }
@@ -213,14 +442,99 @@ class VolumeBoosterService : Service() {
             .setContentText(boostText)
             .setSmallIcon(android.R.drawable.ic_media_play)
             .setContentIntent(pendingIntent)
+            .setStyle(NotificationCompat.DecoratedCustomViewStyle())
+            .setCustomBigContentView(createControlsView(boostText))
             .setOngoing(true)
             .setSilent(true)
             .setPriority(NotificationCompat.PRIORITY_LOW)
             .build()
     }
     
+    /**
+     * Builds the expanded notification: boost status with boost -/+, toggle,
+     * preset and stop controls
+     * 
+     * Standard notification actions are limited to three, so the controls
+     * use a custom layout. Boost -/+ send ACTION_STEP_BOOST, which picks the
+     * step when pressed; the toggle sends the regular ACTION_ENABLE_BOOST.
+     * Intents are tagged with the control that sent them.
+     */
+    private fun createControlsView(boostText: String): RemoteViews {        
+        return RemoteViews(packageName, R.layout.notification_controls).apply {
+            setTextViewText(R.id.notification_status, boostText)
+            setTextViewText(R.id.notification_toggle_boost, if (isBoostEnabled) "Turn Off" else "Turn On")
+            setOnClickPendingIntent(
+                R.id.notification_boost_down,
+                boostStepIntent(REQUEST_BOOST_DOWN, -1, NOTIFICATION_ACTION_BOOST_DOWN)
+            )
+            setOnClickPendingIntent(
+                R.id.notification_boost_up,
+                boostStepIntent(REQUEST_BOOST_UP, 1, NOTIFICATION_ACTION_BOOST_UP)
+            )
+            setOnClickPendingIntent(
+                R.id.notification_toggle_boost,
+                controlIntent(REQUEST_TOGGLE_BOOST, ACTION_ENABLE_BOOST, NOTIFICATION_ACTION_TOGGLE_BOOST) {
+                    putExtra(EXTRA_ENABLED, !isBoostEnabled)
+                }
+            )
+            setOnClickPendingIntent(
+                R.id.notification_cycle_preset,
+                controlIntent(REQUEST_CYCLE_PRESET, ACTION_CYCLE_PRESET, NOTIFICATION_ACTION_CYCLE_PRESET) {}
+            )
+            setOnClickPendingIntent(
+                R.id.notification_stop,
+                controlIntent(REQUEST_STOP_SERVICE, ACTION_STOP_SERVICE, NOTIFICATION_ACTION_STOP_SERVICE) {}
+            )
+        }
+    }
+    
+    /**
+     * Pending intent that sends a service action from a notification control
+     */
+    private fun controlIntent(
+        requestCode: Int,
+        action: String,
+        notificationAction: String,
+        extras: Intent.() -> Unit
+    ): PendingIntent {
+        val intent = Intent(this, VolumeBoosterService::class.java).apply {
+            this.action = action
+            putExtra(EXTRA_NOTIFICATION_ACTION, notificationAction)
+            extras()
+        }
+        return PendingIntent.getService(
+            this, requestCode, intent,
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+    }
+    
+    /**
+     * Pending intent that moves boost one notification step up or down
+     */
+    private fun boostStepIntent(requestCode: Int, direction: Int, notificationAction: String): PendingIntent {
+        return controlIntent(requestCode, ACTION_STEP_BOOST, notificationAction) {
+            putExtra(EXTRA_STEP_DIRECTION, direction)
+        }
+    }
+    
+    private fun describeTarget(): String {
+        val sessionCount = sessionBoost.getSessions().size
+        return when (sessionCount) {
+            0 -> "(Device Wide)"
+            1 -> "(1 Session)"
+            else -> "($sessionCount Sessions)"
+        }
+    }
+    
+    /**
+     * Rebuilds the notification after the boost steps change
+     */
+    fun refreshNotification() {
+        updateNotification()
+    }
+    
     private fun updateNotification() {
-        if (isBoostActive()) {
+        if (isForeground) {
             val notification = createNotification()
             val notificationManager = getSystemService(NotificationManager::class.java)
             notificationManager.notify(NOTIFICATION_ID, notification)
@@ -246,6 +560,47 @@ class VolumeBoosterService : Service() {
         }
     }
     
+    /**
+     * Emits 'boostChanged' with the current boost state
+     * Payload shape matches BoostChangedEvent in VolumeBoosterModule.ts
+     */
+    private fun emitBoostChanged() {
+        val data = WritableNativeMap().apply {
+            putInt("boostLevel", currentBoostLevel)
+            putBoolean("enabled", isBoostEnabled)
+            putBoolean("appOnly", !sessionBoost.isDeviceWide())
+            putArray("sessions", WritableNativeArray().apply {
+                sessionBoost.getSessions().forEach { pushInt(it) }
+            })
+            putBoolean("active", isBoostActive())
+        }
+        emitEvent("boostChanged", data)
+    }
+    
+    /**
+     * Emits 'notificationAction' after a notification control was used
+     * Payload shape matches NotificationActionEvent in VolumeBoosterModule.ts
+     */
+    private fun emitNotificationAction(action: String) {
+        val data = WritableNativeMap().apply {
+            putString("action", action)
+            putInt("boostLevel", currentBoostLevel)
+            putBoolean("enabled", isBoostEnabled)
+        }
+        emitEvent("notificationAction", data)
+    }
+    
+    /**
+     * Emits 'serviceStateChanged'
+     * Payload shape matches ServiceStateChangedEvent in VolumeBoosterModule.ts
+     */
+    fun emitServiceStateChanged(running: Boolean) {
+        val data = WritableNativeMap().apply {
+            putBoolean("running", running)
+        }
+        emitEvent("serviceStateChanged", data)
+    }
+    
     // ============================================================================
     // STATIC METHODS FOR SERVICE CONTROL
     // ============================================================================
@@ -254,14 +609,112 @@ class VolumeBoosterService : Service() {
         private const val CHANNEL_ID = "VolumeBoosterServiceChannel"
         private const val NOTIFICATION_ID = 1001
         
+        /** Request codes of the notification control intents */
+        private const val REQUEST_BOOST_DOWN = 1
+        private const val REQUEST_BOOST_UP = 2
+        private const val REQUEST_TOGGLE_BOOST = 3
+        private const val REQUEST_CYCLE_PRESET = 4
+        private const val REQUEST_STOP_SERVICE = 5
+        private const val REQUEST_CHECK_BOOST_RULES = 6
+        
+        /** Notification controls, as reported in 'notificationAction' */
+        const val NOTIFICATION_ACTION_BOOST_DOWN = "boostDown"
+        const val NOTIFICATION_ACTION_BOOST_UP = "boostUp"
+        const val NOTIFICATION_ACTION_TOGGLE_BOOST = "toggleBoost"
+        const val NOTIFICATION_ACTION_CYCLE_PRESET = "cyclePreset"
+        const val NOTIFICATION_ACTION_STOP_SERVICE = "stopService"
+        
         const val ACTION_START_SERVICE = "com.volumebooster.START_SERVICE"
         const val ACTION_STOP_SERVICE = "com.volumebooster.STOP_SERVICE"
         const val ACTION_SET_BOOST = "com.volumebooster.SET_BOOST"
+        const val ACTION_STEP_BOOST = "com.volumebooster.STEP_BOOST"
         const val ACTION_ENABLE_BOOST = "com.volumebooster.ENABLE_BOOST"
+        const val ACTION_SET_EQUALIZER = "com.volumebooster.SET_EQUALIZER"
+        const val ACTION_SET_BASS_BOOST = "com.volumebooster.SET_BASS_BOOST"
+        const val ACTION_SET_VIRTUALIZER = "com.volumebooster.SET_VIRTUALIZER"
+        const val ACTION_SET_COMPRESSOR = "com.volumebooster.SET_COMPRESSOR"
+        const val ACTION_CYCLE_PRESET = "com.volumebooster.CYCLE_PRESET"
+        const val ACTION_CHECK_BOOST_RULES = "com.volumebooster.CHECK_BOOST_RULES"
         
         const val EXTRA_BOOST_LEVEL = "boost_level"
-        const val EXTRA_APP_ONLY = "app_only"
+        const val EXTRA_GAIN_MILLIBELS = "gain_millibels"
+        const val EXTRA_SESSIONS = "sessions"
+        const val EXTRA_STEP_DIRECTION = "step_direction"
         const val EXTRA_ENABLED = "enabled"
+        const val EXTRA_BAND_LEVELS = "band_levels"
+        const val EXTRA_STRENGTH = "strength"
+        const val EXTRA_THRESHOLD_DB = "threshold_db"
+        const val EXTRA_RATIO = "ratio"
+        const val EXTRA_ATTACK_MS = "attack_ms"
+        const val EXTRA_RELEASE_MS = "release_ms"
+        const val EXTRA_CEILING_DB = "ceiling_db"
+        const val EXTRA_NOTIFICATION_ACTION = "notification_action"
+        
+        private const val PREFS_NAME = "VolumeBoosterService"
+        private const val PREF_BACKGROUND_MODE = "background_mode_enabled"
+        private const val PREF_NEXT_RULE_CHECK = "next_rule_check"
+        private const val PREF_BOOST_STEPS = "boost_steps"
+        
+        /**
+         * Remember whether background mode is on, so it can be restored after a
+         * reboot or after the app process is killed
+         */
+        fun rememberBackgroundMode(context: Context, enabled: Boolean) {
+            context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .edit()
+                .putBoolean(PREF_BACKGROUND_MODE, enabled)
+                .apply()
+        }
+        
+        fun isBackgroundModeRemembered(context: Context): Boolean =
+            context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .getBoolean(PREF_BACKGROUND_MODE, false)
+        
+        /**
+         * Remember when the boost rules are next checked (0 = no check)
+         */
+        fun rememberNextRuleCheck(context: Context, timestamp: Long) {
+            context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .edit()
+                .putLong(PREF_NEXT_RULE_CHECK, timestamp)
+                .apply()
+        }
+        
+        fun nextRuleCheck(context: Context): Long =
+            context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .getLong(PREF_NEXT_RULE_CHECK, 0L)
+        
+        /**
+         * Remember the notification boost -/+ steps, as a JSON array
+         */
+        fun rememberBoostSteps(context: Context, steps: List<BoostStep>) {
+            val json = JSONArray()
+            steps.forEach { step ->
+                json.put(JSONObject().put("boost", step.boost).put("gainMillibels", step.gainMillibels))
+            }
+            context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .edit()
+                .putString(PREF_BOOST_STEPS, json.toString())
+                .apply()
+        }
+        
+        /**
+         * Notification boost -/+ steps in ascending order (empty until JS sends them)
+         */
+        fun boostSteps(context: Context): List<BoostStep> {
+            val stored = context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .getString(PREF_BOOST_STEPS, null) ?: return emptyList()
+            return try {
+                val json = JSONArray(stored)
+                (0 until json.length()).map { index ->
+                    val step = json.getJSONObject(index)
+                    BoostStep(step.getInt("boost"), step.getInt("gainMillibels"))
+                }.sortedBy { it.boost }
+            } catch (e: Exception) {
+                android.util.Log.e("VolumeBoosterService", "Failed to read boost steps", e)
+                emptyList()
+            }
+        }
         
         fun startService(context: Context) {
             val intent = Intent(context, VolumeBoosterService::class.java).apply {
@@ -277,11 +730,12 @@ class VolumeBoosterService : Service() {
             context.startService(intent)
         }
         
-        fun setBoost(context: Context, boostLevel: Int, appOnly: Boolean) {
+        fun setBoost(context: Context, boostLevel: Int, gainMillibels: Int, sessions: List<Int>) {
             val intent = Intent(context, VolumeBoosterService::class.java).apply {
                 action = ACTION_SET_BOOST
                 putExtra(EXTRA_BOOST_LEVEL, boostLevel)
-                putExtra(EXTRA_APP_ONLY, appOnly)
+                putExtra(EXTRA_GAIN_MILLIBELS, gainMillibels)
+                putExtra(EXTRA_SESSIONS, sessions.toIntArray())
             }
             context.startService(intent)
         }
@@ -293,5 +747,43 @@ class VolumeBoosterService : Service() {
             }
             context.startService(intent)
         }
+        
+        fun setEqualizer(context: Context, enabled: Boolean, levels: ShortArray?) {
+            val intent = Intent(context, VolumeBoosterService::class.java).apply {
+                action = ACTION_SET_EQUALIZER
+                putExtra(EXTRA_ENABLED, enabled)
+                levels?.let { putExtra(EXTRA_BAND_LEVELS, it) }
+            }
+            context.startService(intent)
+        }
+        
+        fun setBassBoostStrength(context: Context, strength: Int) {
+            val intent = Intent(context, VolumeBoosterService::class.java).apply {
+                action = ACTION_SET_BASS_BOOST
+                putExtra(EXTRA_STRENGTH, strength)
+            }
+            context.startService(intent)
+        }
+        
+        fun setVirtualizerStrength(context: Context, strength: Int) {
+            val intent = Intent(context, VolumeBoosterService::class.java).apply {
+                action = ACTION_SET_VIRTUALIZER
+                putExtra(EXTRA_STRENGTH, strength)
+            }
+            context.startService(intent)
+        }
+        
+        fun setCompressor(context: Context, settings: SessionBoost.CompressorSettings) {
+            val intent = Intent(context, VolumeBoosterService::class.java).apply {
+                action = ACTION_SET_COMPRESSOR
+                putExtra(EXTRA_ENABLED, settings.enabled)
+                putExtra(EXTRA_THRESHOLD_DB, settings.thresholdDb)
+                putExtra(EXTRA_RATIO, settings.ratio)
+                putExtra(EXTRA_ATTACK_MS, settings.attackMs)
+                putExtra(EXTRA_RELEASE_MS, settings.releaseMs)
+                putExtra(EXTRA_CEILING_DB, settings.ceilingDb)
+            }
+            context.startService(intent)
+        }
     }
 }
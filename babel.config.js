@@ -1,3 +1,9 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
+  env: {
+    // Metro handles import() itself; Jest needs it compiled to require()
+    test: {
+      plugins: ['@babel/plugin-transform-dynamic-import'],
+    },
+  },
 };
@@ -5,5 +5,9 @@
 import { AppRegistry } from 'react-native';
 import App from './App';
 import { name as appName } from './app.json';
+import { BOOST_RESTORE_TASK, restoreBoostTask } from './src/services/BoostRestore';
+import { BOOST_RULES_TASK, evaluateBoostRulesTask } from './src/services/BoostScheduler';
 
 AppRegistry.registerComponent(appName, () => App);
+AppRegistry.registerHeadlessTask(BOOST_RESTORE_TASK, () => restoreBoostTask);
+AppRegistry.registerHeadlessTask(BOOST_RULES_TASK, () => evaluateBoostRulesTask);
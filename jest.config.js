@@ -1,3 +1,6 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  // react-native-* packages ship untranspiled ESM/TSX
+  transformIgnorePatterns: ['node_modules/(?!((jest-)?react-native(-[a-z-]+)?|@react-native(-community)?)/)'],
 };
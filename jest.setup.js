@@ -0,0 +1,14 @@
+/* eslint-env jest */
+/**
+ * Jest setup - mocks for native dependencies that have no JS implementation
+ */
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('react-native-safe-area-context', () =>
+  require('react-native-safe-area-context/jest/mock').default,
+);
+
+jest.mock('react-native-navigation-bar-color', () => jest.fn());
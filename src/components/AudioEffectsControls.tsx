@@ -0,0 +1,116 @@
+import React from 'react';
+import { View, Text, StyleSheet, Alert } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { audioEffectsService } from '../services/AudioEffectsService';
+import { settingsSchema, describeSettingsError } from '../storage/SettingsSchema';
+import { SetSettingResult } from '../storage/SettingsManager';
+import { useAudioEffects } from '../hooks/useAudioEffects';
+import { Theme } from './theme';
+
+/**
+ * Props interface for AudioEffectsControls component
+ */
+interface AudioEffectsControlsProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Audio Effects Controls Component
+ *
+ * Bass boost and virtualizer strength sliders. Each slider is only shown
+ * when the device provides the effect; devices with neither show a hint.
+ */
+const AudioEffectsControls: React.FC<AudioEffectsControlsProps> = ({ theme }) => {
+  const { capabilities, bassBoostStrength, virtualizerStrength } = useAudioEffects();
+
+  /**
+   * Alerts when the settings manager rejects a strength
+   */
+  const showRejected = (result: SetSettingResult) => {
+    if (result.error) {
+      Alert.alert('Effects', describeSettingsError(result.error));
+    }
+  };
+
+  if (!capabilities.bassBoost && !capabilities.virtualizer) {
+    return (
+      <Text style={[styles.effectsHint, { color: theme.textMuted }]}>
+        Bass boost and virtualizer are not available on this device.
+      </Text>
+    );
+  }
+
+  const renderSlider = (
+    testID: string,
+    label: string,
+    value: number,
+    onChange: (strength: number) => Promise<SetSettingResult>,
+  ) => (
+    <View style={styles.effectsRow}>
+      <Text style={[styles.effectsLabel, { color: theme.textSecondary }]}>{label}</Text>
+      <Slider
+        testID={testID}
+        style={styles.effectsSlider}
+        minimumValue={settingsSchema.bassBoostStrength.min}
+        maximumValue={settingsSchema.bassBoostStrength.max}
+        step={5}
+        value={value}
+        onSlidingComplete={async strength => showRejected(await onChange(strength))}
+        minimumTrackTintColor={value > 0 ? theme.sliderTrack : theme.textMuted}
+        maximumTrackTintColor={theme.sliderTrackBackground}
+      />
+      <Text style={[styles.effectsValue, { color: theme.textSecondary }]}>{value > 0 ? `${value}%` : 'Off'}</Text>
+    </View>
+  );
+
+  return (
+    <View>
+      {capabilities.bassBoost &&
+        renderSlider('bass-boost-slider', 'Bass', bassBoostStrength, strength =>
+          audioEffectsService.setBassBoostStrength(strength),
+        )}
+      {capabilities.virtualizer &&
+        renderSlider('virtualizer-slider', 'Surround', virtualizerStrength, strength =>
+          audioEffectsService.setVirtualizerStrength(strength),
+        )}
+
+      <Text style={[styles.effectsHint, { color: theme.textMuted }]}>
+        Applies to the same audio as boost. Most devices only virtualize headphone output.
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for AudioEffectsControls component
+ */
+const styles = StyleSheet.create({
+  effectsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  effectsLabel: {
+    width: 80,
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  effectsSlider: {
+    flex: 1,
+    height: 36,
+  },
+  effectsValue: {
+    width: 48,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlign: 'right',
+  },
+  effectsHint: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    lineHeight: 18,
+  },
+});
+
+export default AudioEffectsControls;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useAudioDevices } from '../hooks/useAudioDevices';
+import { Theme } from './theme';
+
+/**
+ * Props interface for AudioOutputList component
+ */
+interface AudioOutputListProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Audio Output List Component
+ *
+ * Lists every connected audio output and marks the one currently routing
+ * media. Updates as outputs are connected and disconnected.
+ */
+const AudioOutputList: React.FC<AudioOutputListProps> = ({ theme }) => {
+  const { devices } = useAudioDevices();
+
+  if (devices.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.outputList}>
+      <Text style={[styles.outputListTitle, { color: theme.textSecondary }]}>Connected Outputs:</Text>
+      {devices.map(device => (
+        <View key={device.id} testID={`audio-output-${device.id}`} style={styles.outputRow}>
+          <Text style={[styles.outputMarker, { color: device.isActive ? theme.primary : theme.textMuted }]}>
+            {device.isActive ? '●' : '○'}
+          </Text>
+          <Text style={[styles.outputName, { color: device.isActive ? theme.text : theme.textMuted }]}>
+            {device.name}
+          </Text>
+          <Text style={[styles.outputType, { color: theme.textMuted }]}>
+            {device.isActive ? 'Playing' : device.type}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for AudioOutputList component
+ */
+const styles = StyleSheet.create({
+  outputList: {
+    marginTop: 12,
+  },
+  outputListTitle: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginBottom: 4,
+  },
+  outputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  outputMarker: {
+    width: 20,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  outputName: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  outputType: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginLeft: 8,
+  },
+});
+
+export default AudioOutputList;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import {
+  audioSessionService,
+  AudioSessionResult,
+  describeAudioSession,
+  describeBoostTarget,
+  getBoostTarget,
+} from '../services/AudioSessionService';
+import { useAudioSessions } from '../hooks/useAudioSessions';
+import { Theme } from './theme';
+
+/**
+ * Props interface for AudioSessionSelector component
+ */
+interface AudioSessionSelectorProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Audio Session Selector Component
+ *
+ * Chooses which audio boost applies to: all device audio, this app's own
+ * session, or the sessions announced by media players. Tapping a session
+ * attaches or detaches boost; the description explains what is boosted.
+ */
+const AudioSessionSelector: React.FC<AudioSessionSelectorProps> = ({ theme }) => {
+  const sessionState = useAudioSessions();
+  const { appSessionId, openSessions, boostedSessions } = sessionState;
+  const deviceWide = getBoostTarget(sessionState) === 'deviceWide';
+
+  /**
+   * Runs a target change and alerts on failure
+   */
+  const runSessionAction = async (action: () => Promise<AudioSessionResult>) => {
+    const result = await action();
+    if (!result.success) {
+      Alert.alert('Boost Target', result.error ?? 'Unknown error');
+    }
+  };
+
+  const toggleSession = (sessionId: number) =>
+    runSessionAction(() =>
+      boostedSessions.includes(sessionId)
+        ? audioSessionService.detach(sessionId)
+        : audioSessionService.attach(sessionId),
+    );
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      testID={`boost-target-${key}`}
+      style={[styles.sessionChip, { borderColor: selected ? theme.primary : theme.border, backgroundColor: theme.surface }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.sessionChipText, { color: selected ? theme.primary : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text testID="boost-target-description" style={[styles.sessionDescription, { color: theme.textMuted }]}>
+        {describeBoostTarget(sessionState)}
+      </Text>
+
+      <View style={styles.sessionRow}>
+        {renderChip('all', 'All Audio', deviceWide, () => runSessionAction(() => audioSessionService.setAppOnly(false)))}
+        {appSessionId !== null &&
+          renderChip('app', 'This App', boostedSessions.includes(appSessionId), () => toggleSession(appSessionId))}
+        {openSessions.map(session =>
+          renderChip(
+            `session-${session.sessionId}`,
+            describeAudioSession(session.sessionId, sessionState),
+            boostedSessions.includes(session.sessionId),
+            () => toggleSession(session.sessionId),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.sessionHint, { color: theme.textMuted }]}>
+        {openSessions.length === 0
+          ? 'Players that announce their audio session appear here while they play.'
+          : 'Boosting a player leaves other audio untouched. Sessions are released when the player stops.'}
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for AudioSessionSelector component
+ */
+const styles = StyleSheet.create({
+  sessionDescription: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginBottom: 8,
+    lineHeight: 20,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  sessionChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  sessionChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  sessionHint: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 4,
+    lineHeight: 18,
+  },
+});
+
+export default AudioSessionSelector;
@@ -0,0 +1,153 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { SettingsManager, AppSettings } from '../storage/SettingsManager';
+import { describeSettingsError } from '../storage/SettingsSchema';
+import { pushBoostGainToNative } from '../storage/nativeSync';
+import { useSettingValue } from '../hooks/useSettingValue';
+import { BoostCurveId, boostToDb, formatGainDb } from '../services/BoostCurve';
+import { Theme } from './theme';
+
+/**
+ * Props interface for BoostCurveSettings component
+ */
+interface BoostCurveSettingsProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Boost curves offered in the UI with their labels
+ */
+const BOOST_CURVES: Array<{ curve: BoostCurveId; label: string }> = [
+  { curve: 'linear', label: 'Linear' },
+  { curve: 'logarithmic', label: 'Logarithmic' },
+  { curve: 'perceptual', label: 'Perceptual' },
+];
+
+/**
+ * Max boost gains offered in the UI, in dB
+ */
+const MAX_GAINS_DB = [12, 20, 30, 40, 50];
+
+/**
+ * Boost levels shown in the curve summary
+ */
+const SUMMARY_LEVELS = [50, 100, 200];
+
+/**
+ * Boost Curve Settings Component
+ *
+ * Lets the user choose how the boost percentage maps to gain and the gain
+ * at full boost. The max gain is remembered per output device, so small
+ * speakers can be capped lower than headphones.
+ */
+const BoostCurveSettings: React.FC<BoostCurveSettingsProps> = ({ theme }) => {
+  const [boostCurve, setBoostCurve] = useSettingValue('boostCurve');
+  const [maxBoostGainDb, setMaxBoostGainDb] = useSettingValue('maxBoostGainDb');
+
+  /**
+   * Saves a curve setting and re-applies the boost gain, reverting the local
+   * value if it is rejected
+   */
+  const saveSetting = async <K extends 'boostCurve' | 'maxBoostGainDb'>(
+    key: K,
+    value: AppSettings[K],
+    setLocal: (value: AppSettings[K]) => void,
+  ) => {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const previous = settingsManagerInstance.getSetting(key);
+    setLocal(value);
+
+    const result = await settingsManagerInstance.setSetting(key, value);
+    if (!result.success) {
+      setLocal(previous);
+      if (result.error) {
+        Alert.alert('Setting Rejected', describeSettingsError(result.error));
+      }
+      return;
+    }
+
+    await pushBoostGainToNative();
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      testID={key}
+      style={[styles.curveChip, { borderColor: selected ? theme.primary : theme.border, backgroundColor: theme.surface }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.curveChipText, { color: selected ? theme.primary : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const summary = SUMMARY_LEVELS
+    .map(level => `${level}% = ${formatGainDb(boostToDb(level, boostCurve, maxBoostGainDb))}`)
+    .join(', ');
+
+  return (
+    <View>
+      <Text style={[styles.curveLabel, { color: theme.textSecondary }]}>Curve</Text>
+      <View style={styles.curveRow}>
+        {BOOST_CURVES.map(({ curve, label }) =>
+          renderChip(
+            `boost-curve-${curve}`,
+            label,
+            curve === boostCurve,
+            () => saveSetting('boostCurve', curve, setBoostCurve),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.curveLabel, { color: theme.textSecondary }]}>Max Gain (this device)</Text>
+      <View style={styles.curveRow}>
+        {MAX_GAINS_DB.map(gainDb =>
+          renderChip(
+            `max-gain-${gainDb}`,
+            `${gainDb} dB`,
+            gainDb === maxBoostGainDb,
+            () => saveSetting('maxBoostGainDb', gainDb, setMaxBoostGainDb),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.curveSummary, { color: theme.textMuted }]}>{summary}</Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for BoostCurveSettings component
+ */
+const styles = StyleSheet.create({
+  curveLabel: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  curveRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  curveChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  curveChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  curveSummary: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 4,
+  },
+});
+
+export default BoostCurveSettings;
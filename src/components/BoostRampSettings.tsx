@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { SettingsManager, AppSettings } from '../storage/SettingsManager';
+import { describeSettingsError } from '../storage/SettingsSchema';
+import { useSettingValue } from '../hooks/useSettingValue';
+import { RampCurve } from '../services/BoostRamp';
+import { Theme } from './theme';
+
+/**
+ * Props interface for BoostRampSettings component
+ */
+interface BoostRampSettingsProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Ramp durations offered in the UI, in milliseconds
+ */
+const RAMP_DURATIONS = [0, 150, 300, 600, 1000, 2000];
+
+/**
+ * Ramp curves offered in the UI with their labels
+ */
+const RAMP_CURVES: Array<{ curve: RampCurve; label: string }> = [
+  { curve: 'linear', label: 'Linear' },
+  { curve: 'exponential', label: 'Exponential' },
+  { curve: 'equalLoudness', label: 'Equal Loudness' },
+];
+
+/**
+ * Formats a ramp duration for a chip label
+ */
+const formatDuration = (durationMs: number): string => {
+  if (durationMs === 0) return 'Off';
+  return durationMs < 1000 ? `${durationMs}ms` : `${durationMs / 1000}s`;
+};
+
+/**
+ * Boost Ramp Settings Component
+ *
+ * Lets the user choose how long boost changes take to fade in or out and
+ * the curve used for the transition. "Off" applies boost changes instantly.
+ */
+const BoostRampSettings: React.FC<BoostRampSettingsProps> = ({ theme }) => {
+  const [rampDurationMs, setRampDurationMs] = useSettingValue('rampDurationMs');
+  const [rampCurve, setRampCurve] = useSettingValue('rampCurve');
+
+  /**
+   * Saves a ramp setting, reverting the local value if it is rejected
+   */
+  const saveSetting = async <K extends 'rampDurationMs' | 'rampCurve'>(
+    key: K,
+    value: AppSettings[K],
+    setLocal: (value: AppSettings[K]) => void,
+  ) => {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const previous = settingsManagerInstance.getSetting(key);
+    setLocal(value);
+
+    const result = await settingsManagerInstance.setSetting(key, value);
+    if (!result.success) {
+      setLocal(previous);
+      if (result.error) {
+        Alert.alert('Setting Rejected', describeSettingsError(result.error));
+      }
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.rampChip, { borderColor: selected ? theme.primary : theme.border, backgroundColor: theme.surface }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.rampChipText, { color: selected ? theme.primary : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={[styles.rampLabel, { color: theme.textSecondary }]}>Duration</Text>
+      <View style={styles.rampRow}>
+        {RAMP_DURATIONS.map(durationMs =>
+          renderChip(
+            `duration-${durationMs}`,
+            formatDuration(durationMs),
+            durationMs === rampDurationMs,
+            () => saveSetting('rampDurationMs', durationMs, setRampDurationMs),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.rampLabel, { color: theme.textSecondary }]}>Curve</Text>
+      <View style={styles.rampRow}>
+        {RAMP_CURVES.map(({ curve, label }) =>
+          renderChip(
+            `curve-${curve}`,
+            label,
+            curve === rampCurve,
+            () => saveSetting('rampCurve', curve, setRampCurve),
+          ),
+        )}
+      </View>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for BoostRampSettings component
+ */
+const styles = StyleSheet.create({
+  rampLabel: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  rampRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  rampChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  rampChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+});
+
+export default BoostRampSettings;
@@ -0,0 +1,390 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, Alert } from 'react-native';
+import {
+  BoostRuleManager,
+  BoostRule,
+  BoostRuleAction,
+  BoostRuleChangeEvent,
+  BoostRuleInput,
+} from '../storage/BoostRuleManager';
+import { PresetManager, BoostPreset, PresetChangeEvent } from '../storage/PresetManager';
+import {
+  WEEKDAY_LABELS,
+  formatMinuteOfDay,
+  formatRuleTrigger,
+  isRuleActive,
+  nextRuleStart,
+} from '../services/BoostRuleEvaluator';
+import { boostScheduler } from '../services/BoostScheduler';
+import { Theme } from './theme';
+
+/**
+ * Props interface for BoostRulesPanel component
+ */
+interface BoostRulesPanelProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Step of the start and end time buttons, in minutes
+ */
+const TIME_STEP_MINUTES = 30;
+
+/**
+ * Step of the boost level buttons of a "Set boost" rule
+ */
+const BOOST_STEP = 10;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Rule shown in the form when adding a rule: lower boost every night
+ */
+const DEFAULT_DRAFT: BoostRuleInput = {
+  name: '',
+  enabled: true,
+  startMinute: 22 * 60,
+  endMinute: 7 * 60,
+  weekdays: [0, 1, 2, 3, 4, 5, 6],
+  action: { type: 'disableBoost' },
+};
+
+/**
+ * Short description of a rule action
+ */
+const describeAction = (action: BoostRuleAction, presets: BoostPreset[]): string => {
+  switch (action.type) {
+    case 'applyPreset':
+      return `Preset "${presets.find(preset => preset.id === action.presetId)?.name ?? 'deleted'}"`;
+    case 'setBoost':
+      return `Boost ${action.boost}%`;
+    case 'disableBoost':
+      return 'Boost off';
+  }
+};
+
+/**
+ * Weekdays of a rule, e.g. "Every day" or "Mon Tue Wed"
+ */
+const describeWeekdays = (weekdays: number[]): string => {
+  return weekdays.length === 7 ? 'Every day' : weekdays.map(day => WEEKDAY_LABELS[day]).join(' ');
+};
+
+/**
+ * Boost Rules Panel Component
+ *
+ * Lists the scheduled boost rules with their window, action and next start,
+ * and lets the user add, enable, disable and delete rules. The rules are
+ * applied by BoostScheduler, also while the app is closed.
+ */
+const BoostRulesPanel: React.FC<BoostRulesPanelProps> = ({ theme }) => {
+  const [rules, setRules] = useState<BoostRule[]>(() => BoostRuleManager.getInstance().getRules());
+  const [presets, setPresets] = useState<BoostPreset[]>(() => PresetManager.getInstance().getPresets());
+
+  /** Rule being added, or null while the form is closed */
+  const [draft, setDraft] = useState<BoostRuleInput | null>(null);
+
+  /** Current time for the next-start previews, updated after each rule evaluation */
+  const [now, setNow] = useState(() => Date.now());
+
+  const handleRuleChange = useCallback((event: BoostRuleChangeEvent) => {
+    setRules(event.rules);
+    setNow(Date.now());
+  }, []);
+
+  const handlePresetChange = useCallback((event: PresetChangeEvent) => {
+    setPresets(event.presets);
+  }, []);
+
+  const handleEvaluation = useCallback(() => {
+    setNow(Date.now());
+  }, []);
+
+  useEffect(() => {
+    const boostRuleManagerInstance = BoostRuleManager.getInstance();
+    const presetManagerInstance = PresetManager.getInstance();
+    boostRuleManagerInstance.addChangeListener(handleRuleChange);
+    presetManagerInstance.addChangeListener(handlePresetChange);
+    setRules(boostRuleManagerInstance.getRules());
+    setPresets(presetManagerInstance.getPresets());
+
+    boostScheduler.addEvaluationListener(handleEvaluation);
+
+    return () => {
+      boostRuleManagerInstance.removeChangeListener(handleRuleChange);
+      presetManagerInstance.removeChangeListener(handlePresetChange);
+      boostScheduler.removeEvaluationListener(handleEvaluation);
+    };
+  }, [handleRuleChange, handlePresetChange, handleEvaluation]);
+
+  /**
+   * Saves the rule being added
+   */
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+
+    const name = draft.name.trim() || `Rule ${rules.length + 1}`;
+    const rule = await BoostRuleManager.getInstance().createRule({ ...draft, name });
+    if (!rule) {
+      Alert.alert('Error', 'Failed to save rule');
+      return;
+    }
+    setDraft(null);
+  };
+
+  /**
+   * Turns a rule on or off
+   */
+  const handleToggle = async (rule: BoostRule, enabled: boolean) => {
+    const success = await BoostRuleManager.getInstance().updateRule(rule.id, { enabled });
+    if (!success) {
+      Alert.alert('Error', `Failed to update rule "${rule.name}"`);
+    }
+  };
+
+  /**
+   * Shows the delete confirmation for a rule
+   */
+  const handleDelete = (rule: BoostRule) => {
+    Alert.alert(
+      rule.name,
+      'Delete this rule?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            BoostRuleManager.getInstance().deleteRule(rule.id);
+          },
+        },
+      ],
+      { cancelable: true },
+    );
+  };
+
+  const updateDraft = (changes: Partial<BoostRuleInput>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const shiftMinute = (minute: number, step: number): number => {
+    return (minute + step + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!draft) {
+      return;
+    }
+    const weekdays = draft.weekdays.includes(day)
+      ? draft.weekdays.filter(selected => selected !== day)
+      : [...draft.weekdays, day].sort((a, b) => a - b);
+    updateDraft({ weekdays });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      testID={key}
+      style={[styles.ruleChip, { borderColor: selected ? theme.primary : theme.border, backgroundColor: theme.surface }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.ruleChipText, { color: selected ? theme.primary : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (testID: string, label: string, value: string, onStep: (direction: number) => void) => (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.ruleLabel, { color: theme.textSecondary }]}>{label}</Text>
+      {renderChip(`${testID}-down`, '−', false, () => onStep(-1))}
+      <Text testID={testID} style={[styles.stepperValue, { color: theme.text }]}>{value}</Text>
+      {renderChip(`${testID}-up`, '+', false, () => onStep(1))}
+    </View>
+  );
+
+  const renderDraft = (rule: BoostRuleInput) => {
+    const previewStart = nextRuleStart({ ...rule, id: 'draft', createdAt: now, updatedAt: now }, now);
+
+    return (
+      <View style={[styles.draft, { borderColor: theme.border }]}>
+        {renderStepper('rule-start', 'From', formatMinuteOfDay(rule.startMinute), direction =>
+          updateDraft({ startMinute: shiftMinute(rule.startMinute, direction * TIME_STEP_MINUTES) }),
+        )}
+        {renderStepper('rule-end', 'Until', formatMinuteOfDay(rule.endMinute), direction =>
+          updateDraft({ endMinute: shiftMinute(rule.endMinute, direction * TIME_STEP_MINUTES) }),
+        )}
+
+        <View style={styles.chipRow}>
+          {WEEKDAY_LABELS.map((label, day) =>
+            renderChip(`rule-day-${day}`, label, rule.weekdays.includes(day), () => toggleWeekday(day)),
+          )}
+        </View>
+
+        <View style={styles.chipRow}>
+          {renderChip('rule-action-disableBoost', 'Boost off', rule.action.type === 'disableBoost', () =>
+            updateDraft({ action: { type: 'disableBoost' } }),
+          )}
+          {renderChip('rule-action-setBoost', 'Set boost', rule.action.type === 'setBoost', () =>
+            updateDraft({ action: { type: 'setBoost', boost: 50 } }),
+          )}
+          {presets.length > 0 &&
+            renderChip('rule-action-applyPreset', 'Preset', rule.action.type === 'applyPreset', () =>
+              updateDraft({ action: { type: 'applyPreset', presetId: presets[0].id } }),
+            )}
+        </View>
+
+        {rule.action.type === 'setBoost' &&
+          renderStepper('rule-boost', 'Boost', `${rule.action.boost}%`, direction => {
+            const boost = rule.action.type === 'setBoost' ? rule.action.boost : 0;
+            updateDraft({ action: { type: 'setBoost', boost: Math.min(200, Math.max(0, boost + direction * BOOST_STEP)) } });
+          })}
+
+        {rule.action.type === 'applyPreset' && (
+          <View style={styles.chipRow}>
+            {presets.map(preset =>
+              renderChip(
+                `rule-preset-${preset.id}`,
+                preset.name,
+                rule.action.type === 'applyPreset' && rule.action.presetId === preset.id,
+                () => updateDraft({ action: { type: 'applyPreset', presetId: preset.id } }),
+              ),
+            )}
+          </View>
+        )}
+
+        <Text testID="rule-draft-next" style={[styles.ruleDetail, { color: theme.textMuted }]}>
+          {previewStart === null ? 'Pick at least one day' : `First starts ${formatRuleTrigger(previewStart, now)}`}
+        </Text>
+
+        <View style={styles.chipRow}>
+          {renderChip('rule-save', 'Save', false, handleSave)}
+          {renderChip('rule-cancel', 'Cancel', false, () => setDraft(null))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      {rules.map(rule => {
+        const active = isRuleActive(rule, now);
+        const next = nextRuleStart(rule, now);
+
+        return (
+          <TouchableOpacity
+            key={rule.id}
+            testID={`rule-${rule.id}`}
+            style={styles.ruleRow}
+            onLongPress={() => handleDelete(rule)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.ruleInfo}>
+              <Text style={[styles.ruleName, { color: active ? theme.primary : theme.text }]}>
+                {rule.name} · {describeAction(rule.action, presets)}
+              </Text>
+              <Text style={[styles.ruleDetail, { color: theme.textMuted }]}>
+                {formatMinuteOfDay(rule.startMinute)} - {formatMinuteOfDay(rule.endMinute)} · {describeWeekdays(rule.weekdays)}
+              </Text>
+              <Text testID={`rule-next-${rule.id}`} style={[styles.ruleDetail, { color: theme.textMuted }]}>
+                {!rule.enabled ? 'Off' : `${active ? 'Active now · ' : ''}Next start ${next === null ? '-' : formatRuleTrigger(next, now)}`}
+              </Text>
+            </View>
+            <Switch
+              testID={`rule-switch-${rule.id}`}
+              value={rule.enabled}
+              onValueChange={enabled => handleToggle(rule, enabled)}
+              trackColor={{ false: theme.border, true: theme.switchTrack }}
+              thumbColor={rule.enabled ? theme.switchThumb : theme.textMuted}
+            />
+          </TouchableOpacity>
+        );
+      })}
+
+      {draft ? renderDraft(draft) : (
+        <View style={styles.chipRow}>
+          {renderChip('rule-add', '+ Add Rule', false, () => setDraft(DEFAULT_DRAFT))}
+        </View>
+      )}
+
+      <Text style={[styles.ruleHint, { color: theme.textMuted }]}>
+        {rules.length === 0
+          ? 'Change boost automatically at set times, e.g. turn it off at night'
+          : 'Earlier rules win when windows overlap · long press to delete'}
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for BoostRulesPanel component
+ */
+const styles = StyleSheet.create({
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleName: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  ruleDetail: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  ruleLabel: {
+    width: 56,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  draft: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  stepperValue: {
+    width: 56,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    textAlign: 'center',
+    marginRight: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  ruleChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  ruleChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  ruleHint: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+});
+
+export default BoostRulesPanel;
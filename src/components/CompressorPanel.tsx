@@ -0,0 +1,135 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, Alert } from 'react-native';
+import { compressorService, COMPRESSOR_PRESETS, CompressorPresetId } from '../services/CompressorService';
+import { describeSettingsError, SettingsFieldError } from '../storage/SettingsSchema';
+import { useCompressor } from '../hooks/useCompressor';
+import { Theme } from './theme';
+
+/**
+ * Props interface for CompressorPanel component
+ */
+interface CompressorPanelProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Compressor Panel Component
+ *
+ * Enables the compressor ("night mode") and picks one of its presets. The
+ * compressor evens out loud and quiet passages so boost can raise quiet
+ * parts without the loud ones clipping; the output limiter keeps peaks
+ * below the ceiling.
+ */
+const CompressorPanel: React.FC<CompressorPanelProps> = ({ theme }) => {
+  const { available, enabled, preset, parameters } = useCompressor();
+
+  /**
+   * Alerts when the settings manager rejects a compressor change
+   */
+  const showRejected = (errors: SettingsFieldError[]) => {
+    if (errors.length > 0) {
+      Alert.alert('Compressor', errors.map(describeSettingsError).join('\n'));
+    }
+  };
+
+  const handleEnabledChange = async (value: boolean) => {
+    const result = await compressorService.setEnabled(value);
+    showRejected(result.error ? [result.error] : []);
+  };
+
+  const handlePresetPress = async (id: CompressorPresetId) => {
+    const result = await compressorService.selectPreset(id);
+    showRejected(result.errors);
+  };
+
+  if (!available) {
+    return (
+      <Text style={[styles.compressorHint, { color: theme.textMuted }]}>
+        The compressor requires Android 9 or newer.
+      </Text>
+    );
+  }
+
+  return (
+    <View>
+      <View style={styles.compressorHeader}>
+        <Text style={[styles.compressorStatus, { color: enabled ? theme.text : theme.textMuted }]}>
+          {enabled ? 'Night mode on' : 'Off'}
+        </Text>
+        <Switch
+          testID="compressor-switch"
+          value={enabled}
+          onValueChange={handleEnabledChange}
+          trackColor={{ false: theme.border, true: theme.switchTrack }}
+          thumbColor={enabled ? theme.switchThumb : theme.textMuted}
+        />
+      </View>
+
+      <View style={styles.compressorRow}>
+        {COMPRESSOR_PRESETS.map(option => (
+          <TouchableOpacity
+            key={option.id}
+            testID={`compressor-preset-${option.id}`}
+            style={[
+              styles.compressorChip,
+              { borderColor: preset === option.id ? theme.primary : theme.border, backgroundColor: theme.surface },
+            ]}
+            onPress={() => handlePresetPress(option.id)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.compressorChipText, { color: preset === option.id ? theme.primary : theme.text }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.compressorHint, { color: theme.textSecondary }]}>
+        {preset === 'custom' ? 'Custom: ' : ''}
+        {parameters.thresholdDb} dB, {parameters.ratio}:1, attack {parameters.attackMs} ms, release{' '}
+        {parameters.releaseMs} ms, ceiling {parameters.ceilingDb} dB
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for CompressorPanel component
+ */
+const styles = StyleSheet.create({
+  compressorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  compressorStatus: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  compressorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  compressorChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  compressorChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  compressorHint: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    lineHeight: 18,
+  },
+});
+
+export default CompressorPanel;
@@ -0,0 +1,192 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, Alert } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { equalizerService, EQUALIZER_PRESETS, EqualizerPresetId } from '../services/EqualizerService';
+import { settingsSchema, describeSettingsError, SettingsFieldError } from '../storage/SettingsSchema';
+import { useEqualizer } from '../hooks/useEqualizer';
+import { Theme } from './theme';
+
+/**
+ * Props interface for EqualizerPanel component
+ */
+interface EqualizerPanelProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Formats a band center frequency as Hz or kHz
+ */
+const formatBandFrequency = (frequency: number): string =>
+  frequency >= 1000 ? `${Math.round(frequency / 100) / 10}kHz` : `${frequency}Hz`;
+
+/**
+ * Formats a band level in millibels as signed dB
+ */
+const formatBandLevel = (level: number): string => `${level > 0 ? '+' : ''}${level / 100} dB`;
+
+/**
+ * Equalizer Panel Component
+ *
+ * Enables the equalizer, picks a built-in preset and adjusts single bands.
+ * Moving a band turns the current curve into the Custom preset. The
+ * equalizer runs on the same audio as boost, and its settings are
+ * remembered per output device.
+ */
+const EqualizerPanel: React.FC<EqualizerPanelProps> = ({ theme }) => {
+  const { available, layout, enabled, preset, levels } = useEqualizer();
+
+  /**
+   * Alerts when the settings manager rejects an equalizer change
+   */
+  const showRejected = (errors: SettingsFieldError[]) => {
+    if (errors.length > 0) {
+      Alert.alert('Equalizer', errors.map(describeSettingsError).join('\n'));
+    }
+  };
+
+  const handleEnabledChange = async (value: boolean) => {
+    const result = await equalizerService.setEnabled(value);
+    showRejected(result.error ? [result.error] : []);
+  };
+
+  const handlePresetPress = async (id: EqualizerPresetId) => {
+    const result = await equalizerService.selectPreset(id);
+    showRejected(result.error ? [result.error] : []);
+  };
+
+  const handleBandChange = async (band: number, level: number) => {
+    const result = await equalizerService.setBandLevel(band, level);
+    showRejected(result.errors);
+  };
+
+  if (!available || !layout) {
+    return (
+      <Text style={[styles.equalizerHint, { color: theme.textMuted }]}>
+        The equalizer is not available on this device.
+      </Text>
+    );
+  }
+
+  const renderChip = (id: EqualizerPresetId, label: string) => (
+    <TouchableOpacity
+      key={id}
+      testID={`equalizer-preset-${id}`}
+      style={[styles.equalizerChip, { borderColor: preset === id ? theme.primary : theme.border, backgroundColor: theme.surface }]}
+      onPress={() => handlePresetPress(id)}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.equalizerChipText, { color: preset === id ? theme.primary : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const minLevel = Math.max(layout.minLevel, settingsSchema.equalizerCustomLevels.min);
+  const maxLevel = Math.min(layout.maxLevel, settingsSchema.equalizerCustomLevels.max);
+
+  return (
+    <View>
+      <View style={styles.equalizerHeader}>
+        <Text style={[styles.equalizerStatus, { color: enabled ? theme.text : theme.textMuted }]}>
+          {enabled ? 'Enabled' : 'Disabled'}
+        </Text>
+        <Switch
+          testID="equalizer-switch"
+          value={enabled}
+          onValueChange={handleEnabledChange}
+          trackColor={{ false: theme.border, true: theme.switchTrack }}
+          thumbColor={enabled ? theme.switchThumb : theme.textMuted}
+        />
+      </View>
+
+      <View style={styles.equalizerRow}>
+        {EQUALIZER_PRESETS.map(option => renderChip(option.id, option.label))}
+        {renderChip('custom', 'Custom')}
+      </View>
+
+      {layout.bands.map(band => (
+        <View key={band.index} style={styles.equalizerBand}>
+          <Text style={[styles.equalizerBandLabel, { color: theme.textSecondary }]}>
+            {formatBandFrequency(band.centerFrequency)}
+          </Text>
+          <Slider
+            testID={`equalizer-band-${band.index}`}
+            style={styles.equalizerSlider}
+            minimumValue={minLevel}
+            maximumValue={maxLevel}
+            step={100}
+            value={levels[band.index] ?? 0}
+            onSlidingComplete={value => handleBandChange(band.index, value)}
+            minimumTrackTintColor={enabled ? theme.sliderTrack : theme.textMuted}
+            maximumTrackTintColor={theme.sliderTrackBackground}
+          />
+          <Text style={[styles.equalizerBandValue, { color: theme.textSecondary }]}>
+            {formatBandLevel(levels[band.index] ?? 0)}
+          </Text>
+        </View>
+      ))}
+
+      <Text style={[styles.equalizerHint, { color: theme.textMuted }]}>
+        Applies to the same audio as boost. Each output device remembers its own curve.
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for EqualizerPanel component
+ */
+const styles = StyleSheet.create({
+  equalizerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  equalizerStatus: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  equalizerRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  equalizerChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  equalizerChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  equalizerBand: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  equalizerBandLabel: {
+    width: 64,
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  equalizerSlider: {
+    flex: 1,
+    height: 36,
+  },
+  equalizerBandValue: {
+    width: 64,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlign: 'right',
+  },
+  equalizerHint: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    lineHeight: 18,
+  },
+});
+
+export default EqualizerPanel;
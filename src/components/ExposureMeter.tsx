@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, Alert } from 'react-native';
+import { SettingsManager, AppSettings } from '../storage/SettingsManager';
+import { describeSettingsError } from '../storage/SettingsSchema';
+import { useSettingValue } from '../hooks/useSettingValue';
+import { exposureTracker, DailyExposure, ExposureChangeEvent, ExposureAction } from '../services/ExposureTracker';
+import { Theme } from './theme';
+
+/**
+ * Props interface for ExposureMeter component
+ */
+interface ExposureMeterProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Daily limits offered in the UI, in % of the NIOSH dose
+ */
+const EXPOSURE_LIMITS = [50, 80, 100, 150];
+
+/**
+ * Exposure actions offered in the UI with their labels
+ */
+const EXPOSURE_ACTIONS: Array<{ action: ExposureAction; label: string }> = [
+  { action: 'alert', label: 'Warn Me' },
+  { action: 'reduceBoost', label: 'Turn Off Boost' },
+];
+
+/**
+ * Formats a listening duration as hours and minutes
+ */
+const formatListeningTime = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+/**
+ * Exposure Meter Component
+ *
+ * Shows today's estimated noise dose and listening time from the exposure
+ * tracker, lets the user choose the daily limit and what happens when it
+ * is reached, and warns once the limit is reached.
+ */
+const ExposureMeter: React.FC<ExposureMeterProps> = ({ theme }) => {
+  const [today, setToday] = useState<DailyExposure>(() => exposureTracker.getToday());
+  const [trackingEnabled, setTrackingEnabled] = useSettingValue('exposureTrackingEnabled');
+  const [limitPercent, setLimitPercent] = useSettingValue('exposureLimitPercent');
+  const [action, setAction] = useSettingValue('exposureAction');
+
+  /**
+   * Keep today's totals in sync and warn when the limit is reached
+   */
+  const handleExposureChange = useCallback((event: ExposureChangeEvent) => {
+    setToday(event.today);
+
+    if (event.type === 'limitReached') {
+      const boostDisabled = SettingsManager.getInstance().getSetting('exposureAction') === 'reduceBoost';
+      Alert.alert(
+        'Daily Listening Limit Reached',
+        `You have used ${Math.round(event.today.dose * 100)}% of today's safe listening dose.` +
+          (boostDisabled ? ' Boost has been turned off.' : ' Consider lowering the volume or taking a break.'),
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    exposureTracker.addChangeListener(handleExposureChange);
+    setToday(exposureTracker.getToday());
+
+    return () => {
+      exposureTracker.removeChangeListener(handleExposureChange);
+    };
+  }, [handleExposureChange]);
+
+  /**
+   * Saves an exposure setting, reverting the local value if it is rejected
+   */
+  const saveSetting = async <K extends 'exposureTrackingEnabled' | 'exposureLimitPercent' | 'exposureAction'>(
+    key: K,
+    value: AppSettings[K],
+    setLocal: (value: AppSettings[K]) => void,
+  ) => {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const previous = settingsManagerInstance.getSetting(key);
+    setLocal(value);
+
+    const result = await settingsManagerInstance.setSetting(key, value);
+    if (!result.success) {
+      setLocal(previous);
+      if (result.error) {
+        Alert.alert('Setting Rejected', describeSettingsError(result.error));
+      }
+    }
+  };
+
+  const dosePercent = Math.round(today.dose * 100);
+  const doseColor =
+    dosePercent >= limitPercent ? theme.secondary : dosePercent >= limitPercent / 2 ? theme.warningOrange : theme.warningGreen;
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.exposureChip, { borderColor: selected ? theme.primary : theme.border, backgroundColor: theme.surface }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.exposureChipText, { color: selected ? theme.primary : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.exposureHeader}>
+        <Text testID="exposure-dose" style={[styles.exposureDose, { color: trackingEnabled ? doseColor : theme.textMuted }]}>
+          {dosePercent}% of daily dose
+        </Text>
+        <Switch
+          testID="exposure-tracking-switch"
+          value={trackingEnabled}
+          onValueChange={value => saveSetting('exposureTrackingEnabled', value, setTrackingEnabled)}
+          trackColor={{ false: theme.border, true: theme.switchTrack }}
+          thumbColor={trackingEnabled ? theme.switchThumb : theme.textMuted}
+        />
+      </View>
+
+      <View style={[styles.exposureBar, { backgroundColor: theme.sliderTrackBackground }]}>
+        <View
+          style={[
+            styles.exposureBarFill,
+            { width: `${Math.min(100, (dosePercent / limitPercent) * 100)}%`, backgroundColor: doseColor },
+          ]}
+        />
+      </View>
+
+      <Text style={[styles.exposureDetail, { color: theme.textSecondary }]}>
+        Listening today: {formatListeningTime(today.listeningMs)} (boosted {formatListeningTime(today.boostedMs)})
+      </Text>
+
+      <Text style={[styles.exposureLabel, { color: theme.textSecondary }]}>Daily limit</Text>
+      <View style={styles.exposureRow}>
+        {EXPOSURE_LIMITS.map(limit =>
+          renderChip(`limit-${limit}`, `${limit}%`, limit === limitPercent, () =>
+            saveSetting('exposureLimitPercent', limit, setLimitPercent),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.exposureLabel, { color: theme.textSecondary }]}>When reached</Text>
+      <View style={styles.exposureRow}>
+        {EXPOSURE_ACTIONS.map(option =>
+          renderChip(`action-${option.action}`, option.label, option.action === action, () =>
+            saveSetting('exposureAction', option.action, setAction),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.exposureHint, { color: theme.textMuted }]}>
+        Estimated from volume, boost and output device using the NIOSH limit (85 dB for 8 hours).
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for ExposureMeter component
+ */
+const styles = StyleSheet.create({
+  exposureHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  exposureDose: {
+    fontSize: 16,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  exposureBar: {
+    height: 8,
+    borderRadius: 4,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  exposureBarFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  exposureDetail: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginTop: 8,
+  },
+  exposureLabel: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  exposureRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  exposureChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  exposureChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  exposureHint: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 4,
+    lineHeight: 18,
+  },
+});
+
+export default ExposureMeter;
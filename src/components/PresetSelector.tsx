@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import {
+  PresetManager,
+  BoostPreset,
+  PresetChangeEvent,
+  PresetSettings,
+  presetMatchesSettings,
+} from '../storage/PresetManager';
+import { Theme } from './theme';
+
+/**
+ * Props interface for PresetSelector component
+ */
+interface PresetSelectorProps {
+  /** Active theme colors */
+  theme: Theme;
+
+  /** Current settings, used to highlight the matching preset */
+  currentSettings: PresetSettings;
+}
+
+/**
+ * Preset Selector Component
+ *
+ * Renders the saved boost presets as a horizontal row of selectable chips.
+ * Tapping a chip applies the preset, "+ Save" stores the current settings
+ * as a new preset, and a long press offers rename, reorder and delete.
+ */
+const PresetSelector: React.FC<PresetSelectorProps> = ({ theme, currentSettings }) => {
+  const [presets, setPresets] = useState<BoostPreset[]>(() => PresetManager.getInstance().getPresets());
+
+  /** Preset currently being renamed, if any */
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  /**
+   * Keep the preset list in sync with the preset store
+   */
+  const handlePresetChange = useCallback((event: PresetChangeEvent) => {
+    setPresets(event.presets);
+  }, []);
+
+  useEffect(() => {
+    const presetManagerInstance = PresetManager.getInstance();
+    presetManagerInstance.addChangeListener(handlePresetChange);
+    setPresets(presetManagerInstance.getPresets());
+
+    return () => {
+      presetManagerInstance.removeChangeListener(handlePresetChange);
+    };
+  }, [handlePresetChange]);
+
+  /**
+   * Applies the selected preset
+   */
+  const handleApply = async (preset: BoostPreset) => {
+    const success = await PresetManager.getInstance().applyPreset(preset.id);
+    if (!success) {
+      Alert.alert('Error', `Failed to apply preset "${preset.name}"`);
+    }
+  };
+
+  /**
+   * Saves the current settings as a new preset
+   */
+  const handleSave = async () => {
+    const preset = await PresetManager.getInstance().createPreset(`Preset ${presets.length + 1}`);
+    if (!preset) {
+      Alert.alert('Error', 'Failed to save preset');
+    }
+  };
+
+  /**
+   * Commits the rename text for the preset being edited
+   */
+  const handleRenameSubmit = async () => {
+    if (renamingId !== null && renameText.trim().length > 0) {
+      await PresetManager.getInstance().renamePreset(renamingId, renameText);
+    }
+    setRenamingId(null);
+    setRenameText('');
+  };
+
+  /**
+   * Shows the management options for a preset
+   */
+  const handleLongPress = (preset: BoostPreset, index: number) => {
+    const presetManagerInstance = PresetManager.getInstance();
+
+    Alert.alert(
+      preset.name,
+      `Boost ${preset.settings.boostEnabled ? `${preset.settings.boost}%` : 'off'} · Volume ${preset.settings.volume}%`,
+      [
+        {
+          text: 'Rename',
+          onPress: () => {
+            setRenamingId(preset.id);
+            setRenameText(preset.name);
+          },
+        },
+        {
+          text: 'Move Left',
+          onPress: () => {
+            presetManagerInstance.movePreset(preset.id, index - 1);
+          },
+        },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            presetManagerInstance.deletePreset(preset.id);
+          },
+        },
+      ],
+      { cancelable: true },
+    );
+  };
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.presetRow}>
+        {presets.map((preset, index) => {
+          const isActive = presetMatchesSettings(preset, currentSettings);
+
+          return (
+            <TouchableOpacity
+              key={preset.id}
+              style={[
+                styles.presetChip,
+                { borderColor: isActive ? theme.primary : theme.border, backgroundColor: theme.surface },
+              ]}
+              onPress={() => handleApply(preset)}
+              onLongPress={() => handleLongPress(preset, index)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.presetChipText, { color: isActive ? theme.primary : theme.text }]}>
+                {preset.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        <TouchableOpacity
+          style={[styles.presetChip, { borderColor: theme.border }]}
+          onPress={handleSave}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.presetChipText, { color: theme.textMuted }]}>+ Save</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {/* Inline rename field */}
+      {renamingId !== null && (
+        <View style={styles.renameRow}>
+          <TextInput
+            style={[styles.renameInput, { color: theme.text, borderColor: theme.border }]}
+            value={renameText}
+            onChangeText={setRenameText}
+            onSubmitEditing={handleRenameSubmit}
+            autoFocus
+            placeholder="Preset name"
+            placeholderTextColor={theme.textMuted}
+          />
+          <TouchableOpacity onPress={handleRenameSubmit} activeOpacity={0.7}>
+            <Text style={[styles.renameButtonText, { color: theme.primary }]}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <Text style={[styles.presetHint, { color: theme.textMuted }]}>
+        {presets.length === 0
+          ? 'Save the current volume and boost as a preset'
+          : 'Tap to apply · long press to rename, move or delete'}
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for PresetSelector component
+ */
+const styles = StyleSheet.create({
+  presetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  presetChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+  },
+  presetChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  renameInput: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    borderBottomWidth: 1,
+    paddingVertical: 4,
+    marginRight: 12,
+  },
+  renameButtonText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  presetHint: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+});
+
+export default PresetSelector;
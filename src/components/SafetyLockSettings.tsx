@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { SafetyLockManager, SafetyLimits, SafetyLockResult } from '../storage/SafetyLockManager';
+import { useSafetyLimits } from '../hooks/useSafetyLimits';
+import { Theme } from './theme';
+
+/**
+ * Props interface for SafetyLockSettings component
+ */
+interface SafetyLockSettingsProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Caps offered in the UI
+ */
+const MAX_BOOST_OPTIONS = [0, 50, 100, 150, 200];
+const MAX_VOLUME_OPTIONS = [50, 70, 85, 100];
+
+/**
+ * Safety Lock Settings Component
+ *
+ * Lets an administrator cap boost and volume behind a PIN. Without a lock
+ * the caps and a new PIN set the lock; with a lock the PIN is needed to
+ * change the caps or remove the lock.
+ */
+const SafetyLockSettings: React.FC<SafetyLockSettingsProps> = ({ theme }) => {
+  const { locked, limits } = useSafetyLimits();
+  const [draft, setDraft] = useState<SafetyLimits>(limits);
+  const [pin, setPin] = useState('');
+
+  /**
+   * Start editing from the active caps whenever they change
+   */
+  useEffect(() => {
+    setDraft(limits);
+  }, [limits]);
+
+  /**
+   * Runs a lock operation, clearing the PIN on success and alerting on failure
+   */
+  const runLockAction = async (action: () => Promise<SafetyLockResult>, successMessage: string) => {
+    const result = await action();
+    if (result.success) {
+      setPin('');
+      Alert.alert('Safety Lock', successMessage);
+    } else {
+      Alert.alert('Safety Lock', result.error ?? 'Unknown error');
+    }
+  };
+
+  const handleSetLock = () =>
+    runLockAction(
+      () => SafetyLockManager.getInstance().setLock(pin, draft),
+      `Boost is limited to ${draft.maxBoost}% and volume to ${draft.maxVolume}%.`,
+    );
+
+  const handleSaveLimits = () =>
+    runLockAction(
+      () => SafetyLockManager.getInstance().updateLimits(pin, draft),
+      `Boost is limited to ${draft.maxBoost}% and volume to ${draft.maxVolume}%.`,
+    );
+
+  const handleRemoveLock = () =>
+    runLockAction(() => SafetyLockManager.getInstance().removeLock(pin), 'The safety lock has been removed.');
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.lockChip, { borderColor: selected ? theme.primary : theme.border, backgroundColor: theme.surface }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.lockChipText, { color: selected ? theme.primary : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderButton = (label: string, onPress: () => void) => (
+    <TouchableOpacity
+      style={[styles.lockButton, { backgroundColor: pin ? theme.primary : theme.border }]}
+      onPress={onPress}
+      disabled={!pin}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.lockButtonText, { color: theme.background }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={[styles.lockStatus, { color: locked ? theme.warningOrange : theme.textSecondary }]}>
+        {locked ? `🔒 Locked: boost ≤ ${limits.maxBoost}%, volume ≤ ${limits.maxVolume}%` : 'No safety lock set'}
+      </Text>
+
+      <Text style={[styles.lockLabel, { color: theme.textSecondary }]}>Maximum boost</Text>
+      <View style={styles.lockRow}>
+        {MAX_BOOST_OPTIONS.map(maxBoost =>
+          renderChip(`boost-${maxBoost}`, `${maxBoost}%`, maxBoost === draft.maxBoost, () =>
+            setDraft({ ...draft, maxBoost }),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.lockLabel, { color: theme.textSecondary }]}>Maximum volume</Text>
+      <View style={styles.lockRow}>
+        {MAX_VOLUME_OPTIONS.map(maxVolume =>
+          renderChip(`volume-${maxVolume}`, `${maxVolume}%`, maxVolume === draft.maxVolume, () =>
+            setDraft({ ...draft, maxVolume }),
+          ),
+        )}
+      </View>
+
+      <TextInput
+        testID="safety-lock-pin"
+        style={[styles.pinInput, { color: theme.text, borderColor: theme.border }]}
+        value={pin}
+        onChangeText={text => setPin(text.replace(/\D/g, ''))}
+        placeholder={locked ? 'Enter PIN' : 'Choose a 4-8 digit PIN'}
+        placeholderTextColor={theme.textMuted}
+        keyboardType="number-pad"
+        maxLength={8}
+        secureTextEntry
+      />
+
+      {locked ? (
+        <View>
+          {renderButton('Save Limits', handleSaveLimits)}
+          {renderButton('Remove Lock', handleRemoveLock)}
+        </View>
+      ) : (
+        renderButton('Set Lock', handleSetLock)
+      )}
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for SafetyLockSettings component
+ */
+const styles = StyleSheet.create({
+  lockStatus: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  lockLabel: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  lockRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  lockChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  lockChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  pinInput: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 16,
+    fontFamily: 'monospace',
+  },
+  lockButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  lockButtonText: {
+    fontSize: 16,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+});
+
+export default SafetyLockSettings;
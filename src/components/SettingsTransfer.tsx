@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Share,
+} from 'react-native';
+import { SettingsManager, SettingsDiffEntry } from '../storage/SettingsManager';
+import { Theme } from './theme';
+
+/**
+ * Props interface for SettingsTransfer component
+ */
+interface SettingsTransferProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Formats the settings diff for the import confirmation dialog
+ *
+ * @param diff Differences between current and imported settings
+ * @returns One line per changed setting
+ */
+const formatDiff = (diff: SettingsDiffEntry[]): string => {
+  if (diff.length === 0) {
+    return 'Settings are identical to the current ones.';
+  }
+  return diff.map(entry => `${entry.key}: ${String(entry.currentValue)} → ${String(entry.importedValue)}`).join('\n');
+};
+
+/**
+ * Settings Transfer Component
+ *
+ * Exports settings, presets and device profiles as a JSON document through
+ * the system share sheet, and imports a pasted document after showing the
+ * changes it would make.
+ */
+const SettingsTransfer: React.FC<SettingsTransferProps> = ({ theme }) => {
+  const [importText, setImportText] = useState('');
+
+  /**
+   * Shares the exported settings document
+   */
+  const handleExport = async () => {
+    try {
+      const document = await SettingsManager.getInstance().exportSettings();
+      await Share.share({
+        title: 'Volume Booster Settings',
+        message: JSON.stringify(document, null, 2),
+      });
+    } catch (error) {
+      console.error('[SettingsTransfer] Failed to export settings:', error);
+      Alert.alert('Error', 'Failed to export settings');
+    }
+  };
+
+  /**
+   * Validates the pasted document and asks for confirmation
+   */
+  const handleImport = async () => {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const preview = await settingsManagerInstance.previewImport(importText);
+
+    if (!preview.success || !preview.document) {
+      Alert.alert('Import Failed', preview.error ?? 'Unknown error');
+      return;
+    }
+
+    const { document } = preview;
+    Alert.alert(
+      'Import Settings?',
+      `${formatDiff(preview.diff)}\n\n` +
+        `Presets: ${document.presets.length}\n` +
+        `Device profiles: ${document.deviceProfiles.length}\n` +
+        `Exported: ${document.exportedAt} (app ${document.appVersion})`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          onPress: async () => {
+            const result = await settingsManagerInstance.importSettings(document);
+            if (result.success) {
+              setImportText('');
+              Alert.alert('Settings Imported', 'All settings, presets and device profiles were replaced.');
+            } else {
+              Alert.alert('Import Failed', result.error ?? 'Unknown error');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={[styles.transferButton, { backgroundColor: theme.primary }]}
+        onPress={handleExport}
+        activeOpacity={0.8}
+      >
+        <Text style={[styles.transferButtonText, { color: theme.background }]}>Export Settings</Text>
+      </TouchableOpacity>
+
+      <TextInput
+        style={[styles.importInput, { color: theme.text, borderColor: theme.border }]}
+        value={importText}
+        onChangeText={setImportText}
+        placeholder="Paste an exported settings document"
+        placeholderTextColor={theme.textMuted}
+        multiline
+      />
+
+      <TouchableOpacity
+        style={[styles.transferButton, { backgroundColor: importText.trim() ? theme.primary : theme.border }]}
+        onPress={handleImport}
+        disabled={!importText.trim()}
+        activeOpacity={0.8}
+      >
+        <Text style={[styles.transferButtonText, { color: theme.background }]}>Import Settings</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for SettingsTransfer component
+ */
+const styles = StyleSheet.create({
+  transferButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  transferButtonText: {
+    fontSize: 16,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  importInput: {
+    marginTop: 12,
+    minHeight: 80,
+    maxHeight: 160,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+  },
+});
+
+export default SettingsTransfer;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { TestSignalOptions, TestSignalWaveform } from '../modules/VolumeBoosterModule';
+import { testSignalPlayer, TEST_SIGNAL_DEFAULTS } from '../services/TestSignalPlayer';
+import { useTestSignal } from '../hooks/useTestSignal';
+import { Theme } from './theme';
+
+/**
+ * Props interface for TestSignalPanel component
+ */
+interface TestSignalPanelProps {
+  /** Active theme colors */
+  theme: Theme;
+}
+
+/**
+ * Signal options offered in the UI
+ */
+const WAVEFORM_OPTIONS: Array<{ waveform: TestSignalWaveform; label: string }> = [
+  { waveform: 'sine', label: 'Sine' },
+  { waveform: 'pinkNoise', label: 'Pink Noise' },
+  { waveform: 'sweep', label: 'Sweep' },
+];
+const FREQUENCY_OPTIONS = [100, 440, 1000, 4000, 10000];
+const DURATION_OPTIONS = [1000, 3000, 10000];
+const LEVEL_OPTIONS = [-24, -12, -6, 0];
+
+/**
+ * Formats a frequency as Hz or kHz
+ */
+const formatFrequency = (frequency: number): string =>
+  frequency >= 1000 ? `${frequency / 1000}kHz` : `${frequency}Hz`;
+
+/**
+ * Test Signal Panel Component
+ *
+ * Plays a sine tone, pink noise or sweep at a chosen frequency, duration
+ * and level, so boost can be checked on the current output without an
+ * external audio file. The Play button turns into Stop while a signal plays.
+ */
+const TestSignalPanel: React.FC<TestSignalPanelProps> = ({ theme }) => {
+  const { playing } = useTestSignal();
+  const [options, setOptions] = useState<TestSignalOptions>(TEST_SIGNAL_DEFAULTS);
+
+  const handlePlayStop = async () => {
+    const result = playing ? await testSignalPlayer.stop() : await testSignalPlayer.play(options);
+    if (!result.success) {
+      Alert.alert('Test Signal', result.error ?? 'Unknown error');
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.signalChip, { borderColor: selected ? theme.primary : theme.border, backgroundColor: theme.surface }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.signalChipText, { color: selected ? theme.primary : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={[styles.signalLabel, { color: theme.textSecondary }]}>Waveform</Text>
+      <View style={styles.signalRow}>
+        {WAVEFORM_OPTIONS.map(option =>
+          renderChip(`waveform-${option.waveform}`, option.label, option.waveform === options.waveform, () =>
+            setOptions({ ...options, waveform: option.waveform }),
+          ),
+        )}
+      </View>
+
+      {options.waveform !== 'pinkNoise' && (
+        <View>
+          <Text style={[styles.signalLabel, { color: theme.textSecondary }]}>
+            {options.waveform === 'sweep' ? 'Sweep from 20Hz up to' : 'Frequency'}
+          </Text>
+          <View style={styles.signalRow}>
+            {FREQUENCY_OPTIONS.map(frequency =>
+              renderChip(`frequency-${frequency}`, formatFrequency(frequency), frequency === options.frequency, () =>
+                setOptions({ ...options, frequency }),
+              ),
+            )}
+          </View>
+        </View>
+      )}
+
+      <Text style={[styles.signalLabel, { color: theme.textSecondary }]}>Duration</Text>
+      <View style={styles.signalRow}>
+        {DURATION_OPTIONS.map(durationMs =>
+          renderChip(`duration-${durationMs}`, `${durationMs / 1000}s`, durationMs === options.durationMs, () =>
+            setOptions({ ...options, durationMs }),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.signalLabel, { color: theme.textSecondary }]}>Level</Text>
+      <View style={styles.signalRow}>
+        {LEVEL_OPTIONS.map(levelDb =>
+          renderChip(`level-${levelDb}`, `${levelDb} dB`, levelDb === options.levelDb, () =>
+            setOptions({ ...options, levelDb }),
+          ),
+        )}
+      </View>
+
+      <TouchableOpacity
+        testID="test-signal-button"
+        style={[styles.signalButton, { backgroundColor: playing ? theme.secondary : theme.primary }]}
+        onPress={handlePlayStop}
+        activeOpacity={0.8}
+      >
+        <Text style={[styles.signalButtonText, { color: theme.background }]}>
+          {playing ? '⏹ Stop Test Signal' : '🔊 Play Test Signal'}
+        </Text>
+      </TouchableOpacity>
+
+      <Text style={[styles.signalHint, { color: theme.textMuted }]}>
+        Plays through this app's audio, so it is boosted in every boost target that includes this app.
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet for TestSignalPanel component
+ */
+const styles = StyleSheet.create({
+  signalLabel: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  signalRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  signalChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  signalChipText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  signalButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  signalButtonText: {
+    fontSize: 16,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  signalHint: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 8,
+    lineHeight: 18,
+  },
+});
+
+export default TestSignalPanel;
@@ -12,10 +12,51 @@ import {
   Animated,
 } from 'react-native';
 import Slider from '@react-native-community/slider';
-import { VolumeBoosterModule, VolumeBoosterEmitter, AudioDeviceInfo } from '../modules/VolumeBoosterModule';
-import { initializeStorage, SettingsChangeEvent } from '../storage';
-import { SettingsManager } from '../storage/SettingsManager';
+import { VolumeBoosterModule, AudioDeviceInfo } from '../modules/VolumeBoosterModule';
+import { SettingsManager, SetSettingResult } from '../storage/SettingsManager';
+import { describeSettingsError } from '../storage/SettingsSchema';
+import { DeviceProfileManager } from '../storage/DeviceProfileManager';
+import { audioStore } from '../store/AudioStore';
+import { exposureTracker } from '../services/ExposureTracker';
+import { autoVolumeService } from '../services/AutoVolumeService';
+import { audioSessionService } from '../services/AudioSessionService';
+import { testSignalPlayer } from '../services/TestSignalPlayer';
+import { equalizerService } from '../services/EqualizerService';
+import { audioEffectsService } from '../services/AudioEffectsService';
+import { compressorService } from '../services/CompressorService';
+import { notificationSync } from '../services/NotificationSync';
+import { backgroundServiceReconciler } from '../services/BackgroundServiceReconciler';
+import { boostScheduler } from '../services/BoostScheduler';
+import { boostGainMillibels, boostToDb, formatGainDb } from '../services/BoostCurve';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { darkTheme, lightTheme } from './theme';
+import PresetSelector from './PresetSelector';
+import SettingsTransfer from './SettingsTransfer';
+import BoostRampSettings from './BoostRampSettings';
+import BoostCurveSettings from './BoostCurveSettings';
+import ExposureMeter from './ExposureMeter';
+import SafetyLockSettings from './SafetyLockSettings';
+import AudioSessionSelector from './AudioSessionSelector';
+import TestSignalPanel from './TestSignalPanel';
+import EqualizerPanel from './EqualizerPanel';
+import AudioEffectsControls from './AudioEffectsControls';
+import CompressorPanel from './CompressorPanel';
+import AudioOutputList from './AudioOutputList';
+import BoostRulesPanel from './BoostRulesPanel';
+import {
+  useVolume,
+  useBoost,
+  useAudioDevice,
+  useBackgroundService,
+  useNativeEvent,
+  useAudioStore,
+  useSafetyLimits,
+  useAutoVolume,
+  useSettingValue,
+  ensureStorageReady,
+  ensureAudioInitialized,
+  AudioSetterResult,
+} from '../hooks';
 
 /**
  * Props interface for VolumeBooster component
@@ -45,82 +86,6 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
   const colorScheme = useColorScheme();
   const insets = useSafeAreaInsets();
 
-  // ============================================================================
-  // THEME DEFINITIONS - Dark and Light Mode Colors
-  // ============================================================================
-
-  /**
-   * Theme interface for color definitions
-   */
-  interface Theme {
-    background: string;
-    surface: string;
-    primary: string;
-    secondary: string;
-    text: string;
-    textSecondary: string;
-    textMuted: string;
-    border: string;
-    sliderTrack: string;
-    sliderTrackBackground: string;
-    sliderThumb: string;
-    switchTrack: string;
-    switchThumb: string;
-    statusBar: string;
-    navigationBar: string;
-    warningOrange: string;
-    warningGreen: string;
-    warningLightGreen: string;
-  }
-
-  /**
-   * Dark theme color definitions
-   */
-  const darkTheme: Theme = {
-    background: '#000000',
-    surface: '#111111',
-    primary: '#CCFF00',
-    secondary: '#F92672',
-    text: '#FFFFFF',
-    textSecondary: '#CCCCCC',
-    textMuted: '#888888',
-    border: '#333333',
-    sliderTrack: '#CCFF00',
-    sliderTrackBackground: '#999999',
-    sliderThumb: '#CCFF00',
-    switchTrack: '#666600',
-    switchThumb: '#CCFF00',
-    statusBar: '#000000',
-    navigationBar: '#000000',
-    warningOrange: '#FFA500',
-    warningGreen: '#25ea25ff',
-    warningLightGreen: '#7de37dff',
-  };
-
-  /**
-   * Light theme color definitions
-   */
-  const lightTheme: Theme = {
-    background: '#FFFFFF',
-    surface: '#F5F5F5',
-    primary: '#1976D2',
-    secondary: '#D32F2F',
-    text: '#212121',
-    textSecondary: '#424242',
-    textMuted: '#757575',
-    border: '#E0E0E0',
-    sliderTrack: '#1976D2',
-    sliderTrackBackground: '#444444',
-    sliderThumb: '#1976D2',
-    switchTrack: '#BDBDBD',
-    switchThumb: '#1976D2',
-    statusBar: '#FFFFFF',
-    navigationBar: '#FFFFFF',
-    warningOrange: '#FFA500',
-    warningGreen: '#32CD32',
-    warningLightGreen: '#49f249',
-  };
-
   // Use system theme (automatically switches between dark and light)
   const theme = colorScheme === 'dark' ? darkTheme : lightTheme;
   // ============================================================================
@@ -128,37 +93,37 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
   // ============================================================================
 
   /** Current device volume level (0-100%) */
-  const [volume, setVolume] = useState(100);
-
-  /** Current audio boost level (0-200%) */
-  const [boost, setBoost] = useState(0);
-
-  /** Whether boost uses gradual (1%) or discrete (10%) increments */
-  const [gradualBoost, setGradualBoost] = useState(false);
+  const { volume, setVolume } = useVolume();
 
-  /** Whether boost applies to app-only or device-wide audio */
-  // const [appOnlyBoost, setAppOnlyBoost] = useState(false); // TODO: Commented out for future implementation
+  /** Boost level (0-200%), enabled state and gradual (1%) vs discrete (10%) increments */
+  const { boost, boostEnabled, gradualBoost, setBoost, setBoostEnabled, setGradualBoost } = useBoost();
 
-  /** Whether boost functionality is enabled or disabled */
-  const [boostEnabled, setBoostEnabled] = useState(false);
+  /** Whether background mode is enabled and the background service is running */
+  const {
+    enabled: backgroundModeEnabled,
+    running: backgroundServiceRunning,
+    startError: backgroundServiceStartError,
+    setEnabled: setBackgroundModeEnabled,
+  } = useBackgroundService();
 
-  /** Whether background mode is enabled for continuous boost */
-  const [backgroundModeEnabled, setBackgroundModeEnabled] = useState(false);
+  /** Whether auto-volume raises the device volume during boosted playback, and the volume it restores */
+  const { enabled: autoVolumeEnabled, originalVolume, setEnabled: setAutoVolumeEnabled } = useAutoVolume();
 
-  /** Whether the background service is currently running */
-  const [backgroundServiceRunning, setBackgroundServiceRunning] = useState(false);
+  /** Current audio device information and the device whose saved profile is applied */
+  const { device: deviceInfo, activeProfileName } = useAudioDevice();
 
-  /** Whether auto-volume mode is enabled (sets device to 100% when app is active) */
-  // const [autoVolumeEnabled, setAutoVolumeEnabled] = useState(false); // TODO: Commented out for future implementation
+  /** Administrator caps for the boost and volume sliders */
+  const { locked: safetyLocked, limits: safetyLimits } = useSafetyLimits();
 
-  /** Backup of original device volume before auto-volume was applied */
-  // const [originalVolume, setOriginalVolume] = useState<number | null>(null); // TODO: Commented out for future implementation
+  /** Boost curve and the active device's max gain, for the dB figure next to the boost level */
+  const [boostCurve] = useSettingValue('boostCurve');
+  const [maxBoostGainDb] = useSettingValue('maxBoostGainDb');
 
-  /** Flag to track if we're currently in audio playback mode */
-  // const [isAudioPlaying, setIsAudioPlaying] = useState(false); // TODO: Commented out for future implementation
+  /** Whether background boost is restored after a reboot or after the app is killed */
+  const [autoStartEnabled, setAutoStartEnabled] = useSettingValue('autoStartEnabled');
 
-  /** Current audio device information for display */
-  const [deviceInfo, setDeviceInfo] = useState<AudioDeviceInfo | null>(null);
+  /** Whether boost is requested but not applied by the native side */
+  const boostRequestedButInactive = useAudioStore(state => state.derived.boostRequestedButInactive);
 
   /** Whether the native audio module has been initialized */
   const [isInitialized, setIsInitialized] = useState(false);
@@ -166,7 +131,7 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
   /** Whether device info is expanded or collapsed */
   const [isDeviceInfoExpanded, setIsDeviceInfoExpanded] = useState(false);
 
-  /** Reference to track device changes and prevent unnecessary updates */
+  /** Reference to track device changes and prevent unnecessary profile switches */
   const deviceInfoRef = useRef<AudioDeviceInfo | null>(null);
 
   // ============================================================================
@@ -187,39 +152,6 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
   /** Progress tracking for real initialization */
   const [initializationProgress, setInitializationProgress] = useState(0);
 
-  // ============================================================================
-  // STORAGE SYSTEM INTEGRATION - New Centralized Storage
-  // ============================================================================
-
-  /**
-   * Settings change listener for automatic UI updates
-   */
-  const handleSettingsChange = useCallback((event: SettingsChangeEvent) => {
-    console.log(`[VolumeBooster] Settings changed: ${event.key} from ${event.oldValue} to ${event.newValue}`);
-
-    // Update UI state when settings change externally
-    switch (event.key) {
-      case 'volume':
-        setVolume(event.newValue);
-        break;
-      case 'boostEnabled':
-        setBoostEnabled(event.newValue);
-        break;
-      case 'boost':
-        setBoost(event.newValue);
-        break;
-      case 'gradualBoost':
-        setGradualBoost(event.newValue);
-        break;
-      // case 'appOnlyBoost': // TODO: Commented out for future implementation
-      //   setAppOnlyBoost(event.newValue);
-      //   break;
-      // case 'autoVolumeEnabled': // TODO: Commented out for future implementation
-      //   setAutoVolumeEnabled(event.newValue);
-      //   break;
-    }
-  }, []);
-
   // ============================================================================
   // APP INITIALIZATION - Settings Loading and Audio Setup
   // ============================================================================
@@ -229,12 +161,13 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
    * 
    * This function:
    * 1. Initializes the storage system
-   * 2. Loads saved settings from the centralized storage
-   * 3. Applies loaded settings to component state
-   * 4. Initializes the native audio system
+   * 2. Starts the audio store, which reads the native state
+   * 3. Initializes the native audio system
+   * 4. Switches to the saved profile of the current output device
    * 5. Applies saved settings to the native module
    * 6. Starts monitoring services
-   * 7. Sets up settings change listener
+   * 
+   * Component state is read from the audio store through the audio hooks.
    * 
    * Only runs on Android platform as iOS support is not implemented.
    */
@@ -245,48 +178,33 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
       // Step 1: Initialize storage and get settings (20%)
       setLoadingStage('Loading Settings...');
       setInitializationProgress(20);
-      await initializeStorage();
+      await ensureStorageReady();
       const settingsManagerInstance = SettingsManager.getInstance();
-      const savedSettings = settingsManagerInstance.getAllSettings();
-
-      // Step 2: Apply settings to UI state (40%)
-      setLoadingStage('Applying Settings...');
-      setInitializationProgress(40);
-      setBoost(savedSettings.boost);
-      setGradualBoost(savedSettings.gradualBoost);
-      // setAppOnlyBoost(savedSettings.appOnlyBoost); // TODO: Commented out for future implementation
-      setBoostEnabled(savedSettings.boostEnabled);
-      // setAutoVolumeEnabled(savedSettings.autoVolumeEnabled || false); // TODO: Commented out for future implementation
-      settingsManagerInstance.addChangeListener(handleSettingsChange);
+      const deviceProfileManagerInstance = DeviceProfileManager.getInstance();
 
+      // Step 2: Initialize audio system (40%)
+      // Native state is only readable once audio is initialized
       if (Platform.OS === 'android') {
-        // Step 3: Initialize audio system (60%)
         setLoadingStage('Initializing Audio...');
-        setInitializationProgress(60);
-        await VolumeBoosterModule.initializeAudio();
+        setInitializationProgress(40);
+        await ensureAudioInitialized();
+      }
+
+      // Step 3: Start the audio store, which reads the native state (60%)
+      setLoadingStage('Applying Settings...');
+      setInitializationProgress(60);
+      await audioStore.initialize();
 
-        // Step 4: Parallel operations (80%)
+      if (Platform.OS === 'android') {
+        // Step 4: Use the output device read by the audio store (80%)
         setLoadingStage('Configuring Audio...');
         setInitializationProgress(80);
+        const audioDeviceInfo = audioStore.getState().actual.device;
+        deviceInfoRef.current = audioDeviceInfo;
 
-        // Run these operations in parallel for speed
-        const [currentDeviceVolume, audioDeviceInfo] = await Promise.all([
-          VolumeBoosterModule.getVolume(),
-          VolumeBoosterModule.getAudioDeviceInfo().catch(() => null)
-        ]);
-
-        // Handle volume and device info
-        // if (savedSettings.autoVolumeEnabled) { // TODO: Commented out for future implementation
-        //   setOriginalVolume(currentDeviceVolume);
-        //   setVolume(currentDeviceVolume);
-        // } else {
-        setVolume(currentDeviceVolume);
-        // }
-
-        if (audioDeviceInfo) {
-          setDeviceInfo(audioDeviceInfo);
-          deviceInfoRef.current = audioDeviceInfo;
-        }
+        // Switch to the saved profile of the current output device
+        await deviceProfileManagerInstance.handleDeviceChange(audioDeviceInfo);
+        const savedSettings = settingsManagerInstance.getAllSettings();
 
         // Step 5: Apply audio settings (90%)
         setLoadingStage('Finalizing...');
@@ -295,25 +213,65 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
         // Apply settings in parallel
         await Promise.all([
           VolumeBoosterModule.setBoostEnabled(savedSettings.boostEnabled),
-          // VolumeBoosterModule.setAppOnlyBoost(savedSettings.appOnlyBoost), // TODO: Commented out for future implementation
-          savedSettings.boostEnabled ? VolumeBoosterModule.setBoost(savedSettings.boost) : Promise.resolve()
+          VolumeBoosterModule.setAppOnlyBoost(savedSettings.appOnlyBoost),
+          savedSettings.boostEnabled
+            ? VolumeBoosterModule.setBoost(savedSettings.boost, boostGainMillibels(savedSettings.boost))
+            : Promise.resolve()
         ]);
+        audioStore.updateActual({
+          appliedBoostEnabled: savedSettings.boostEnabled,
+          appliedBoost: savedSettings.boostEnabled ? savedSettings.boost : 0,
+        });
 
         // Step 6: Start services and check background status (95%)
         setLoadingStage('Starting Services...');
         setInitializationProgress(95);
 
-        // Start monitoring (non-blocking)
-        VolumeBoosterModule.startDeviceMonitoring();
-        VolumeBoosterModule.startVolumeMonitoring();
-
-        // Check background status in parallel
-        Promise.all([
-          VolumeBoosterModule.isBackgroundModeEnabled().catch(() => false),
-          VolumeBoosterModule.isBackgroundServiceRunning().catch(() => false)
-        ]).then(([isBackgroundEnabled, isServiceRunning]) => {
-          setBackgroundModeEnabled(isBackgroundEnabled);
-          setBackgroundServiceRunning(isServiceRunning);
+        // Track listening exposure (non-blocking)
+        exposureTracker.initialize().catch(error => {
+          console.error('[VolumeBooster] Failed to start exposure tracking:', error);
+        });
+
+        // Track audio sessions that boost can be attached to (non-blocking)
+        audioSessionService.initialize().catch(error => {
+          console.error('[VolumeBooster] Failed to start audio session tracking:', error);
+        });
+
+        // Apply the saved equalizer curve to the boosted sessions (non-blocking)
+        equalizerService.initialize().catch(error => {
+          console.error('[VolumeBooster] Failed to start equalizer:', error);
+        });
+
+        // Apply the saved bass boost and virtualizer strengths (non-blocking)
+        audioEffectsService.initialize().catch(error => {
+          console.error('[VolumeBooster] Failed to start audio effects:', error);
+        });
+
+        // Apply the saved compressor settings (non-blocking)
+        compressorService.initialize().catch(error => {
+          console.error('[VolumeBooster] Failed to start compressor:', error);
+        });
+
+        // Follow test signal playback
+        testSignalPlayer.initialize();
+
+        // Save changes made from the background service notification
+        notificationSync.initialize();
+
+        // Apply the scheduled boost rules and schedule the next check (non-blocking)
+        boostScheduler.initialize().catch(error => {
+          console.error('[VolumeBooster] Failed to start the boost scheduler:', error);
+        });
+
+        // Start or stop the background service to match the saved background mode,
+        // now and whenever the app returns to the foreground (non-blocking)
+        backgroundServiceReconciler.initialize().catch(error => {
+          console.error('[VolumeBooster] Failed to reconcile the background service:', error);
+        });
+
+        // Raise the volume during boosted playback if auto-volume is enabled (non-blocking)
+        autoVolumeService.initialize().catch(error => {
+          console.error('[VolumeBooster] Failed to start auto-volume:', error);
         });
 
         // Step 7: Complete (100%)
@@ -331,23 +289,7 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
       setLoadingStage('Initialization Failed');
       Alert.alert('Error', 'Failed to initialize app');
     }
-  }, [handleSettingsChange]);
-
-  /**
-   * Updates the original volume backup when user manually changes volume
-   * 
-   * This ensures the backup always reflects the user's preferred volume level
-   * when auto-volume is enabled. Does not update during audio playback.
-   */
-  // TODO: Commented out for future implementation
-  // const updateOriginalVolumeBackup = useCallback((newVolume: number) => {
-  //   if (autoVolumeEnabled && newVolume !== 100 && !isAudioPlaying) {
-  //     console.log('[VolumeBooster] Updating original volume backup from', originalVolume, 'to', newVolume);
-  //     setOriginalVolume(newVolume);
-  //   } else if (isAudioPlaying) {
-  //     console.log('[VolumeBooster] Skipping backup update during audio playback');
-  //   }
-  // }, [autoVolumeEnabled, isAudioPlaying, originalVolume]);
+  }, []);
 
   // ============================================================================
   // COMPONENT LIFECYCLE - Initialization and Event Listeners
@@ -359,172 +301,86 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
    * This effect runs once when the component mounts and sets up:
    * 1. Load saved settings from storage
    * 2. Audio system initialization
-   * 3. Event listeners for device changes
-   * 4. Event listeners for volume changes
-   * 5. Cleanup functions for when component unmounts
+   * 3. Cleanup functions for when component unmounts
    * 
-   * The effect returns a cleanup function that removes all listeners
-   * and stops monitoring when the component is unmounted.
+   * The effect returns a cleanup function that stops the services when the
+   * component is unmounted. Event listeners are registered below through
+   * the shared event hub, which also starts and stops device and volume
+   * monitoring.
    */
   useEffect(() => {
     initializeApp();
 
-    const deviceSubscription = VolumeBoosterEmitter.addListener(
-      'audioDeviceChanged',
-      (device: AudioDeviceInfo | null) => {
-        if (device === null) {
-          setDeviceInfo(null);
-          deviceInfoRef.current = null;
-        } else if (device.id !== deviceInfoRef.current?.id) {
-          setDeviceInfo(device);
-          deviceInfoRef.current = device;
-        }
-      }
-    );
-
-    const volumeSubscription = VolumeBoosterEmitter.addListener(
-      'volumeChanged',
-      (newVolume: number) => {
-        console.log('[VolumeBooster] Volume changed to:', newVolume);
-        setVolume(newVolume);
-
-        // Update original volume backup if auto-volume is enabled and volume is not 100%
-        // updateOriginalVolumeBackup(newVolume); // TODO: Commented out for future implementation
-
-        // Save the new volume to storage
-        const settingsManagerInstance = SettingsManager.getInstance();
-        settingsManagerInstance.setSetting('volume', newVolume);
-      }
-    );
-
     return () => {
-      deviceSubscription.remove();
-      volumeSubscription.remove();
-      const settingsManagerInstance = SettingsManager.getInstance();
-      settingsManagerInstance.removeChangeListener(handleSettingsChange);
-      VolumeBoosterModule.stopDeviceMonitoring();
-      VolumeBoosterModule.stopVolumeMonitoring();
-
-      // Restore original volume if auto-volume was enabled and volume was changed
-      // TODO: Commented out for future implementation
-      // if (autoVolumeEnabled && originalVolume !== null && Platform.OS === 'android') {
-      //   console.log('[VolumeBooster] App closing - checking if volume needs restoration');
-      //   VolumeBoosterModule.getVolume().then(currentVolume => {
-      //     if (currentVolume === 100) {
-      //       console.log('[VolumeBooster] Restoring original volume:', originalVolume);
-      //       VolumeBoosterModule.setVolume(originalVolume).catch(error => {
-      //         console.error('[VolumeBooster] Failed to restore volume on app close:', error);
-      //       });
-      //     }
-      //   }).catch(error => {
-      //     console.error('[VolumeBooster] Failed to check volume on app close:', error);
-      //   });
-      // }
+      exposureTracker.dispose();
+      audioSessionService.dispose();
+      equalizerService.dispose();
+      audioEffectsService.dispose();
+      compressorService.dispose();
+      testSignalPlayer.stop();
+      testSignalPlayer.dispose();
+      notificationSync.dispose();
+      backgroundServiceReconciler.dispose();
+      boostScheduler.dispose();
+
+      // Restores the user's volume if auto-volume has raised it
+      autoVolumeService.dispose();
     };
-  }, [initializeApp, handleSettingsChange]); // TODO: Removed auto-volume dependencies for future implementation
-
-  // ============================================================================
-  // AUTO-VOLUME HANDLERS - TODO: Commented out for future implementation
-  // ============================================================================
+  }, [initializeApp]);
 
   /**
-   * Handles auto-volume toggle changes
-   * 
-   * When enabled: backs up current volume for audio-aware volume management
-   * When disabled: restores original volume if it was changed
+   * Switches device profiles when the output device changes
    */
-  // const handleAutoVolumeToggle = async (enabled: boolean) => {
-  //   if (!isInitialized || Platform.OS !== 'android') {
-  //     Alert.alert('Error', 'Audio system not initialized');
-  //     return;
-  //   }
-
-  //   try {
-  //     console.log('[VolumeBooster] Setting auto-volume to:', enabled);
-  //     
-  //     if (enabled) {
-  //       // Enable auto-volume: backup current volume (don't change yet)
-  //       const currentVolume = await VolumeBoosterModule.getVolume();
-  //       setOriginalVolume(currentVolume);
-  //       
-  //       console.log('[VolumeBooster] Auto-volume enabled - original volume backed up:', currentVolume, '%');
-  //       console.log('[VolumeBooster] Volume will be set to 100% only when app plays audio');
-  //     } else {
-  //       // Disable auto-volume: restore original volume if it was changed
-  //       if (originalVolume !== null) {
-  //         const currentVolume = await VolumeBoosterModule.getVolume();
-  //         if (currentVolume === 100) {
-  //           // Only restore if volume is currently at 100% (was changed by auto-volume)
-  //           console.log('[VolumeBooster] Restoring original volume:', originalVolume);
-  //           await VolumeBoosterModule.setVolume(originalVolume);
-  //           setVolume(originalVolume);
-  //         }
-  //         setOriginalVolume(null);
-  //         
-  //         console.log('[VolumeBooster] Auto-volume disabled - volume restored if needed');
-  //       }
-  //     }
-  //     
-  //     setAutoVolumeEnabled(enabled);
-  //     
-  //     // Save setting using centralized storage
-  //     const settingsManagerInstance = SettingsManager.getInstance();
-  //     await settingsManagerInstance.setSetting('autoVolumeEnabled', enabled);
-  //     
-  //   } catch (error) {
-  //     console.error('[VolumeBooster] Failed to toggle auto-volume:', error);
-  //     Alert.alert('Error', 'Failed to toggle auto-volume');
-  //   }
-  // };
+  useNativeEvent('audioDeviceChanged', device => {
+    if (device === null) {
+      deviceInfoRef.current = null;
+      DeviceProfileManager.getInstance().handleDeviceChange(null);
+    } else if (device.id !== deviceInfoRef.current?.id) {
+      deviceInfoRef.current = device;
+      DeviceProfileManager.getInstance().handleDeviceChange(device);
+    }
+  });
 
   /**
-   * Sets volume to 100% when app starts playing audio
-   * 
-   * This function is called when the app begins audio playback
-   * It only changes volume if auto-volume is enabled
+   * Saves volume changes made outside the app (hardware buttons, other apps)
    */
-  // TODO: Commented out for future implementation
-  // const handleAudioPlaybackStart = async () => {
-  //   if (!autoVolumeEnabled || !isInitialized || Platform.OS !== 'android') {
-  //     return;
-  //   }
+  useNativeEvent('volumeChanged', newVolume => {
+    console.log('[VolumeBooster] Volume changed to:', newVolume);
 
-  //   try {
-  //     console.log('[VolumeBooster] Audio playback started - setting volume to 100%');
-  //     setIsAudioPlaying(true); // Set flag to prevent backup updates
-  //     await VolumeBoosterModule.setVolume(100);
-  //     setVolume(100);
-  //   } catch (error) {
-  //     console.error('[VolumeBooster] Failed to set volume for audio playback:', error);
-  //   }
-  // };
+    // Auto-volume changes are not the user's volume; AutoVolumeService restores it afterwards
+    if (autoVolumeService.isRaised()) {
+      return;
+    }
+
+    // Hardware buttons cannot get past the safety lock either
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const { maxVolume } = settingsManagerInstance.getSafetyLimits();
+    if (newVolume > maxVolume) {
+      setVolume(maxVolume);
+      return;
+    }
+
+    // Save the new volume to storage
+    settingsManagerInstance.setSetting('volume', newVolume);
+  });
+
+  // ============================================================================
+  // AUTO-VOLUME HANDLERS
+  // ============================================================================
 
   /**
-   * Restores original volume when app finishes playing audio
+   * Handles auto-volume toggle changes
+   * 
+   * When enabled, AutoVolumeService backs up the current volume and raises
+   * the device volume to 100% only while boosted audio is playing. When
+   * disabled, the backed-up volume is restored if it was raised.
    * 
-   * This function is called when the app stops audio playback
-   * It restores the original volume if auto-volume is enabled
+   * @param enabled true to enable auto-volume, false to disable
    */
-  // TODO: Commented out for future implementation
-  // const handleAudioPlaybackEnd = async () => {
-  //   if (!autoVolumeEnabled || !isInitialized || Platform.OS !== 'android' || originalVolume === null) {
-  //     return;
-  //   }
-
-  //   try {
-  //     console.log('[VolumeBooster] Audio playback ended - restoring original volume:', originalVolume, '%');
-  //     await VolumeBoosterModule.setVolume(originalVolume);
-  //     setVolume(originalVolume);
-  //     
-  //     // Small delay to ensure volume restoration completes before allowing backup updates
-  //     setTimeout(() => {
-  //       setIsAudioPlaying(false); // Clear flag to allow backup updates again
-  //     }, 100);
-  //   } catch (error) {
-  //     console.error('[VolumeBooster] Failed to restore volume after audio playback:', error);
-  //     setIsAudioPlaying(false); // Clear flag even on error
-  //   }
-  // };
+  const handleAutoVolumeToggle = async (enabled: boolean) => {
+    console.log('[VolumeBooster] Setting auto-volume to:', enabled);
+    showSettingRejected(await setAutoVolumeEnabled(enabled));
+  };
 
   /**
    * Formats volume for display with one decimal place
@@ -540,6 +396,18 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
   // USER INTERACTION HANDLERS
   // ============================================================================
 
+  /**
+   * Explains a rejected setting change to the user
+   *
+   * @param result Result returned by SettingsManager.setSetting
+   */
+  const showSettingRejected = (result: SetSettingResult | AudioSetterResult) => {
+    if (!result.success && result.error) {
+      console.warn('[VolumeBooster] Setting rejected:', result.error);
+      Alert.alert('Setting Not Saved', describeSettingsError(result.error));
+    }
+  };
+
   /**
    * Handles volume slider changes using centralized storage
    * 
@@ -551,23 +419,9 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
    */
   const handleVolumeChange = async (value: number) => {
     console.log('[VolumeBooster] Volume changed to:', value);
-    setVolume(value);
-
-    if (isInitialized && Platform.OS === 'android') {
-      try {
-        await VolumeBoosterModule.setVolume(value);
-      } catch (error) {
-        console.error('[VolumeBooster] Failed to set volume:', error);
-      }
-    }
-
-    // Update original volume backup if auto-volume is enabled and volume is not 100%
-    // updateOriginalVolumeBackup(value); // TODO: Commented out for future implementation
 
-    // Save setting using centralized storage
-    console.log('[VolumeBooster] Saving volume setting to centralized storage...');
-    const settingsManagerInstance = SettingsManager.getInstance();
-    await settingsManagerInstance.setSetting('volume', value);
+    // useVolume applies the change natively and saves it
+    showSettingRejected(await setVolume(value));
   };
 
   /**
@@ -577,33 +431,20 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
    * - Gradual mode: Uses exact slider value (1% increments)
    * - Discrete mode: Snaps to 10% increments (0, 10, 20, 30, etc.)
    * 
-   * The boost level is sent to the native module for real-time audio processing.
+   * The boost level is sent to the native module for real-time audio processing,
+   * ramping to it with the saved fade duration and curve. Moving the slider
+   * mid-ramp cancels the ramp and continues from the level it reached.
    * Boost levels above 100% provide additional gain beyond the original maximum.
    * Only works when boost functionality is enabled. Also saves the setting.
    * 
    * @param value Boost percentage (0-200)
    */
   const handleBoostChange = async (value: number) => {
-    // BOOST VALUE PROCESSING:
+    // BOOST VALUE PROCESSING (done by useBoost):
     // - If gradual mode is ON: use exact value (1% increments)
     // - If gradual mode is OFF: snap to 10% increments (0, 10, 20, 30, etc.)
-    const boostValue = gradualBoost ? value : Math.round(value / 10) * 10;
-    console.log('[VolumeBooster] Boost changed to:', boostValue);
-    setBoost(boostValue);
-
-    // Always apply boost to native module (it will handle enabled/disabled state internally)
-    if (isInitialized && Platform.OS === 'android') {
-      try {
-        await VolumeBoosterModule.setBoost(boostValue);
-      } catch (error) {
-        console.error('[VolumeBooster] Failed to set boost:', error);
-      }
-    }
-
-    // Save setting using centralized storage
-    console.log('[VolumeBooster] Saving boost setting to centralized storage...');
-    const settingsManagerInstance = SettingsManager.getInstance();
-    await settingsManagerInstance.setSetting('boost', boostValue);
+    console.log('[VolumeBooster] Boost changed to:', value);
+    showSettingRejected(await setBoost(value));
   };
 
   /**
@@ -617,19 +458,9 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
    */
   const handleGradualBoostToggle = async (value: boolean) => {
     console.log('[VolumeBooster] Gradual boost toggle changed to:', value);
-    setGradualBoost(value);
-
-    if (!value) {
-      // Snap to discrete values when switching off gradual mode
-      const discreteValue = Math.round(boost / 10) * 10;
-      setBoost(discreteValue);
-      handleBoostChange(discreteValue);
-    }
 
-    // Save setting using centralized storage
-    console.log('[VolumeBooster] Saving gradual boost setting to centralized storage...');
-    const settingsManagerInstance = SettingsManager.getInstance();
-    await settingsManagerInstance.setSetting('gradualBoost', value);
+    // useBoost snaps the boost level to 10% when gradual mode is switched off
+    showSettingRejected(await setGradualBoost(value));
   };
 
   /**
@@ -637,132 +468,26 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
    * 
    * Enables or disables the boost functionality. When disabled, boost slider
    * changes are ignored and no audio enhancement is applied. When enabled,
-   * the current boost level is applied to the audio system. Also saves the setting.
+   * the current boost level fades in; when disabled it fades out before the
+   * enhancer is switched off. Also saves the setting.
    * 
    * @param value true to enable boost functionality, false to disable
    */
   const handleBoostEnabledToggle = async (value: boolean) => {
     console.log('[VolumeBooster] Boost enabled toggle changed to:', value);
-    setBoostEnabled(value);
-
-    if (isInitialized && Platform.OS === 'android') {
-      try {
-        // Set the boost enabled state in the native module
-        await VolumeBoosterModule.setBoostEnabled(value);
-
-        // Apply current boost level (or 0 if disabled)
-        const boostToApply = value ? boost : 0;
-        console.log('[VolumeBooster] Applying boost level:', boostToApply);
-        await VolumeBoosterModule.setBoost(boostToApply);
-      } catch (error) {
-        console.error('[VolumeBooster] Failed to toggle boost functionality:', error);
-        Alert.alert('Error', 'Failed to toggle boost functionality');
-      }
-    }
 
-    // Save setting using centralized storage
-    console.log('[VolumeBooster] Saving boost enabled setting to centralized storage...');
-    const settingsManagerInstance = SettingsManager.getInstance();
-    await settingsManagerInstance.setSetting('boostEnabled', value);
+    // useBoost applies the current boost level (or 0 if disabled) and saves the setting
+    const result = await setBoostEnabled(value);
+    if (result.nativeError) {
+      Alert.alert('Error', 'Failed to toggle boost functionality');
+    }
+    showSettingRejected(result);
   };
 
-  /**
-   * Handles app-only boost mode toggle using centralized storage
-   * 
-   * Switches between app-only and device-wide boost modes:
-   * - App-only mode: Boost only affects audio from this app (notifications, sounds, etc.)
-   * - Device-wide mode: Boost affects all device audio (music, videos, games, etc.)
-   * 
-   * When switching modes, the current boost level is reapplied with the new session
-   * configuration to ensure seamless transition. Also saves the setting.
-   * 
-   * @param value true for app-only boost, false for device-wide boost
-   */
-  // TODO: Commented out for future implementation
-  // const handleAppOnlyBoostToggle = async (value: boolean) => {
-  //   console.log('[VolumeBooster] App-only boost toggle changed to:', value);
-  //   setAppOnlyBoost(value);
-  //   
-  //   if (isInitialized && Platform.OS === 'android') {
-  //     try {
-  //       await VolumeBoosterModule.setAppOnlyBoost(value);
-  //       // Reapply current boost with new mode (only if boost is enabled)
-  //       if (boostEnabled) {
-  //         console.log('[VolumeBooster] Reapplying boost with new mode:', boost);
-  //         await VolumeBoosterModule.setBoost(boost);
-  //       }
-  //     } catch (error) {
-  //       console.error('[VolumeBooster] Failed to set app-only boost mode:', error);
-  //       Alert.alert('Error', 'Failed to change boost mode');
-  //     }
-  //   }
-  //   
-  //   // Save setting using centralized storage
-  //   console.log('[VolumeBooster] Saving app-only boost setting to centralized storage...');
-  //   const settingsManagerInstance = SettingsManager.getInstance();
-  //   await settingsManagerInstance.setSetting('appOnlyBoost', value);
-  // };
-
-  /**
-   * Handles test sound playback
-   * 
-   * Plays a 440Hz test tone to verify boost functionality. The test sound
-   * uses the app's audio session, making it perfect for testing app-only boost mode.
-   * 
-   * The test sound helps users verify that:
-   * - The boost is working correctly
-   * - App-only vs device-wide modes are functioning
-   * - Audio quality is acceptable at current boost levels
-   */
-  // const handleTestSound = async () => {
-  //   if (isInitialized && Platform.OS === 'android') {
-  //     try {
-  //       // Start audio playback - trigger auto-volume if enabled
-  //       // await handleAudioPlaybackStart(); // TODO: Commented out for future implementation
-
-  //       // Play the test sound
-  //       await VolumeBoosterModule.playTestSound();
-
-  //       // Wait for sound to complete (test sound duration is typically 2-3 seconds)
-  //       // setTimeout(async () => { // TODO: Commented out for future implementation
-  //       //   await handleAudioPlaybackEnd();
-  //       // }, 3000); // 3 second delay to allow test sound to complete
-
-  //     } catch (error) {
-  //       console.error('Failed to play test sound:', error);
-  //       Alert.alert('Error', 'Failed to play test sound');
-
-  //       // Restore volume if there was an error
-  //       // await handleAudioPlaybackEnd(); // TODO: Commented out for future implementation
-  //     }
-  //   }
-  // };
-
   // ============================================================================
   // BACKGROUND SERVICE CONTROL FUNCTIONS
   // ============================================================================
 
-  /**
-   * Checks and updates background service status
-   * 
-   * Periodically checks if the background service is running
-   * and updates the UI accordingly.
-   */
-  const checkBackgroundServiceStatus = useCallback(async () => {
-    if (!isInitialized || Platform.OS !== 'android') return;
-
-    try {
-      const isServiceRunning = await VolumeBoosterModule.isBackgroundServiceRunning();
-      setBackgroundServiceRunning(isServiceRunning);
-
-      if (backgroundModeEnabled && !isServiceRunning) {
-        console.warn('[VolumeBooster] Background mode enabled but service not running');
-      }
-    } catch (error) {
-      console.error('[VolumeBooster] Failed to check background service status:', error);
-    }
-  }, [isInitialized, backgroundModeEnabled]);
-
   /**
    * Handles background mode toggle
    * 
@@ -781,12 +506,8 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
     try {
       console.log('[VolumeBooster] Setting background mode to:', enabled);
 
-      const result = await VolumeBoosterModule.setBackgroundMode(enabled);
-      setBackgroundModeEnabled(result);
-
-      // Check service status after toggling
-      const isServiceRunning = await VolumeBoosterModule.isBackgroundServiceRunning();
-      setBackgroundServiceRunning(isServiceRunning);
+      // useBackgroundService saves the setting and re-checks the service status after toggling
+      const result = await setBackgroundModeEnabled(enabled);
 
       if (enabled) {
         // Alert.alert(
@@ -802,37 +523,32 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
         // );
       }
 
-      console.log('[VolumeBooster] Background mode toggled successfully:', {
-        enabled: result,
-        serviceRunning: isServiceRunning
-      });
+      console.log('[VolumeBooster] Background mode toggled successfully:', { enabled: result });
     } catch (error) {
       console.error('[VolumeBooster] Failed to toggle background mode:', error);
       Alert.alert('Error', 'Failed to toggle background mode');
     }
   };
 
-  // ============================================================================
-  // BACKGROUND SERVICE STATUS MONITORING
-  // ============================================================================
-
   /**
-   * Periodic background service status check
+   * Handles the auto-start toggle
+   * 
+   * Saves whether background boost is restored after a reboot or after
+   * Android kills the app. Read by the restore task, which only runs while
+   * background mode is on.
    * 
-   * Checks background service status 2 seconds when background mode is enabled
-   * to ensure the service is still running and update the UI accordingly.
+   * @param enabled true to restore background boost automatically
    */
-  useEffect(() => {
-    if (!backgroundModeEnabled || !isInitialized) return;
-
-    const timeout = setTimeout(() => {
-      checkBackgroundServiceStatus();
-    }, 2000); // Check once after 2 seconds
+  const handleAutoStartToggle = async (enabled: boolean) => {
+    console.log('[VolumeBooster] Auto-start toggle changed to:', enabled);
 
-    return () => {
-      clearTimeout(timeout);
-    };
-  }, [backgroundModeEnabled, isInitialized, checkBackgroundServiceStatus]);
+    setAutoStartEnabled(enabled);
+    const result = await SettingsManager.getInstance().setSetting('autoStartEnabled', enabled);
+    if (!result.success) {
+      setAutoStartEnabled(!enabled);
+    }
+    showSettingRejected(result);
+  };
 
   // ============================================================================
   // LOADING SCREEN ANIMATION EFFECTS
@@ -1173,7 +889,7 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
             <View>
               {/* Device Name with Expand/Collapse Button */}
               <View style={styles.deviceInfoHeader}>
-                <Text style={[styles.deviceNameText, { color: theme.text }]}>
+                <Text testID="device-name" style={[styles.deviceNameText, { color: theme.text }]}>
                   {deviceInfo.name}
                 </Text>
                 <TouchableOpacity
@@ -1187,6 +903,13 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
                 </TouchableOpacity>
               </View>
 
+              {/* Saved Profile Indicator */}
+              {activeProfileName !== null && (
+                <Text style={[styles.statusText, { color: theme.warningGreen }]}>
+                  Using saved settings for {activeProfileName}
+                </Text>
+              )}
+
               {/* Detailed Device Information - Collapsible */}
               {isDeviceInfoExpanded && (
                 <Text style={[styles.deviceInfoText, { color: theme.textMuted }]}>
@@ -1199,6 +922,9 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
               No Active Output Device Detected
             </Text>
           )}
+
+          {/* All Connected Outputs */}
+          <AudioOutputList theme={theme} />
         </View>
 
         {/* Volume Controls */}
@@ -1211,6 +937,7 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
                 Boost
               </Text>
               <Switch
+                testID="boost-enabled-switch"
                 style={styles.switch}
                 value={boostEnabled}
                 onValueChange={handleBoostEnabledToggle}
@@ -1223,8 +950,8 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
           <Slider
             style={styles.slider}
             minimumValue={0}
-            maximumValue={100}
-            value={volume}
+            maximumValue={safetyLimits.maxVolume}
+            value={Math.min(volume, safetyLimits.maxVolume)}
             onValueChange={handleVolumeChange}
             minimumTrackTintColor={theme.sliderTrack}
             maximumTrackTintColor={theme.sliderTrackBackground}
@@ -1251,11 +978,15 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
               {boost > 100 && boost <= 150} {/* High boost indicator */}
               {boost > 50 && boost <= 100} {/* Moderate boost indicator */}
             </Text>
+            <Text testID="boost-gain-db" style={[styles.controlGain, { color: theme.textSecondary }]}>
+              {formatGainDb(boostToDb(boost, boostCurve, maxBoostGainDb))}
+            </Text>
             <View style={styles.toggleContainer}>
               <Text style={[styles.switchLabel, { color: boostEnabled && gradualBoost ? theme.text : theme.textMuted }]}>
                 Gradual
               </Text>
               <Switch
+                testID="gradual-boost-switch"
                 style={styles.switch}
                 value={gradualBoost}
                 onValueChange={handleGradualBoostToggle}
@@ -1267,10 +998,11 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
           </View>
 
           <Slider
+            testID="boost-slider"
             style={styles.slider}
             minimumValue={0}
-            maximumValue={200} // BOOST SLIDER CONFIGURATION:
-            value={boost}      // - Maximum boost level: 200% (can be increased up to 400%)
+            maximumValue={safetyLimits.maxBoost} // BOOST SLIDER CONFIGURATION:
+            value={boost}      // - Maximum boost level: 200% or the safety lock cap
             onValueChange={handleBoostChange} // - Minimum: 0% (no boost)
             minimumTrackTintColor={theme.sliderTrack} // - Step size: 1% (gradual) or 10% (discrete)
             maximumTrackTintColor={theme.sliderTrackBackground} // - To change max boost: modify maximumValue
@@ -1278,6 +1010,12 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
             disabled={!boostEnabled} // Disable slider when boost is not enabled
           />
 
+          {safetyLocked && (
+            <Text testID="safety-lock-notice" style={[styles.warningText, { color: theme.textMuted }]}>
+              🔒 Limited to {safetyLimits.maxBoost}% boost and {safetyLimits.maxVolume}% volume by the safety lock
+            </Text>
+          )}
+
           {/* SAFETY WARNINGS FOR HIGH BOOST LEVELS */}
           {boostEnabled && boost > 150 && (
             <Text style={[styles.warningText, { color: theme.secondary }]}>
@@ -1305,33 +1043,95 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
               </Text>
             )
           )}
+          {boostRequestedButInactive && (
+            <Text style={[styles.warningText, { color: theme.warningOrange }]}>
+              ⏸️ Boost is on but not currently applied by the audio system
+            </Text>
+          )}
         </View>
 
-        {/* App-Only Boost Toggle - TODO: Commented out for future implementation */}
-        {/* <View style={styles.controlSection}>
+        {/* Boost Presets */}
+        <View style={styles.controlSection}>
           <View style={styles.controlHeader}>
-            <Text style={[styles.controlLabel, { color: theme.text }]}>Mode:</Text>
-            <View style={styles.toggleContainer}>
-              <Text style={[styles.switchLabel, { color: boostEnabled && appOnlyBoost ? theme.text : theme.textMuted }]}>
-                {appOnlyBoost ? 'App Only' : 'Device Wide'}
-              </Text>
-              <Switch
-                style={styles.switch}
-                value={appOnlyBoost}
-                onValueChange={handleAppOnlyBoostToggle}
-                trackColor={{ false: theme.border, true: theme.switchTrack }}
-                thumbColor={appOnlyBoost ? theme.switchThumb : theme.textMuted}
-                // disabled={!boostEnabled}
-              />
-            </View>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Presets:</Text>
           </View>
-          <Text style={[styles.modeDescription, { color: theme.textMuted }]}>
-            {appOnlyBoost 
-              ? 'Boost applies only to this app\'s audio (notifications, sounds, etc.)' 
-              : 'Boost applies to all device audio (music, videos, games, etc.)'
-            }
-          </Text>
-        </View> */}
+          <PresetSelector
+            theme={theme}
+            currentSettings={{ volume, boost, boostEnabled, gradualBoost }}
+          />
+        </View>
+
+        {/* Boost Ramp */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Boost Fade:</Text>
+          </View>
+          <BoostRampSettings theme={theme} />
+        </View>
+
+        {/* Boost Curve */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Boost Curve:</Text>
+          </View>
+          <BoostCurveSettings theme={theme} />
+        </View>
+
+        {/* Safety Lock */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Safety Lock:</Text>
+          </View>
+          <SafetyLockSettings theme={theme} />
+        </View>
+
+        {/* Hearing Exposure */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Hearing Exposure:</Text>
+          </View>
+          <ExposureMeter theme={theme} />
+        </View>
+
+        {/* Boost Target - which audio sessions are boosted */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Boost Target:</Text>
+          </View>
+          <AudioSessionSelector theme={theme} />
+        </View>
+
+        {/* Equalizer */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Equalizer:</Text>
+          </View>
+          <EqualizerPanel theme={theme} />
+        </View>
+
+        {/* Scheduled Boost Rules */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Schedule:</Text>
+          </View>
+          <BoostRulesPanel theme={theme} />
+        </View>
+
+        {/* Bass Boost and Virtualizer */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Effects:</Text>
+          </View>
+          <AudioEffectsControls theme={theme} />
+        </View>
+
+        {/* Compressor / Night Mode */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Compressor:</Text>
+          </View>
+          <CompressorPanel theme={theme} />
+        </View>
 
         {/* Background Mode Toggle */}
         <View style={styles.controlSection}>
@@ -1342,6 +1142,7 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
                 {backgroundModeEnabled ? 'Enabled' : 'Disabled'}
               </Text>
               <Switch
+                testID="background-mode-switch"
                 style={styles.switch}
                 value={backgroundModeEnabled}
                 onValueChange={handleBackgroundModeToggle}
@@ -1362,10 +1163,26 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
               Service Status: {backgroundServiceRunning ? 'Running' : 'Not Running'}
             </Text>
           )}
+          {backgroundModeEnabled && !backgroundServiceRunning && backgroundServiceStartError && (
+            <Text testID="background-start-error" style={[styles.modeDescription, { color: theme.warningOrange }]}>
+              Android did not allow the service to start ({backgroundServiceStartError}). It will be retried when you return to the app.
+            </Text>
+          )}
+          <View style={styles.autoStartRow}>
+            <Text style={[styles.switchLabel, { color: theme.textSecondary }]}>Restore after reboot</Text>
+            <Switch
+              testID="auto-start-switch"
+              style={styles.switch}
+              value={autoStartEnabled}
+              onValueChange={handleAutoStartToggle}
+              trackColor={{ false: theme.border, true: theme.switchTrack }}
+              thumbColor={autoStartEnabled ? theme.switchThumb : theme.textMuted}
+            />
+          </View>
         </View>
 
-        {/* Auto-Volume Toggle - TODO: Commented out for future implementation */}
-        {/* <View style={styles.controlSection}>
+        {/* Auto-Volume Toggle */}
+        <View style={styles.controlSection}>
           <View style={styles.controlHeader}>
             <Text style={[styles.controlLabel, { color: theme.text }]}>Auto-Volume:</Text>
             <View style={styles.toggleContainer}>
@@ -1373,6 +1190,7 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
                 {autoVolumeEnabled ? 'Enabled' : 'Disabled'}
               </Text>
               <Switch
+                testID="auto-volume-switch"
                 style={styles.switch}
                 value={autoVolumeEnabled}
                 onValueChange={handleAutoVolumeToggle}
@@ -1382,35 +1200,36 @@ const VolumeBooster: React.FC<VolumeBoosterProps> = () => {
             </View>
           </View>
           <Text style={[styles.modeDescription, { color: theme.textMuted }]}>
-            {autoVolumeEnabled ? 
-              `🔊 Device volume automatically set to 100% only when app plays audio (Original: ${originalVolume ? formatVolumeDisplay(originalVolume) : 'N/A'}%)` : 
-              '📱 Uses current device volume level - no automatic changes'
+            {autoVolumeEnabled
+              ? `🔊 Device volume is raised to ${safetyLimits.maxVolume}% only while boosted audio plays`
+              : '📱 Uses current device volume level - no automatic changes'
             }
           </Text>
           {autoVolumeEnabled && originalVolume !== null && (
-            <Text style={[styles.statusText, { color: theme.warningGreen }]}>
-              Original Volume: {formatVolumeDisplay(originalVolume)}% (restored after audio playback ends)
+            <Text testID="auto-volume-original" style={[styles.statusText, { color: theme.warningGreen }]}>
+              Original Volume: {formatVolumeDisplay(originalVolume)}% (restored after playback ends)
             </Text>
           )}
-        </View> */}
+        </View>
 
-        {/* Test Sound Button */}
-        {/* <View style={styles.controlSection}> */}
-        {/* <TouchableOpacity
-            style={[styles.testButton, { backgroundColor: theme.primary }]}
-            onPress={handleTestSound}
-            activeOpacity={0.8}
-          >
-            <Text style={[styles.testButtonText, { color: theme.background }]}>
-              🔊 Play Test Sound
-            </Text>
-          </TouchableOpacity> */}
-        {/* <Text style={[styles.testDescription, { color: theme.textMuted }]}> */}
-        {/* Play a 440Hz tone to test the boost functionality.  */}
-        {/* {appOnlyBoost ? ' This sound will be boosted if app-only mode is enabled.' : ' This sound will be boosted along with all device audio.'} TODO: Commented out for future implementation */}
-        {/* This sound will be boosted along with all device audio. */}
-        {/* </Text> */}
-        {/* </View> */}
+        {/* Test Signal */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Test Signal:</Text>
+          </View>
+          <TestSignalPanel theme={theme} />
+        </View>
+
+        {/* Settings Export / Import */}
+        <View style={styles.controlSection}>
+          <View style={styles.controlHeader}>
+            <Text style={[styles.controlLabel, { color: theme.text }]}>Backup:</Text>
+          </View>
+          <Text style={[styles.modeDescription, { color: theme.textMuted }]}>
+            Copy settings, presets and device profiles to another phone
+          </Text>
+          <SettingsTransfer theme={theme} />
+        </View>
 
         {/* Reset Section - Always visible */}
         {/* <View style={styles.controlSection}>
@@ -1599,6 +1418,11 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     marginLeft: 8,
   },
+  controlGain: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginLeft: 8,
+  },
   toggleContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1611,6 +1435,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontFamily: 'monospace',
   },
+  autoStartRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
   modeDescription: {
     fontSize: 14,
     fontFamily: 'monospace',
@@ -0,0 +1,75 @@
+// ============================================================================
+// THEME DEFINITIONS - Dark and Light Mode Colors
+// ============================================================================
+
+/**
+ * Theme interface for color definitions
+ */
+export interface Theme {
+  background: string;
+  surface: string;
+  primary: string;
+  secondary: string;
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  border: string;
+  sliderTrack: string;
+  sliderTrackBackground: string;
+  sliderThumb: string;
+  switchTrack: string;
+  switchThumb: string;
+  statusBar: string;
+  navigationBar: string;
+  warningOrange: string;
+  warningGreen: string;
+  warningLightGreen: string;
+}
+
+/**
+ * Dark theme color definitions
+ */
+export const darkTheme: Theme = {
+  background: '#000000',
+  surface: '#111111',
+  primary: '#CCFF00',
+  secondary: '#F92672',
+  text: '#FFFFFF',
+  textSecondary: '#CCCCCC',
+  textMuted: '#888888',
+  border: '#333333',
+  sliderTrack: '#CCFF00',
+  sliderTrackBackground: '#999999',
+  sliderThumb: '#CCFF00',
+  switchTrack: '#666600',
+  switchThumb: '#CCFF00',
+  statusBar: '#000000',
+  navigationBar: '#000000',
+  warningOrange: '#FFA500',
+  warningGreen: '#25ea25ff',
+  warningLightGreen: '#7de37dff',
+};
+
+/**
+ * Light theme color definitions
+ */
+export const lightTheme: Theme = {
+  background: '#FFFFFF',
+  surface: '#F5F5F5',
+  primary: '#1976D2',
+  secondary: '#D32F2F',
+  text: '#212121',
+  textSecondary: '#424242',
+  textMuted: '#757575',
+  border: '#E0E0E0',
+  sliderTrack: '#1976D2',
+  sliderTrackBackground: '#444444',
+  sliderThumb: '#1976D2',
+  switchTrack: '#BDBDBD',
+  switchThumb: '#1976D2',
+  statusBar: '#FFFFFF',
+  navigationBar: '#FFFFFF',
+  warningOrange: '#FFA500',
+  warningGreen: '#32CD32',
+  warningLightGreen: '#49f249',
+};
@@ -0,0 +1,32 @@
+/**
+ * Audio state hooks
+ *
+ * Reusable hooks over VolumeBoosterModule, its events and SettingsManager.
+ * All hooks share one native subscription per event.
+ */
+
+export { useVolume } from './useVolume';
+export type { UseVolumeResult } from './useVolume';
+export { useBoost, snapBoostValue } from './useBoost';
+export type { UseBoostResult } from './useBoost';
+export { useAudioDevice } from './useAudioDevice';
+export type { UseAudioDeviceResult } from './useAudioDevice';
+export { useAudioDevices, applyAudioDevicesChange } from './useAudioDevices';
+export type { UseAudioDevicesResult } from './useAudioDevices';
+export { useBackgroundService } from './useBackgroundService';
+export type { UseBackgroundServiceResult } from './useBackgroundService';
+export { useAudioStore } from './useAudioStore';
+export { useSafetyLimits } from './useSafetyLimits';
+export type { UseSafetyLimitsResult } from './useSafetyLimits';
+export { useAutoVolume } from './useAutoVolume';
+export type { UseAutoVolumeResult } from './useAutoVolume';
+export { useAudioSessions } from './useAudioSessions';
+export { useTestSignal } from './useTestSignal';
+export { useEqualizer } from './useEqualizer';
+export { useAudioEffects } from './useAudioEffects';
+export { useCompressor } from './useCompressor';
+export { useNativeEvent } from './useNativeEvent';
+export { useSettingValue } from './useSettingValue';
+export { subscribeShared } from './nativeEventHub';
+export { ensureStorageReady, ensureAudioInitialized } from './initialization';
+export type { AudioSetterResult } from './types';
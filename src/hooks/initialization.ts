@@ -0,0 +1,76 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import { initializeStorage } from '../storage';
+import { AppSettings, SettingsManager } from '../storage/SettingsManager';
+import { getDefaultSettings } from '../storage/SettingsSchema';
+
+/**
+ * One-time initialization shared by the hooks
+ *
+ * Storage and the native audio system must only be initialized once per
+ * app run, however many hooks or screens ask for them.
+ */
+
+let storagePromise: Promise<void> | null = null;
+let audioPromise: Promise<boolean> | null = null;
+
+/**
+ * Initializes the storage systems on first call
+ *
+ * A failed initialization is not cached, so the next caller retries.
+ */
+export const ensureStorageReady = (): Promise<void> => {
+  if (!storagePromise) {
+    storagePromise = initializeStorage().catch(error => {
+      storagePromise = null;
+      throw error;
+    });
+  }
+  return storagePromise;
+};
+
+/**
+ * Initializes the native audio system on first call
+ *
+ * Resolves to false on platforms without the native module.
+ */
+export const ensureAudioInitialized = (): Promise<boolean> => {
+  if (Platform.OS !== 'android') {
+    return Promise.resolve(false);
+  }
+
+  if (!audioPromise) {
+    audioPromise = VolumeBoosterModule.initializeAudio().then(() => true, error => {
+      audioPromise = null;
+      throw error;
+    });
+  }
+  return audioPromise;
+};
+
+/**
+ * Forgets that the native audio system was initialized
+ *
+ * For tests that reset FakeVolumeBoosterModule, which stands for a new app
+ * process: the next ensureAudioInitialized call initializes it again.
+ */
+export const resetAudioInitialization = (): void => {
+  audioPromise = null;
+};
+
+/**
+ * Reads a setting, falling back to its default while storage is loading
+ */
+export const readSetting = <K extends keyof AppSettings>(key: K): AppSettings[K] => {
+  const settingsManagerInstance = SettingsManager.getInstance();
+  return settingsManagerInstance.isReady()
+    ? settingsManagerInstance.getSetting(key)
+    : getDefaultSettings()[key];
+};
+
+/**
+ * Message text for an unknown thrown value
+ */
+export const errorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
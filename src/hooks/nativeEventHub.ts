@@ -0,0 +1,134 @@
+import {
+  subscribe,
+  VolumeBoosterModule,
+  VolumeBoosterEventMap,
+  VolumeBoosterEventName,
+} from '../modules/VolumeBoosterModule';
+
+/**
+ * Shared native event hub
+ *
+ * Every hook and component that listens to a native event goes through
+ * this hub, so each event has at most one native subscription no matter
+ * how many listeners are mounted. The native subscription is created for
+ * the first listener and removed with the last one.
+ *
+ * Events that the native module only emits while monitoring (device and
+ * volume changes) are reference counted the same way: monitoring starts
+ * with the first listener and stops with the last, so components never
+ * call the start/stop methods themselves.
+ */
+
+type EventHandler<E extends VolumeBoosterEventName> = (payload: VolumeBoosterEventMap[E]) => void;
+
+/**
+ * One native subscription and the JS handlers it fans out to
+ */
+interface EventChannel<E extends VolumeBoosterEventName> {
+  handlers: Set<EventHandler<E>>;
+  unsubscribe: () => void;
+}
+
+type EventChannels<Events extends VolumeBoosterEventName> = { [E in Events]?: EventChannel<E> };
+
+const channels: EventChannels<VolumeBoosterEventName> = {};
+
+/**
+ * The channel table narrowed to one event, so its channel can be set
+ * with that event's payload type
+ */
+const channelsOf = <E extends VolumeBoosterEventName>(_event: E): EventChannels<E> => channels;
+
+/**
+ * Native monitoring that must run while an event has listeners
+ *
+ * One monitor can feed several events; it runs while any of them has a
+ * channel.
+ */
+interface EventMonitor {
+  start: () => void;
+  stop: () => void;
+  channelCount: number;
+}
+
+const deviceMonitor: EventMonitor = {
+  start: () => VolumeBoosterModule.startDeviceMonitoring(),
+  stop: () => VolumeBoosterModule.stopDeviceMonitoring(),
+  channelCount: 0,
+};
+
+const volumeMonitor: EventMonitor = {
+  start: () => VolumeBoosterModule.startVolumeMonitoring(),
+  stop: () => VolumeBoosterModule.stopVolumeMonitoring(),
+  channelCount: 0,
+};
+
+const monitors: Partial<Record<VolumeBoosterEventName, EventMonitor>> = {
+  audioDeviceChanged: deviceMonitor,
+  audioDevicesChanged: deviceMonitor,
+  volumeChanged: volumeMonitor,
+};
+
+const acquireMonitor = (event: VolumeBoosterEventName): void => {
+  const monitor = monitors[event];
+  if (monitor && monitor.channelCount++ === 0) {
+    monitor.start();
+  }
+};
+
+const releaseMonitor = (event: VolumeBoosterEventName): void => {
+  const monitor = monitors[event];
+  if (monitor && --monitor.channelCount === 0) {
+    monitor.stop();
+  }
+};
+
+/**
+ * Subscribes to a native event through the shared hub
+ *
+ * @param event Event name from VolumeBoosterEventMap
+ * @param handler Called with the event payload
+ * @returns Function that removes this handler
+ */
+export const subscribeShared = <E extends VolumeBoosterEventName>(
+  event: E,
+  handler: EventHandler<E>,
+): (() => void) => {
+  let channel = channelsOf(event)[event];
+
+  if (!channel) {
+    const handlers = new Set<EventHandler<E>>();
+    channel = {
+      handlers,
+      unsubscribe: subscribe(event, payload => {
+        handlers.forEach(registered => registered(payload));
+      }),
+    };
+    channelsOf(event)[event] = channel;
+    acquireMonitor(event);
+  }
+
+  // Wrap the handler so the same function can be registered twice
+  const entry: EventHandler<E> = payload => handler(payload);
+  channel.handlers.add(entry);
+
+  return () => {
+    const current = channelsOf(event)[event];
+    if (!current || !current.handlers.delete(entry)) {
+      return;
+    }
+
+    if (current.handlers.size === 0) {
+      releaseMonitor(event);
+      current.unsubscribe();
+      delete channelsOf(event)[event];
+    }
+  };
+};
+
+/**
+ * Number of handlers currently registered for an event
+ */
+export const getSharedHandlerCount = (event: VolumeBoosterEventName): number => {
+  return channels[event]?.handlers.size ?? 0;
+};
@@ -0,0 +1,9 @@
+import type { SetSettingResult } from '../storage/SettingsManager';
+
+/**
+ * Result of a hook setter that updates the native module and storage
+ */
+export interface AudioSetterResult extends SetSettingResult {
+  /** Message of the native call failure, if the native update failed */
+  nativeError?: string;
+}
@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { AudioDeviceInfo } from '../modules/VolumeBoosterModule';
+import { audioStore } from '../store/AudioStore';
+import { useAudioStore } from './useAudioStore';
+
+/**
+ * State and controls returned by useAudioDevice
+ */
+export interface UseAudioDeviceResult {
+  /** Active output device, or null when none is detected */
+  device: AudioDeviceInfo | null;
+
+  /** Name of the device whose saved profile is applied, if any */
+  activeProfileName: string | null;
+
+  /** Re-reads the native state, including the active output device */
+  refresh: () => Promise<void>;
+
+  /** True until the active device has been read */
+  loading: boolean;
+
+  /** Last error, or null */
+  error: string | null;
+}
+
+/**
+ * Active audio output device
+ *
+ * The audio store follows 'audioDeviceChanged' events and keeps the
+ * previous object for repeated events about the same device, so effects
+ * depending on it do not re-run.
+ */
+export const useAudioDevice = (): UseAudioDeviceResult => {
+  const device = useAudioStore(state => state.actual.device);
+  const activeProfileName = useAudioStore(state => state.actual.activeProfileName);
+  const loading = useAudioStore(state => !state.actualLoaded);
+  const error = useAudioStore(state => state.error);
+
+  const refresh = useCallback(() => audioStore.refreshNative(), []);
+
+  return { device, activeProfileName, refresh, loading, error };
+};
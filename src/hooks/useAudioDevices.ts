@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  VolumeBoosterModule,
+  AudioOutputDevice,
+  AudioDevicesChangedEvent,
+} from '../modules/VolumeBoosterModule';
+import { useNativeEvent } from './useNativeEvent';
+
+/**
+ * State and controls returned by useAudioDevices
+ */
+export interface UseAudioDevicesResult {
+  /** Connected outputs in connection order; the one routing media has isActive */
+  devices: AudioOutputDevice[];
+
+  /** Re-reads the outputs from the native module */
+  refresh: () => Promise<void>;
+
+  /** Last error, or null */
+  error: string | null;
+}
+
+/**
+ * Apply an 'audioDevicesChanged' diff to a list of outputs
+ *
+ * Removed outputs are dropped; added outputs replace an entry with the same
+ * ID or are appended, so the full list reported when monitoring starts does
+ * not duplicate outputs that are already known.
+ */
+export const applyAudioDevicesChange = (
+  devices: AudioOutputDevice[],
+  change: AudioDevicesChangedEvent,
+): AudioOutputDevice[] => {
+  const removedIds = new Set(change.removed.map(device => device.id));
+  const addedIds = new Set(change.added.map(device => device.id));
+
+  return [
+    ...devices.filter(device => !removedIds.has(device.id) && !addedIds.has(device.id)),
+    ...change.added,
+  ];
+};
+
+/**
+ * Every connected audio output
+ *
+ * Reads the outputs on mount, then follows 'audioDevicesChanged' for
+ * connected and disconnected outputs and 'audioDeviceChanged' for the
+ * output routing media.
+ */
+export const useAudioDevices = (): UseAudioDevicesResult => {
+  const [devices, setDevices] = useState<AudioOutputDevice[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await VolumeBoosterModule.getAudioDevices());
+      setError(null);
+    } catch (err) {
+      console.error('[useAudioDevices] Failed to list audio devices:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useNativeEvent('audioDevicesChanged', change => {
+    setDevices(current => applyAudioDevicesChange(current, change));
+  });
+
+  useNativeEvent('audioDeviceChanged', active => {
+    setDevices(current => current.map(device => ({ ...device, isActive: device.id === active?.id })));
+  });
+
+  return { devices, refresh, error };
+};
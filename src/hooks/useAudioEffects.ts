@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { audioEffectsService, AudioEffectsChangeEvent, AudioEffectsState } from '../services/AudioEffectsService';
+
+/**
+ * Tracks the supported effects and the applied bass boost and virtualizer strengths
+ *
+ * Strengths are changed through audioEffectsService; this hook only follows
+ * its state.
+ */
+export const useAudioEffects = (): AudioEffectsState => {
+  const [state, setState] = useState<AudioEffectsState>(() => audioEffectsService.getState());
+
+  useEffect(() => {
+    const handleChange = (event: AudioEffectsChangeEvent) => {
+      setState(event.state);
+    };
+
+    audioEffectsService.addChangeListener(handleChange);
+    setState(audioEffectsService.getState());
+
+    return () => {
+      audioEffectsService.removeChangeListener(handleChange);
+    };
+  }, []);
+
+  return state;
+};
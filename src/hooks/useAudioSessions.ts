@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import {
+  audioSessionService,
+  AudioSessionChangeEvent,
+  AudioSessionState,
+} from '../services/AudioSessionService';
+
+/**
+ * Tracks the open audio sessions and the sessions boost is attached to
+ *
+ * Targets are changed through audioSessionService (attach, detach,
+ * setAppOnly); this hook only follows its state.
+ */
+export const useAudioSessions = (): AudioSessionState => {
+  const [state, setState] = useState<AudioSessionState>(() => audioSessionService.getState());
+
+  useEffect(() => {
+    const handleChange = (event: AudioSessionChangeEvent) => {
+      setState(event.state);
+    };
+
+    audioSessionService.addChangeListener(handleChange);
+    setState(audioSessionService.getState());
+
+    return () => {
+      audioSessionService.removeChangeListener(handleChange);
+    };
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,23 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { AudioStore, AudioState } from '../store/AudioStore';
+
+/**
+ * Selects a value from the audio store and re-renders when it changes
+ *
+ * Starts the store on first use. The selector must return a value that is
+ * already part of the state (or a primitive), not a new object, so that
+ * unchanged state yields the same snapshot.
+ *
+ * @param selector Picks the value to read from the store snapshot
+ */
+export const useAudioStore = <T>(selector: (state: AudioState) => T): T => {
+  const store = AudioStore.getInstance();
+
+  useEffect(() => {
+    store.initialize().catch(error => {
+      console.error('[useAudioStore] Failed to initialize audio store:', error);
+    });
+  }, [store]);
+
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SetSettingResult } from '../storage/SettingsManager';
+import { autoVolumeService, AutoVolumeChangeEvent } from '../services/AutoVolumeService';
+import { useSettingValue } from './useSettingValue';
+
+/**
+ * State and controls returned by useAutoVolume
+ */
+export interface UseAutoVolumeResult {
+  /** Whether auto-volume is enabled */
+  enabled: boolean;
+
+  /** Whether the device volume is currently raised by auto-volume */
+  raised: boolean;
+
+  /** The user's volume restored after boosted playback, or null */
+  originalVolume: number | null;
+
+  /** Enables or disables auto-volume and saves the setting */
+  setEnabled: (enabled: boolean) => Promise<SetSettingResult>;
+}
+
+/**
+ * Auto-volume setting and state of the auto-volume service
+ */
+export const useAutoVolume = (): UseAutoVolumeResult => {
+  const [enabled] = useSettingValue('autoVolumeEnabled');
+  const [serviceState, setServiceState] = useState(() => autoVolumeService.getState());
+
+  useEffect(() => {
+    const handleChange = (event: AutoVolumeChangeEvent) => {
+      setServiceState(event.state);
+    };
+
+    autoVolumeService.addChangeListener(handleChange);
+    setServiceState(autoVolumeService.getState());
+
+    return () => {
+      autoVolumeService.removeChangeListener(handleChange);
+    };
+  }, []);
+
+  const setEnabled = useCallback((value: boolean) => autoVolumeService.setEnabled(value), []);
+
+  return { enabled, raised: serviceState.raised, originalVolume: serviceState.originalVolume, setEnabled };
+};
@@ -0,0 +1,86 @@
+import { useState, useCallback } from 'react';
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import { SettingsManager } from '../storage/SettingsManager';
+import { describeSettingsError } from '../storage/SettingsSchema';
+import { audioStore } from '../store/AudioStore';
+import { errorMessage } from './initialization';
+import { useAudioStore } from './useAudioStore';
+
+/**
+ * State and controls returned by useBackgroundService
+ */
+export interface UseBackgroundServiceResult {
+  /** Whether background mode is enabled (the saved setting) */
+  enabled: boolean;
+
+  /** Whether the background service is running */
+  running: boolean;
+
+  /** Why Android refused to start the background service, or null */
+  startError: string | null;
+
+  /** Saves and applies background mode; resolves to the resulting state and rejects if the setting or native call fails */
+  setEnabled: (enabled: boolean) => Promise<boolean>;
+
+  /** Re-reads the native state, including background mode and service state */
+  refresh: () => Promise<void>;
+
+  /** True until the background state has been read */
+  loading: boolean;
+
+  /** Last error, or null */
+  error: string | null;
+}
+
+/**
+ * Background mode and foreground service state
+ *
+ * Background mode is a saved setting; BackgroundServiceReconciler starts or
+ * stops the service to match it. The audio store follows
+ * 'serviceStateChanged' events instead of polling the service.
+ */
+export const useBackgroundService = (): UseBackgroundServiceResult => {
+  const enabled = useAudioStore(state => state.intent.backgroundModeEnabled);
+  const running = useAudioStore(state => state.actual.serviceRunning);
+  const startError = useAudioStore(state => state.actual.serviceStartError);
+  const loading = useAudioStore(state => !state.actualLoaded);
+  const storeError = useAudioStore(state => state.error);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => audioStore.refreshNative(), []);
+
+  const setEnabled = useCallback(async (value: boolean): Promise<boolean> => {
+    if (Platform.OS !== 'android') {
+      setError('Background mode is only available on Android');
+      return false;
+    }
+
+    const saved = await SettingsManager.getInstance().setSetting('backgroundModeEnabled', value);
+    if (!saved.success) {
+      const message = saved.error ? describeSettingsError(saved.error) : 'Background mode was not saved';
+      setError(message);
+      throw new Error(message);
+    }
+
+    try {
+      const result = await VolumeBoosterModule.setBackgroundMode(value);
+      audioStore.updateActual({
+        backgroundModeEnabled: result,
+        serviceRunning: await VolumeBoosterModule.isBackgroundServiceRunning(),
+        serviceStartError: null,
+      });
+      setError(null);
+      return result;
+    } catch (toggleError) {
+      console.error('[useBackgroundService] Failed to toggle background mode:', toggleError);
+      setError(errorMessage(toggleError));
+      if (value) {
+        audioStore.updateActual({ serviceStartError: errorMessage(toggleError) });
+      }
+      throw toggleError;
+    }
+  }, []);
+
+  return { enabled, running, startError, setEnabled, refresh, loading, error: error ?? storeError };
+};
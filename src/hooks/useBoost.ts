@@ -0,0 +1,210 @@
+import { useState, useCallback } from 'react';
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import { SettingsManager, SetSettingResult } from '../storage/SettingsManager';
+import { describeSettingsError } from '../storage/SettingsSchema';
+import { audioStore } from '../store/AudioStore';
+import { boostRamp, RampOptions } from '../services/BoostRamp';
+import { boostGainMillibels } from '../services/BoostCurve';
+import { ensureAudioInitialized, errorMessage, readSetting } from './initialization';
+import { useAudioStore } from './useAudioStore';
+import { AudioSetterResult } from './types';
+
+/**
+ * State and controls returned by useBoost
+ */
+export interface UseBoostResult {
+  /** Boost level (0-200%) */
+  boost: number;
+
+  /** Whether boost is enabled */
+  boostEnabled: boolean;
+
+  /** Whether the boost slider moves in 1% (true) or 10% (false) steps */
+  gradualBoost: boolean;
+
+  /** Whether boost is actually being applied by the native side */
+  boostActive: boolean;
+
+  /** Sets the boost level, snapped to 10% steps unless gradual mode is on and capped by the safety lock */
+  setBoost: (value: number) => Promise<AudioSetterResult>;
+
+  /** Enables or disables boost and applies the current level (or 0) */
+  setBoostEnabled: (enabled: boolean) => Promise<AudioSetterResult>;
+
+  /** Switches gradual mode; turning it off snaps the boost level to 10% */
+  setGradualBoost: (enabled: boolean) => Promise<AudioSetterResult>;
+
+  /** True until the saved boost settings have been loaded */
+  loading: boolean;
+
+  /** Last error, or null */
+  error: string | null;
+}
+
+/**
+ * Snaps a slider value to the boost step for the given mode
+ */
+export const snapBoostValue = (value: number, gradual: boolean): number => {
+  return gradual ? Math.round(value) : Math.round(value / 10) * 10;
+};
+
+/**
+ * Ramp options from the saved ramp settings
+ */
+const rampOptions = (from: number): RampOptions => ({
+  durationMs: readSetting('rampDurationMs'),
+  curve: readSetting('rampCurve'),
+  from,
+});
+
+/**
+ * Boost level the native side currently applies, as the start of a ramp
+ */
+const appliedBoostLevel = (): number => {
+  const { appliedBoost, appliedBoostEnabled } = audioStore.getState().actual;
+  return appliedBoostEnabled ? appliedBoost ?? 0 : 0;
+};
+
+/**
+ * Boost level, enabled state and gradual mode
+ *
+ * Values are the persisted intent from the audio store and follow external
+ * changes such as presets and device profiles. Setters update the store
+ * optimistically, apply the change to the native module and then save it,
+ * rolling the store back if saving is rejected.
+ *
+ * While boost is enabled, level changes ramp to the target using the saved
+ * ramp duration and curve. A setter whose ramp is cancelled by a newer call
+ * still saves its value, but leaves the native level to the newer call.
+ */
+export const useBoost = (): UseBoostResult => {
+  const boost = useAudioStore(state => state.intent.boost);
+  const boostEnabled = useAudioStore(state => state.intent.boostEnabled);
+  const gradualBoost = useAudioStore(state => state.intent.gradualBoost);
+  const boostActive = useAudioStore(state => state.derived.boostActive);
+  const loading = useAudioStore(state => !state.intentLoaded);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Runs a native update, returning the failure message if it throws
+   */
+  const applyNative = useCallback(async (label: string, update: () => Promise<void>) => {
+    if (Platform.OS !== 'android') return undefined;
+
+    try {
+      await ensureAudioInitialized();
+      await update();
+      return undefined;
+    } catch (nativeFailure) {
+      console.error(`[useBoost] Failed to ${label}:`, nativeFailure);
+      const message = errorMessage(nativeFailure);
+      setError(message);
+      return message;
+    }
+  }, []);
+
+  /**
+   * Rolls back the optimistic update and reports a rejected setting
+   */
+  const trackResult = useCallback((result: SetSettingResult) => {
+    if (!result.success) {
+      audioStore.syncIntent();
+      if (result.error) {
+        setError(describeSettingsError(result.error));
+      }
+    }
+    return result;
+  }, []);
+
+  const setBoost = useCallback(async (value: number): Promise<AudioSetterResult> => {
+    // Cap at the safety lock before anything reaches the native module
+    const { maxBoost } = SettingsManager.getInstance().getSafetyLimits();
+    const boostValue = Math.min(snapBoostValue(value, audioStore.getState().intent.gradualBoost), maxBoost);
+    const { boostEnabled: enabled } = audioStore.getState().intent;
+    audioStore.updateIntent({ boost: boostValue });
+    setError(null);
+
+    // The native module applies the level only while boost is enabled
+    const nativeError = await applyNative('set boost', async () => {
+      if (enabled) {
+        const reached = await boostRamp.rampTo(boostValue, rampOptions(appliedBoostLevel()));
+        if (!reached) return;
+      } else {
+        boostRamp.cancel();
+      }
+      await VolumeBoosterModule.setBoost(boostValue, boostGainMillibels(boostValue));
+      audioStore.updateActual({ appliedBoost: boostValue });
+    });
+    const result = trackResult(await SettingsManager.getInstance().setSetting('boost', boostValue));
+
+    return { ...result, nativeError };
+  }, [applyNative, trackResult]);
+
+  const setBoostEnabled = useCallback(async (enabled: boolean): Promise<AudioSetterResult> => {
+    const level = enabled ? audioStore.getState().intent.boost : 0;
+    audioStore.updateIntent({ boostEnabled: enabled });
+    setError(null);
+
+    const nativeError = await applyNative('toggle boost', async () => {
+      const ramp = rampOptions(appliedBoostLevel());
+
+      if (enabled) {
+        // Start from silence so enabling does not jump to the previous level
+        if (ramp.durationMs > 0 && !boostRamp.isRunning()) {
+          await VolumeBoosterModule.setBoostGain(0, 0);
+        }
+        await VolumeBoosterModule.setBoostEnabled(true);
+        if (!(await boostRamp.rampTo(level, ramp))) {
+          // Boost is on; the newer call sets the level
+          audioStore.updateActual({ appliedBoostEnabled: true });
+          return;
+        }
+        await VolumeBoosterModule.setBoost(level, boostGainMillibels(level));
+      } else {
+        const reached = await boostRamp.rampTo(0, ramp);
+        // Finish turning boost off unless a newer call turned it back on
+        if (!reached && audioStore.getState().intent.boostEnabled) return;
+        await VolumeBoosterModule.setBoostEnabled(false);
+        await VolumeBoosterModule.setBoost(0, 0);
+      }
+      audioStore.updateActual({ appliedBoostEnabled: enabled, appliedBoost: level });
+    });
+    const result = trackResult(await SettingsManager.getInstance().setSetting('boostEnabled', enabled));
+
+    return { ...result, nativeError };
+  }, [applyNative, trackResult]);
+
+  const setGradualBoost = useCallback(async (enabled: boolean): Promise<AudioSetterResult> => {
+    audioStore.updateIntent({ gradualBoost: enabled });
+    setError(null);
+
+    let nativeError: string | undefined;
+    if (!enabled) {
+      const discreteValue = snapBoostValue(audioStore.getState().intent.boost, false);
+      audioStore.updateIntent({ boost: discreteValue });
+      nativeError = await applyNative('set boost', async () => {
+        boostRamp.cancel();
+        await VolumeBoosterModule.setBoost(discreteValue, boostGainMillibels(discreteValue));
+        audioStore.updateActual({ appliedBoost: discreteValue });
+      });
+      trackResult(await SettingsManager.getInstance().setSetting('boost', discreteValue));
+    }
+
+    const result = trackResult(await SettingsManager.getInstance().setSetting('gradualBoost', enabled));
+
+    return { ...result, nativeError };
+  }, [applyNative, trackResult]);
+
+  return {
+    boost,
+    boostEnabled,
+    gradualBoost,
+    boostActive,
+    setBoost,
+    setBoostEnabled,
+    setGradualBoost,
+    loading,
+    error,
+  };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { compressorService, CompressorChangeEvent, CompressorState } from '../services/CompressorService';
+
+/**
+ * Tracks compressor support, the selected preset and the applied parameters
+ *
+ * The compressor is changed through compressorService (setEnabled,
+ * selectPreset, setParameters); this hook only follows its state.
+ */
+export const useCompressor = (): CompressorState => {
+  const [state, setState] = useState<CompressorState>(() => compressorService.getState());
+
+  useEffect(() => {
+    const handleChange = (event: CompressorChangeEvent) => {
+      setState(event.state);
+    };
+
+    compressorService.addChangeListener(handleChange);
+    setState(compressorService.getState());
+
+    return () => {
+      compressorService.removeChangeListener(handleChange);
+    };
+  }, []);
+
+  return state;
+};
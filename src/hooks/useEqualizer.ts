@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { equalizerService, EqualizerChangeEvent, EqualizerState } from '../services/EqualizerService';
+
+/**
+ * Tracks the equalizer layout, preset and applied band levels
+ *
+ * The equalizer is changed through equalizerService (setEnabled,
+ * selectPreset, setBandLevel); this hook only follows its state.
+ */
+export const useEqualizer = (): EqualizerState => {
+  const [state, setState] = useState<EqualizerState>(() => equalizerService.getState());
+
+  useEffect(() => {
+    const handleChange = (event: EqualizerChangeEvent) => {
+      setState(event.state);
+    };
+
+    equalizerService.addChangeListener(handleChange);
+    setState(equalizerService.getState());
+
+    return () => {
+      equalizerService.removeChangeListener(handleChange);
+    };
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { VolumeBoosterEventMap, VolumeBoosterEventName } from '../modules/VolumeBoosterModule';
+import { subscribeShared } from './nativeEventHub';
+
+/**
+ * Listens to a native event for the lifetime of the component
+ *
+ * Goes through the shared event hub. The latest handler is always called,
+ * so it does not need to be memoized.
+ *
+ * @param event Event name from VolumeBoosterEventMap
+ * @param handler Called with the event payload
+ */
+export const useNativeEvent = <E extends VolumeBoosterEventName>(
+  event: E,
+  handler: (payload: VolumeBoosterEventMap[E]) => void,
+): void => {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    return subscribeShared(event, payload => handlerRef.current(payload));
+  }, [event]);
+};
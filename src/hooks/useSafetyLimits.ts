@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { SafetyLockManager, SafetyLimits, SafetyLockChangeEvent } from '../storage/SafetyLockManager';
+import { ensureStorageReady } from './initialization';
+
+/**
+ * State returned by useSafetyLimits
+ */
+export interface UseSafetyLimitsResult {
+  /** Whether an administrator safety lock is set */
+  locked: boolean;
+
+  /** Active caps for boost and volume (schema maximums when unlocked) */
+  limits: SafetyLimits;
+}
+
+/**
+ * Tracks the safety lock and its caps
+ *
+ * Used to limit the sliders to the administrator caps. The caps themselves
+ * are enforced by SettingsManager.
+ */
+export const useSafetyLimits = (): UseSafetyLimitsResult => {
+  const [state, setState] = useState<UseSafetyLimitsResult>(() => {
+    const safetyLockManagerInstance = SafetyLockManager.getInstance();
+    return { locked: safetyLockManagerInstance.isLocked(), limits: safetyLockManagerInstance.getLimits() };
+  });
+
+  useEffect(() => {
+    let mounted = true;
+    const safetyLockManagerInstance = SafetyLockManager.getInstance();
+
+    const handleChange = (event: SafetyLockChangeEvent) => {
+      setState({ locked: event.locked, limits: event.limits });
+    };
+
+    safetyLockManagerInstance.addChangeListener(handleChange);
+
+    ensureStorageReady()
+      .then(() => {
+        if (mounted) {
+          setState({ locked: safetyLockManagerInstance.isLocked(), limits: safetyLockManagerInstance.getLimits() });
+        }
+      })
+      .catch(error => {
+        console.error('[useSafetyLimits] Failed to load safety lock:', error);
+      });
+
+    return () => {
+      mounted = false;
+      safetyLockManagerInstance.removeChangeListener(handleChange);
+    };
+  }, []);
+
+  return state;
+};
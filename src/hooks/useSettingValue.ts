@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import { AppSettings, SettingsChangeEvent, SettingsManager } from '../storage/SettingsManager';
+import { ensureStorageReady, readSetting } from './initialization';
+
+/**
+ * Tracks a single setting and re-renders when it changes
+ *
+ * Starts from the default while storage is loading and picks up the stored
+ * value once it is ready. The returned setter only updates local state, for
+ * optimistic updates before the change is persisted.
+ *
+ * @param key Setting to track
+ * @returns Current value, local setter and whether storage has loaded
+ */
+export const useSettingValue = <K extends keyof AppSettings>(
+  key: K,
+): [AppSettings[K], (value: AppSettings[K]) => void, boolean] => {
+  const [value, setValue] = useState<AppSettings[K]>(() => readSetting(key));
+  const [ready, setReady] = useState(() => SettingsManager.getInstance().isReady());
+
+  useEffect(() => {
+    let mounted = true;
+    const settingsManagerInstance = SettingsManager.getInstance();
+
+    const handleChange = (event: SettingsChangeEvent) => {
+      if (event.key === key) {
+        setValue(event.newValue);
+      }
+    };
+
+    settingsManagerInstance.addChangeListener(handleChange);
+
+    ensureStorageReady()
+      .then(() => {
+        if (mounted) {
+          setValue(settingsManagerInstance.getSetting(key));
+          setReady(true);
+        }
+      })
+      .catch(error => {
+        console.error(`[useSettingValue] Failed to load '${key}':`, error);
+      });
+
+    return () => {
+      mounted = false;
+      settingsManagerInstance.removeChangeListener(handleChange);
+    };
+  }, [key]);
+
+  return [value, setValue, ready];
+};
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { testSignalPlayer, TestSignalChangeEvent, TestSignalState } from '../services/TestSignalPlayer';
+
+/**
+ * Tracks whether a test signal is playing
+ *
+ * Signals are started and stopped through testSignalPlayer; this hook only
+ * follows its state.
+ */
+export const useTestSignal = (): TestSignalState => {
+  const [state, setState] = useState<TestSignalState>(() => testSignalPlayer.getState());
+
+  useEffect(() => {
+    const handleChange = (event: TestSignalChangeEvent) => {
+      setState(event.state);
+    };
+
+    testSignalPlayer.addChangeListener(handleChange);
+    testSignalPlayer.initialize();
+    setState(testSignalPlayer.getState());
+
+    return () => {
+      testSignalPlayer.removeChangeListener(handleChange);
+    };
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,73 @@
+import { useState, useCallback } from 'react';
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import { SettingsManager } from '../storage/SettingsManager';
+import { describeSettingsError } from '../storage/SettingsSchema';
+import { audioStore } from '../store/AudioStore';
+import { ensureAudioInitialized, errorMessage } from './initialization';
+import { useAudioStore } from './useAudioStore';
+import { AudioSetterResult } from './types';
+
+/**
+ * State and controls returned by useVolume
+ */
+export interface UseVolumeResult {
+  /** Current media volume (0-100%) */
+  volume: number;
+
+  /** Sets the device volume, capped by the safety lock, and saves it */
+  setVolume: (value: number) => Promise<AudioSetterResult>;
+
+  /** True until the saved and device volume have been read */
+  loading: boolean;
+
+  /** Last error, or null */
+  error: string | null;
+}
+
+/**
+ * Device media volume
+ *
+ * Reads the device volume from the audio store (falling back to the saved
+ * volume until the device has been queried) and updates optimistically when
+ * set from the UI. External volume changes are not saved here; the screen
+ * that owns the settings decides that.
+ */
+export const useVolume = (): UseVolumeResult => {
+  const volume = useAudioStore(state => state.actual.volume ?? state.intent.volume);
+  const loading = useAudioStore(state => !state.intentLoaded || !state.actualLoaded);
+  const storeError = useAudioStore(state => state.error);
+  const [error, setError] = useState<string | null>(null);
+
+  const setVolume = useCallback(async (requested: number): Promise<AudioSetterResult> => {
+    // Cap at the safety lock before anything reaches the native module
+    const value = Math.min(requested, SettingsManager.getInstance().getSafetyLimits().maxVolume);
+    audioStore.updateActual({ volume: value });
+    audioStore.updateIntent({ volume: value });
+    setError(null);
+
+    let nativeError: string | undefined;
+    if (Platform.OS === 'android') {
+      try {
+        await ensureAudioInitialized();
+        await VolumeBoosterModule.setVolume(value);
+      } catch (nativeFailure) {
+        console.error('[useVolume] Failed to set volume:', nativeFailure);
+        nativeError = errorMessage(nativeFailure);
+        setError(nativeError);
+      }
+    }
+
+    const result = await SettingsManager.getInstance().setSetting('volume', value);
+    if (!result.success) {
+      audioStore.syncIntent();
+      if (result.error) {
+        setError(describeSettingsError(result.error));
+      }
+    }
+
+    return { ...result, nativeError };
+  }, []);
+
+  return { volume, setVolume, loading, error: error ?? storeError };
+};
@@ -2,5 +2,153 @@
 export { default as VolumeBooster } from './components/VolumeBooster';
 
 // Modules
-export { VolumeBoosterModule, VolumeBoosterEmitter } from './modules/VolumeBoosterModule';
-export type { AudioDeviceInfo } from './modules/VolumeBoosterModule';
+export {
+  VolumeBoosterModule,
+  VolumeBoosterEmitter,
+  subscribe,
+  isUsingFakeVolumeBooster,
+} from './modules/VolumeBoosterModule';
+export type {
+  AudioDeviceInfo,
+  AudioDevicesChangedEvent,
+  AudioOutputDevice,
+  AudioSessionInfo,
+  AudioEffectCapabilities,
+  BoostChangedEvent,
+  BoostLimits,
+  BoostStep,
+  CompressorOptions,
+  EqualizerBand,
+  EqualizerLayout,
+  NotificationAction,
+  NotificationActionEvent,
+  ServiceStateChangedEvent,
+  TestSignalOptions,
+  TestSignalStateChangedEvent,
+  TestSignalWaveform,
+  VolumeBoosterEventMap,
+  VolumeBoosterEventName,
+  VolumeBoosterNativeModule,
+} from './modules/VolumeBoosterModule';
+// FakeVolumeBoosterModule is not re-exported, so it stays out of the app bundle;
+// tests import it from './modules/FakeVolumeBoosterModule'
+
+// Hooks
+export {
+  useVolume,
+  useBoost,
+  useAudioDevice,
+  useAudioDevices,
+  applyAudioDevicesChange,
+  useBackgroundService,
+  useNativeEvent,
+  useSettingValue,
+  useAudioStore,
+  useSafetyLimits,
+  useAutoVolume,
+  useAudioSessions,
+  useTestSignal,
+  useEqualizer,
+  useAudioEffects,
+  useCompressor,
+} from './hooks';
+export type {
+  UseVolumeResult,
+  UseBoostResult,
+  UseAudioDeviceResult,
+  UseAudioDevicesResult,
+  UseBackgroundServiceResult,
+  AudioSetterResult,
+  UseSafetyLimitsResult,
+  UseAutoVolumeResult,
+} from './hooks';
+
+// Store
+export { AudioStore, audioStore, deriveAudioState } from './store/AudioStore';
+export type { AudioState, AudioIntent, AudioActual, AudioDerivedState } from './store/AudioStore';
+
+// Services
+export { BoostRamp, boostRamp, interpolateBoost, RAMP_STEP_MS } from './services/BoostRamp';
+export type { RampCurve, RampOptions } from './services/BoostRamp';
+export {
+  boostToDb,
+  boostToMillibels,
+  dbToBoost,
+  boostGainMillibels,
+  savedBoostCurve,
+  formatGainDb,
+  DEFAULT_MAX_BOOST_GAIN_DB,
+} from './services/BoostCurve';
+export type { BoostCurveId } from './services/BoostCurve';
+export {
+  ExposureTracker,
+  exposureTracker,
+  estimateListeningLevel,
+  allowedExposureMs,
+  exposureDose,
+} from './services/ExposureTracker';
+export type { ExposureAction, DailyExposure, ExposureChangeEvent } from './services/ExposureTracker';
+export { AutoVolumeService, autoVolumeService } from './services/AutoVolumeService';
+export type { AutoVolumeState, AutoVolumeChangeEvent } from './services/AutoVolumeService';
+export {
+  AudioSessionService,
+  audioSessionService,
+  getBoostTarget,
+  describeAudioSession,
+  describeBoostTarget,
+} from './services/AudioSessionService';
+export type {
+  BoostTarget,
+  AudioSessionState,
+  AudioSessionResult,
+  AudioSessionChangeEvent,
+} from './services/AudioSessionService';
+export {
+  TestSignalPlayer,
+  testSignalPlayer,
+  normalizeTestSignalOptions,
+  TEST_SIGNAL_DEFAULTS,
+  TEST_SIGNAL_LIMITS,
+} from './services/TestSignalPlayer';
+export type { TestSignalState, TestSignalResult, TestSignalChangeEvent } from './services/TestSignalPlayer';
+export {
+  EqualizerService,
+  equalizerService,
+  equalizerPresetLevels,
+  fitBandLevels,
+  EQUALIZER_PRESETS,
+} from './services/EqualizerService';
+export type {
+  EqualizerPresetId,
+  EqualizerPreset,
+  EqualizerState,
+  EqualizerChangeEvent,
+} from './services/EqualizerService';
+export { AudioEffectsService, audioEffectsService } from './services/AudioEffectsService';
+export type { AudioEffectsState, AudioEffectsChangeEvent } from './services/AudioEffectsService';
+export { CompressorService, compressorService, COMPRESSOR_PRESETS } from './services/CompressorService';
+export type {
+  CompressorPresetId,
+  CompressorPreset,
+  CompressorParameters,
+  CompressorState,
+  CompressorChangeEvent,
+} from './services/CompressorService';
+export { NotificationSync, notificationSync } from './services/NotificationSync';
+export { BackgroundServiceReconciler, backgroundServiceReconciler } from './services/BackgroundServiceReconciler';
+export type { BackgroundReconcileAction, BackgroundReconcileResult } from './services/BackgroundServiceReconciler';
+export { BoostScheduler, boostScheduler, BOOST_RULES_TASK, evaluateBoostRulesTask } from './services/BoostScheduler';
+export type { BoostRuleEvaluation } from './services/BoostScheduler';
+export {
+  WEEKDAY_LABELS,
+  activeRuleWindow,
+  isRuleActive,
+  findActiveRule,
+  nextRuleStart,
+  nextRuleChange,
+  formatMinuteOfDay,
+  formatRuleTrigger,
+} from './services/BoostRuleEvaluator';
+export type { BoostRuleWindow } from './services/BoostRuleEvaluator';
+export { BOOST_RESTORE_TASK, restoreBoost, restoreBoostTask } from './services/BoostRestore';
+export type { BoostRestoreReason, BoostRestoreTaskData, BoostRestoreResult } from './services/BoostRestore';
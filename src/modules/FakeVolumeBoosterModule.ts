@@ -0,0 +1,697 @@
+import { DeviceEventEmitter } from 'react-native';
+import type {
+  AudioDeviceInfo,
+  AudioOutputDevice,
+  AudioSessionInfo,
+  EqualizerLayout,
+  AudioEffectCapabilities,
+  BoostLimits,
+  BoostStep,
+  CompressorOptions,
+  NotificationAction,
+  TestSignalOptions,
+  VolumeBoosterEventMap,
+  VolumeBoosterEventName,
+  VolumeBoosterNativeModule,
+} from './VolumeBoosterModule';
+
+// ============================================================================
+// FAKE VOLUME BOOSTER MODULE
+// ============================================================================
+
+/**
+ * In-memory implementation of the VolumeBooster native module
+ *
+ * Used under Jest and where NativeModules.VolumeBooster is not available
+ * (web preview). Simulates Android volume steps, boost state, the background
+ * service and a list of output devices, and emits the same events as the
+ * native module through DeviceEventEmitter, so VolumeBoosterEmitter
+ * subscribers receive them. Like the native module, it rejects audio calls
+ * made before initializeAudio.
+ *
+ * Tests drive it through the simulation helpers (connectDevice,
+ * simulateVolumeChange, ...) and inspect it with getState().
+ */
+
+/** Number of STREAM_MUSIC volume steps on a typical Android device */
+const DEFAULT_MAX_VOLUME_STEPS = 15;
+
+/** Audio session ID the fake reports for the app itself */
+export const FAKE_APP_SESSION_ID = 4001;
+
+/**
+ * Built-in speaker reported when no other device is connected
+ */
+export const FAKE_SPEAKER_DEVICE: AudioDeviceInfo = {
+  name: 'Device Speaker',
+  type: 'Device Speaker',
+  typeId: 2,
+  id: 1,
+  channels: '2',
+  encodings: 'PCM 16-bit',
+  sampleRates: '44100, 48000',
+};
+
+/**
+ * Five-band equalizer layout reported by most Android devices
+ */
+export const FAKE_EQUALIZER_LAYOUT: EqualizerLayout = {
+  bands: [
+    { index: 0, centerFrequency: 60, minFrequency: 30, maxFrequency: 120 },
+    { index: 1, centerFrequency: 230, minFrequency: 120, maxFrequency: 460 },
+    { index: 2, centerFrequency: 910, minFrequency: 460, maxFrequency: 1800 },
+    { index: 3, centerFrequency: 3600, minFrequency: 1800, maxFrequency: 7000 },
+    { index: 4, centerFrequency: 14000, minFrequency: 7000, maxFrequency: 20000 },
+  ],
+  minLevel: -1500,
+  maxLevel: 1500,
+};
+
+/**
+ * Snapshot of the fake module's internal state
+ */
+export interface FakeVolumeBoosterState {
+  initialized: boolean;
+  volumeStep: number;
+  maxVolumeSteps: number;
+  boost: number;
+
+  /** Gain passed with the last setBoost or setBoostGain call, in millibels */
+  boostGainMillibels: number;
+
+  boostEnabled: boolean;
+  appOnlyBoost: boolean;
+  backgroundModeEnabled: boolean;
+  serviceRunning: boolean;
+  deviceMonitoring: boolean;
+  volumeMonitoring: boolean;
+  devices: AudioDeviceInfo[];
+  activeDeviceId: number | null;
+  testSoundsPlayed: number;
+
+  /** Whether another app is playing music */
+  musicActive: boolean;
+
+  /** Levels passed to setBoostGain, in call order */
+  gainSteps: number[];
+
+  /** Audio session ID of the app */
+  appSessionId: number;
+
+  /** Sessions boost is attached to (empty when device-wide) */
+  boostedSessions: number[];
+
+  /** Sessions announced by media players */
+  openSessions: AudioSessionInfo[];
+
+  /** Test signal currently playing */
+  testSignal: TestSignalOptions | null;
+
+  /** Whether the equalizer is enabled */
+  equalizerEnabled: boolean;
+
+  /** Equalizer band levels in millibels (empty until set) */
+  equalizerBandLevels: number[];
+
+  /** Optional effects the device provides */
+  effectCapabilities: AudioEffectCapabilities;
+
+  /** Bass boost strength in percent */
+  bassBoostStrength: number;
+
+  /** Virtualizer strength in percent */
+  virtualizerStrength: number;
+
+  /** Compressor settings last applied (null until set) */
+  compressor: CompressorOptions | null;
+
+  /** Time of the scheduled boost rule check (null when none is scheduled) */
+  nextRuleCheckAt: number | null;
+
+  /** Steps of the notification boost -/+ (empty until JS sends them) */
+  boostLimits: BoostLimits;
+}
+
+type NativeMethod = Exclude<keyof VolumeBoosterNativeModule, 'appVersion' | 'addListener' | 'removeListeners'>;
+
+/**
+ * Methods that work before initializeAudio, as on the native module: they
+ * start monitoring or only touch the background service
+ */
+const UNINITIALIZED_METHODS: NativeMethod[] = [
+  'initializeAudio',
+  'startDeviceMonitoring',
+  'stopDeviceMonitoring',
+  'startVolumeMonitoring',
+  'stopVolumeMonitoring',
+  'getAudioEffectCapabilities',
+  'setBackgroundMode',
+  'isBackgroundModeEnabled',
+  'isBackgroundServiceRunning',
+  'getBackgroundBoostLevel',
+  'isBackgroundBoostActive',
+  'scheduleBoostRuleCheck',
+  'setBoostLimits',
+];
+
+export class FakeVolumeBoosterModule implements VolumeBoosterNativeModule {
+  /** Reported instead of the build's version name */
+  readonly appVersion = 'development';
+
+  private state: FakeVolumeBoosterState = FakeVolumeBoosterModule.initialState();
+
+  /** Errors to throw from the next call of each method */
+  private pendingFailures = new Map<NativeMethod, Error>();
+
+  /** Ends the playing test signal once its duration has passed */
+  private testSignalTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * State of a freshly installed app on a phone with only its speaker
+   */
+  private static initialState(): FakeVolumeBoosterState {
+    return {
+      initialized: false,
+      volumeStep: DEFAULT_MAX_VOLUME_STEPS,
+      maxVolumeSteps: DEFAULT_MAX_VOLUME_STEPS,
+      boost: 0,
+      boostGainMillibels: 0,
+      boostEnabled: false,
+      appOnlyBoost: false,
+      backgroundModeEnabled: false,
+      serviceRunning: false,
+      deviceMonitoring: false,
+      volumeMonitoring: false,
+      devices: [FAKE_SPEAKER_DEVICE],
+      activeDeviceId: FAKE_SPEAKER_DEVICE.id,
+      testSoundsPlayed: 0,
+      musicActive: false,
+      gainSteps: [],
+      appSessionId: FAKE_APP_SESSION_ID,
+      boostedSessions: [],
+      openSessions: [],
+      testSignal: null,
+      equalizerEnabled: false,
+      equalizerBandLevels: [],
+      effectCapabilities: { bassBoost: true, virtualizer: true, equalizer: true, compressor: true },
+      bassBoostStrength: 0,
+      virtualizerStrength: 0,
+      compressor: null,
+      nextRuleCheckAt: null,
+      boostLimits: { steps: [] },
+    };
+  }
+
+  // ============================================================================
+  // NATIVE MODULE INTERFACE
+  // ============================================================================
+
+  async initializeAudio(): Promise<number> {
+    this.beginCall('initializeAudio');
+    this.state.initialized = true;
+    return this.state.maxVolumeSteps;
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    this.beginCall('setVolume');
+    // Same truncation as the native module's percentage -> step conversion
+    this.state.volumeStep = Math.floor((volume / 100) * this.state.maxVolumeSteps);
+  }
+
+  async getVolume(): Promise<number> {
+    this.beginCall('getVolume');
+    return this.volumePercentage();
+  }
+
+  async isMusicActive(): Promise<boolean> {
+    this.beginCall('isMusicActive');
+    return this.state.musicActive;
+  }
+
+  async setBoost(boostLevel: number, gainMillibels: number): Promise<void> {
+    this.beginCall('setBoost');
+    this.state.boost = boostLevel;
+    this.state.boostGainMillibels = gainMillibels;
+    this.emitServiceBoost();
+  }
+
+  async setBoostGain(boostLevel: number, gainMillibels: number): Promise<void> {
+    this.beginCall('setBoostGain');
+    this.state.boost = boostLevel;
+    this.state.boostGainMillibels = gainMillibels;
+    this.state.gainSteps.push(boostLevel);
+  }
+
+  async setBoostEnabled(enabled: boolean): Promise<void> {
+    this.beginCall('setBoostEnabled');
+    this.state.boostEnabled = enabled;
+    this.emitServiceBoost();
+  }
+
+  async setAppOnlyBoost(enabled: boolean): Promise<void> {
+    this.beginCall('setAppOnlyBoost');
+    this.setBoostedSessions(enabled ? [this.state.appSessionId] : []);
+  }
+
+  async getAppAudioSessionId(): Promise<number> {
+    this.beginCall('getAppAudioSessionId');
+    return this.state.appSessionId;
+  }
+
+  async attachBoostToSession(sessionId: number): Promise<void> {
+    this.beginCall('attachBoostToSession');
+    // Like LoudnessEnhancer, only the app's own and open sessions accept effects
+    const open = this.state.openSessions.some(session => session.sessionId === sessionId);
+    if (sessionId !== this.state.appSessionId && !open) {
+      throw new Error(`Failed to attach boost to audio session ${sessionId}`);
+    }
+    if (!this.state.boostedSessions.includes(sessionId)) {
+      this.setBoostedSessions([...this.state.boostedSessions, sessionId]);
+    }
+  }
+
+  async detachBoostFromSession(sessionId: number): Promise<void> {
+    this.beginCall('detachBoostFromSession');
+    this.setBoostedSessions(this.state.boostedSessions.filter(id => id !== sessionId));
+  }
+
+  async getBoostedSessions(): Promise<number[]> {
+    this.beginCall('getBoostedSessions');
+    return [...this.state.boostedSessions];
+  }
+
+  async getOpenAudioSessions(): Promise<AudioSessionInfo[]> {
+    this.beginCall('getOpenAudioSessions');
+    return this.state.openSessions.map(session => ({ ...session }));
+  }
+
+  async getEqualizerBands(): Promise<EqualizerLayout> {
+    this.beginCall('getEqualizerBands');
+    return { ...FAKE_EQUALIZER_LAYOUT, bands: FAKE_EQUALIZER_LAYOUT.bands.map(band => ({ ...band })) };
+  }
+
+  async setEqualizerBandLevels(levels: number[]): Promise<void> {
+    this.beginCall('setEqualizerBandLevels');
+    const { bands, minLevel, maxLevel } = FAKE_EQUALIZER_LAYOUT;
+
+    // Like the native equalizer: extra levels are ignored, missing bands keep their level
+    const current = this.state.equalizerBandLevels.length > 0 ? this.state.equalizerBandLevels : bands.map(() => 0);
+    this.state.equalizerBandLevels = current.map((level, band) =>
+      band < levels.length ? Math.min(maxLevel, Math.max(minLevel, Math.round(levels[band]))) : level,
+    );
+  }
+
+  async getEqualizerBandLevels(): Promise<number[]> {
+    this.beginCall('getEqualizerBandLevels');
+    return [...this.state.equalizerBandLevels];
+  }
+
+  async setEqualizerEnabled(enabled: boolean): Promise<void> {
+    this.beginCall('setEqualizerEnabled');
+    this.state.equalizerEnabled = enabled;
+  }
+
+  async getAudioEffectCapabilities(): Promise<AudioEffectCapabilities> {
+    this.beginCall('getAudioEffectCapabilities');
+    return { ...this.state.effectCapabilities };
+  }
+
+  async setBassBoostStrength(strength: number): Promise<void> {
+    this.beginCall('setBassBoostStrength');
+    if (!this.state.effectCapabilities.bassBoost) {
+      throw new Error('Bass boost is not supported on this device');
+    }
+    this.state.bassBoostStrength = Math.min(100, Math.max(0, Math.round(strength)));
+  }
+
+  async setVirtualizerStrength(strength: number): Promise<void> {
+    this.beginCall('setVirtualizerStrength');
+    if (!this.state.effectCapabilities.virtualizer) {
+      throw new Error('Virtualizer is not supported on this device');
+    }
+    this.state.virtualizerStrength = Math.min(100, Math.max(0, Math.round(strength)));
+  }
+
+  async setCompressor(options: CompressorOptions): Promise<void> {
+    this.beginCall('setCompressor');
+    if (!this.state.effectCapabilities.compressor) {
+      throw new Error('The compressor requires Android 9 or newer');
+    }
+    this.state.compressor = { ...options };
+  }
+
+  async playTestSound(): Promise<void> {
+    this.beginCall('playTestSound');
+    this.state.testSoundsPlayed += 1;
+  }
+
+  async playTestSignal(options: TestSignalOptions): Promise<void> {
+    this.beginCall('playTestSignal');
+    if (!['sine', 'pinkNoise', 'sweep'].includes(options.waveform)) {
+      throw new Error(`Unknown test signal waveform: ${options.waveform}`);
+    }
+
+    this.endTestSignal();
+    this.state.testSignal = { ...options };
+    this.emit('testSignalStateChanged', { playing: true, waveform: options.waveform });
+    this.testSignalTimer = setTimeout(() => this.endTestSignal(), options.durationMs);
+  }
+
+  async stopTestSignal(): Promise<void> {
+    this.beginCall('stopTestSignal');
+    this.endTestSignal();
+  }
+
+  async getAudioDeviceInfo(): Promise<AudioDeviceInfo | null> {
+    this.beginCall('getAudioDeviceInfo');
+    return this.activeDevice();
+  }
+
+  async getAudioDevices(): Promise<AudioOutputDevice[]> {
+    this.beginCall('getAudioDevices');
+    return this.state.devices.map(device => this.outputDevice(device));
+  }
+
+  startDeviceMonitoring(): void {
+    this.state.deviceMonitoring = true;
+  }
+
+  stopDeviceMonitoring(): void {
+    this.state.deviceMonitoring = false;
+  }
+
+  startVolumeMonitoring(): void {
+    this.state.volumeMonitoring = true;
+  }
+
+  stopVolumeMonitoring(): void {
+    this.state.volumeMonitoring = false;
+  }
+
+  async setBackgroundMode(enabled: boolean): Promise<boolean> {
+    this.beginCall('setBackgroundMode');
+    this.state.backgroundModeEnabled = enabled;
+    this.setServiceRunning(enabled);
+    return enabled;
+  }
+
+  async isBackgroundModeEnabled(): Promise<boolean> {
+    this.beginCall('isBackgroundModeEnabled');
+    return this.state.backgroundModeEnabled;
+  }
+
+  async isBackgroundServiceRunning(): Promise<boolean> {
+    this.beginCall('isBackgroundServiceRunning');
+    return this.state.serviceRunning;
+  }
+
+  async getBackgroundBoostLevel(): Promise<number> {
+    this.beginCall('getBackgroundBoostLevel');
+    return this.state.serviceRunning ? this.state.boost : 0;
+  }
+
+  async isBackgroundBoostActive(): Promise<boolean> {
+    this.beginCall('isBackgroundBoostActive');
+    return this.state.serviceRunning && this.state.boostEnabled && this.state.boost > 0;
+  }
+
+  async scheduleBoostRuleCheck(timestamp: number): Promise<void> {
+    this.beginCall('scheduleBoostRuleCheck');
+    this.state.nextRuleCheckAt = timestamp > 0 ? timestamp : null;
+  }
+
+  async setBoostLimits(limits: BoostLimits): Promise<void> {
+    this.beginCall('setBoostLimits');
+    this.state.boostLimits = { steps: limits.steps.map(step => ({ ...step })) };
+  }
+
+  /** Required by NativeEventEmitter; events are routed through DeviceEventEmitter */
+  addListener(_eventName: string): void {}
+
+  /** Required by NativeEventEmitter */
+  removeListeners(_count: number): void {}
+
+  // ============================================================================
+  // SIMULATION HELPERS
+  // ============================================================================
+
+  /**
+   * Restores the initial state and drops pending failures
+   */
+  reset(): void {
+    if (this.testSignalTimer !== null) {
+      clearTimeout(this.testSignalTimer);
+      this.testSignalTimer = null;
+    }
+    this.state = FakeVolumeBoosterModule.initialState();
+    this.pendingFailures.clear();
+  }
+
+  /**
+   * Returns a copy of the current state
+   */
+  getState(): FakeVolumeBoosterState {
+    return {
+      ...this.state,
+      devices: [...this.state.devices],
+      gainSteps: [...this.state.gainSteps],
+      boostedSessions: [...this.state.boostedSessions],
+      openSessions: [...this.state.openSessions],
+      equalizerBandLevels: [...this.state.equalizerBandLevels],
+      effectCapabilities: { ...this.state.effectCapabilities },
+      compressor: this.state.compressor && { ...this.state.compressor },
+      boostLimits: { steps: this.state.boostLimits.steps.map(step => ({ ...step })) },
+    };
+  }
+
+  /**
+   * Makes the next call of a method reject with the given error
+   */
+  failNextCall(method: NativeMethod, error: Error = new Error(`${method} failed`)): void {
+    this.pendingFailures.set(method, error);
+  }
+
+  /**
+   * Sets which optional audio effects the device provides
+   */
+  setEffectCapabilities(capabilities: Partial<AudioEffectCapabilities>): void {
+    this.state.effectCapabilities = { ...this.state.effectCapabilities, ...capabilities };
+  }
+
+  /**
+   * Connects an output device and routes audio to it
+   *
+   * Emits 'audioDevicesChanged' (for a new device) and 'audioDeviceChanged'
+   * while device monitoring is running.
+   */
+  connectDevice(device: AudioDeviceInfo): void {
+    const isNew = !this.state.devices.some(existing => existing.id === device.id);
+    this.state.devices = [...this.state.devices.filter(existing => existing.id !== device.id), device];
+
+    if (isNew && this.state.deviceMonitoring) {
+      // Routing follows the new device, as the native callback reports it
+      this.emit('audioDevicesChanged', { added: [{ ...device, isActive: true }], removed: [] });
+    }
+    this.setActiveDevice(device.id);
+  }
+
+  /**
+   * Disconnects an output device, falling back to the most recently connected one
+   */
+  disconnectDevice(deviceId: number): void {
+    const removed = this.state.devices.find(device => device.id === deviceId);
+    this.state.devices = this.state.devices.filter(device => device.id !== deviceId);
+
+    if (removed && this.state.deviceMonitoring) {
+      this.emit('audioDevicesChanged', { added: [], removed: [{ ...removed, isActive: false }] });
+    }
+
+    if (this.state.activeDeviceId === deviceId) {
+      const fallback = this.state.devices[this.state.devices.length - 1];
+      this.setActiveDevice(fallback ? fallback.id : null);
+    }
+  }
+
+  /**
+   * Routes audio to a connected device (null for no output)
+   */
+  setActiveDevice(deviceId: number | null): void {
+    if (deviceId !== null && !this.state.devices.some(device => device.id === deviceId)) {
+      throw new Error(`Unknown fake audio device: ${deviceId}`);
+    }
+
+    const changed = this.state.activeDeviceId !== deviceId;
+    this.state.activeDeviceId = deviceId;
+
+    if (changed && this.state.deviceMonitoring) {
+      this.emit('audioDeviceChanged', this.activeDevice());
+    }
+  }
+
+  /**
+   * Simulates a volume change made outside the app (hardware buttons)
+   *
+   * Emits 'volumeChanged' while volume monitoring is running.
+   */
+  simulateVolumeChange(volume: number): void {
+    const before = this.volumePercentage();
+    this.state.volumeStep = Math.round((volume / 100) * this.state.maxVolumeSteps);
+
+    if (this.state.volumeMonitoring && this.volumePercentage() !== before) {
+      this.emit('volumeChanged', this.volumePercentage());
+    }
+  }
+
+  /**
+   * Simulates music starting or stopping in another app
+   */
+  setMusicActive(active: boolean): void {
+    this.state.musicActive = active;
+  }
+
+  /**
+   * Simulates a media player opening an audio session
+   *
+   * Emits 'audioSessionOpened'.
+   */
+  openAudioSession(session: AudioSessionInfo): void {
+    this.state.openSessions = [
+      ...this.state.openSessions.filter(existing => existing.sessionId !== session.sessionId),
+      session,
+    ];
+    this.emit('audioSessionOpened', session);
+  }
+
+  /**
+   * Simulates a media player closing an audio session
+   *
+   * Detaches boost from the session and emits 'audioSessionClosed'.
+   */
+  closeAudioSession(sessionId: number): void {
+    const session = this.state.openSessions.find(existing => existing.sessionId === sessionId);
+    if (!session) return;
+
+    this.state.openSessions = this.state.openSessions.filter(existing => existing.sessionId !== sessionId);
+    if (this.state.boostedSessions.includes(sessionId)) {
+      this.setBoostedSessions(this.state.boostedSessions.filter(id => id !== sessionId));
+    }
+    this.emit('audioSessionClosed', session);
+  }
+
+  /**
+   * Simulates the user pressing a control in the service notification
+   *
+   * Applies boost and toggle changes like the native service (next or
+   * previous boost step, ignored until JS sends the steps), then emits
+   * 'notificationAction'. Preset and stop actions are left to the JS side.
+   */
+  pressNotificationAction(action: NotificationAction): void {
+    if (!this.state.serviceRunning) {
+      throw new Error('The service notification is only shown while the service runs');
+    }
+
+    const { boost, boostLimits } = this.state;
+    const { steps } = boostLimits;
+    const stepTo = (step: BoostStep | undefined) => {
+      if (!step) return;
+      this.state.boostGainMillibels = step.gainMillibels;
+      this.state.boost = step.boost;
+      this.emitServiceBoost();
+    };
+
+    if (action === 'boostDown') {
+      stepTo([...steps].reverse().find(step => step.boost < boost) ?? steps[0]);
+    } else if (action === 'boostUp') {
+      stepTo(steps.find(step => step.boost > boost) ?? steps[steps.length - 1]);
+    } else if (action === 'toggleBoost') {
+      this.state.boostEnabled = !this.state.boostEnabled;
+      this.emitServiceBoost();
+    }
+
+    this.emit('notificationAction', { action, boostLevel: this.state.boost, enabled: this.state.boostEnabled });
+  }
+
+  /**
+   * Simulates the system stopping or restarting the background service
+   */
+  setServiceRunning(running: boolean): void {
+    if (this.state.serviceRunning === running) return;
+
+    this.state.serviceRunning = running;
+    this.emit('serviceStateChanged', { running });
+  }
+
+  /**
+   * Emits an event directly, regardless of monitoring state
+   */
+  emit<E extends VolumeBoosterEventName>(event: E, payload: VolumeBoosterEventMap[E]): void {
+    DeviceEventEmitter.emit(event, payload);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private volumePercentage(): number {
+    return (this.state.volumeStep / this.state.maxVolumeSteps) * 100;
+  }
+
+  private activeDevice(): AudioDeviceInfo | null {
+    return this.state.devices.find(device => device.id === this.state.activeDeviceId) ?? null;
+  }
+
+  private outputDevice(device: AudioDeviceInfo): AudioOutputDevice {
+    return { ...device, isActive: device.id === this.state.activeDeviceId };
+  }
+
+  private endTestSignal(): void {
+    if (this.testSignalTimer !== null) {
+      clearTimeout(this.testSignalTimer);
+      this.testSignalTimer = null;
+    }
+
+    const signal = this.state.testSignal;
+    if (signal) {
+      this.state.testSignal = null;
+      this.emit('testSignalStateChanged', { playing: false, waveform: signal.waveform });
+    }
+  }
+
+  private setBoostedSessions(sessions: number[]): void {
+    this.state.boostedSessions = sessions;
+    this.state.appOnlyBoost = sessions.length === 1 && sessions[0] === this.state.appSessionId;
+  }
+
+  private emitServiceBoost(): void {
+    if (!this.state.serviceRunning) return;
+
+    this.emit('boostChanged', {
+      boostLevel: this.state.boost,
+      enabled: this.state.boostEnabled,
+      appOnly: this.state.boostedSessions.length > 0,
+      sessions: [...this.state.boostedSessions],
+      active: this.state.boostEnabled && this.state.boost > 0,
+    });
+  }
+
+  /**
+   * Rejects a call like the native module would: before initializeAudio, or
+   * with a failure queued by failNextCall
+   */
+  private beginCall(method: NativeMethod): void {
+    if (!this.state.initialized && !UNINITIALIZED_METHODS.includes(method)) {
+      throw new Error(`${method} called before initializeAudio`);
+    }
+
+    const error = this.pendingFailures.get(method);
+    if (error) {
+      this.pendingFailures.delete(method);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Shared fake instance, used by VolumeBoosterModule when the native module is missing
+ */
+export const fakeVolumeBoosterModule = new FakeVolumeBoosterModule();
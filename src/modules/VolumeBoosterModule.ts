@@ -1,4 +1,5 @@
-import { NativeModules, NativeEventEmitter } from 'react-native';
+import { NativeModules, NativeEventEmitter, EmitterSubscription, Platform } from 'react-native';
+import { loadFakeVolumeBooster } from './loadFakeVolumeBooster';
 
 // ============================================================================
 // NATIVE MODULE INTERFACE DEFINITIONS
@@ -14,6 +15,11 @@ import { NativeModules, NativeEventEmitter } from 'react-native';
  * All methods return Promises for async operations and include proper error handling.
  */
 interface VolumeBoosterModule {
+  /**
+   * Version name of the app build (a module constant, not a method)
+   */
+  readonly appVersion: string;
+
   /**
    * Initializes the native audio system
    * 
@@ -48,17 +54,44 @@ interface VolumeBoosterModule {
    */
   getVolume(): Promise<number>;
 
+  /**
+   * Checks whether any app is currently playing music
+   * 
+   * Used by the exposure tracker to only count time while audio is playing.
+   * 
+   * @returns Promise<boolean> Resolves with true if music is active
+   * @throws Rejects with "VOLUME_ERROR" if the check fails
+   */
+  isMusicActive(): Promise<boolean>;
+
   /**
    * Sets the audio boost level
    * 
    * Applies real-time audio enhancement using Android LoudnessEnhancer API.
-   * Supports boost levels from 0-200% with the formula: boostLevel * 25 = gain in millibels.
+   * The gain is mapped from the boost level by the boost curve
+   * (see boostGainMillibels in BoostCurve.ts).
    * 
    * @param boostLevel Boost percentage (0-200)
+   * @param gainMillibels Gain for the boost level in millibels (100 mB = 1 dB)
    * @returns Promise<void> Resolves when boost is applied successfully
    * @throws Rejects with "BOOST_ERROR" if boost application fails
    */
-  setBoost(boostLevel: number): Promise<void>;
+  setBoost(boostLevel: number, gainMillibels: number): Promise<void>;
+
+  /**
+   * Adjusts the boost gain without recreating the LoudnessEnhancer
+   * 
+   * Used for the intermediate steps of a boost ramp: keeps the current
+   * audio session and does not restart playback, so it is cheap to call
+   * many times per second. While boost is disabled only the stored level
+   * changes.
+   * 
+   * @param boostLevel Boost percentage (0-200)
+   * @param gainMillibels Gain for the boost level in millibels (100 mB = 1 dB)
+   * @returns Promise<void> Resolves when the gain is applied
+   * @throws Rejects with "BOOST_ERROR" if the gain cannot be applied
+   */
+  setBoostGain(boostLevel: number, gainMillibels: number): Promise<void>;
 
   /**
    * Sets the boost enabled state
@@ -75,8 +108,8 @@ interface VolumeBoosterModule {
   /**
    * Toggles between app-only and device-wide boost modes
    * 
-   * Switches the LoudnessEnhancer session ID to control whether boost affects
-   * only the app's audio or all device audio.
+   * Shorthand for the session API: app-only mode attaches boost to the
+   * app's own audio session only, device-wide mode detaches all sessions.
    * 
    * @param enabled true for app-only boost, false for device-wide boost
    * @returns Promise<void> Resolves when mode is changed successfully
@@ -84,6 +117,140 @@ interface VolumeBoosterModule {
    */
   setAppOnlyBoost(enabled: boolean): Promise<void>;
 
+  /**
+   * Gets the audio session ID of this app
+   * 
+   * Audio played by the app (e.g. the test sound) uses this session.
+   * 
+   * @returns Promise<number> Resolves with the session ID
+   */
+  getAppAudioSessionId(): Promise<number>;
+
+  /**
+   * Attaches boost to an audio session
+   * 
+   * Once at least one session is attached, boost only applies to the
+   * attached sessions instead of all device audio. Closed sessions are
+   * detached automatically.
+   * 
+   * @param sessionId Audio session ID (non-zero)
+   * @returns Promise<void> Resolves when the session is boosted
+   * @throws Rejects with "SESSION_ERROR" if no effect can be attached to the session
+   */
+  attachBoostToSession(sessionId: number): Promise<void>;
+
+  /**
+   * Detaches boost from an audio session
+   * 
+   * Boost becomes device-wide again once the last session is detached.
+   * 
+   * @param sessionId Audio session ID
+   * @returns Promise<void> Resolves when the session is detached
+   * @throws Rejects with "SESSION_ERROR" if detaching fails
+   */
+  detachBoostFromSession(sessionId: number): Promise<void>;
+
+  /**
+   * Gets the audio sessions boost is attached to
+   * 
+   * @returns Promise<number[]> Resolves with the session IDs (empty when boost is device-wide)
+   */
+  getBoostedSessions(): Promise<number[]>;
+
+  /**
+   * Gets the audio sessions currently announced by media players
+   * 
+   * Players announce their sessions so effect apps can attach to them;
+   * players that do not announce their sessions are not listed.
+   * 
+   * @returns Promise<AudioSessionInfo[]> Resolves with the open sessions
+   */
+  getOpenAudioSessions(): Promise<AudioSessionInfo[]>;
+
+  /**
+   * Gets the equalizer band layout of the device
+   * 
+   * The band count and frequencies depend on the device's equalizer effect
+   * (typically 5 bands).
+   * 
+   * @returns Promise<EqualizerLayout> Resolves with the bands and the band level range
+   * @throws Rejects with "EQUALIZER_ERROR" if the device has no equalizer
+   */
+  getEqualizerBands(): Promise<EqualizerLayout>;
+
+  /**
+   * Sets the equalizer band levels
+   * 
+   * The equalizer applies to the same audio sessions as boost and, like
+   * setBoost, goes through the background service while it is running.
+   * Levels are clamped to the band level range; extra levels are ignored.
+   * 
+   * @param levels Band levels in millibels, in band order
+   * @returns Promise<void> Resolves when the levels are applied
+   * @throws Rejects with "EQUALIZER_ERROR" if the levels cannot be applied
+   */
+  setEqualizerBandLevels(levels: number[]): Promise<void>;
+
+  /**
+   * Gets the equalizer band levels last set
+   * 
+   * @returns Promise<number[]> Resolves with the levels in millibels (empty if never set)
+   */
+  getEqualizerBandLevels(): Promise<number[]>;
+
+  /**
+   * Enables or disables the equalizer
+   * 
+   * @param enabled true to apply the band levels, false to bypass the equalizer
+   * @returns Promise<void> Resolves when the state is applied
+   * @throws Rejects with "EQUALIZER_ERROR" if the state cannot be changed
+   */
+  setEqualizerEnabled(enabled: boolean): Promise<void>;
+
+  /**
+   * Reports which optional audio effects the device provides
+   * 
+   * @returns Promise<AudioEffectCapabilities> Resolves with one flag per effect
+   */
+  getAudioEffectCapabilities(): Promise<AudioEffectCapabilities>;
+
+  /**
+   * Sets the bass boost strength
+   * 
+   * Applies to the same audio sessions as boost and, like setBoost, goes
+   * through the background service while it is running.
+   * 
+   * @param strength Strength in percent (0-100); 0 disables bass boost
+   * @returns Promise<void> Resolves when the strength is applied
+   * @throws Rejects with "EFFECT_ERROR" if the device has no bass boost
+   */
+  setBassBoostStrength(strength: number): Promise<void>;
+
+  /**
+   * Sets the virtualizer strength
+   * 
+   * Applies to the same audio sessions as boost. Most devices only
+   * virtualize headphone output.
+   * 
+   * @param strength Strength in percent (0-100); 0 disables the virtualizer
+   * @returns Promise<void> Resolves when the strength is applied
+   * @throws Rejects with "EFFECT_ERROR" if the device has no virtualizer
+   */
+  setVirtualizerStrength(strength: number): Promise<void>;
+
+  /**
+   * Sets the dynamic range compressor and output limiter
+   * 
+   * Evens out loud and quiet passages so boost can raise quiet parts
+   * without clipping. Applies to the same audio sessions as boost and goes
+   * through the background service while it is running.
+   * 
+   * @param options Compressor and limiter settings
+   * @returns Promise<void> Resolves when the settings are applied
+   * @throws Rejects with "EFFECT_ERROR" below Android 9 (see AudioEffectCapabilities.compressor)
+   */
+  setCompressor(options: CompressorOptions): Promise<void>;
+
   /**
    * Plays a test sound for boost verification
    * 
@@ -95,6 +262,27 @@ interface VolumeBoosterModule {
    */
   playTestSound(): Promise<void>;
 
+  /**
+   * Plays a test signal for checking boost on the current output
+   * 
+   * Generates the signal on the app's audio session, replacing any signal
+   * already playing. Emits 'testSignalStateChanged' when playback starts
+   * and when it ends (finished or stopped).
+   * 
+   * @param options Waveform, frequency, duration and level of the signal
+   * @returns Promise<void> Resolves once playback has started
+   * @throws Rejects with "TEST_SIGNAL_ERROR" if the signal cannot be played
+   */
+  playTestSignal(options: TestSignalOptions): Promise<void>;
+
+  /**
+   * Stops the test signal, if one is playing
+   * 
+   * @returns Promise<void> Resolves once playback has stopped
+   * @throws Rejects with "TEST_SIGNAL_ERROR" if stopping fails
+   */
+  stopTestSignal(): Promise<void>;
+
   /**
    * Gets information about the currently active audio output device
    * 
@@ -107,34 +295,50 @@ interface VolumeBoosterModule {
   getAudioDeviceInfo(): Promise<AudioDeviceInfo | null>;
 
   /**
-   * Starts continuous monitoring of audio device changes
+   * Lists every connected audio output
+   * 
+   * The output getAudioDeviceInfo reports is flagged with isActive.
+   * 
+   * @returns Promise<AudioOutputDevice[]> Resolves with the outputs
+   * @throws Rejects with "DEVICE_ERROR" if the outputs cannot be read
+   */
+  getAudioDevices(): Promise<AudioOutputDevice[]>;
+
+  /**
+   * Starts notifying audio device changes
+   * 
+   * Emits 'audioDeviceChanged' from an AudioDeviceCallback as soon as an
+   * output device is connected or disconnected, and once on start with the
+   * active device. Does nothing if already monitoring.
    * 
-   * Begins background monitoring that checks for audio device changes every 1.8 seconds
-   * and emits 'audioDeviceChanged' events when changes are detected.
+   * Prefer subscribing through the shared event hub (subscribeShared,
+   * useNativeEvent), which starts and stops monitoring with its listeners.
    */
   startDeviceMonitoring(): void;
 
   /**
-   * Stops audio device monitoring
+   * Stops notifying audio device changes
    * 
-   * Removes all pending device monitoring tasks to prevent unnecessary
-   * background processing when monitoring is no longer needed.
+   * Volume monitoring is not affected.
    */
   stopDeviceMonitoring(): void;
 
   /**
-   * Starts continuous monitoring of volume level changes
+   * Starts notifying media volume changes
    * 
-   * Begins background monitoring that checks for volume changes every 500ms
-   * and emits 'volumeChanged' events when changes are detected.
+   * Emits 'volumeChanged' (percentage 0-100) whenever the media volume
+   * changes, and once on start with the current volume. Does nothing if
+   * already monitoring.
+   * 
+   * Prefer subscribing through the shared event hub (subscribeShared,
+   * useNativeEvent), which starts and stops monitoring with its listeners.
    */
   startVolumeMonitoring(): void;
 
   /**
-   * Stops volume level monitoring
+   * Stops notifying media volume changes
    * 
-   * Removes all pending volume monitoring tasks to prevent unnecessary
-   * background processing when monitoring is no longer needed.
+   * Device monitoring is not affected.
    */
   stopVolumeMonitoring(): void;
 
@@ -191,6 +395,37 @@ interface VolumeBoosterModule {
    * @throws Rejects with "BOOST_STATUS_ERROR" if status check fails
    */
   isBackgroundBoostActive(): Promise<boolean>;
+
+  /**
+   * Schedules the next check of the scheduled boost rules
+   * 
+   * The background service sets an alarm for the given time and runs the
+   * EvaluateBoostRules headless task when it fires, so rules are applied
+   * while the app is closed. The time is remembered and re-armed when the
+   * service starts again. Only one check is scheduled at a time.
+   * 
+   * @param timestamp Time of the check in milliseconds since the epoch, or 0 to cancel
+   * @returns Promise<void> Resolves when the check has been scheduled
+   */
+  scheduleBoostRuleCheck(timestamp: number): Promise<void>;
+
+  /**
+   * Sets the cap and boost curve used by the notification boost -/+
+   * 
+   * The background service changes boost from its notification without
+   * the JS side, so it caps the level at the safety lock and maps its gain
+   * with these. They are remembered across service restarts.
+   * 
+   * @param limits Boost cap, boost curve and max gain
+   * @returns Promise<void> Resolves when the limits are saved
+   */
+  setBoostLimits(limits: BoostLimits): Promise<void>;
+
+  /** Required by NativeEventEmitter to track listener registration */
+  addListener(eventName: string): void;
+
+  /** Required by NativeEventEmitter to track listener removal */
+  removeListeners(count: number): void;
 }
 
 // ============================================================================
@@ -230,29 +465,364 @@ interface AudioDeviceInfo {
   sampleRates: string;
 }
 
+/**
+ * Connected audio output, as listed by getAudioDevices
+ */
+interface AudioOutputDevice extends AudioDeviceInfo {
+  /** Whether this output currently routes media */
+  isActive: boolean;
+}
+
+/**
+ * Audio session announced by a media player
+ */
+interface AudioSessionInfo {
+  /** Audio session ID */
+  sessionId: number;
+
+  /** Package name of the app that opened the session (empty if not given) */
+  packageName: string;
+}
+
+/**
+ * Equalizer band
+ */
+interface EqualizerBand {
+  /** Band index, used as the position in band level arrays */
+  index: number;
+
+  /** Center frequency in Hz */
+  centerFrequency: number;
+
+  /** Lowest frequency of the band in Hz */
+  minFrequency: number;
+
+  /** Highest frequency of the band in Hz */
+  maxFrequency: number;
+}
+
+/**
+ * Band layout of the device equalizer
+ */
+interface EqualizerLayout {
+  /** Bands from lowest to highest frequency */
+  bands: EqualizerBand[];
+
+  /** Lowest band level in millibels (e.g., -1500) */
+  minLevel: number;
+
+  /** Highest band level in millibels (e.g., 1500) */
+  maxLevel: number;
+}
+
+/**
+ * Optional audio effects provided by the device
+ */
+interface AudioEffectCapabilities {
+  /** Whether the device has a bass boost effect */
+  bassBoost: boolean;
+
+  /** Whether the device has a virtualizer effect */
+  virtualizer: boolean;
+
+  /** Whether the device has an equalizer effect */
+  equalizer: boolean;
+
+  /** Whether the compressor is available (Android 9 and newer) */
+  compressor: boolean;
+}
+
+/**
+ * Dynamic range compressor and output limiter settings
+ */
+interface CompressorOptions {
+  /** Whether the compressor and limiter are applied */
+  enabled: boolean;
+
+  /** Level in dBFS above which the compressor reduces gain */
+  thresholdDb: number;
+
+  /** Compression ratio (e.g., 4 for 4:1) */
+  ratio: number;
+
+  /** Time in milliseconds until the compressor reacts to a loud passage */
+  attackMs: number;
+
+  /** Time in milliseconds until the compressor lets go after a loud passage */
+  releaseMs: number;
+
+  /** Output limiter ceiling in dBFS */
+  ceilingDb: number;
+}
+
+/**
+ * Boost level the notification -/+ can step to, with its gain
+ */
+interface BoostStep {
+  /** Boost level (0-200%) */
+  boost: number;
+
+  /** Gain of the level, in millibels */
+  gainMillibels: number;
+}
+
+/**
+ * Limits the background service applies to boost changes from its notification
+ */
+interface BoostLimits {
+  /** Steps in ascending order, capped at the safety lock and mapped with the boost curve */
+  steps: BoostStep[];
+}
+
+/**
+ * Test signal waveform
+ *
+ * - sine: pure tone at the given frequency
+ * - pinkNoise: noise with equal energy per octave
+ * - sweep: logarithmic sine sweep from 20Hz up to the given frequency
+ */
+type TestSignalWaveform = 'sine' | 'pinkNoise' | 'sweep';
+
+/**
+ * Options of a test signal
+ */
+interface TestSignalOptions {
+  /** Waveform to generate */
+  waveform: TestSignalWaveform;
+
+  /** Sine frequency, or end frequency of the sweep (20-20000 Hz) */
+  frequency: number;
+
+  /** Signal length in milliseconds (100-60000) */
+  durationMs: number;
+
+  /** Peak level in dBFS (-60 to 0) */
+  levelDb: number;
+}
+
+// ============================================================================
+// EVENT TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Payload of the 'boostChanged' event
+ *
+ * Emitted by the background service whenever its boost level or
+ * enabled state changes.
+ */
+interface BoostChangedEvent {
+  /** Boost percentage (0-200) */
+  boostLevel: number;
+
+  /** Whether boost functionality is enabled */
+  enabled: boolean;
+
+  /** Whether boost targets specific audio sessions instead of all device audio */
+  appOnly: boolean;
+
+  /** Audio sessions boost is attached to (empty when device-wide) */
+  sessions: number[];
+
+  /** Whether boost is currently being applied (enabled and level > 0) */
+  active: boolean;
+}
+
+/**
+ * Control in the background service notification
+ *
+ * - boostDown / boostUp: lower or raise boost by 10%
+ * - toggleBoost: enable or disable boost
+ * - cyclePreset: apply the next preset (handled on the JS side)
+ * - stopService: stop the background service
+ */
+type NotificationAction = 'boostDown' | 'boostUp' | 'toggleBoost' | 'cyclePreset' | 'stopService';
+
+/**
+ * Payload of the 'notificationAction' event
+ *
+ * Emitted by the background service after the user used one of its
+ * notification controls. Boost and toggle changes are already applied
+ * natively when the event arrives.
+ */
+interface NotificationActionEvent {
+  /** Control that was used */
+  action: NotificationAction;
+
+  /** Boost percentage after the action (0-200) */
+  boostLevel: number;
+
+  /** Whether boost is enabled after the action */
+  enabled: boolean;
+}
+
+/**
+ * Payload of the 'serviceStateChanged' event
+ *
+ * Emitted when the background service starts, stops, or the module
+ * binds to / unbinds from it.
+ */
+interface ServiceStateChangedEvent {
+  /** Whether the background service is running and bound */
+  running: boolean;
+}
+
+/**
+ * Payload of the 'audioDevicesChanged' event
+ *
+ * Right after device monitoring starts, every connected output is
+ * reported as added.
+ */
+interface AudioDevicesChangedEvent {
+  /** Outputs that were connected */
+  added: AudioOutputDevice[];
+
+  /** Outputs that were disconnected (isActive is always false) */
+  removed: AudioOutputDevice[];
+}
+
+/**
+ * Payload of the 'testSignalStateChanged' event
+ *
+ * Emitted when a test signal starts playing and when it ends.
+ */
+interface TestSignalStateChangedEvent {
+  /** Whether the signal is playing */
+  playing: boolean;
+
+  /** Waveform of the signal that started or ended */
+  waveform: TestSignalWaveform;
+}
+
+/**
+ * Map of every event emitted by the native module to its payload type
+ *
+ * Adding an event here is the only way to subscribe to it, so misspelled
+ * event names and mismatched payloads fail at compile time.
+ */
+interface VolumeBoosterEventMap {
+  /** Active audio output device changed (null when no device is detected) */
+  audioDeviceChanged: AudioDeviceInfo | null;
+
+  /** Audio outputs were connected or disconnected */
+  audioDevicesChanged: AudioDevicesChangedEvent;
+
+  /** System media volume changed (percentage 0-100) */
+  volumeChanged: number;
+
+  /** Background service boost state changed */
+  boostChanged: BoostChangedEvent;
+
+  /** Background service started or stopped */
+  serviceStateChanged: ServiceStateChangedEvent;
+
+  /** A background service notification control was used */
+  notificationAction: NotificationActionEvent;
+
+  /** A media player opened an audio session */
+  audioSessionOpened: AudioSessionInfo;
+
+  /** A media player closed an audio session (boost is detached from it) */
+  audioSessionClosed: AudioSessionInfo;
+
+  /** A test signal started or ended */
+  testSignalStateChanged: TestSignalStateChangedEvent;
+}
+
+/**
+ * Name of an event emitted by the native module
+ */
+type VolumeBoosterEventName = keyof VolumeBoosterEventMap;
+
+/**
+ * Typed view of the NativeEventEmitter used for VolumeBooster events
+ */
+interface VolumeBoosterEventEmitter {
+  addListener<E extends VolumeBoosterEventName>(
+    eventType: E,
+    listener: (payload: VolumeBoosterEventMap[E]) => void,
+  ): EmitterSubscription;
+  removeAllListeners(eventType: VolumeBoosterEventName): void;
+}
+
 // ============================================================================
 // NATIVE MODULE ACCESS AND EVENT EMITTER SETUP
 // ============================================================================
 
 /**
- * Access to the native VolumeBooster module
+ * Whether the code runs under Jest
+ */
+const isJest =
+  (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env?.JEST_WORKER_ID !== undefined;
+
+/**
+ * The module from NativeModules; the name must match the getName() method
+ * in the Android native module
+ */
+const nativeVolumeBooster = (NativeModules as { VolumeBooster?: VolumeBoosterModule }).VolumeBooster;
+
+/**
+ * Resolves the VolumeBooster module
  * 
- * This extracts the VolumeBooster module from NativeModules and provides
- * type-safe access to all native methods. The module name must match
- * the getName() method in the Android native module.
+ * Returns the native module, which provides type-safe access to all native
+ * methods. Under Jest and on platforms without the native module (web
+ * preview) the in-memory FakeVolumeBoosterModule is loaded instead. A
+ * missing module on Android is a broken build and throws.
  */
-const { VolumeBooster } = NativeModules as { VolumeBooster: VolumeBoosterModule };
+const resolveVolumeBooster = (): VolumeBoosterModule => {
+  if (nativeVolumeBooster) {
+    return nativeVolumeBooster;
+  }
+
+  const fake = isJest || Platform.OS !== 'android' ? loadFakeVolumeBooster() : null;
+  if (fake) {
+    return fake;
+  }
+  throw new Error('The VolumeBooster native module is not linked; rebuild the Android app');
+};
+
+/**
+ * Access to the native VolumeBooster module
+ */
+const VolumeBooster: VolumeBoosterModule = resolveVolumeBooster();
+
+/** Whether calls go to the in-memory fake instead of the native module */
+export const isUsingFakeVolumeBooster = nativeVolumeBooster === undefined;
 
 /**
  * Event emitter for real-time updates from native module
  * 
  * This emitter receives events from the Android native module including:
  * - 'audioDeviceChanged': When audio output device changes
+ * - 'audioDevicesChanged': When audio outputs are connected or disconnected
  * - 'volumeChanged': When system volume level changes
+ * - 'boostChanged': When the background service boost state changes
+ * - 'serviceStateChanged': When the background service starts or stops
+ * - 'notificationAction': When a background service notification control is used
+ * - 'audioSessionOpened' / 'audioSessionClosed': When media players open or close audio sessions
+ * - 'testSignalStateChanged': When a test signal starts or ends
  * 
  * Components can subscribe to these events for real-time UI updates.
+ * Event names and payloads are typed by VolumeBoosterEventMap.
  */
-export const VolumeBoosterEmitter = new NativeEventEmitter(VolumeBooster as any);
+export const VolumeBoosterEmitter: VolumeBoosterEventEmitter = new NativeEventEmitter(VolumeBooster);
+
+/**
+ * Subscribes to a native module event
+ * 
+ * Type-safe wrapper around VolumeBoosterEmitter.addListener: the handler's
+ * payload type is inferred from the event name.
+ * 
+ * @param event Event name from VolumeBoosterEventMap
+ * @param handler Called with the event payload
+ * @returns Function that removes the subscription
+ */
+export const subscribe = <E extends VolumeBoosterEventName>(
+  event: E,
+  handler: (payload: VolumeBoosterEventMap[E]) => void,
+): (() => void) => {
+  const subscription = VolumeBoosterEmitter.addListener(event, handler);
+  return () => subscription.remove();
+};
 
 // ============================================================================
 // MODULE EXPORTS
@@ -272,4 +842,41 @@ export const VolumeBoosterModule = VolumeBooster;
  * This type can be imported by components that need to work with
  * audio device information data structures.
  */
-export type { AudioDeviceInfo };
+export type {
+  AudioDeviceInfo,
+  AudioOutputDevice,
+  AudioSessionInfo,
+  AudioEffectCapabilities,
+  BoostLimits,
+  BoostStep,
+  CompressorOptions,
+  EqualizerBand,
+  EqualizerLayout,
+  TestSignalWaveform,
+  TestSignalOptions,
+};
+
+/**
+ * Exported native module interface type
+ * 
+ * Implemented by the Android native module and by FakeVolumeBoosterModule.
+ */
+type VolumeBoosterNativeModule = VolumeBoosterModule;
+export type { VolumeBoosterNativeModule };
+
+/**
+ * Exported event types
+ * 
+ * These types describe the events emitted by the native module and
+ * their payloads.
+ */
+export type {
+  AudioDevicesChangedEvent,
+  BoostChangedEvent,
+  NotificationAction,
+  NotificationActionEvent,
+  ServiceStateChangedEvent,
+  TestSignalStateChangedEvent,
+  VolumeBoosterEventMap,
+  VolumeBoosterEventName,
+};
@@ -0,0 +1,8 @@
+import type { VolumeBoosterNativeModule } from './VolumeBoosterModule';
+
+/**
+ * Android builds always have the native module, so there is no fake to load
+ *
+ * Jest resolves loadFakeVolumeBooster.ts, which loads the fake.
+ */
+export const loadFakeVolumeBooster = (): VolumeBoosterNativeModule | null => null;
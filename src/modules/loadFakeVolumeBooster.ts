@@ -0,0 +1,13 @@
+import type { VolumeBoosterNativeModule } from './VolumeBoosterModule';
+
+/**
+ * Loads the in-memory FakeVolumeBoosterModule
+ *
+ * Required on first use rather than imported, so the fake is only evaluated
+ * where the native module is missing. Android builds resolve
+ * loadFakeVolumeBooster.android.ts instead, which leaves the fake out of
+ * the bundle.
+ */
+export const loadFakeVolumeBooster = (): VolumeBoosterNativeModule | null => {
+  return require('./FakeVolumeBoosterModule').fakeVolumeBoosterModule;
+};
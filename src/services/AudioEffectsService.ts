@@ -0,0 +1,214 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule, AudioEffectCapabilities } from '../modules/VolumeBoosterModule';
+import { subscribeShared } from '../hooks/nativeEventHub';
+import { SettingsManager, SettingsChangeEvent, SetSettingResult } from '../storage/SettingsManager';
+
+/**
+ * Bass boost and virtualizer state
+ */
+export interface AudioEffectsState {
+  /** Effects the device provides (all false until queried) */
+  capabilities: AudioEffectCapabilities;
+
+  /** Bass boost strength applied to the native effect, in percent */
+  bassBoostStrength: number;
+
+  /** Virtualizer strength applied to the native effect, in percent */
+  virtualizerStrength: number;
+}
+
+/**
+ * Audio effects change event interface
+ */
+export interface AudioEffectsChangeEvent {
+  state: AudioEffectsState;
+  timestamp: number;
+}
+
+const NO_CAPABILITIES: AudioEffectCapabilities = {
+  bassBoost: false,
+  virtualizer: false,
+  equalizer: false,
+  compressor: false,
+};
+
+/**
+ * Audio Effects Service
+ *
+ * Applies the bass boost and virtualizer strength settings to the native
+ * effects, which run on the same audio sessions as boost (foreground or
+ * background service). Like the equalizer, the settings are the source of
+ * truth: the service re-applies them on every change and whenever the
+ * background service starts. Effects the device does not provide are
+ * skipped.
+ */
+export class AudioEffectsService {
+  private static instance: AudioEffectsService;
+  private state: AudioEffectsState = { capabilities: NO_CAPABILITIES, bassBoostStrength: 0, virtualizerStrength: 0 };
+  private changeListeners: Array<(event: AudioEffectsChangeEvent) => void> = [];
+  private unsubscribeService: (() => void) | null = null;
+  private isInitialized: boolean = false;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of AudioEffectsService
+   */
+  public static getInstance(): AudioEffectsService {
+    if (!AudioEffectsService.instance) {
+      AudioEffectsService.instance = new AudioEffectsService();
+    }
+    return AudioEffectsService.instance;
+  }
+
+  /**
+   * Query the supported effects and apply the saved strengths
+   *
+   * Expects storage to be initialized. Does nothing on platforms without the
+   * native module.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized || Platform.OS !== 'android') {
+      return;
+    }
+
+    console.log('[AudioEffectsService] Initializing...');
+    this.isInitialized = true;
+    SettingsManager.getInstance().addChangeListener(this.handleSettingsChange);
+
+    // The background service starts with its own effects
+    this.unsubscribeService = subscribeShared('serviceStateChanged', event => {
+      if (event.running) {
+        this.apply();
+      }
+    });
+
+    try {
+      const capabilities = await VolumeBoosterModule.getAudioEffectCapabilities();
+      this.setState({ capabilities });
+    } catch (error) {
+      console.error('[AudioEffectsService] Failed to query audio effects:', error);
+      this.setState({ capabilities: NO_CAPABILITIES });
+    }
+
+    await this.apply();
+    console.log('[AudioEffectsService] Initialized');
+  }
+
+  /**
+   * Stop following the effect settings
+   */
+  public dispose(): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    SettingsManager.getInstance().removeChangeListener(this.handleSettingsChange);
+    this.unsubscribeService?.();
+    this.unsubscribeService = null;
+    this.isInitialized = false;
+    this.setState({ capabilities: NO_CAPABILITIES, bassBoostStrength: 0, virtualizerStrength: 0 });
+  }
+
+  /**
+   * Set the bass boost strength and save the setting
+   *
+   * @param strength Strength in percent (0-100)
+   */
+  public async setBassBoostStrength(strength: number): Promise<SetSettingResult> {
+    return SettingsManager.getInstance().setSetting('bassBoostStrength', strength);
+  }
+
+  /**
+   * Set the virtualizer strength and save the setting
+   *
+   * @param strength Strength in percent (0-100)
+   */
+  public async setVirtualizerStrength(strength: number): Promise<SetSettingResult> {
+    return SettingsManager.getInstance().setSetting('virtualizerStrength', strength);
+  }
+
+  /**
+   * Current effects state
+   */
+  public getState(): AudioEffectsState {
+    return { ...this.state, capabilities: { ...this.state.capabilities } };
+  }
+
+  /**
+   * Re-apply the effects when one of their settings changes
+   */
+  private handleSettingsChange = (event: SettingsChangeEvent): void => {
+    if (event.key === 'bassBoostStrength' || event.key === 'virtualizerStrength') {
+      this.apply();
+    }
+  };
+
+  /**
+   * Push the saved strengths to the supported native effects
+   */
+  private async apply(): Promise<void> {
+    const { bassBoostStrength, virtualizerStrength } = SettingsManager.getInstance().getAllSettings();
+    const { capabilities } = this.state;
+
+    if (capabilities.bassBoost) {
+      try {
+        await VolumeBoosterModule.setBassBoostStrength(bassBoostStrength);
+        this.setState({ bassBoostStrength });
+      } catch (error) {
+        console.error('[AudioEffectsService] Failed to apply bass boost:', error);
+      }
+    }
+
+    if (capabilities.virtualizer) {
+      try {
+        await VolumeBoosterModule.setVirtualizerStrength(virtualizerStrength);
+        this.setState({ virtualizerStrength });
+      } catch (error) {
+        console.error('[AudioEffectsService] Failed to apply virtualizer:', error);
+      }
+    }
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: AudioEffectsChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: AudioEffectsChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  private setState(patch: Partial<AudioEffectsState>): void {
+    this.state = { ...this.state, ...patch };
+
+    const event: AudioEffectsChangeEvent = { state: this.getState(), timestamp: Date.now() };
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[AudioEffectsService] Error in change listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const audioEffectsService = AudioEffectsService.getInstance();
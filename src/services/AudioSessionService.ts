@@ -0,0 +1,296 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule, AudioSessionInfo } from '../modules/VolumeBoosterModule';
+import { subscribeShared } from '../hooks/nativeEventHub';
+import { SettingsManager } from '../storage/SettingsManager';
+
+/**
+ * What boost is currently applied to
+ *
+ * - deviceWide: all device audio (no session attached)
+ * - appOnly: only this app's own audio session
+ * - sessions: specific sessions of other apps (possibly with the app's own)
+ */
+export type BoostTarget = 'deviceWide' | 'appOnly' | 'sessions';
+
+/**
+ * Audio session state
+ */
+export interface AudioSessionState {
+  /** Audio session ID of this app (null until read) */
+  appSessionId: number | null;
+
+  /** Sessions announced by media players */
+  openSessions: AudioSessionInfo[];
+
+  /** Sessions boost is attached to (empty when device-wide) */
+  boostedSessions: number[];
+}
+
+/**
+ * Result of an audio session operation
+ */
+export interface AudioSessionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Audio session change event interface
+ */
+export interface AudioSessionChangeEvent {
+  state: AudioSessionState;
+  timestamp: number;
+}
+
+/**
+ * Classify which audio the boost applies to
+ */
+export const getBoostTarget = (state: AudioSessionState): BoostTarget => {
+  const { appSessionId, boostedSessions } = state;
+
+  if (boostedSessions.length === 0) {
+    return 'deviceWide';
+  }
+  return boostedSessions.length === 1 && boostedSessions[0] === appSessionId ? 'appOnly' : 'sessions';
+};
+
+/**
+ * Human-readable name of an audio session
+ */
+export const describeAudioSession = (sessionId: number, state: AudioSessionState): string => {
+  if (sessionId === state.appSessionId) {
+    return 'This app';
+  }
+
+  const session = state.openSessions.find(open => open.sessionId === sessionId);
+  return session?.packageName ? session.packageName : `Session ${sessionId}`;
+};
+
+/**
+ * One-line explanation of which audio is boosted
+ */
+export const describeBoostTarget = (state: AudioSessionState): string => {
+  switch (getBoostTarget(state)) {
+    case 'deviceWide':
+      return 'Boost applies to all device audio (music, videos, games, etc.)';
+    case 'appOnly':
+      return "Boost applies only to this app's audio (test sound, etc.)";
+    case 'sessions':
+      return `Boost applies only to: ${state.boostedSessions
+        .map(sessionId => describeAudioSession(sessionId, state))
+        .join(', ')}`;
+  }
+};
+
+/**
+ * Audio Session Service
+ *
+ * Attaches boost to explicit audio session IDs instead of the binary
+ * app-only/device-wide choice. Tracks the sessions media players announce
+ * so the UI can offer them, and the sessions boost is attached to. Closed
+ * sessions are detached by the native module.
+ *
+ * The 'appOnlyBoost' setting follows whether boost targets exactly the
+ * app's own session, so app-only mode survives a restart. Other sessions
+ * are not persisted because their IDs do not outlive the player.
+ */
+export class AudioSessionService {
+  private static instance: AudioSessionService;
+  private state: AudioSessionState = { appSessionId: null, openSessions: [], boostedSessions: [] };
+  private changeListeners: Array<(event: AudioSessionChangeEvent) => void> = [];
+  private teardown: Array<() => void> = [];
+  private isInitialized: boolean = false;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of AudioSessionService
+   */
+  public static getInstance(): AudioSessionService {
+    if (!AudioSessionService.instance) {
+      AudioSessionService.instance = new AudioSessionService();
+    }
+    return AudioSessionService.instance;
+  }
+
+  /**
+   * Start tracking audio sessions
+   *
+   * Expects the native audio system to be initialized. Does nothing on
+   * platforms without the native module.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized || Platform.OS !== 'android') {
+      return;
+    }
+
+    console.log('[AudioSessionService] Initializing...');
+
+    this.teardown.push(
+      subscribeShared('audioSessionOpened', session => {
+        this.setState({
+          openSessions: [...this.state.openSessions.filter(open => open.sessionId !== session.sessionId), session],
+        });
+      }),
+      subscribeShared('audioSessionClosed', session => {
+        this.setState({
+          openSessions: this.state.openSessions.filter(open => open.sessionId !== session.sessionId),
+          boostedSessions: this.state.boostedSessions.filter(sessionId => sessionId !== session.sessionId),
+        });
+      }),
+    );
+    this.isInitialized = true;
+
+    await this.refresh();
+    console.log('[AudioSessionService] Initialized');
+  }
+
+  /**
+   * Stop tracking audio sessions
+   */
+  public dispose(): void {
+    this.teardown.forEach(remove => remove());
+    this.teardown = [];
+    this.isInitialized = false;
+    this.setState({ appSessionId: null, openSessions: [], boostedSessions: [] });
+  }
+
+  /**
+   * Re-read the app session, open sessions and boosted sessions
+   */
+  public async refresh(): Promise<void> {
+    try {
+      const [appSessionId, openSessions, boostedSessions] = await Promise.all([
+        VolumeBoosterModule.getAppAudioSessionId(),
+        VolumeBoosterModule.getOpenAudioSessions(),
+        VolumeBoosterModule.getBoostedSessions(),
+      ]);
+      this.setState({ appSessionId, openSessions, boostedSessions });
+    } catch (error) {
+      console.error('[AudioSessionService] Failed to read audio sessions:', error);
+    }
+  }
+
+  /**
+   * Current audio session state
+   */
+  public getState(): AudioSessionState {
+    return {
+      ...this.state,
+      openSessions: [...this.state.openSessions],
+      boostedSessions: [...this.state.boostedSessions],
+    };
+  }
+
+  // ============================================================================
+  // SESSION TARGETING
+  // ============================================================================
+
+  /**
+   * Attach boost to an audio session
+   *
+   * Boost stops applying to other audio once the first session is attached.
+   */
+  public async attach(sessionId: number): Promise<AudioSessionResult> {
+    return this.changeTarget(`attach session ${sessionId}`, () =>
+      VolumeBoosterModule.attachBoostToSession(sessionId),
+    );
+  }
+
+  /**
+   * Detach boost from an audio session
+   *
+   * Boost becomes device-wide once the last session is detached.
+   */
+  public async detach(sessionId: number): Promise<AudioSessionResult> {
+    return this.changeTarget(`detach session ${sessionId}`, () =>
+      VolumeBoosterModule.detachBoostFromSession(sessionId),
+    );
+  }
+
+  /**
+   * Boost only the app's own session, or all device audio
+   */
+  public async setAppOnly(enabled: boolean): Promise<AudioSessionResult> {
+    return this.changeTarget(enabled ? 'boost this app only' : 'boost all audio', () =>
+      VolumeBoosterModule.setAppOnlyBoost(enabled),
+    );
+  }
+
+  /**
+   * Run a native target change, then re-read the sessions and save the
+   * app-only setting
+   */
+  private async changeTarget(description: string, change: () => Promise<void>): Promise<AudioSessionResult> {
+    if (Platform.OS !== 'android') {
+      return { success: false, error: 'Audio sessions are only available on Android' };
+    }
+
+    try {
+      await change();
+    } catch (error) {
+      console.error(`[AudioSessionService] Failed to ${description}:`, error);
+      await this.refresh();
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    await this.refresh();
+    console.log(`[AudioSessionService] ${describeBoostTarget(this.state)}`);
+
+    const appOnly = getBoostTarget(this.state) === 'appOnly';
+    const settingsManagerInstance = SettingsManager.getInstance();
+    if (settingsManagerInstance.getSetting('appOnlyBoost') !== appOnly) {
+      await settingsManagerInstance.setSetting('appOnlyBoost', appOnly);
+    }
+    return { success: true };
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: AudioSessionChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: AudioSessionChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  private setState(patch: Partial<AudioSessionState>): void {
+    this.state = { ...this.state, ...patch };
+
+    const event: AudioSessionChangeEvent = { state: this.getState(), timestamp: Date.now() };
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[AudioSessionService] Error in change listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check if the audio session service is running
+   */
+  public isReady(): boolean {
+    return this.isInitialized;
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const audioSessionService = AudioSessionService.getInstance();
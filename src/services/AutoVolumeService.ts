@@ -0,0 +1,299 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import { SettingsManager, SettingsChangeEvent, SetSettingResult } from '../storage/SettingsManager';
+import { audioStore } from '../store/AudioStore';
+
+/**
+ * Auto-volume state
+ */
+export interface AutoVolumeState {
+  /** Whether auto-volume is enabled */
+  enabled: boolean;
+
+  /** Whether the device volume is currently raised by auto-volume */
+  raised: boolean;
+
+  /** The user's volume, restored when boosted playback ends (null while disabled) */
+  originalVolume: number | null;
+}
+
+/**
+ * Auto-volume change event interface
+ */
+export interface AutoVolumeChangeEvent {
+  state: AutoVolumeState;
+  timestamp: number;
+}
+
+/**
+ * Auto-Volume Service
+ *
+ * While auto-volume is enabled, raises the device volume to 100% (or the
+ * safety lock cap) whenever music plays with boost applied, and restores
+ * the user's volume once playback stops or boost is switched off.
+ *
+ * The user's volume is backed up when auto-volume is enabled and follows
+ * volume changes made while the volume is not raised. Changes made while
+ * raised are ignored, so the restore always returns to the user's level.
+ */
+export class AutoVolumeService {
+  private static instance: AutoVolumeService;
+  private state: AutoVolumeState = { enabled: false, raised: false, originalVolume: null };
+  private changeListeners: Array<(event: AutoVolumeChangeEvent) => void> = [];
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+  private musicActive: boolean = false;
+  private adjusting: boolean = false;
+  private isInitialized: boolean = false;
+
+  /** How often music activity is polled */
+  public static readonly POLL_INTERVAL_MS = 2000;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of AutoVolumeService
+   */
+  public static getInstance(): AutoVolumeService {
+    if (!AutoVolumeService.instance) {
+      AutoVolumeService.instance = new AutoVolumeService();
+    }
+    return AutoVolumeService.instance;
+  }
+
+  /**
+   * Start following the auto-volume setting and playback
+   *
+   * Expects storage and the audio store to be initialized. Does nothing on
+   * platforms without the native module.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized || Platform.OS !== 'android') {
+      return;
+    }
+
+    console.log('[AutoVolumeService] Initializing...');
+
+    const settingsManagerInstance = SettingsManager.getInstance();
+    settingsManagerInstance.addChangeListener(this.handleSettingsChange);
+    this.unsubscribeStore = audioStore.subscribe(this.handleStoreChange);
+    this.pollTimer = setInterval(() => {
+      this.poll();
+    }, AutoVolumeService.POLL_INTERVAL_MS);
+    this.isInitialized = true;
+
+    await this.applyEnabled(settingsManagerInstance.getSetting('autoVolumeEnabled'));
+    await this.poll();
+    console.log('[AutoVolumeService] Initialized');
+  }
+
+  /**
+   * Stop following playback, restoring the user's volume if it is raised
+   */
+  public async dispose(): Promise<void> {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    if (this.pollTimer !== null) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    SettingsManager.getInstance().removeChangeListener(this.handleSettingsChange);
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.isInitialized = false;
+
+    if (this.state.raised) {
+      await this.restore();
+    }
+    this.musicActive = false;
+    this.setState({ enabled: false, raised: false, originalVolume: null });
+  }
+
+  /**
+   * Enable or disable auto-volume and save the setting
+   */
+  public async setEnabled(enabled: boolean): Promise<SetSettingResult> {
+    return SettingsManager.getInstance().setSetting('autoVolumeEnabled', enabled);
+  }
+
+  /**
+   * Current auto-volume state
+   */
+  public getState(): AutoVolumeState {
+    return { ...this.state };
+  }
+
+  /**
+   * Whether the device volume is currently raised by auto-volume
+   *
+   * Volume changes seen while raised are caused by auto-volume and should
+   * not be saved as the user's volume.
+   */
+  public isRaised(): boolean {
+    return this.state.raised;
+  }
+
+  // ============================================================================
+  // PLAYBACK TRACKING
+  // ============================================================================
+
+  /**
+   * Re-check music activity and raise or restore the volume
+   */
+  public async poll(): Promise<void> {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.musicActive = await VolumeBoosterModule.isMusicActive();
+    } catch (error) {
+      console.warn('[AutoVolumeService] Failed to check music activity:', error);
+      this.musicActive = false;
+    }
+    await this.update();
+  }
+
+  private handleSettingsChange = (event: SettingsChangeEvent): void => {
+    if (event.key === 'autoVolumeEnabled') {
+      this.applyEnabled(event.newValue);
+    }
+  };
+
+  /**
+   * Follow manual volume changes and boost state from the audio store
+   */
+  private handleStoreChange = (): void => {
+    const { volume } = audioStore.getState().actual;
+    const { enabled, raised, originalVolume } = this.state;
+
+    if (enabled && !raised && !this.adjusting && volume !== null && volume !== originalVolume) {
+      console.log('[AutoVolumeService] Updating volume backup from', originalVolume, 'to', volume);
+      this.setState({ originalVolume: volume });
+    }
+    this.update();
+  };
+
+  private async applyEnabled(enabled: boolean): Promise<void> {
+    if (enabled === this.state.enabled) {
+      return;
+    }
+
+    if (enabled) {
+      this.setState({ enabled: true, originalVolume: this.currentVolume() });
+      console.log('[AutoVolumeService] Enabled - volume backed up:', this.state.originalVolume);
+      await this.update();
+    } else {
+      if (this.state.raised) {
+        await this.restore();
+      }
+      this.setState({ enabled: false, originalVolume: null });
+      console.log('[AutoVolumeService] Disabled');
+    }
+  }
+
+  /**
+   * Raise or restore the volume to match playback and boost state
+   */
+  private async update(): Promise<void> {
+    if (this.adjusting) {
+      return;
+    }
+
+    const boostedPlayback = this.musicActive && audioStore.getState().derived.boostActive;
+    if (this.state.enabled && boostedPlayback && !this.state.raised) {
+      await this.raise();
+    } else if (this.state.raised && !(this.state.enabled && boostedPlayback)) {
+      await this.restore();
+    }
+  }
+
+  private async raise(): Promise<void> {
+    const target = SettingsManager.getInstance().getSafetyLimits().maxVolume;
+    this.setState({ raised: true, originalVolume: this.state.originalVolume ?? this.currentVolume() });
+
+    console.log('[AutoVolumeService] Boosted playback started - raising volume to', target);
+    await this.applyVolume(target);
+  }
+
+  private async restore(): Promise<void> {
+    const { originalVolume } = this.state;
+
+    if (originalVolume !== null) {
+      console.log('[AutoVolumeService] Boosted playback ended - restoring volume to', originalVolume);
+      await this.applyVolume(originalVolume);
+    }
+    this.setState({ raised: false });
+  }
+
+  /**
+   * Set the device volume without saving it as the user's volume
+   */
+  private async applyVolume(volume: number): Promise<void> {
+    this.adjusting = true;
+    try {
+      await VolumeBoosterModule.setVolume(volume);
+      audioStore.updateActual({ volume });
+    } catch (error) {
+      console.error('[AutoVolumeService] Failed to set volume:', error);
+    } finally {
+      this.adjusting = false;
+    }
+  }
+
+  private currentVolume(): number {
+    const { actual, intent } = audioStore.getState();
+    return actual.volume ?? intent.volume;
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: AutoVolumeChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: AutoVolumeChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  private setState(patch: Partial<AutoVolumeState>): void {
+    this.state = { ...this.state, ...patch };
+
+    const event: AutoVolumeChangeEvent = { state: this.getState(), timestamp: Date.now() };
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[AutoVolumeService] Error in change listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check if the auto-volume service is running
+   */
+  public isReady(): boolean {
+    return this.isInitialized;
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const autoVolumeService = AutoVolumeService.getInstance();
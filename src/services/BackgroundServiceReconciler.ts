@@ -0,0 +1,142 @@
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import { SettingsManager } from '../storage/SettingsManager';
+import { ensureStorageReady, errorMessage } from '../hooks/initialization';
+import { audioStore } from '../store/AudioStore';
+
+/**
+ * What a reconcile pass did to the background service
+ *
+ * - none: the service already matched the saved background mode
+ * - started: the service was started because it had died or never started
+ * - stopped: the service was stopped because background mode is off
+ */
+export type BackgroundReconcileAction = 'none' | 'started' | 'stopped';
+
+/**
+ * Result of a reconcile pass
+ */
+export interface BackgroundReconcileResult {
+  success: boolean;
+  action: BackgroundReconcileAction;
+  error?: string;
+}
+
+/**
+ * Background Service Reconciler
+ *
+ * Keeps the background service in step with the saved backgroundModeEnabled
+ * setting. Runs when the app starts and whenever it returns to the
+ * foreground: a service that died while background mode is on is started
+ * again, and one still running while background mode is off is stopped.
+ * When Android refuses to start the service, the reason is recorded in the
+ * audio store as serviceStartError and the next pass tries again.
+ */
+export class BackgroundServiceReconciler {
+  private static instance: BackgroundServiceReconciler;
+  private appStateSubscription: { remove: () => void } | null = null;
+  private appState: AppStateStatus | null = null;
+  private pending: Promise<BackgroundReconcileResult> | null = null;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of BackgroundServiceReconciler
+   */
+  public static getInstance(): BackgroundServiceReconciler {
+    if (!BackgroundServiceReconciler.instance) {
+      BackgroundServiceReconciler.instance = new BackgroundServiceReconciler();
+    }
+    return BackgroundServiceReconciler.instance;
+  }
+
+  /**
+   * Reconcile now and again each time the app returns to the foreground
+   */
+  public initialize(): Promise<BackgroundReconcileResult> {
+    if (!this.appStateSubscription && Platform.OS === 'android') {
+      this.appState = AppState.currentState;
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    }
+    return this.reconcile();
+  }
+
+  /**
+   * Stop reconciling on foreground changes
+   */
+  public dispose(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.appState = null;
+  }
+
+  /**
+   * Bring the background service in line with the saved background mode
+   *
+   * Calls made while a pass is running share its result.
+   */
+  public reconcile(): Promise<BackgroundReconcileResult> {
+    if (!this.pending) {
+      this.pending = this.run().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private handleAppStateChange = (next: AppStateStatus): void => {
+    const previous = this.appState;
+    this.appState = next;
+    if (next === 'active' && previous !== 'active') {
+      this.reconcile();
+    }
+  };
+
+  private async run(): Promise<BackgroundReconcileResult> {
+    if (Platform.OS !== 'android') {
+      return { success: true, action: 'none' };
+    }
+
+    let action: BackgroundReconcileAction = 'none';
+
+    try {
+      await ensureStorageReady();
+      const wanted = SettingsManager.getInstance().getSetting('backgroundModeEnabled');
+      const [enabled, running] = await Promise.all([
+        VolumeBoosterModule.isBackgroundModeEnabled(),
+        VolumeBoosterModule.isBackgroundServiceRunning(),
+      ]);
+
+      if (wanted && (!enabled || !running)) {
+        action = 'started';
+        console.log('[BackgroundServiceReconciler] Background mode is on but the service is not running, starting it');
+      } else if (!wanted && (enabled || running)) {
+        action = 'stopped';
+        console.log('[BackgroundServiceReconciler] Background mode is off, stopping the service');
+      }
+
+      if (action !== 'none') {
+        await VolumeBoosterModule.setBackgroundMode(wanted);
+      }
+
+      audioStore.updateActual({
+        backgroundModeEnabled: action === 'none' ? enabled : wanted,
+        serviceRunning: await VolumeBoosterModule.isBackgroundServiceRunning(),
+        serviceStartError: null,
+      });
+      return { success: true, action };
+    } catch (error) {
+      console.error('[BackgroundServiceReconciler] Failed to reconcile the background service:', error);
+      audioStore.updateActual({ serviceStartError: action === 'started' ? errorMessage(error) : null });
+      return { success: false, action, error: errorMessage(error) };
+    }
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const backgroundServiceReconciler = BackgroundServiceReconciler.getInstance();
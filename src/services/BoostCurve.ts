@@ -0,0 +1,134 @@
+import { SettingsManager } from '../storage/SettingsManager';
+import { getDefaultSettings, settingsSchema } from '../storage/SettingsSchema';
+
+/**
+ * Shape of the mapping from boost percent to gain
+ *
+ * - linear: equal dB per boost percent
+ * - logarithmic: audio taper, fine control at low boost with most of the
+ *   gain near the top of the slider
+ * - perceptual: equal steps of perceived loudness (10 dB = twice as loud),
+ *   so most of the dB arrive early and loudness rises evenly
+ */
+export type BoostCurveId = 'linear' | 'logarithmic' | 'perceptual';
+
+/**
+ * Gain at full boost before any per-device cap, in dB
+ *
+ * Matches the gain the native module applied before the curve moved to JS
+ * (25 mB per percent, 50 dB at 200%).
+ */
+export const DEFAULT_MAX_BOOST_GAIN_DB = 50;
+
+/**
+ * Position of a boost level on the slider, from 0 to 1
+ */
+const boostFraction = (boost: number): number => {
+  return Math.min(1, Math.max(0, boost / settingsSchema.boost.max));
+};
+
+/**
+ * Gain applied for a boost level
+ *
+ * @param boost Boost percentage (0-200)
+ * @param curve Mapping from boost percent to gain
+ * @param maxGainDb Gain at full boost, in dB
+ * @returns Gain in dB, from 0 at no boost to maxGainDb at full boost
+ */
+export const boostToDb = (
+  boost: number,
+  curve: BoostCurveId = 'linear',
+  maxGainDb: number = DEFAULT_MAX_BOOST_GAIN_DB,
+): number => {
+  const fraction = boostFraction(boost);
+
+  switch (curve) {
+    case 'linear':
+      return maxGainDb * fraction;
+    case 'logarithmic':
+      return (maxGainDb * (Math.pow(10, fraction) - 1)) / 9;
+    case 'perceptual': {
+      const maxLoudness = Math.pow(2, maxGainDb / 10);
+      return 10 * Math.log2(1 + fraction * (maxLoudness - 1));
+    }
+  }
+};
+
+/**
+ * Boost level that applies a gain; the inverse of boostToDb
+ *
+ * @param gainDb Gain in dB, clamped to 0-maxGainDb
+ * @param curve Mapping from boost percent to gain
+ * @param maxGainDb Gain at full boost, in dB
+ * @returns Boost percentage (0-200), not rounded
+ */
+export const dbToBoost = (
+  gainDb: number,
+  curve: BoostCurveId = 'linear',
+  maxGainDb: number = DEFAULT_MAX_BOOST_GAIN_DB,
+): number => {
+  if (maxGainDb <= 0) {
+    return 0;
+  }
+
+  const ratio = Math.min(1, Math.max(0, gainDb / maxGainDb));
+  let fraction: number;
+
+  switch (curve) {
+    case 'linear':
+      fraction = ratio;
+      break;
+    case 'logarithmic':
+      fraction = Math.log10(1 + 9 * ratio);
+      break;
+    case 'perceptual': {
+      const maxLoudness = Math.pow(2, maxGainDb / 10);
+      fraction = (Math.pow(2, gainDb / 10) - 1) / (maxLoudness - 1);
+      break;
+    }
+  }
+
+  return Math.min(1, Math.max(0, fraction)) * settingsSchema.boost.max;
+};
+
+/**
+ * Gain applied for a boost level, in whole millibels (100 mB = 1 dB)
+ */
+export const boostToMillibels = (
+  boost: number,
+  curve: BoostCurveId = 'linear',
+  maxGainDb: number = DEFAULT_MAX_BOOST_GAIN_DB,
+): number => {
+  return Math.round(boostToDb(boost, curve, maxGainDb) * 100);
+};
+
+/**
+ * Saved curve and the active device's gain cap
+ *
+ * Uses the defaults until storage has loaded.
+ */
+export const savedBoostCurve = (): { boostCurve: BoostCurveId; maxBoostGainDb: number } => {
+  const settingsManager = SettingsManager.getInstance();
+  const { boostCurve, maxBoostGainDb } = settingsManager.isReady()
+    ? settingsManager.getAllSettings()
+    : getDefaultSettings();
+
+  return { boostCurve, maxBoostGainDb };
+};
+
+/**
+ * Gain for a boost level with the saved curve and the active device's cap
+ *
+ * This is what gets passed to the native setBoost and setBoostGain.
+ */
+export const boostGainMillibels = (boost: number): number => {
+  const { boostCurve, maxBoostGainDb } = savedBoostCurve();
+  return boostToMillibels(boost, boostCurve, maxBoostGainDb);
+};
+
+/**
+ * Format a gain for display, e.g. "+12.5 dB"
+ */
+export const formatGainDb = (gainDb: number): string => {
+  return `+${gainDb.toFixed(1)} dB`;
+};
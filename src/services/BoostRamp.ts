@@ -0,0 +1,216 @@
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import {
+  boostGainMillibels,
+  boostToDb,
+  BoostCurveId,
+  dbToBoost,
+  DEFAULT_MAX_BOOST_GAIN_DB,
+  savedBoostCurve,
+} from './BoostCurve';
+
+/**
+ * Shape of a boost transition
+ *
+ * - linear: equal boost steps over time
+ * - exponential: starts slowly and speeds up towards the target
+ * - equalLoudness: equal steps of perceived loudness (10 dB = twice as loud)
+ */
+export type RampCurve = 'linear' | 'exponential' | 'equalLoudness';
+
+/**
+ * Options for a single ramp
+ */
+export interface RampOptions {
+  /** Total duration in milliseconds; 0 or less skips the ramp */
+  durationMs: number;
+
+  /** Interpolation curve */
+  curve: RampCurve;
+
+  /** Level the ramp starts from when no other ramp is running */
+  from: number;
+}
+
+/**
+ * Interval between ramp steps in milliseconds
+ */
+export const RAMP_STEP_MS = 50;
+
+/**
+ * Boost level at a point of a transition
+ *
+ * @param from Start level (0-200%)
+ * @param to Target level (0-200%)
+ * @param t Progress from 0 to 1
+ * @param curve Interpolation curve
+ * @param boostCurve Mapping from boost percent to gain, for equalLoudness
+ * @param maxGainDb Gain at full boost in dB, for equalLoudness
+ * @returns Interpolated boost level, not rounded
+ */
+export const interpolateBoost = (
+  from: number,
+  to: number,
+  t: number,
+  curve: RampCurve,
+  boostCurve: BoostCurveId = 'linear',
+  maxGainDb: number = DEFAULT_MAX_BOOST_GAIN_DB,
+): number => {
+  // Perceived loudness relative to no boost, and back
+  const boostToLoudness = (boost: number) => Math.pow(2, boostToDb(boost, boostCurve, maxGainDb) / 10);
+  const loudnessToBoost = (loudness: number) => dbToBoost(10 * Math.log2(loudness), boostCurve, maxGainDb);
+
+  const progress = Math.min(1, Math.max(0, t));
+
+  switch (curve) {
+    case 'linear':
+      return from + (to - from) * progress;
+    case 'exponential':
+      return from + (to - from) * ((Math.pow(2, 10 * progress) - 1) / (Math.pow(2, 10) - 1));
+    case 'equalLoudness': {
+      const start = boostToLoudness(from);
+      const end = boostToLoudness(to);
+      return loudnessToBoost(start + (end - start) * progress);
+    }
+  }
+};
+
+/**
+ * Handle for the ramp in progress
+ */
+interface ActiveRamp {
+  cancelled: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  wake: (() => void) | null;
+}
+
+/**
+ * Boost Ramp
+ *
+ * Steps the native boost gain from its current level to a target over a
+ * configurable duration instead of jumping straight to it. Steps go through
+ * setBoostGain, which keeps the existing LoudnessEnhancer, so the caller
+ * applies the final level with setBoost once the ramp completes.
+ *
+ * Only one ramp runs at a time: starting a new ramp cancels the previous
+ * one and continues from the level it had reached.
+ */
+export class BoostRamp {
+  private static instance: BoostRamp;
+  private active: ActiveRamp | null = null;
+  private currentLevel = 0;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): BoostRamp {
+    if (!BoostRamp.instance) {
+      BoostRamp.instance = new BoostRamp();
+    }
+    return BoostRamp.instance;
+  }
+
+  /**
+   * Ramp the boost gain to a target level
+   *
+   * @param target Target boost level (0-200%)
+   * @param options Duration, curve and start level
+   * @returns true when the target was reached, false if the ramp was cancelled
+   * @throws Rejects if a native gain step fails
+   */
+  public async rampTo(target: number, options: RampOptions): Promise<boolean> {
+    const from = this.active ? this.currentLevel : options.from;
+    this.cancel();
+
+    const ramp: ActiveRamp = { cancelled: false, timer: null, wake: null };
+    this.active = ramp;
+    this.currentLevel = from;
+
+    if (options.durationMs <= 0 || from === target) {
+      this.active = null;
+      this.currentLevel = target;
+      return true;
+    }
+
+    console.log(`[BoostRamp] Ramping ${from}% -> ${target}% over ${options.durationMs}ms (${options.curve})`);
+    const startedAt = Date.now();
+    const { boostCurve, maxBoostGainDb } = savedBoostCurve();
+
+    try {
+      while (true) {
+        await this.wait(ramp);
+        if (ramp.cancelled) {
+          return false;
+        }
+
+        const t = (Date.now() - startedAt) / options.durationMs;
+        const level = t >= 1 ? target : Math.round(interpolateBoost(from, target, t, options.curve, boostCurve, maxBoostGainDb));
+
+        if (level !== this.currentLevel) {
+          await VolumeBoosterModule.setBoostGain(level, boostGainMillibels(level));
+          this.currentLevel = level;
+        }
+
+        if (ramp.cancelled) {
+          return false;
+        }
+        if (t >= 1) {
+          return true;
+        }
+      }
+    } finally {
+      if (this.active === ramp) {
+        this.active = null;
+      }
+    }
+  }
+
+  /**
+   * Cancel the ramp in progress, leaving the gain at the level it reached
+   */
+  public cancel(): void {
+    const ramp = this.active;
+    if (!ramp) return;
+
+    ramp.cancelled = true;
+    if (ramp.timer !== null) {
+      clearTimeout(ramp.timer);
+    }
+    ramp.wake?.();
+    this.active = null;
+  }
+
+  /**
+   * Whether a ramp is in progress
+   */
+  public isRunning(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Level applied by the last ramp step
+   */
+  public getCurrentLevel(): number {
+    return this.currentLevel;
+  }
+
+  /**
+   * Wait one step, returning early if the ramp is cancelled
+   */
+  private wait(ramp: ActiveRamp): Promise<void> {
+    return new Promise(resolve => {
+      ramp.wake = resolve;
+      ramp.timer = setTimeout(() => {
+        ramp.timer = null;
+        ramp.wake = null;
+        resolve();
+      }, RAMP_STEP_MS);
+    });
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const boostRamp = BoostRamp.getInstance();
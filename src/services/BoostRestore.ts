@@ -0,0 +1,100 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import { SettingsManager } from '../storage/SettingsManager';
+import { ensureAudioInitialized, ensureStorageReady, errorMessage } from '../hooks/initialization';
+import { boostGainMillibels } from './BoostCurve';
+import { equalizerService } from './EqualizerService';
+import { audioEffectsService } from './AudioEffectsService';
+import { compressorService } from './CompressorService';
+import { notificationSync } from './NotificationSync';
+
+/**
+ * Key of the headless JS task, registered in index.js
+ *
+ * Must match TASK_KEY in BoostRestoreTaskService.kt.
+ */
+export const BOOST_RESTORE_TASK = 'RestoreBoost';
+
+/**
+ * Why the native side started the restore task
+ *
+ * - boot: the device finished booting with background mode on
+ * - serviceRestarted: the system restarted the background service after the
+ *   app process was killed
+ */
+export type BoostRestoreReason = 'boot' | 'serviceRestarted';
+
+/**
+ * Data passed to the restore task by BoostRestoreTaskService
+ */
+export interface BoostRestoreTaskData {
+  reason: BoostRestoreReason;
+}
+
+/**
+ * Result of restoring background boost
+ */
+export interface BoostRestoreResult {
+  success: boolean;
+  restored: boolean;
+  error?: string;
+}
+
+/**
+ * Restore background boost from the saved settings
+ *
+ * Started by the native side when background mode was on. Starts the
+ * background service again and reapplies the saved boost and effects,
+ * unless the saved background mode is off or the user has turned auto-start
+ * off; a service the system restarted is then stopped. Once restored, the
+ * effect settings and notification controls are followed here too, since
+ * the app UI may never open. Android 15 and later may refuse to start the
+ * service after a reboot, in which case boost stays off until the app is
+ * opened.
+ */
+export const restoreBoost = async (reason: BoostRestoreReason): Promise<BoostRestoreResult> => {
+  if (Platform.OS !== 'android') {
+    return { success: true, restored: false };
+  }
+
+  try {
+    await ensureStorageReady();
+    const settings = SettingsManager.getInstance().getAllSettings();
+
+    if (!settings.backgroundModeEnabled || !settings.autoStartEnabled) {
+      console.log(`[BoostRestore] Background mode or auto-start is off, not restoring boost (${reason})`);
+      if (reason === 'serviceRestarted') {
+        await VolumeBoosterModule.setBackgroundMode(false);
+      }
+      return { success: true, restored: false };
+    }
+
+    await ensureAudioInitialized();
+    await VolumeBoosterModule.setBackgroundMode(true);
+
+    const boost = settings.boostEnabled ? settings.boost : 0;
+    await VolumeBoosterModule.setBoostEnabled(settings.boostEnabled);
+    await VolumeBoosterModule.setAppOnlyBoost(settings.appOnlyBoost);
+    await VolumeBoosterModule.setBoost(boost, boostGainMillibels(boost));
+
+    // The effects services apply the saved equalizer, bass boost, virtualizer
+    // and compressor, and follow later changes while the app UI is closed
+    await equalizerService.initialize();
+    await audioEffectsService.initialize();
+    await compressorService.initialize();
+    notificationSync.initialize();
+
+    console.log(`[BoostRestore] Restored background boost at ${boost}% (${reason})`);
+    return { success: true, restored: true };
+  } catch (error) {
+    console.error(`[BoostRestore] Failed to restore background boost (${reason}):`, error);
+    return { success: false, restored: false, error: errorMessage(error) };
+  }
+};
+
+/**
+ * Headless JS task run by BoostRestoreTaskService
+ */
+export const restoreBoostTask = async (data: BoostRestoreTaskData): Promise<void> => {
+  await restoreBoost(data.reason);
+};
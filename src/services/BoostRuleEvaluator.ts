@@ -0,0 +1,131 @@
+import type { BoostRule } from '../storage/BoostRuleManager';
+
+/**
+ * Short weekday names, indexed like Date.getDay() (0 = Sunday)
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Time window of one occurrence of a rule, in milliseconds since the epoch
+ */
+export interface BoostRuleWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Length of a rule's window in minutes
+ *
+ * A window whose end is not after its start runs into the next day; equal
+ * start and end times make a 24 hour window.
+ */
+const windowMinutes = (rule: BoostRule): number => {
+  const length = rule.endMinute - rule.startMinute;
+  return length > 0 ? length : length + MINUTES_PER_DAY;
+};
+
+/**
+ * The occurrence of a rule that starts on the day of `now` plus dayOffset
+ *
+ * Built from local calendar fields, so windows keep their wall-clock times
+ * across daylight saving changes.
+ */
+const windowOnDay = (rule: BoostRule, now: number, dayOffset: number): BoostRuleWindow | null => {
+  const day = new Date(now);
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate() + dayOffset, 0, rule.startMinute);
+  if (!rule.weekdays.includes(start.getDay())) {
+    return null;
+  }
+
+  const end = new Date(day.getFullYear(), day.getMonth(), day.getDate() + dayOffset, 0, rule.startMinute + windowMinutes(rule));
+  return { start: start.getTime(), end: end.getTime() };
+};
+
+/**
+ * The window of a rule that contains `now`, or null
+ *
+ * Disabled rules have no active window.
+ */
+export const activeRuleWindow = (rule: BoostRule, now: number = Date.now()): BoostRuleWindow | null => {
+  if (!rule.enabled) {
+    return null;
+  }
+
+  // A window that started yesterday can still be running (e.g. 22:00 - 07:00)
+  for (const dayOffset of [0, -1]) {
+    const window = windowOnDay(rule, now, dayOffset);
+    if (window && window.start <= now && now < window.end) {
+      return window;
+    }
+  }
+  return null;
+};
+
+/**
+ * Whether a rule is in effect at `now`
+ */
+export const isRuleActive = (rule: BoostRule, now: number = Date.now()): boolean => {
+  return activeRuleWindow(rule, now) !== null;
+};
+
+/**
+ * The rule in effect at `now`; earlier rules win when windows overlap
+ */
+export const findActiveRule = (rules: BoostRule[], now: number = Date.now()): BoostRule | null => {
+  return rules.find(rule => isRuleActive(rule, now)) ?? null;
+};
+
+/**
+ * Next time after `now` that a rule's window starts, or null if it never will
+ */
+export const nextRuleStart = (rule: BoostRule, now: number = Date.now()): number | null => {
+  if (!rule.enabled) {
+    return null;
+  }
+
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+    const window = windowOnDay(rule, now, dayOffset);
+    if (window && window.start > now) {
+      return window.start;
+    }
+  }
+  return null;
+};
+
+/**
+ * Next time after `now` that any rule starts or ends, or null if none will
+ *
+ * This is when the rules next need to be evaluated.
+ */
+export const nextRuleChange = (rules: BoostRule[], now: number = Date.now()): number | null => {
+  const times = rules.flatMap(rule => [nextRuleStart(rule, now), activeRuleWindow(rule, now)?.end ?? null]);
+  const upcoming = times.filter((time): time is number => time !== null);
+  return upcoming.length > 0 ? Math.min(...upcoming) : null;
+};
+
+/**
+ * Format minutes after midnight as "HH:MM"
+ */
+export const formatMinuteOfDay = (minute: number): string => {
+  const hours = Math.floor(minute / 60);
+  const minutes = minute % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+/**
+ * Format a trigger time relative to `now`, e.g. "Today 22:00" or "Mon 07:00"
+ */
+export const formatRuleTrigger = (timestamp: number, now: number = Date.now()): string => {
+  const date = new Date(timestamp);
+  const today = new Date(now);
+  const dayDifference = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+      new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()) /
+      (MINUTES_PER_DAY * 60 * 1000),
+  );
+
+  const day = dayDifference === 0 ? 'Today' : dayDifference === 1 ? 'Tomorrow' : WEEKDAY_LABELS[date.getDay()];
+  return `${day} ${formatMinuteOfDay(date.getHours() * 60 + date.getMinutes())}`;
+};
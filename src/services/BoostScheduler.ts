@@ -0,0 +1,280 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import { SettingsManager } from '../storage/SettingsManager';
+import { presetManager, PresetSettings } from '../storage/PresetManager';
+import { BoostRule, BoostRuleAction, boostRuleManager } from '../storage/BoostRuleManager';
+import { pushAudioSettingsToNative } from '../storage/nativeSync';
+import { ensureAudioInitialized, ensureStorageReady, errorMessage } from '../hooks/initialization';
+import { findActiveRule, nextRuleChange } from './BoostRuleEvaluator';
+
+/**
+ * Key of the headless JS task, registered in index.js
+ *
+ * Must match TASK_KEY in BoostRulesTaskService.kt.
+ */
+export const BOOST_RULES_TASK = 'EvaluateBoostRules';
+
+/**
+ * Longest wait between evaluations while the app is open
+ *
+ * Keeps JS timers short; evaluating when nothing changed is cheap.
+ */
+const MAX_TIMER_MS = 60 * 1000;
+
+/**
+ * Result of evaluating the boost rules
+ */
+export interface BoostRuleEvaluation {
+  success: boolean;
+
+  /** Rule in effect after the evaluation, or null */
+  activeRuleId: string | null;
+
+  /** When the rules are next evaluated, or null if no rule will start or end */
+  nextCheckAt: number | null;
+
+  error?: string;
+}
+
+/**
+ * Settings a rule action changes
+ */
+const ACTION_KEYS: Record<BoostRuleAction['type'], Array<keyof PresetSettings>> = {
+  applyPreset: ['volume', 'boost', 'boostEnabled', 'gradualBoost'],
+  setBoost: ['boost', 'boostEnabled'],
+  disableBoost: ['boostEnabled'],
+};
+
+/**
+ * Boost Scheduler
+ *
+ * Applies the scheduled boost rules. When a rule's window starts its action
+ * is applied, and the settings it changed are saved so they can be put back
+ * when the window ends. The rule in effect is stored, so the scheduler picks
+ * up where it left off after the app is killed.
+ *
+ * The background service runs the evaluation through the EvaluateBoostRules
+ * headless task at the next rule start or end, so rules apply while the UI
+ * is closed. While the app is open a timer evaluates them as well.
+ */
+export class BoostScheduler {
+  private static instance: BoostScheduler;
+  private queue: Promise<BoostRuleEvaluation | void> = Promise.resolve();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isInitialized = false;
+  private scheduledCheckAt: number | null = null;
+  private evaluationListeners: Array<(evaluation: BoostRuleEvaluation) => void> = [];
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of BoostScheduler
+   */
+  public static getInstance(): BoostScheduler {
+    if (!BoostScheduler.instance) {
+      BoostScheduler.instance = new BoostScheduler();
+    }
+    return BoostScheduler.instance;
+  }
+
+  /**
+   * Evaluate the rules now, again whenever they change and on a timer while
+   * the app is open
+   */
+  public initialize(): Promise<BoostRuleEvaluation> {
+    if (!this.isInitialized) {
+      this.isInitialized = true;
+      boostRuleManager.addChangeListener(this.handleRuleChange);
+    }
+    return this.evaluate();
+  }
+
+  /**
+   * Stop evaluating on rule changes and on the timer
+   *
+   * The background service keeps evaluating at the scheduled check.
+   */
+  public dispose(): void {
+    boostRuleManager.removeChangeListener(this.handleRuleChange);
+    this.isInitialized = false;
+    this.scheduledCheckAt = null;
+    this.clearTimer();
+  }
+
+  /**
+   * Apply the rule in effect and schedule the next evaluation
+   *
+   * Evaluations run one at a time in the order they were requested.
+   */
+  public evaluate(now?: number): Promise<BoostRuleEvaluation> {
+    const evaluation = this.queue.then(async () => {
+      const result = await this.run(now ?? Date.now());
+      this.notifyEvaluationListeners(result);
+      return result;
+    });
+    this.queue = evaluation;
+    return evaluation;
+  }
+
+  /**
+   * Add a listener called after every evaluation
+   */
+  public addEvaluationListener(listener: (evaluation: BoostRuleEvaluation) => void): void {
+    this.evaluationListeners.push(listener);
+  }
+
+  /**
+   * Remove an evaluation listener
+   */
+  public removeEvaluationListener(listener: (evaluation: BoostRuleEvaluation) => void): void {
+    const index = this.evaluationListeners.indexOf(listener);
+    if (index > -1) {
+      this.evaluationListeners.splice(index, 1);
+    }
+  }
+
+  private handleRuleChange = (): void => {
+    this.evaluate();
+  };
+
+  private async run(now: number): Promise<BoostRuleEvaluation> {
+    let activeRuleId: string | null = null;
+    let nextCheckAt: number | null = null;
+
+    try {
+      // The headless task runs in a fresh JS context after the app was killed
+      await ensureStorageReady();
+      await ensureAudioInitialized();
+      const rules = boostRuleManager.getRules();
+      const state = boostRuleManager.getScheduleState();
+      const active = findActiveRule(rules, now);
+      activeRuleId = active?.id ?? null;
+
+      if (activeRuleId !== state.activeRuleId) {
+        if (active) {
+          const restoreSettings = this.captureSettings(active, state.restoreSettings);
+          await boostRuleManager.saveScheduleState({ activeRuleId: active.id, restoreSettings });
+          await this.applyRule(active);
+        } else {
+          await boostRuleManager.saveScheduleState({ activeRuleId: null, restoreSettings: null });
+          await this.restoreSettings(state.restoreSettings);
+        }
+      }
+
+      nextCheckAt = nextRuleChange(rules, now);
+      await this.scheduleNextCheck(nextCheckAt, now);
+      return { success: true, activeRuleId, nextCheckAt };
+    } catch (error) {
+      console.error('[BoostScheduler] Failed to evaluate boost rules:', error);
+      return { success: false, activeRuleId, nextCheckAt, error: errorMessage(error) };
+    }
+  }
+
+  /**
+   * Current values of the settings a rule changes, added to those already
+   * saved by an earlier rule in the same run of windows
+   */
+  private captureSettings(rule: BoostRule, saved: Partial<PresetSettings> | null): Partial<PresetSettings> {
+    const current = SettingsManager.getInstance().getAllSettings();
+    const captured: Partial<PresetSettings> = { ...saved };
+
+    ACTION_KEYS[rule.action.type].forEach(key => {
+      if (!(key in captured)) {
+        (captured as Record<keyof PresetSettings, unknown>)[key] = current[key];
+      }
+    });
+    return captured;
+  }
+
+  private async applyRule(rule: BoostRule): Promise<void> {
+    console.log(`[BoostScheduler] Rule '${rule.name}' started, applying '${rule.action.type}'`);
+
+    switch (rule.action.type) {
+      case 'applyPreset':
+        if (!(await presetManager.applyPreset(rule.action.presetId))) {
+          console.warn(`[BoostScheduler] Preset of rule '${rule.name}' could not be applied`);
+        }
+        break;
+      case 'setBoost':
+        await this.saveAndPush({ boost: rule.action.boost, boostEnabled: true });
+        break;
+      case 'disableBoost':
+        await this.saveAndPush({ boostEnabled: false });
+        break;
+    }
+  }
+
+  private async restoreSettings(saved: Partial<PresetSettings> | null): Promise<void> {
+    console.log('[BoostScheduler] No rule in effect, restoring the settings from before the rules');
+    if (saved && Object.keys(saved).length > 0) {
+      await this.saveAndPush(saved);
+    }
+  }
+
+  /**
+   * Save settings changed by a rule and push them to the native module
+   *
+   * Values above the safety lock caps are lowered, as for presets.
+   */
+  private async saveAndPush(changes: Partial<PresetSettings>): Promise<void> {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const result = await settingsManagerInstance.setMultipleSettings(settingsManagerInstance.clampToSafetyLimits(changes));
+    if (!result.success) {
+      console.error('[BoostScheduler] Rule settings rejected:', result.errors);
+    }
+
+    await pushAudioSettingsToNative(settingsManagerInstance.getAllSettings());
+  }
+
+  /**
+   * Hand the next evaluation to the background service and, while the app is
+   * open, set the timer
+   */
+  private async scheduleNextCheck(nextCheckAt: number | null, now: number): Promise<void> {
+    if (Platform.OS === 'android' && nextCheckAt !== this.scheduledCheckAt) {
+      await VolumeBoosterModule.scheduleBoostRuleCheck(nextCheckAt ?? 0);
+      this.scheduledCheckAt = nextCheckAt;
+    }
+
+    this.clearTimer();
+    if (this.isInitialized) {
+      const delay = nextCheckAt === null ? MAX_TIMER_MS : Math.min(Math.max(0, nextCheckAt - now), MAX_TIMER_MS);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.evaluate();
+      }, delay);
+    }
+  }
+
+  private notifyEvaluationListeners(evaluation: BoostRuleEvaluation): void {
+    this.evaluationListeners.forEach(listener => {
+      try {
+        listener(evaluation);
+      } catch (error) {
+        console.error('[BoostScheduler] Error in evaluation listener:', error);
+      }
+    });
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const boostScheduler = BoostScheduler.getInstance();
+
+/**
+ * Headless JS task run by BoostRulesTaskService
+ */
+export const evaluateBoostRulesTask = async (): Promise<void> => {
+  await boostScheduler.evaluate();
+};
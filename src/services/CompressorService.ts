@@ -0,0 +1,315 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule, CompressorOptions } from '../modules/VolumeBoosterModule';
+import { subscribeShared } from '../hooks/nativeEventHub';
+import {
+  AppSettings,
+  SettingsManager,
+  SettingsChangeEvent,
+  SetSettingResult,
+  SetMultipleSettingsResult,
+} from '../storage/SettingsManager';
+
+/**
+ * Built-in compressor preset, or 'custom' for parameters set directly
+ */
+export type CompressorPresetId = 'speech' | 'movie' | 'music' | 'custom';
+
+/**
+ * Compressor parameters (CompressorOptions without the enabled flag)
+ */
+export type CompressorParameters = Omit<CompressorOptions, 'enabled'>;
+
+/**
+ * Built-in compressor preset
+ */
+export interface CompressorPreset {
+  id: Exclude<CompressorPresetId, 'custom'>;
+  label: string;
+  parameters: CompressorParameters;
+}
+
+/**
+ * Built-in compressor presets in display order
+ */
+export const COMPRESSOR_PRESETS: CompressorPreset[] = [
+  // Fast and strong: keeps voices at an even level for podcasts and audiobooks
+  {
+    id: 'speech',
+    label: 'Speech',
+    parameters: { thresholdDb: -30, ratio: 6, attackMs: 5, releaseMs: 150, ceilingDb: -1 },
+  },
+  // Night mode: lifts dialogue and tames explosions
+  {
+    id: 'movie',
+    label: 'Movie',
+    parameters: { thresholdDb: -24, ratio: 4, attackMs: 10, releaseMs: 300, ceilingDb: -1 },
+  },
+  // Gentle: keeps most of the dynamics and only catches peaks
+  {
+    id: 'music',
+    label: 'Music',
+    parameters: { thresholdDb: -18, ratio: 2.5, attackMs: 20, releaseMs: 250, ceilingDb: -0.5 },
+  },
+];
+
+/**
+ * Settings key of each compressor parameter
+ */
+const PARAMETER_SETTING_KEYS: { [K in keyof CompressorParameters]: keyof AppSettings } = {
+  thresholdDb: 'compressorThresholdDb',
+  ratio: 'compressorRatio',
+  attackMs: 'compressorAttackMs',
+  releaseMs: 'compressorReleaseMs',
+  ceilingDb: 'compressorCeilingDb',
+};
+
+/**
+ * Settings keys the compressor follows
+ */
+const COMPRESSOR_SETTING_KEYS: string[] = ['compressorEnabled', ...Object.values(PARAMETER_SETTING_KEYS)];
+
+/**
+ * Compressor parameters stored in the settings
+ */
+const readParameters = (settings: AppSettings): CompressorParameters => ({
+  thresholdDb: settings.compressorThresholdDb,
+  ratio: settings.compressorRatio,
+  attackMs: settings.compressorAttackMs,
+  releaseMs: settings.compressorReleaseMs,
+  ceilingDb: settings.compressorCeilingDb,
+});
+
+/**
+ * Settings changes that store the given compressor parameters
+ */
+const toSettings = (parameters: Partial<CompressorParameters>): Partial<AppSettings> => {
+  const settings: Partial<Record<keyof AppSettings, number>> = {};
+  (Object.keys(parameters) as Array<keyof CompressorParameters>).forEach(key => {
+    settings[PARAMETER_SETTING_KEYS[key]] = parameters[key];
+  });
+  return settings as Partial<AppSettings>;
+};
+
+/**
+ * Compressor state
+ */
+export interface CompressorState {
+  /** Whether the device supports the compressor (false until queried) */
+  available: boolean;
+
+  /** Whether the compressor is applied */
+  enabled: boolean;
+
+  /** Preset the parameters came from */
+  preset: CompressorPresetId;
+
+  /** Parameters last applied to the native compressor */
+  parameters: CompressorParameters;
+}
+
+/**
+ * Compressor change event interface
+ */
+export interface CompressorChangeEvent {
+  state: CompressorState;
+  timestamp: number;
+}
+
+/**
+ * Compressor Service
+ *
+ * Applies the compressor settings to the native compressor and output
+ * limiter, which run on the same audio sessions as boost (foreground or
+ * background service). The compressor lets boost raise quiet passages
+ * without loud ones clipping. Like the equalizer, the settings are the
+ * source of truth and are re-applied on every change and whenever the
+ * background service starts.
+ */
+export class CompressorService {
+  private static instance: CompressorService;
+  private state: CompressorState = {
+    available: false,
+    enabled: false,
+    preset: 'movie',
+    parameters: { ...COMPRESSOR_PRESETS[1].parameters },
+  };
+  private changeListeners: Array<(event: CompressorChangeEvent) => void> = [];
+  private unsubscribeService: (() => void) | null = null;
+  private isInitialized: boolean = false;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of CompressorService
+   */
+  public static getInstance(): CompressorService {
+    if (!CompressorService.instance) {
+      CompressorService.instance = new CompressorService();
+    }
+    return CompressorService.instance;
+  }
+
+  /**
+   * Check compressor support and apply the saved settings
+   *
+   * Expects storage to be initialized. Does nothing on platforms without the
+   * native module; on devices without the compressor the state stays
+   * unavailable.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized || Platform.OS !== 'android') {
+      return;
+    }
+
+    console.log('[CompressorService] Initializing...');
+    this.isInitialized = true;
+    SettingsManager.getInstance().addChangeListener(this.handleSettingsChange);
+
+    // The background service starts with its own effects
+    this.unsubscribeService = subscribeShared('serviceStateChanged', event => {
+      if (event.running) {
+        this.apply();
+      }
+    });
+
+    try {
+      const capabilities = await VolumeBoosterModule.getAudioEffectCapabilities();
+      this.setState({ available: capabilities.compressor });
+    } catch (error) {
+      console.error('[CompressorService] Failed to query compressor support:', error);
+      this.setState({ available: false });
+    }
+
+    await this.apply();
+    console.log('[CompressorService] Initialized');
+  }
+
+  /**
+   * Stop following the compressor settings
+   */
+  public dispose(): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    SettingsManager.getInstance().removeChangeListener(this.handleSettingsChange);
+    this.unsubscribeService?.();
+    this.unsubscribeService = null;
+    this.isInitialized = false;
+    this.setState({ available: false });
+  }
+
+  /**
+   * Enable or disable the compressor and save the setting
+   */
+  public async setEnabled(enabled: boolean): Promise<SetSettingResult> {
+    return SettingsManager.getInstance().setSetting('compressorEnabled', enabled);
+  }
+
+  /**
+   * Select a preset and save its parameters
+   *
+   * 'custom' keeps the current parameters.
+   */
+  public async selectPreset(preset: CompressorPresetId): Promise<SetMultipleSettingsResult> {
+    const builtIn = COMPRESSOR_PRESETS.find(candidate => candidate.id === preset);
+    return SettingsManager.getInstance().setMultipleSettings({
+      compressorPreset: preset,
+      ...(builtIn ? toSettings(builtIn.parameters) : {}),
+    });
+  }
+
+  /**
+   * Change compressor parameters, turning the current preset into 'custom'
+   *
+   * Values are validated against the settings schema; invalid values are
+   * rejected and leave the settings unchanged.
+   */
+  public async setParameters(parameters: Partial<CompressorParameters>): Promise<SetMultipleSettingsResult> {
+    return SettingsManager.getInstance().setMultipleSettings({
+      compressorPreset: 'custom',
+      ...toSettings(parameters),
+    });
+  }
+
+  /**
+   * Current compressor state
+   */
+  public getState(): CompressorState {
+    return { ...this.state, parameters: { ...this.state.parameters } };
+  }
+
+  /**
+   * Re-apply the compressor when one of its settings changes
+   */
+  private handleSettingsChange = (event: SettingsChangeEvent): void => {
+    if (event.key === 'compressorPreset') {
+      this.setState({ preset: event.newValue });
+    } else if (COMPRESSOR_SETTING_KEYS.includes(event.key)) {
+      this.apply();
+    }
+  };
+
+  /**
+   * Push the saved compressor settings to the native compressor
+   */
+  private async apply(): Promise<void> {
+    const settings = SettingsManager.getInstance().getAllSettings();
+    const parameters = readParameters(settings);
+    const patch = { enabled: settings.compressorEnabled, preset: settings.compressorPreset, parameters };
+
+    if (!this.state.available) {
+      this.setState(patch);
+      return;
+    }
+
+    try {
+      await VolumeBoosterModule.setCompressor({ enabled: settings.compressorEnabled, ...parameters });
+      this.setState(patch);
+    } catch (error) {
+      console.error('[CompressorService] Failed to apply compressor:', error);
+    }
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: CompressorChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: CompressorChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  private setState(patch: Partial<CompressorState>): void {
+    this.state = { ...this.state, ...patch };
+
+    const event: CompressorChangeEvent = { state: this.getState(), timestamp: Date.now() };
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[CompressorService] Error in change listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const compressorService = CompressorService.getInstance();
@@ -0,0 +1,326 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule, EqualizerLayout } from '../modules/VolumeBoosterModule';
+import { subscribeShared } from '../hooks/nativeEventHub';
+import {
+  SettingsManager,
+  SettingsChangeEvent,
+  SetSettingResult,
+  SetMultipleSettingsResult,
+} from '../storage/SettingsManager';
+import { settingsSchema } from '../storage/SettingsSchema';
+
+/**
+ * Built-in equalizer preset, or 'custom' for the user's own curve
+ */
+export type EqualizerPresetId = 'flat' | 'bassBoost' | 'vocal' | 'treble' | 'smallSpeaker' | 'custom';
+
+/**
+ * Built-in equalizer preset
+ *
+ * The curve is given as [frequency in Hz, gain in dB] points and is
+ * interpolated onto the bands of the device equalizer, so presets work
+ * with any band layout.
+ */
+export interface EqualizerPreset {
+  id: Exclude<EqualizerPresetId, 'custom'>;
+  label: string;
+  points: Array<[number, number]>;
+}
+
+/**
+ * Built-in equalizer presets in display order
+ */
+export const EQUALIZER_PRESETS: EqualizerPreset[] = [
+  { id: 'flat', label: 'Flat', points: [[1000, 0]] },
+  { id: 'bassBoost', label: 'Bass Boost', points: [[60, 6], [230, 4], [910, 0], [14000, 0]] },
+  { id: 'vocal', label: 'Vocal', points: [[60, -2], [230, 0], [910, 3], [3600, 4], [14000, 1]] },
+  { id: 'treble', label: 'Treble', points: [[910, 0], [3600, 3], [14000, 6]] },
+  // Drops lows small speakers cannot play and tames the harsh upper midrange
+  { id: 'smallSpeaker', label: 'Small Speaker', points: [[60, -6], [230, -2], [910, 0], [3600, -3], [14000, 2]] },
+];
+
+/** Band level resolution in millibels (1 dB) */
+const LEVEL_STEP = settingsSchema.equalizerCustomLevels.step ?? 100;
+
+/**
+ * Clamp a band level to the equalizer range and snap it to whole dB
+ */
+const clampBandLevel = (level: number, layout: EqualizerLayout): number => {
+  const min = Math.max(layout.minLevel, settingsSchema.equalizerCustomLevels.min);
+  const max = Math.min(layout.maxLevel, settingsSchema.equalizerCustomLevels.max);
+  const snapped = Math.round(level / LEVEL_STEP) * LEVEL_STEP;
+  // `|| 0` turns -0 into 0
+  return Math.min(max, Math.max(min, snapped)) || 0;
+};
+
+/**
+ * Gain of a preset curve at a frequency, interpolated on a log frequency scale
+ */
+const curveGainDb = (points: Array<[number, number]>, frequency: number): number => {
+  if (frequency <= points[0][0]) {
+    return points[0][1];
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const [toFrequency, toGain] = points[i];
+    if (frequency <= toFrequency) {
+      const [fromFrequency, fromGain] = points[i - 1];
+      const progress = Math.log(frequency / fromFrequency) / Math.log(toFrequency / fromFrequency);
+      return fromGain + (toGain - fromGain) * progress;
+    }
+  }
+  return points[points.length - 1][1];
+};
+
+/**
+ * Band levels (millibels) of a built-in preset on the given band layout
+ */
+export const equalizerPresetLevels = (
+  presetId: Exclude<EqualizerPresetId, 'custom'>,
+  layout: EqualizerLayout,
+): number[] => {
+  const preset = EQUALIZER_PRESETS.find(candidate => candidate.id === presetId) ?? EQUALIZER_PRESETS[0];
+  return layout.bands.map(band => clampBandLevel(curveGainDb(preset.points, band.centerFrequency) * 100, layout));
+};
+
+/**
+ * Fit stored band levels to the band layout
+ *
+ * Curves saved for a layout with a different band count are truncated or
+ * padded with 0 dB, and every level is clamped to the equalizer range.
+ */
+export const fitBandLevels = (levels: number[], layout: EqualizerLayout): number[] => {
+  return layout.bands.map((_, band) => clampBandLevel(levels[band] ?? 0, layout));
+};
+
+/**
+ * Equalizer state
+ */
+export interface EqualizerState {
+  /** Whether the device has an equalizer (false until the layout is read) */
+  available: boolean;
+
+  /** Band layout of the device equalizer */
+  layout: EqualizerLayout | null;
+
+  /** Whether the equalizer is applied */
+  enabled: boolean;
+
+  /** Selected preset */
+  preset: EqualizerPresetId;
+
+  /** Band levels applied to the native equalizer, in millibels */
+  levels: number[];
+}
+
+/**
+ * Equalizer change event interface
+ */
+export interface EqualizerChangeEvent {
+  state: EqualizerState;
+  timestamp: number;
+}
+
+/**
+ * Settings keys the equalizer follows
+ */
+const EQUALIZER_SETTING_KEYS = ['equalizerEnabled', 'equalizerPreset', 'equalizerCustomLevels'];
+
+/**
+ * Equalizer Service
+ *
+ * Applies the equalizer settings to the native equalizer, which runs on the
+ * same audio sessions as boost (foreground or background service). The
+ * settings are the single source of truth: presets, device profile switches
+ * and imports all change them, and the service re-applies them on every
+ * change and whenever the background service starts.
+ */
+export class EqualizerService {
+  private static instance: EqualizerService;
+  private state: EqualizerState = { available: false, layout: null, enabled: false, preset: 'flat', levels: [] };
+  private changeListeners: Array<(event: EqualizerChangeEvent) => void> = [];
+  private unsubscribeService: (() => void) | null = null;
+  private isInitialized: boolean = false;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of EqualizerService
+   */
+  public static getInstance(): EqualizerService {
+    if (!EqualizerService.instance) {
+      EqualizerService.instance = new EqualizerService();
+    }
+    return EqualizerService.instance;
+  }
+
+  /**
+   * Read the band layout and apply the saved equalizer settings
+   *
+   * Expects storage to be initialized. Does nothing on platforms without the
+   * native module; on devices without an equalizer the state stays
+   * unavailable.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized || Platform.OS !== 'android') {
+      return;
+    }
+
+    console.log('[EqualizerService] Initializing...');
+    this.isInitialized = true;
+    SettingsManager.getInstance().addChangeListener(this.handleSettingsChange);
+
+    // The background service starts with its own effects
+    this.unsubscribeService = subscribeShared('serviceStateChanged', event => {
+      if (event.running) {
+        this.apply();
+      }
+    });
+
+    try {
+      const layout = await VolumeBoosterModule.getEqualizerBands();
+      this.setState({ available: layout.bands.length > 0, layout });
+    } catch (error) {
+      console.error('[EqualizerService] Equalizer not available:', error);
+      this.setState({ available: false, layout: null });
+    }
+
+    await this.apply();
+    console.log('[EqualizerService] Initialized');
+  }
+
+  /**
+   * Stop following the equalizer settings
+   */
+  public dispose(): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    SettingsManager.getInstance().removeChangeListener(this.handleSettingsChange);
+    this.unsubscribeService?.();
+    this.unsubscribeService = null;
+    this.isInitialized = false;
+    this.setState({ available: false, layout: null, enabled: false, preset: 'flat', levels: [] });
+  }
+
+  /**
+   * Enable or disable the equalizer and save the setting
+   */
+  public async setEnabled(enabled: boolean): Promise<SetSettingResult> {
+    return SettingsManager.getInstance().setSetting('equalizerEnabled', enabled);
+  }
+
+  /**
+   * Select a preset and save the setting
+   *
+   * 'custom' switches back to the saved custom curve.
+   */
+  public async selectPreset(preset: EqualizerPresetId): Promise<SetSettingResult> {
+    return SettingsManager.getInstance().setSetting('equalizerPreset', preset);
+  }
+
+  /**
+   * Change one band, turning the current curve into the custom curve
+   *
+   * @param band Band index
+   * @param level Band level in millibels (snapped to whole dB and clamped)
+   */
+  public async setBandLevel(band: number, level: number): Promise<SetMultipleSettingsResult> {
+    const { layout, levels } = this.state;
+    if (!layout || band < 0 || band >= layout.bands.length) {
+      console.error('[EqualizerService] Cannot set unknown band:', band);
+      return { success: false, errors: [] };
+    }
+
+    const customLevels = levels.map((current, index) => (index === band ? clampBandLevel(level, layout) : current));
+    return SettingsManager.getInstance().setMultipleSettings({
+      equalizerPreset: 'custom',
+      equalizerCustomLevels: customLevels,
+    });
+  }
+
+  /**
+   * Current equalizer state
+   */
+  public getState(): EqualizerState {
+    return { ...this.state, levels: [...this.state.levels] };
+  }
+
+  /**
+   * Re-apply the equalizer when one of its settings changes
+   */
+  private handleSettingsChange = (event: SettingsChangeEvent): void => {
+    if (EQUALIZER_SETTING_KEYS.includes(event.key)) {
+      this.apply();
+    }
+  };
+
+  /**
+   * Push the saved equalizer settings to the native equalizer
+   */
+  private async apply(): Promise<void> {
+    const settings = SettingsManager.getInstance().getAllSettings();
+    const { layout } = this.state;
+
+    if (!layout) {
+      this.setState({ enabled: settings.equalizerEnabled, preset: settings.equalizerPreset });
+      return;
+    }
+
+    const levels =
+      settings.equalizerPreset === 'custom'
+        ? fitBandLevels(settings.equalizerCustomLevels, layout)
+        : equalizerPresetLevels(settings.equalizerPreset, layout);
+
+    try {
+      await VolumeBoosterModule.setEqualizerBandLevels(levels);
+      await VolumeBoosterModule.setEqualizerEnabled(settings.equalizerEnabled);
+      this.setState({ enabled: settings.equalizerEnabled, preset: settings.equalizerPreset, levels });
+    } catch (error) {
+      console.error('[EqualizerService] Failed to apply equalizer:', error);
+    }
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: EqualizerChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: EqualizerChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  private setState(patch: Partial<EqualizerState>): void {
+    this.state = { ...this.state, ...patch };
+
+    const event: EqualizerChangeEvent = { state: this.getState(), timestamp: Date.now() };
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[EqualizerService] Error in change listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const equalizerService = EqualizerService.getInstance();
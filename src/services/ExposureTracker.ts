@@ -0,0 +1,493 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule, AudioDeviceInfo } from '../modules/VolumeBoosterModule';
+import { storageManager } from '../storage/StorageManager';
+import { SettingsManager } from '../storage/SettingsManager';
+import { pushAudioSettingsToNative } from '../storage/nativeSync';
+import { audioStore, AudioState } from '../store/AudioStore';
+import { boostRamp } from './BoostRamp';
+import { BoostCurveId, boostToDb, DEFAULT_MAX_BOOST_GAIN_DB, savedBoostCurve } from './BoostCurve';
+
+/**
+ * What happens when the daily dose reaches the configured limit
+ *
+ * - alert: notify listeners so the UI can warn the user
+ * - reduceBoost: warn and fade boost out
+ */
+export type ExposureAction = 'alert' | 'reduceBoost';
+
+/**
+ * Listening totals for one calendar day
+ */
+export interface DailyExposure {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+
+  /** Noise dose as a fraction of the daily limit (1 = 100%) */
+  dose: number;
+
+  /** Time spent listening, in milliseconds */
+  listeningMs: number;
+
+  /** Time spent listening with boost applied, in milliseconds */
+  boostedMs: number;
+
+  /** Listening time per estimated level, keyed by whole dB SPL */
+  levels: Record<string, number>;
+
+  /** When the configured limit was reached, or null */
+  limitReachedAt: number | null;
+}
+
+/**
+ * Exposure change event interface
+ */
+export interface ExposureChangeEvent {
+  type: 'updated' | 'limitReached' | 'reset';
+  today: DailyExposure;
+  timestamp: number;
+}
+
+// ============================================================================
+// DOSE MODEL
+// ============================================================================
+
+/**
+ * NIOSH recommended exposure limit: 85 dBA for 8 hours, halving the
+ * allowed time for every 3 dB above it
+ */
+export const NIOSH_REFERENCE_LEVEL_DB = 85;
+export const NIOSH_REFERENCE_DURATION_MS = 8 * 60 * 60 * 1000;
+export const NIOSH_EXCHANGE_RATE_DB = 3;
+
+/**
+ * Estimated output at 100% volume without boost, in dB SPL
+ *
+ * Typical values for consumer headphones and phone speakers heard at arm's
+ * length. Real devices vary; the dose is an estimate, not a measurement.
+ */
+const HEADPHONE_MAX_LEVEL_DB = 100;
+const SPEAKER_MAX_LEVEL_DB = 85;
+
+/** AudioDeviceInfo.TYPE_BUILTIN_SPEAKER */
+const BUILTIN_SPEAKER_TYPE_ID = 2;
+
+/**
+ * Estimate the listening level for a volume, boost and output device
+ *
+ * @param volume Device media volume (0-100%)
+ * @param boost Applied boost (0-200%)
+ * @param device Output device; unknown devices are treated as headphones
+ * @param boostCurve Mapping from boost percent to gain
+ * @param maxGainDb Gain at full boost, in dB
+ * @returns Estimated level in dB SPL, or null when the output is muted
+ */
+export const estimateListeningLevel = (
+  volume: number,
+  boost: number,
+  device: AudioDeviceInfo | null,
+  boostCurve: BoostCurveId = 'linear',
+  maxGainDb: number = DEFAULT_MAX_BOOST_GAIN_DB,
+): number | null => {
+  if (volume <= 0) {
+    return null;
+  }
+
+  const maxLevel = device?.typeId === BUILTIN_SPEAKER_TYPE_ID ? SPEAKER_MAX_LEVEL_DB : HEADPHONE_MAX_LEVEL_DB;
+  return maxLevel + 20 * Math.log10(volume / 100) + boostToDb(boost, boostCurve, maxGainDb);
+};
+
+/**
+ * Time that uses up the whole daily dose at a given level
+ */
+export const allowedExposureMs = (levelDb: number): number => {
+  return NIOSH_REFERENCE_DURATION_MS / Math.pow(2, (levelDb - NIOSH_REFERENCE_LEVEL_DB) / NIOSH_EXCHANGE_RATE_DB);
+};
+
+/**
+ * Dose (fraction of the daily limit) of listening at a level for a duration
+ */
+export const exposureDose = (levelDb: number, durationMs: number): number => {
+  return durationMs / allowedExposureMs(levelDb);
+};
+
+/**
+ * Local calendar date of a timestamp, YYYY-MM-DD
+ */
+const localDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const emptyDay = (date: string): DailyExposure => ({
+  date,
+  dose: 0,
+  listeningMs: 0,
+  boostedMs: 0,
+  levels: {},
+  limitReachedAt: null,
+});
+
+/**
+ * Boost level the native side currently applies
+ */
+const appliedBoostOf = (state: AudioState): number => {
+  const { actual } = state;
+  if (actual.serviceRunning) {
+    return actual.serviceBoostActive ? actual.serviceBoostLevel ?? 0 : 0;
+  }
+  return actual.appliedBoostEnabled ? actual.appliedBoost ?? 0 : 0;
+};
+
+// ============================================================================
+// EXPOSURE TRACKER
+// ============================================================================
+
+/**
+ * Listening conditions credited until the next change or sample
+ */
+interface ListeningSnapshot {
+  levelDb: number | null;
+  boosted: boolean;
+  musicActive: boolean;
+}
+
+/**
+ * Exposure Tracker
+ *
+ * Accumulates how long the user listens at each estimated level and turns
+ * it into a daily noise dose using the NIOSH model (85 dBA for 8 hours,
+ * 3 dB exchange rate). The level is estimated from the device volume, the
+ * applied boost and the output device reported by the audio store; time
+ * only counts while music is playing.
+ *
+ * Daily totals are persisted for HISTORY_DAYS days. When today's dose
+ * reaches exposureLimitPercent, listeners receive a 'limitReached' event
+ * and, with the 'reduceBoost' action, boost is faded out and disabled.
+ */
+export class ExposureTracker {
+  private static instance: ExposureTracker;
+  private storageKey: string = '@VolumeBooster_Exposure_v1';
+  private history: Record<string, DailyExposure> = {};
+  private changeListeners: Array<(event: ExposureChangeEvent) => void> = [];
+  private isInitialized: boolean = false;
+  private sampleTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+  private snapshot: ListeningSnapshot = { levelDb: null, boosted: false, musicActive: false };
+  private creditedUntil: number = 0;
+
+  /** How often music activity is polled and totals are saved */
+  public static readonly SAMPLE_INTERVAL_MS = 15000;
+
+  /** Number of days of totals kept in storage */
+  public static readonly HISTORY_DAYS = 30;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of ExposureTracker
+   */
+  public static getInstance(): ExposureTracker {
+    if (!ExposureTracker.instance) {
+      ExposureTracker.instance = new ExposureTracker();
+    }
+    return ExposureTracker.instance;
+  }
+
+  /**
+   * Load saved totals and start tracking
+   *
+   * Expects storage and the audio store to be initialized. Does nothing on
+   * platforms without the native module.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized || Platform.OS !== 'android') {
+      return;
+    }
+
+    try {
+      console.log('[ExposureTracker] Initializing...');
+
+      const result = await storageManager.getItem<Record<string, DailyExposure>>(this.storageKey);
+      this.history = result.success && result.data && typeof result.data === 'object' ? { ...result.data } : {};
+
+      this.creditedUntil = Date.now();
+      this.snapshot = { ...this.snapshot, ...this.readLevel(audioStore.getState()) };
+      this.unsubscribeStore = audioStore.subscribe(this.handleStoreChange);
+      this.sampleTimer = setInterval(() => {
+        this.sample();
+      }, ExposureTracker.SAMPLE_INTERVAL_MS);
+
+      this.isInitialized = true;
+      console.log(`[ExposureTracker] Initialized, today's dose ${Math.round(this.getToday().dose * 100)}%`);
+
+      await this.sample();
+    } catch (error) {
+      console.error('[ExposureTracker] Initialization failed:', error);
+      throw new Error(`Exposure tracker initialization failed: ${error}`);
+    }
+  }
+
+  /**
+   * Stop tracking, crediting and saving the time since the last sample
+   */
+  public async dispose(): Promise<void> {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    this.credit(Date.now());
+    if (this.sampleTimer !== null) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = null;
+    }
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.isInitialized = false;
+
+    await this.saveHistory();
+  }
+
+  // ============================================================================
+  // SAMPLING
+  // ============================================================================
+
+  /**
+   * Credit the time since the last sample and re-check music activity
+   */
+  public async sample(): Promise<void> {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    let musicActive = false;
+    try {
+      musicActive = await VolumeBoosterModule.isMusicActive();
+    } catch (error) {
+      console.warn('[ExposureTracker] Failed to check music activity:', error);
+    }
+
+    this.credit(Date.now());
+    this.snapshot = { ...this.snapshot, musicActive };
+
+    await this.saveHistory();
+    await this.checkLimit();
+  }
+
+  /**
+   * Credit elapsed time at the previous level whenever the level changes
+   */
+  private handleStoreChange = (): void => {
+    const next = this.readLevel(audioStore.getState());
+    if (next.levelDb === this.snapshot.levelDb && next.boosted === this.snapshot.boosted) {
+      return;
+    }
+
+    this.credit(Date.now());
+    this.snapshot = { ...this.snapshot, ...next };
+  };
+
+  private readLevel(state: AudioState): Pick<ListeningSnapshot, 'levelDb' | 'boosted'> {
+    const boost = appliedBoostOf(state);
+    const { volume, device } = state.actual;
+    const { boostCurve, maxBoostGainDb } = savedBoostCurve();
+    return {
+      levelDb: volume === null ? null : estimateListeningLevel(volume, boost, device, boostCurve, maxBoostGainDb),
+      boosted: boost > 0,
+    };
+  }
+
+  /**
+   * Add the time since the last credit to today's totals
+   *
+   * Gaps longer than two sample intervals mean JS was suspended; only one
+   * interval is credited for them, since playback state is unknown.
+   */
+  private credit(now: number): void {
+    const elapsed = Math.min(now - this.creditedUntil, 2 * ExposureTracker.SAMPLE_INTERVAL_MS);
+    this.creditedUntil = now;
+
+    const { levelDb, boosted, musicActive } = this.snapshot;
+    if (!musicActive || levelDb === null || elapsed <= 0 || !this.isTrackingEnabled()) {
+      return;
+    }
+
+    const day = this.getDay(localDateKey(now));
+    const levelKey = String(Math.round(levelDb));
+
+    day.dose += exposureDose(levelDb, elapsed);
+    day.listeningMs += elapsed;
+    day.boostedMs += boosted ? elapsed : 0;
+    day.levels[levelKey] = (day.levels[levelKey] ?? 0) + elapsed;
+
+    this.notifyChangeListeners('updated');
+  }
+
+  /**
+   * Apply the exposure action the first time today's dose reaches the limit
+   */
+  private async checkLimit(): Promise<void> {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    if (!this.isTrackingEnabled()) {
+      return;
+    }
+
+    const today = this.getDay(localDateKey(Date.now()));
+    const limit = settingsManagerInstance.getSetting('exposureLimitPercent') / 100;
+    if (today.limitReachedAt !== null || today.dose < limit) {
+      return;
+    }
+
+    today.limitReachedAt = Date.now();
+    await this.saveHistory();
+    console.warn(`[ExposureTracker] Daily dose reached ${Math.round(today.dose * 100)}%`);
+
+    if (settingsManagerInstance.getSetting('exposureAction') === 'reduceBoost') {
+      await this.reduceBoost();
+    }
+    this.notifyChangeListeners('limitReached');
+  }
+
+  /**
+   * Fade boost out and save it as disabled, keeping the saved level
+   */
+  private async reduceBoost(): Promise<void> {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const settings = settingsManagerInstance.getAllSettings();
+    if (!settings.boostEnabled) {
+      return;
+    }
+
+    try {
+      await boostRamp.rampTo(0, {
+        durationMs: settings.rampDurationMs,
+        curve: settings.rampCurve,
+        from: appliedBoostOf(audioStore.getState()),
+      });
+    } catch (error) {
+      console.warn('[ExposureTracker] Boost fade-out failed:', error);
+    }
+
+    await settingsManagerInstance.setSetting('boostEnabled', false);
+    await pushAudioSettingsToNative({ ...settings, boostEnabled: false });
+    console.log('[ExposureTracker] Boost disabled after reaching the daily limit');
+  }
+
+  // ============================================================================
+  // TOTALS
+  // ============================================================================
+
+  /**
+   * Totals for today
+   */
+  public getToday(): DailyExposure {
+    const date = localDateKey(Date.now());
+    return this.copyDay(this.history[date] ?? emptyDay(date));
+  }
+
+  /**
+   * Saved daily totals, most recent first
+   */
+  public getHistory(): DailyExposure[] {
+    return Object.values(this.history)
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map(day => this.copyDay(day));
+  }
+
+  /**
+   * Clear today's totals
+   */
+  public async resetToday(): Promise<void> {
+    delete this.history[localDateKey(Date.now())];
+    await this.saveHistory();
+    this.notifyChangeListeners('reset');
+  }
+
+  private getDay(date: string): DailyExposure {
+    if (!this.history[date]) {
+      this.history[date] = emptyDay(date);
+    }
+    return this.history[date];
+  }
+
+  private copyDay(day: DailyExposure): DailyExposure {
+    return { ...day, levels: { ...day.levels } };
+  }
+
+  private isTrackingEnabled(): boolean {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    return settingsManagerInstance.isReady() && settingsManagerInstance.getSetting('exposureTrackingEnabled');
+  }
+
+  /**
+   * Save totals, dropping days older than HISTORY_DAYS
+   */
+  private async saveHistory(): Promise<boolean> {
+    const dates = Object.keys(this.history).sort().reverse();
+    dates.slice(ExposureTracker.HISTORY_DAYS).forEach(date => {
+      delete this.history[date];
+    });
+
+    const result = await storageManager.setItem(this.storageKey, this.history);
+    if (!result.success) {
+      console.error('[ExposureTracker] Failed to save exposure totals:', result.error);
+    }
+    return result.success;
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: ExposureChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: ExposureChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Notify all change listeners
+   */
+  private notifyChangeListeners(type: ExposureChangeEvent['type']): void {
+    const event: ExposureChangeEvent = {
+      type,
+      today: this.getToday(),
+      timestamp: Date.now(),
+    };
+
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[ExposureTracker] Error in change listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check if the exposure tracker is running
+   */
+  public isReady(): boolean {
+    return this.isInitialized;
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const exposureTracker = ExposureTracker.getInstance();
@@ -0,0 +1,170 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule, NotificationActionEvent } from '../modules/VolumeBoosterModule';
+import { subscribeShared } from '../hooks/nativeEventHub';
+import { AppSettings, SettingsChangeEvent, SettingsManager } from '../storage/SettingsManager';
+import { presetManager, presetMatchesSettings } from '../storage/PresetManager';
+import { safetyLockManager } from '../storage/SafetyLockManager';
+import { pushAudioSettingsToNative, pushBoostLimitsToNative } from '../storage/nativeSync';
+import { audioStore } from '../store/AudioStore';
+
+/**
+ * Notification Sync
+ *
+ * Keeps the settings in step with the background service notification
+ * controls. Boost -/+ and the boost toggle are applied by the service
+ * before it reports them, moving through boost steps that are capped at the
+ * safety lock and mapped with the boost curve, and are resent here whenever
+ * the cap or curve changes. The change is then saved and
+ * pushed back to the native module. Preset cycling and stopping the service
+ * need the JS side and are carried out here.
+ *
+ * Actions are handled one at a time in the order they were pressed.
+ */
+export class NotificationSync {
+  private static instance: NotificationSync;
+  private unsubscribe: (() => void) | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of NotificationSync
+   */
+  public static getInstance(): NotificationSync {
+    if (!NotificationSync.instance) {
+      NotificationSync.instance = new NotificationSync();
+    }
+    return NotificationSync.instance;
+  }
+
+  /**
+   * Start following the notification controls
+   *
+   * Expects storage to be initialized. Does nothing on platforms without the
+   * native module.
+   */
+  public initialize(): void {
+    if (this.unsubscribe || Platform.OS !== 'android') {
+      return;
+    }
+
+    this.unsubscribe = subscribeShared('notificationAction', event => {
+      this.queue = this.queue.then(() => this.handleAction(event));
+    });
+    SettingsManager.getInstance().addChangeListener(this.handleSettingsChange);
+    safetyLockManager.addChangeListener(this.handleLimitsChange);
+    this.handleLimitsChange();
+    console.log('[NotificationSync] Following notification controls');
+  }
+
+  /**
+   * Stop following the notification controls
+   */
+  public dispose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    SettingsManager.getInstance().removeChangeListener(this.handleSettingsChange);
+    safetyLockManager.removeChangeListener(this.handleLimitsChange);
+  }
+
+  /**
+   * Resolves once every action received so far has been handled
+   */
+  public whenIdle(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * Resend the boost limits when the curve or the device's max gain changes
+   */
+  private handleSettingsChange = (event: SettingsChangeEvent): void => {
+    if (event.key === 'boostCurve' || event.key === 'maxBoostGainDb') {
+      this.handleLimitsChange();
+    }
+  };
+
+  /**
+   * Resend the boost limits, queued behind the notification actions
+   */
+  private handleLimitsChange = (): void => {
+    this.queue = this.queue.then(() => pushBoostLimitsToNative());
+  };
+
+  private async handleAction(event: NotificationActionEvent): Promise<void> {
+    console.log(`[NotificationSync] Notification action '${event.action}'`);
+
+    try {
+      switch (event.action) {
+        case 'boostDown':
+        case 'boostUp': {
+          const { maxBoost } = SettingsManager.getInstance().getSafetyLimits();
+          await this.saveAndPush({ boost: Math.min(event.boostLevel, maxBoost) });
+          break;
+        }
+        case 'toggleBoost':
+          await this.saveAndPush({ boostEnabled: event.enabled });
+          break;
+        case 'cyclePreset':
+          await this.applyNextPreset();
+          break;
+        case 'stopService':
+          await this.stopService();
+          break;
+      }
+    } catch (error) {
+      console.error(`[NotificationSync] Failed to handle '${event.action}':`, error);
+    }
+  }
+
+  /**
+   * Save a change made from the notification and push the saved settings back
+   *
+   * A rejected change is pushed back too, which undoes it natively.
+   */
+  private async saveAndPush(changes: Partial<AppSettings>): Promise<void> {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const result = await settingsManagerInstance.setMultipleSettings(changes);
+    if (!result.success) {
+      console.error('[NotificationSync] Notification change rejected:', result.errors);
+    }
+
+    await pushAudioSettingsToNative(settingsManagerInstance.getAllSettings());
+  }
+
+  /**
+   * Apply the preset after the one matching the current settings, or the first
+   */
+  private async applyNextPreset(): Promise<void> {
+    const presets = presetManager.getPresets();
+    if (presets.length === 0) {
+      console.log('[NotificationSync] No presets to cycle through');
+      return;
+    }
+
+    const settings = SettingsManager.getInstance().getAllSettings();
+    const current = presets.findIndex(preset => presetMatchesSettings(preset, settings));
+    const next = presets[(current + 1) % presets.length];
+
+    await presetManager.applyPreset(next.id);
+  }
+
+  /**
+   * Turn background mode off and save it, which stops the service and unbinds from it
+   */
+  private async stopService(): Promise<void> {
+    await SettingsManager.getInstance().setSetting('backgroundModeEnabled', false);
+    const enabled = await VolumeBoosterModule.setBackgroundMode(false);
+    audioStore.updateActual({
+      backgroundModeEnabled: enabled,
+      serviceRunning: await VolumeBoosterModule.isBackgroundServiceRunning(),
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const notificationSync = NotificationSync.getInstance();
@@ -0,0 +1,205 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule, TestSignalOptions, TestSignalWaveform } from '../modules/VolumeBoosterModule';
+import { subscribeShared } from '../hooks/nativeEventHub';
+
+/**
+ * Options used for anything not given to play()
+ */
+export const TEST_SIGNAL_DEFAULTS: TestSignalOptions = {
+  waveform: 'sine',
+  frequency: 440,
+  durationMs: 3000,
+  levelDb: -12,
+};
+
+/**
+ * Ranges accepted by the native generator
+ */
+export const TEST_SIGNAL_LIMITS = {
+  frequency: { min: 20, max: 20000 },
+  durationMs: { min: 100, max: 60000 },
+  levelDb: { min: -60, max: 0 },
+} as const;
+
+const WAVEFORMS: TestSignalWaveform[] = ['sine', 'pinkNoise', 'sweep'];
+
+/**
+ * Fill in defaults and clamp options to the generator's ranges
+ */
+export const normalizeTestSignalOptions = (options: Partial<TestSignalOptions> = {}): TestSignalOptions => {
+  const merged = { ...TEST_SIGNAL_DEFAULTS, ...options };
+  const clamp = (value: number, range: { min: number; max: number }) =>
+    Math.min(range.max, Math.max(range.min, value));
+
+  return {
+    waveform: WAVEFORMS.includes(merged.waveform) ? merged.waveform : TEST_SIGNAL_DEFAULTS.waveform,
+    frequency: clamp(merged.frequency, TEST_SIGNAL_LIMITS.frequency),
+    durationMs: Math.round(clamp(merged.durationMs, TEST_SIGNAL_LIMITS.durationMs)),
+    levelDb: clamp(merged.levelDb, TEST_SIGNAL_LIMITS.levelDb),
+  };
+};
+
+/**
+ * Result of a test signal operation
+ */
+export interface TestSignalResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Test signal playback state
+ */
+export interface TestSignalState {
+  /** Whether a test signal is playing */
+  playing: boolean;
+
+  /** Options of the signal playing, or of the last one played */
+  options: TestSignalOptions | null;
+}
+
+/**
+ * Test signal change event interface
+ */
+export interface TestSignalChangeEvent {
+  state: TestSignalState;
+  timestamp: number;
+}
+
+/**
+ * Test Signal Player
+ *
+ * Plays sine tones, pink noise and sweeps through the native generator, so
+ * boost can be checked on any output without an audio file. Signals play on
+ * the app's audio session, so they are boosted in app-only mode as well.
+ * The playing state follows the native 'testSignalStateChanged' event.
+ */
+export class TestSignalPlayer {
+  private static instance: TestSignalPlayer;
+  private state: TestSignalState = { playing: false, options: null };
+  private changeListeners: Array<(event: TestSignalChangeEvent) => void> = [];
+  private unsubscribeNative: (() => void) | null = null;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of TestSignalPlayer
+   */
+  public static getInstance(): TestSignalPlayer {
+    if (!TestSignalPlayer.instance) {
+      TestSignalPlayer.instance = new TestSignalPlayer();
+    }
+    return TestSignalPlayer.instance;
+  }
+
+  /**
+   * Start following the native playback state
+   */
+  public initialize(): void {
+    if (this.unsubscribeNative) {
+      return;
+    }
+
+    this.unsubscribeNative = subscribeShared('testSignalStateChanged', event => {
+      if (event.playing !== this.state.playing) {
+        console.log(`[TestSignalPlayer] Test signal ${event.playing ? 'started' : 'ended'} (${event.waveform})`);
+        this.setState({ playing: event.playing });
+      }
+    });
+  }
+
+  /**
+   * Stop following the native playback state
+   */
+  public dispose(): void {
+    this.unsubscribeNative?.();
+    this.unsubscribeNative = null;
+    this.setState({ playing: false, options: null });
+  }
+
+  /**
+   * Play a test signal, replacing any signal already playing
+   *
+   * @param options Signal options; missing ones use TEST_SIGNAL_DEFAULTS and
+   *   out-of-range ones are clamped
+   */
+  public async play(options: Partial<TestSignalOptions> = {}): Promise<TestSignalResult> {
+    if (Platform.OS !== 'android') {
+      return { success: false, error: 'Test signals are only available on Android' };
+    }
+
+    this.initialize();
+    const normalized = normalizeTestSignalOptions(options);
+
+    try {
+      await VolumeBoosterModule.playTestSignal(normalized);
+      this.setState({ options: normalized });
+      return { success: true };
+    } catch (error) {
+      console.error('[TestSignalPlayer] Failed to play test signal:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Stop the test signal, if one is playing
+   */
+  public async stop(): Promise<TestSignalResult> {
+    try {
+      await VolumeBoosterModule.stopTestSignal();
+      return { success: true };
+    } catch (error) {
+      console.error('[TestSignalPlayer] Failed to stop test signal:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Current playback state
+   */
+  public getState(): TestSignalState {
+    return { ...this.state };
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: TestSignalChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: TestSignalChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  private setState(patch: Partial<TestSignalState>): void {
+    this.state = { ...this.state, ...patch };
+
+    const event: TestSignalChangeEvent = { state: this.getState(), timestamp: Date.now() };
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[TestSignalPlayer] Error in change listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const testSignalPlayer = TestSignalPlayer.getInstance();
@@ -0,0 +1,376 @@
+import { storageManager } from './StorageManager';
+import type { PresetSettings } from './PresetManager';
+
+/**
+ * What a rule does while its time window is active
+ *
+ * - applyPreset: apply a saved preset
+ * - setBoost: enable boost at the given level
+ * - disableBoost: turn boost off
+ */
+export type BoostRuleAction =
+  | { type: 'applyPreset'; presetId: string }
+  | { type: 'setBoost'; boost: number }
+  | { type: 'disableBoost' };
+
+/**
+ * Scheduled boost rule
+ *
+ * The window starts at startMinute on each of the weekdays and ends at
+ * endMinute, on the next day when endMinute is not after startMinute
+ * (e.g. 22:00 - 07:00). Earlier rules in the list win when windows overlap.
+ */
+export interface BoostRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+
+  /** Start of the window in minutes after midnight (0-1439) */
+  startMinute: number;
+
+  /** End of the window in minutes after midnight (0-1439) */
+  endMinute: number;
+
+  /** Days the window starts on, 0 = Sunday ... 6 = Saturday */
+  weekdays: number[];
+
+  action: BoostRuleAction;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Fields given when creating or editing a rule
+ */
+export type BoostRuleInput = Pick<BoostRule, 'name' | 'enabled' | 'startMinute' | 'endMinute' | 'weekdays' | 'action'>;
+
+/**
+ * Rule currently in effect and the settings to restore when its window ends
+ */
+export interface BoostRuleScheduleState {
+  activeRuleId: string | null;
+
+  /** Values the rules changed, as they were before the first rule started */
+  restoreSettings: Partial<PresetSettings> | null;
+}
+
+/**
+ * Rule change event interface
+ */
+export interface BoostRuleChangeEvent {
+  type: 'created' | 'updated' | 'deleted' | 'replaced';
+  rule: BoostRule | null;
+  rules: BoostRule[];
+  timestamp: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const isMinuteOfDay = (value: unknown): boolean => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < MINUTES_PER_DAY;
+};
+
+/**
+ * Check whether a value is a well-formed rule action
+ */
+export const isBoostRuleAction = (value: unknown): value is BoostRuleAction => {
+  const action = value as BoostRuleAction;
+  if (typeof action !== 'object' || action === null) {
+    return false;
+  }
+
+  switch (action.type) {
+    case 'applyPreset':
+      return typeof action.presetId === 'string';
+    case 'setBoost':
+      return typeof action.boost === 'number' && action.boost >= 0 && action.boost <= 200;
+    case 'disableBoost':
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Check whether the editable fields of a rule are valid
+ */
+export const isBoostRuleInput = (value: unknown): value is BoostRuleInput => {
+  const rule = value as BoostRuleInput;
+  return (
+    typeof rule === 'object' &&
+    rule !== null &&
+    typeof rule.name === 'string' &&
+    typeof rule.enabled === 'boolean' &&
+    isMinuteOfDay(rule.startMinute) &&
+    isMinuteOfDay(rule.endMinute) &&
+    Array.isArray(rule.weekdays) &&
+    rule.weekdays.length > 0 &&
+    rule.weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6) &&
+    isBoostRuleAction(rule.action)
+  );
+};
+
+/**
+ * Check whether a value is a well-formed stored rule
+ */
+export const isBoostRule = (value: unknown): value is BoostRule => {
+  const rule = value as BoostRule;
+  return isBoostRuleInput(value) && typeof rule.id === 'string';
+};
+
+/**
+ * Boost Rule Manager Class
+ *
+ * Stores the ordered list of scheduled boost rules and the state of the
+ * rule in effect. BoostScheduler evaluates the rules; this class only
+ * persists them.
+ */
+export class BoostRuleManager {
+  private static instance: BoostRuleManager;
+  private rules: BoostRule[] = [];
+  private scheduleState: BoostRuleScheduleState = { activeRuleId: null, restoreSettings: null };
+  private storageKey: string = '@VolumeBooster_BoostRules_v1';
+  private stateStorageKey: string = '@VolumeBooster_BoostRuleState_v1';
+  private changeListeners: Array<(event: BoostRuleChangeEvent) => void> = [];
+  private isInitialized: boolean = false;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of BoostRuleManager
+   */
+  public static getInstance(): BoostRuleManager {
+    if (!BoostRuleManager.instance) {
+      BoostRuleManager.instance = new BoostRuleManager();
+    }
+    return BoostRuleManager.instance;
+  }
+
+  /**
+   * Initialize the rule manager
+   *
+   * Rules that fail validation are dropped.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      console.log('[BoostRuleManager] Initializing...');
+
+      const result = await storageManager.getItem<unknown[]>(this.storageKey);
+      const stored = result.success && Array.isArray(result.data) ? result.data : [];
+      this.rules = stored.filter(isBoostRule);
+      if (this.rules.length < stored.length) {
+        console.warn(`[BoostRuleManager] Dropped ${stored.length - this.rules.length} invalid rules`);
+      }
+
+      const stateResult = await storageManager.getItem<BoostRuleScheduleState>(this.stateStorageKey);
+      if (stateResult.success && stateResult.data) {
+        this.scheduleState = { ...stateResult.data };
+      }
+
+      this.isInitialized = true;
+      console.log(`[BoostRuleManager] Initialized with ${this.rules.length} rules`);
+    } catch (error) {
+      console.error('[BoostRuleManager] Initialization failed:', error);
+      throw new Error(`Boost rule initialization failed: ${error}`);
+    }
+  }
+
+  /**
+   * Save rules to storage
+   */
+  private async saveRules(): Promise<boolean> {
+    const result = await storageManager.setItem(this.storageKey, this.rules);
+
+    if (!result.success) {
+      console.error('[BoostRuleManager] Failed to save rules:', result.error);
+    }
+    return result.success;
+  }
+
+  /**
+   * Generate a unique rule id
+   */
+  private generateId(): string {
+    return `rule_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /**
+   * Get all rules in priority order
+   */
+  public getRules(): BoostRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Get a rule by id
+   */
+  public getRule(id: string): BoostRule | null {
+    return this.rules.find(rule => rule.id === id) ?? null;
+  }
+
+  /**
+   * Create a rule at the end of the list
+   */
+  public async createRule(input: BoostRuleInput): Promise<BoostRule | null> {
+    if (!this.isInitialized) {
+      console.error('[BoostRuleManager] Rule manager not initialized');
+      return null;
+    }
+
+    if (!isBoostRuleInput(input)) {
+      console.error('[BoostRuleManager] Invalid rule:', input);
+      return null;
+    }
+
+    const now = Date.now();
+    const rule: BoostRule = {
+      ...input,
+      id: this.generateId(),
+      name: input.name.trim(),
+      weekdays: [...new Set(input.weekdays)].sort((a, b) => a - b),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.rules.push(rule);
+    await this.saveRules();
+    this.notifyChangeListeners('created', rule);
+
+    console.log(`[BoostRuleManager] Rule '${rule.name}' created`);
+    return rule;
+  }
+
+  /**
+   * Change the editable fields of a rule
+   */
+  public async updateRule(id: string, changes: Partial<BoostRuleInput>): Promise<boolean> {
+    const index = this.rules.findIndex(rule => rule.id === id);
+    if (index === -1) {
+      console.error('[BoostRuleManager] Cannot update unknown rule:', id);
+      return false;
+    }
+
+    const updated: BoostRule = { ...this.rules[index], ...changes, updatedAt: Date.now() };
+    if (!isBoostRule(updated)) {
+      console.error('[BoostRuleManager] Invalid rule changes:', changes);
+      return false;
+    }
+
+    this.rules[index] = { ...updated, weekdays: [...new Set(updated.weekdays)].sort((a, b) => a - b) };
+    await this.saveRules();
+    this.notifyChangeListeners('updated', this.rules[index]);
+    return true;
+  }
+
+  /**
+   * Delete a rule
+   */
+  public async deleteRule(id: string): Promise<boolean> {
+    const index = this.rules.findIndex(rule => rule.id === id);
+
+    if (index === -1) {
+      console.error('[BoostRuleManager] Cannot delete unknown rule:', id);
+      return false;
+    }
+
+    const [rule] = this.rules.splice(index, 1);
+    await this.saveRules();
+    this.notifyChangeListeners('deleted', rule);
+    return true;
+  }
+
+  /**
+   * Replace the whole rule list
+   */
+  public async replaceRules(rules: BoostRule[]): Promise<boolean> {
+    if (!this.isInitialized) {
+      console.error('[BoostRuleManager] Rule manager not initialized');
+      return false;
+    }
+
+    this.rules = rules.filter(isBoostRule).map(rule => ({ ...rule, weekdays: [...rule.weekdays] }));
+    const success = await this.saveRules();
+    this.notifyChangeListeners('replaced', null);
+    return success;
+  }
+
+  // ============================================================================
+  // SCHEDULE STATE
+  // ============================================================================
+
+  /**
+   * Rule currently in effect and the settings saved when it started
+   */
+  public getScheduleState(): BoostRuleScheduleState {
+    return { ...this.scheduleState };
+  }
+
+  /**
+   * Save the rule in effect, so it survives the app being killed
+   */
+  public async saveScheduleState(state: BoostRuleScheduleState): Promise<boolean> {
+    this.scheduleState = { ...state };
+    const result = await storageManager.setItem(this.stateStorageKey, this.scheduleState);
+
+    if (!result.success) {
+      console.error('[BoostRuleManager] Failed to save schedule state:', result.error);
+    }
+    return result.success;
+  }
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: BoostRuleChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: BoostRuleChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Notify all change listeners
+   */
+  private notifyChangeListeners(type: BoostRuleChangeEvent['type'], rule: BoostRule | null): void {
+    const event: BoostRuleChangeEvent = {
+      type,
+      rule,
+      rules: this.getRules(),
+      timestamp: Date.now(),
+    };
+
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[BoostRuleManager] Error in change listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check if rule manager is initialized
+   */
+  public isReady(): boolean {
+    return this.isInitialized;
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const boostRuleManager = BoostRuleManager.getInstance();
@@ -0,0 +1,411 @@
+import { storageManager } from './StorageManager';
+import { settingsManager, AppSettings, SettingsChangeEvent } from './SettingsManager';
+import { pushAudioSettingsToNative } from './nativeSync';
+import type { AudioDeviceInfo } from '../modules/VolumeBoosterModule';
+
+/**
+ * Settings remembered for each output device
+ *
+ * Profiles saved before the equalizer or the max boost gain existed lack
+ * those fields; switching to them keeps the current values.
+ */
+export type DeviceProfileSettings = Pick<AppSettings, 'volume' | 'boost' | 'boostEnabled' | 'gradualBoost'> &
+  Partial<Pick<AppSettings, 'equalizerEnabled' | 'equalizerPreset' | 'equalizerCustomLevels' | 'maxBoostGainDb'>>;
+
+/**
+ * Device profile interface - one entry per output device
+ */
+export interface DeviceProfile {
+  key: string;
+  deviceName: string;
+  deviceType: string;
+  deviceId: number;
+  settings: DeviceProfileSettings;
+  updatedAt: number;
+}
+
+/**
+ * Device profile change event interface
+ */
+export interface DeviceProfileChangeEvent {
+  type: 'activated' | 'updated' | 'removed' | 'replaced';
+  profile: DeviceProfile | null;
+  previousKey: string | null;
+  timestamp: number;
+}
+
+/**
+ * Device type reported by the native module for the built-in speaker
+ */
+const SPEAKER_DEVICE_TYPE = 'Device Speaker';
+
+/**
+ * Keys of AppSettings that are tracked per device
+ */
+const PROFILE_SETTING_KEYS: Array<keyof DeviceProfileSettings> = [
+  'volume',
+  'boost',
+  'boostEnabled',
+  'gradualBoost',
+  'equalizerEnabled',
+  'equalizerPreset',
+  'equalizerCustomLevels',
+  'maxBoostGainDb',
+];
+
+/**
+ * Build the profile key for an audio device (type + name + id)
+ */
+export const getDeviceProfileKey = (device: AudioDeviceInfo): string => {
+  return `${device.type}:${device.name}:${device.id}`;
+};
+
+/**
+ * Check whether a value is a well-formed device profile (used when importing)
+ */
+export const isDeviceProfile = (value: unknown): value is DeviceProfile => {
+  const profile = value as DeviceProfile;
+  return (
+    typeof profile === 'object' &&
+    profile !== null &&
+    typeof profile.key === 'string' &&
+    typeof profile.deviceName === 'string' &&
+    typeof profile.deviceType === 'string' &&
+    typeof profile.deviceId === 'number' &&
+    typeof profile.settings === 'object' &&
+    profile.settings !== null &&
+    typeof profile.settings.volume === 'number' &&
+    typeof profile.settings.boost === 'number' &&
+    typeof profile.settings.boostEnabled === 'boolean' &&
+    typeof profile.settings.gradualBoost === 'boolean' &&
+    ['undefined', 'boolean'].includes(typeof profile.settings.equalizerEnabled) &&
+    ['undefined', 'string'].includes(typeof profile.settings.equalizerPreset) &&
+    (profile.settings.equalizerCustomLevels === undefined || Array.isArray(profile.settings.equalizerCustomLevels)) &&
+    ['undefined', 'number'].includes(typeof profile.settings.maxBoostGainDb)
+  );
+};
+
+/**
+ * Device Profile Manager Class
+ *
+ * Remembers boost, volume, gradual, equalizer and max boost gain settings per
+ * output device and switches the active settings when the audio output
+ * changes. The active values always flow through SettingsManager, so
+ * existing settings listeners see a profile switch as ordinary setting
+ * changes.
+ */
+export class DeviceProfileManager {
+  private static instance: DeviceProfileManager;
+  private profiles: Record<string, DeviceProfile> = {};
+  private activeKey: string | null = null;
+  private storageKey: string = '@VolumeBooster_DeviceProfiles_v1';
+  private changeListeners: Array<(event: DeviceProfileChangeEvent) => void> = [];
+  private isInitialized: boolean = false;
+  private isApplyingProfile: boolean = false;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of DeviceProfileManager
+   */
+  public static getInstance(): DeviceProfileManager {
+    if (!DeviceProfileManager.instance) {
+      DeviceProfileManager.instance = new DeviceProfileManager();
+    }
+    return DeviceProfileManager.instance;
+  }
+
+  /**
+   * Initialize the device profile manager
+   *
+   * Must run after SettingsManager has been initialized.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      console.log('[DeviceProfileManager] Initializing...');
+
+      await this.loadProfiles();
+      settingsManager.addChangeListener(this.handleSettingsChange);
+
+      this.isInitialized = true;
+      console.log('[DeviceProfileManager] Initialized with profiles:', Object.keys(this.profiles));
+    } catch (error) {
+      console.error('[DeviceProfileManager] Initialization failed:', error);
+      throw new Error(`Device profile initialization failed: ${error}`);
+    }
+  }
+
+  /**
+   * Load device profiles from storage
+   */
+  private async loadProfiles(): Promise<void> {
+    const result = await storageManager.getItem<Record<string, DeviceProfile>>(this.storageKey);
+
+    if (result.success && result.data && typeof result.data === 'object') {
+      this.profiles = { ...result.data };
+    } else {
+      this.profiles = {};
+    }
+  }
+
+  /**
+   * Save device profiles to storage
+   */
+  private async saveProfiles(): Promise<boolean> {
+    const result = await storageManager.setItem(this.storageKey, this.profiles);
+
+    if (!result.success) {
+      console.error('[DeviceProfileManager] Failed to save profiles:', result.error);
+    }
+    return result.success;
+  }
+
+  /**
+   * Record manual setting changes into the active device profile
+   */
+  private handleSettingsChange = (event: SettingsChangeEvent): void => {
+    if (this.isApplyingProfile || this.activeKey === null) {
+      return;
+    }
+
+    if (!PROFILE_SETTING_KEYS.includes(event.key as keyof DeviceProfileSettings)) {
+      return;
+    }
+
+    const profile = this.profiles[this.activeKey];
+    if (!profile) {
+      return;
+    }
+
+    this.profiles[this.activeKey] = {
+      ...profile,
+      settings: { ...profile.settings, [event.key]: event.newValue },
+      updatedAt: Date.now(),
+    };
+    this.saveProfiles().catch(error => {
+      console.error('[DeviceProfileManager] Failed to save profiles:', error);
+    });
+
+    this.notifyChangeListeners({
+      type: 'updated',
+      profile: this.profiles[this.activeKey],
+      previousKey: this.activeKey,
+      timestamp: Date.now(),
+    });
+  };
+
+  /**
+   * Snapshot the profile-tracked fields of the current settings
+   */
+  private captureCurrentSettings(): DeviceProfileSettings {
+    const settings = settingsManager.getAllSettings();
+    return {
+      volume: settings.volume,
+      boost: settings.boost,
+      boostEnabled: settings.boostEnabled,
+      gradualBoost: settings.gradualBoost,
+      equalizerEnabled: settings.equalizerEnabled,
+      equalizerPreset: settings.equalizerPreset,
+      equalizerCustomLevels: settings.equalizerCustomLevels,
+      maxBoostGainDb: settings.maxBoostGainDb,
+    };
+  }
+
+  /**
+   * Find the most recently used speaker profile
+   */
+  private findSpeakerProfile(): DeviceProfile | null {
+    const speakerProfiles = Object.values(this.profiles)
+      .filter(profile => profile.deviceType === SPEAKER_DEVICE_TYPE)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    return speakerProfiles[0] ?? null;
+  }
+
+  /**
+   * Handle an audio output device change
+   *
+   * Switches to the profile of the new device, creating it from the current
+   * settings the first time a device is seen. When the device disconnects
+   * (null), falls back to the speaker profile.
+   */
+  public async handleDeviceChange(device: AudioDeviceInfo | null): Promise<void> {
+    if (!this.isInitialized) {
+      console.warn('[DeviceProfileManager] Device profile manager not initialized');
+      return;
+    }
+
+    const previousKey = this.activeKey;
+    let profile: DeviceProfile | null;
+    let isNewProfile = false;
+
+    if (device === null) {
+      profile = this.findSpeakerProfile();
+    } else {
+      const key = getDeviceProfileKey(device);
+      profile = this.profiles[key] ?? null;
+
+      if (!profile) {
+        profile = {
+          key,
+          deviceName: device.name,
+          deviceType: device.type,
+          deviceId: device.id,
+          settings: this.captureCurrentSettings(),
+          updatedAt: Date.now(),
+        };
+        this.profiles[key] = profile;
+        isNewProfile = true;
+        await this.saveProfiles();
+        console.log(`[DeviceProfileManager] Created profile for '${device.name}'`);
+      }
+    }
+
+    if (profile === null || profile.key === previousKey) {
+      return;
+    }
+
+    this.activeKey = profile.key;
+
+    // A freshly created profile already mirrors the current settings
+    if (!isNewProfile) {
+      await this.applyProfile(profile);
+    }
+
+    this.notifyChangeListeners({
+      type: 'activated',
+      profile,
+      previousKey,
+      timestamp: Date.now(),
+    });
+
+    console.log(`[DeviceProfileManager] Switched to profile '${profile.deviceName}'`);
+  }
+
+  /**
+   * Apply a profile's settings through SettingsManager and the native module
+   */
+  private async applyProfile(profile: DeviceProfile): Promise<void> {
+    this.isApplyingProfile = true;
+    try {
+      const settings = settingsManager.clampToSafetyLimits(profile.settings);
+      await settingsManager.setMultipleSettings(settings);
+      await pushAudioSettingsToNative(settings);
+    } finally {
+      this.isApplyingProfile = false;
+    }
+  }
+
+  /**
+   * Get the currently active profile
+   */
+  public getActiveProfile(): DeviceProfile | null {
+    return this.activeKey ? this.profiles[this.activeKey] ?? null : null;
+  }
+
+  /**
+   * Get all stored profiles
+   */
+  public getProfiles(): DeviceProfile[] {
+    return Object.values(this.profiles);
+  }
+
+  /**
+   * Remove a stored profile
+   */
+  public async removeProfile(key: string): Promise<boolean> {
+    const profile = this.profiles[key];
+    if (!profile) {
+      return false;
+    }
+
+    delete this.profiles[key];
+    if (this.activeKey === key) {
+      this.activeKey = null;
+    }
+    await this.saveProfiles();
+
+    this.notifyChangeListeners({
+      type: 'removed',
+      profile,
+      previousKey: key,
+      timestamp: Date.now(),
+    });
+    return true;
+  }
+
+  /**
+   * Replace all stored profiles (used by settings import)
+   *
+   * The active device keeps its key; if the imported set has no profile
+   * for it, a new one is created on the next device change.
+   */
+  public async replaceProfiles(profiles: DeviceProfile[]): Promise<boolean> {
+    this.profiles = {};
+    profiles.forEach(profile => {
+      this.profiles[profile.key] = { ...profile, settings: { ...profile.settings } };
+    });
+
+    if (this.activeKey !== null && !this.profiles[this.activeKey]) {
+      this.activeKey = null;
+    }
+    const success = await this.saveProfiles();
+
+    this.notifyChangeListeners({
+      type: 'replaced',
+      profile: this.getActiveProfile(),
+      previousKey: this.activeKey,
+      timestamp: Date.now(),
+    });
+    return success;
+  }
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: DeviceProfileChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: DeviceProfileChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Notify all change listeners
+   */
+  private notifyChangeListeners(event: DeviceProfileChangeEvent): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[DeviceProfileManager] Error in change listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check if device profile manager is initialized
+   */
+  public isReady(): boolean {
+    return this.isInitialized;
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const deviceProfileManager = DeviceProfileManager.getInstance();
@@ -0,0 +1,331 @@
+import { storageManager } from './StorageManager';
+import { settingsManager, AppSettings } from './SettingsManager';
+import { pushAudioSettingsToNative } from './nativeSync';
+
+/**
+ * Settings captured by a preset
+ */
+export type PresetSettings = Pick<AppSettings, 'volume' | 'boost' | 'boostEnabled' | 'gradualBoost'>;
+
+/**
+ * Boost preset interface - a named snapshot of settings
+ */
+export interface BoostPreset {
+  id: string;
+  name: string;
+  settings: PresetSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Preset change event interface
+ */
+export interface PresetChangeEvent {
+  type: 'created' | 'renamed' | 'reordered' | 'deleted' | 'applied' | 'replaced';
+  preset: BoostPreset | null;
+  presets: BoostPreset[];
+  timestamp: number;
+}
+
+/**
+ * Check whether a preset's settings match the given settings
+ */
+export const presetMatchesSettings = (preset: BoostPreset, settings: PresetSettings): boolean => {
+  return (
+    preset.settings.volume === settings.volume &&
+    preset.settings.boost === settings.boost &&
+    preset.settings.boostEnabled === settings.boostEnabled &&
+    preset.settings.gradualBoost === settings.gradualBoost
+  );
+};
+
+/**
+ * Check whether a value is a well-formed preset (used when importing)
+ */
+export const isBoostPreset = (value: unknown): value is BoostPreset => {
+  const preset = value as BoostPreset;
+  return (
+    typeof preset === 'object' &&
+    preset !== null &&
+    typeof preset.id === 'string' &&
+    typeof preset.name === 'string' &&
+    typeof preset.settings === 'object' &&
+    preset.settings !== null &&
+    typeof preset.settings.volume === 'number' &&
+    typeof preset.settings.boost === 'number' &&
+    typeof preset.settings.boostEnabled === 'boolean' &&
+    typeof preset.settings.gradualBoost === 'boolean'
+  );
+};
+
+/**
+ * Preset Manager Class
+ *
+ * Stores an ordered list of named boost presets. Applying a preset writes
+ * its values through SettingsManager.setMultipleSettings and pushes them
+ * to the native module.
+ */
+export class PresetManager {
+  private static instance: PresetManager;
+  private presets: BoostPreset[] = [];
+  private storageKey: string = '@VolumeBooster_Presets_v1';
+  private changeListeners: Array<(event: PresetChangeEvent) => void> = [];
+  private isInitialized: boolean = false;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of PresetManager
+   */
+  public static getInstance(): PresetManager {
+    if (!PresetManager.instance) {
+      PresetManager.instance = new PresetManager();
+    }
+    return PresetManager.instance;
+  }
+
+  /**
+   * Initialize the preset manager
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      console.log('[PresetManager] Initializing...');
+
+      const result = await storageManager.getItem<BoostPreset[]>(this.storageKey);
+      this.presets = result.success && Array.isArray(result.data) ? [...result.data] : [];
+
+      this.isInitialized = true;
+      console.log(`[PresetManager] Initialized with ${this.presets.length} presets`);
+    } catch (error) {
+      console.error('[PresetManager] Initialization failed:', error);
+      throw new Error(`Preset initialization failed: ${error}`);
+    }
+  }
+
+  /**
+   * Save presets to storage
+   */
+  private async savePresets(): Promise<boolean> {
+    const result = await storageManager.setItem(this.storageKey, this.presets);
+
+    if (!result.success) {
+      console.error('[PresetManager] Failed to save presets:', result.error);
+    }
+    return result.success;
+  }
+
+  /**
+   * Generate a unique preset id
+   */
+  private generateId(): string {
+    return `preset_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /**
+   * Get all presets in display order
+   */
+  public getPresets(): BoostPreset[] {
+    return [...this.presets];
+  }
+
+  /**
+   * Get a preset by id
+   */
+  public getPreset(id: string): BoostPreset | null {
+    return this.presets.find(preset => preset.id === id) ?? null;
+  }
+
+  /**
+   * Create a preset from the given settings (defaults to the current settings)
+   */
+  public async createPreset(name: string, settings?: PresetSettings): Promise<BoostPreset | null> {
+    if (!this.isInitialized) {
+      console.error('[PresetManager] Preset manager not initialized');
+      return null;
+    }
+
+    const trimmedName = name.trim();
+    if (trimmedName.length === 0) {
+      console.error('[PresetManager] Preset name must not be empty');
+      return null;
+    }
+
+    const current = settingsManager.getAllSettings();
+    const now = Date.now();
+    const preset: BoostPreset = {
+      id: this.generateId(),
+      name: trimmedName,
+      settings: settings ?? {
+        volume: current.volume,
+        boost: current.boost,
+        boostEnabled: current.boostEnabled,
+        gradualBoost: current.gradualBoost,
+      },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.presets.push(preset);
+    await this.savePresets();
+    this.notifyChangeListeners('created', preset);
+
+    console.log(`[PresetManager] Preset '${trimmedName}' created`);
+    return preset;
+  }
+
+  /**
+   * Rename a preset
+   */
+  public async renamePreset(id: string, name: string): Promise<boolean> {
+    const index = this.presets.findIndex(preset => preset.id === id);
+    const trimmedName = name.trim();
+
+    if (index === -1 || trimmedName.length === 0) {
+      console.error('[PresetManager] Cannot rename preset:', id);
+      return false;
+    }
+
+    this.presets[index] = { ...this.presets[index], name: trimmedName, updatedAt: Date.now() };
+    await this.savePresets();
+    this.notifyChangeListeners('renamed', this.presets[index]);
+    return true;
+  }
+
+  /**
+   * Move a preset to a new position in the list
+   */
+  public async movePreset(id: string, toIndex: number): Promise<boolean> {
+    const fromIndex = this.presets.findIndex(preset => preset.id === id);
+
+    if (fromIndex === -1) {
+      console.error('[PresetManager] Cannot move unknown preset:', id);
+      return false;
+    }
+
+    const targetIndex = Math.max(0, Math.min(toIndex, this.presets.length - 1));
+    const [preset] = this.presets.splice(fromIndex, 1);
+    this.presets.splice(targetIndex, 0, preset);
+
+    await this.savePresets();
+    this.notifyChangeListeners('reordered', preset);
+    return true;
+  }
+
+  /**
+   * Delete a preset
+   */
+  public async deletePreset(id: string): Promise<boolean> {
+    const index = this.presets.findIndex(preset => preset.id === id);
+
+    if (index === -1) {
+      console.error('[PresetManager] Cannot delete unknown preset:', id);
+      return false;
+    }
+
+    const [preset] = this.presets.splice(index, 1);
+    await this.savePresets();
+    this.notifyChangeListeners('deleted', preset);
+    return true;
+  }
+
+  /**
+   * Apply a preset
+   *
+   * Writes the preset values through setMultipleSettings, so listeners fire
+   * once per changed key, then pushes them to the native module.
+   */
+  public async applyPreset(id: string): Promise<boolean> {
+    const preset = this.getPreset(id);
+
+    if (!preset) {
+      console.error('[PresetManager] Cannot apply unknown preset:', id);
+      return false;
+    }
+
+    // Presets saved before a safety lock was set are capped, not rejected
+    const settings = settingsManager.clampToSafetyLimits(preset.settings);
+    const result = await settingsManager.setMultipleSettings(settings);
+    if (!result.success) {
+      console.error(`[PresetManager] Preset '${preset.name}' rejected:`, result.errors);
+      return false;
+    }
+
+    await pushAudioSettingsToNative(settings);
+    this.notifyChangeListeners('applied', preset);
+
+    console.log(`[PresetManager] Preset '${preset.name}' applied`);
+    return true;
+  }
+
+  /**
+   * Replace the whole preset list (used by settings import)
+   */
+  public async replacePresets(presets: BoostPreset[]): Promise<boolean> {
+    if (!this.isInitialized) {
+      console.error('[PresetManager] Preset manager not initialized');
+      return false;
+    }
+
+    this.presets = presets.map(preset => ({ ...preset, settings: { ...preset.settings } }));
+    const success = await this.savePresets();
+    this.notifyChangeListeners('replaced', null);
+    return success;
+  }
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: PresetChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: PresetChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Notify all change listeners
+   */
+  private notifyChangeListeners(type: PresetChangeEvent['type'], preset: BoostPreset | null): void {
+    const event: PresetChangeEvent = {
+      type,
+      preset,
+      presets: this.getPresets(),
+      timestamp: Date.now(),
+    };
+
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[PresetManager] Error in change listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check if preset manager is initialized
+   */
+  public isReady(): boolean {
+    return this.isInitialized;
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const presetManager = PresetManager.getInstance();
@@ -0,0 +1,360 @@
+import { storageManager } from './StorageManager';
+import { settingsManager } from './SettingsManager';
+import { settingsSchema } from './SettingsSchema';
+import { pushAudioSettingsToNative } from './nativeSync';
+import { sha256 } from './sha256';
+
+/**
+ * Administrator caps enforced while the safety lock is set
+ */
+export interface SafetyLimits {
+  /** Highest boost level that can be saved or applied (0-200%) */
+  maxBoost: number;
+
+  /** Highest device volume that can be saved or applied (0-100%) */
+  maxVolume: number;
+}
+
+/**
+ * Persisted lock: salted PIN hash, the caps it protects and the PIN
+ * attempt state, so restarting the app does not reset a lockout
+ */
+interface StoredSafetyLock {
+  pinHash: string;
+  salt: string;
+  limits: SafetyLimits;
+
+  /** Wrong PINs entered since the last correct one or lockout */
+  failedAttempts?: number;
+
+  /** Time until which PIN entries are refused, or 0 */
+  lockedOutUntil?: number;
+}
+
+/**
+ * Result of a safety lock operation
+ */
+export interface SafetyLockResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Safety lock change event interface
+ */
+export interface SafetyLockChangeEvent {
+  type: 'locked' | 'updated' | 'unlocked';
+  locked: boolean;
+  limits: SafetyLimits;
+  timestamp: number;
+}
+
+/**
+ * Wrong PIN entries allowed before further attempts are refused for a while
+ */
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 60 * 1000;
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+/**
+ * Salted PIN hash stored instead of the PIN
+ */
+const hashPin = (pin: string, salt: string): string => sha256(`${salt}:${pin}`);
+
+// ============================================================================
+// SAFETY LOCK MANAGER
+// ============================================================================
+
+/**
+ * Safety Lock Manager Class
+ *
+ * Stores administrator caps for boost and volume behind a PIN. The caps
+ * are handed to SettingsManager, which rejects higher values in
+ * setSetting/setMultipleSettings with a 'locked' error and lowers values
+ * applied from presets, device profiles and imports. The caps live under
+ * their own storage key, so they are not part of settings export/import.
+ */
+export class SafetyLockManager {
+  private static instance: SafetyLockManager;
+  private storageKey: string = '@VolumeBooster_SafetyLock_v1';
+  private lock: StoredSafetyLock | null = null;
+  private changeListeners: Array<(event: SafetyLockChangeEvent) => void> = [];
+  private isInitialized: boolean = false;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get singleton instance of SafetyLockManager
+   */
+  public static getInstance(): SafetyLockManager {
+    if (!SafetyLockManager.instance) {
+      SafetyLockManager.instance = new SafetyLockManager();
+    }
+    return SafetyLockManager.instance;
+  }
+
+  /**
+   * Initialize the safety lock manager
+   *
+   * Must run after SettingsManager; applies the stored caps to it.
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      console.log('[SafetyLockManager] Initializing...');
+
+      const result = await storageManager.getItem<StoredSafetyLock>(this.storageKey);
+      this.lock = result.success && this.isStoredLock(result.data) ? result.data : null;
+
+      await this.applyLimits();
+
+      this.isInitialized = true;
+      console.log(`[SafetyLockManager] Initialized (${this.lock ? 'locked' : 'unlocked'})`);
+    } catch (error) {
+      console.error('[SafetyLockManager] Initialization failed:', error);
+      throw new Error(`Safety lock initialization failed: ${error}`);
+    }
+  }
+
+  /**
+   * Whether a safety lock is set
+   */
+  public isLocked(): boolean {
+    return this.lock !== null;
+  }
+
+  /**
+   * Active caps (schema maximums when unlocked)
+   */
+  public getLimits(): SafetyLimits {
+    return settingsManager.getSafetyLimits();
+  }
+
+  /**
+   * Set a new safety lock
+   *
+   * @param pin 4-8 digit PIN needed to change or remove the lock
+   * @param limits Caps to enforce
+   */
+  public async setLock(pin: string, limits: SafetyLimits): Promise<SafetyLockResult> {
+    if (this.lock) {
+      return { success: false, error: 'A safety lock is already set' };
+    }
+    if (!PIN_PATTERN.test(pin)) {
+      return { success: false, error: 'The PIN must be 4 to 8 digits' };
+    }
+
+    const limitsError = this.validateLimits(limits);
+    if (limitsError) {
+      return { success: false, error: limitsError };
+    }
+
+    const salt = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+    return this.saveLock({ pinHash: hashPin(pin, salt), salt, limits: { ...limits } }, 'locked');
+  }
+
+  /**
+   * Change the caps of the current lock
+   */
+  public async updateLimits(pin: string, limits: SafetyLimits): Promise<SafetyLockResult> {
+    const pinResult = await this.verifyPin(pin);
+    if (!pinResult.success || !this.lock) {
+      return pinResult;
+    }
+
+    const limitsError = this.validateLimits(limits);
+    if (limitsError) {
+      return { success: false, error: limitsError };
+    }
+
+    return this.saveLock({ ...this.lock, limits: { ...limits } }, 'updated');
+  }
+
+  /**
+   * Remove the lock, restoring the full boost and volume range
+   */
+  public async removeLock(pin: string): Promise<SafetyLockResult> {
+    const pinResult = await this.verifyPin(pin);
+    if (!pinResult.success) {
+      return pinResult;
+    }
+
+    const result = await storageManager.removeItem(this.storageKey);
+    if (!result.success) {
+      return { success: false, error: 'Failed to remove the safety lock' };
+    }
+
+    this.lock = null;
+    await this.applyLimits();
+    this.notifyChangeListeners('unlocked');
+    console.log('[SafetyLockManager] Safety lock removed');
+    return { success: true };
+  }
+
+  /**
+   * Check a PIN against the current lock
+   *
+   * Refuses further attempts for a minute after MAX_PIN_ATTEMPTS wrong PINs.
+   * The attempt count and lockout are saved with the lock.
+   */
+  public async verifyPin(pin: string): Promise<SafetyLockResult> {
+    const lock = this.lock;
+    if (!lock) {
+      return { success: false, error: 'No safety lock is set' };
+    }
+
+    const now = Date.now();
+    const lockedOutUntil = lock.lockedOutUntil ?? 0;
+    if (now < lockedOutUntil) {
+      const seconds = Math.ceil((lockedOutUntil - now) / 1000);
+      return { success: false, error: `Too many wrong PINs - try again in ${seconds}s` };
+    }
+
+    if (hashPin(pin, lock.salt) !== lock.pinHash) {
+      const failedAttempts = (lock.failedAttempts ?? 0) + 1;
+      await this.saveAttempts(
+        failedAttempts >= MAX_PIN_ATTEMPTS
+          ? { failedAttempts: 0, lockedOutUntil: now + PIN_LOCKOUT_MS }
+          : { failedAttempts, lockedOutUntil },
+      );
+      console.warn('[SafetyLockManager] Wrong PIN entered');
+      return { success: false, error: 'Wrong PIN' };
+    }
+
+    if (lock.failedAttempts || lockedOutUntil) {
+      await this.saveAttempts({ failedAttempts: 0, lockedOutUntil: 0 });
+    }
+    return { success: true };
+  }
+
+  /**
+   * Save the PIN attempt state with the lock
+   */
+  private async saveAttempts(attempts: Pick<StoredSafetyLock, 'failedAttempts' | 'lockedOutUntil'>): Promise<void> {
+    if (!this.lock) {
+      return;
+    }
+
+    this.lock = { ...this.lock, ...attempts };
+    const result = await storageManager.setItem(this.storageKey, this.lock);
+    if (!result.success) {
+      console.error('[SafetyLockManager] Failed to save PIN attempts:', result.error);
+    }
+  }
+
+  /**
+   * Save the lock and apply its caps
+   */
+  private async saveLock(lock: StoredSafetyLock, type: SafetyLockChangeEvent['type']): Promise<SafetyLockResult> {
+    const result = await storageManager.setItem(this.storageKey, lock);
+    if (!result.success) {
+      console.error('[SafetyLockManager] Failed to save safety lock:', result.error);
+      return { success: false, error: 'Failed to save the safety lock' };
+    }
+
+    this.lock = lock;
+    await this.applyLimits();
+    this.notifyChangeListeners(type);
+    console.log('[SafetyLockManager] Safety limits set:', lock.limits);
+    return { success: true };
+  }
+
+  /**
+   * Hand the caps to SettingsManager and follow any lowered settings natively
+   */
+  private async applyLimits(): Promise<void> {
+    const lowered = await settingsManager.setSafetyLimits(this.lock ? this.lock.limits : null);
+    if (lowered) {
+      await pushAudioSettingsToNative(settingsManager.getAllSettings());
+    }
+  }
+
+  /**
+   * Check caps against the schema ranges
+   */
+  private validateLimits(limits: SafetyLimits): string | null {
+    const { boost, volume } = settingsSchema;
+
+    if (!Number.isInteger(limits.maxBoost) || limits.maxBoost < boost.min || limits.maxBoost > boost.max) {
+      return `Maximum boost must be between ${boost.min} and ${boost.max}`;
+    }
+    if (!Number.isInteger(limits.maxVolume) || limits.maxVolume < volume.min || limits.maxVolume > volume.max) {
+      return `Maximum volume must be between ${volume.min} and ${volume.max}`;
+    }
+    return null;
+  }
+
+  /**
+   * Check whether a stored value is a well-formed lock
+   */
+  private isStoredLock(value: unknown): value is StoredSafetyLock {
+    const lock = value as StoredSafetyLock;
+    return (
+      typeof lock === 'object' &&
+      lock !== null &&
+      typeof lock.pinHash === 'string' &&
+      typeof lock.salt === 'string' &&
+      typeof lock.limits === 'object' &&
+      lock.limits !== null &&
+      this.validateLimits(lock.limits) === null &&
+      (lock.failedAttempts === undefined || typeof lock.failedAttempts === 'number') &&
+      (lock.lockedOutUntil === undefined || typeof lock.lockedOutUntil === 'number')
+    );
+  }
+
+  /**
+   * Add a change listener
+   */
+  public addChangeListener(listener: (event: SafetyLockChangeEvent) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove a change listener
+   */
+  public removeChangeListener(listener: (event: SafetyLockChangeEvent) => void): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Notify all change listeners
+   */
+  private notifyChangeListeners(type: SafetyLockChangeEvent['type']): void {
+    const event: SafetyLockChangeEvent = {
+      type,
+      locked: this.isLocked(),
+      limits: this.getLimits(),
+      timestamp: Date.now(),
+    };
+
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[SafetyLockManager] Error in change listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check if safety lock manager is initialized
+   */
+  public isReady(): boolean {
+    return this.isInitialized;
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const safetyLockManager = SafetyLockManager.getInstance();
@@ -1,4 +1,28 @@
 import { storageManager } from './StorageManager';
+import {
+  SETTINGS_SCHEMA_VERSION,
+  StoredSettingsEnvelope,
+  isSettingsEnvelope,
+  migrateSettings,
+} from './SettingsMigrations';
+import {
+  SettingsFieldError,
+  describeSettingsError,
+  getDefaultSettings,
+  repairSettings,
+  settingValuesEqual,
+  settingsSchema,
+  validateSettingField,
+} from './SettingsSchema';
+import type { BoostPreset } from './PresetManager';
+import type { DeviceProfile } from './DeviceProfileManager';
+import type { RampCurve } from '../services/BoostRamp';
+import type { BoostCurveId } from '../services/BoostCurve';
+import type { ExposureAction } from '../services/ExposureTracker';
+import type { EqualizerPresetId } from '../services/EqualizerService';
+import type { CompressorPresetId } from '../services/CompressorService';
+import type { SafetyLimits } from './SafetyLockManager';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
 
 /**
  * App settings interface - defines all configurable settings
@@ -10,6 +34,69 @@ export interface AppSettings {
   appOnlyBoost: boolean;
   boostEnabled: boolean;
   autoVolumeEnabled: boolean;
+
+  /** Whether boost runs in the background service (the service is reconciled to follow this) */
+  backgroundModeEnabled: boolean;
+
+  /** Whether background boost is restored after a reboot or after the app is killed */
+  autoStartEnabled: boolean;
+
+  /** Duration of boost transitions in milliseconds (0 = instant) */
+  rampDurationMs: number;
+
+  /** Curve used for boost transitions */
+  rampCurve: RampCurve;
+
+  /** Mapping from boost percent to gain */
+  boostCurve: BoostCurveId;
+
+  /** Gain at full boost in dB (tracked per output device) */
+  maxBoostGainDb: number;
+
+  /** Whether listening time and noise dose are tracked */
+  exposureTrackingEnabled: boolean;
+
+  /** Daily noise dose (% of the NIOSH limit) that triggers the exposure action */
+  exposureLimitPercent: number;
+
+  /** What happens when the daily dose reaches the limit */
+  exposureAction: ExposureAction;
+
+  /** Whether the equalizer is applied */
+  equalizerEnabled: boolean;
+
+  /** Built-in equalizer preset, or 'custom' for equalizerCustomLevels */
+  equalizerPreset: EqualizerPresetId;
+
+  /** Custom equalizer curve: band levels in millibels, in band order */
+  equalizerCustomLevels: number[];
+
+  /** Bass boost strength in percent (0 = off) */
+  bassBoostStrength: number;
+
+  /** Virtualizer strength in percent (0 = off) */
+  virtualizerStrength: number;
+
+  /** Whether the compressor and output limiter are applied */
+  compressorEnabled: boolean;
+
+  /** Compressor preset the parameters below came from, or 'custom' */
+  compressorPreset: CompressorPresetId;
+
+  /** Level in dBFS above which the compressor reduces gain */
+  compressorThresholdDb: number;
+
+  /** Compression ratio (e.g., 4 for 4:1) */
+  compressorRatio: number;
+
+  /** Compressor attack time in milliseconds */
+  compressorAttackMs: number;
+
+  /** Compressor release time in milliseconds */
+  compressorReleaseMs: number;
+
+  /** Output limiter ceiling in dBFS */
+  compressorCeilingDb: number;
 }
 
 /**
@@ -23,13 +110,86 @@ export interface SettingsChangeEvent {
 }
 
 /**
- * Settings validation result interface
+ * Result of setting a single value
+ */
+export interface SetSettingResult {
+  success: boolean;
+  error?: SettingsFieldError;
+}
+
+/**
+ * Result of setting multiple values at once
+ */
+export interface SetMultipleSettingsResult {
+  success: boolean;
+  errors: SettingsFieldError[];
+}
+
+/**
+ * Report describing how stored settings were loaded
  */
-interface ValidationResult {
-  isValid: boolean;
-  errors: string[];
+export interface SettingsLoadReport {
+  source: 'stored' | 'legacy' | 'defaults';
+  fromVersion: number | null;
+  toVersion: number;
+  migrationsApplied: string[];
+  repairedFields: SettingsFieldError[];
 }
 
+/**
+ * Identifier and version of the portable settings document format
+ */
+export const SETTINGS_EXPORT_FORMAT = 'VolumeBoosterSettings';
+export const SETTINGS_EXPORT_DOCUMENT_VERSION = 1;
+
+/**
+ * Portable JSON document produced by exportSettings
+ */
+export interface SettingsExportDocument {
+  format: typeof SETTINGS_EXPORT_FORMAT;
+  documentVersion: number;
+  schemaVersion: number;
+  appVersion: string;
+  exportedAt: string;
+  settings: AppSettings;
+  presets: BoostPreset[];
+  deviceProfiles: DeviceProfile[];
+}
+
+/**
+ * A single setting that differs between the current and imported settings
+ */
+export interface SettingsDiffEntry {
+  key: keyof AppSettings;
+  currentValue: unknown;
+  importedValue: unknown;
+}
+
+/**
+ * Part of a settings document written by importSettings
+ */
+export type SettingsImportPart = 'settings' | 'presets' | 'deviceProfiles';
+
+/**
+ * Result of validating an import document against the current settings
+ */
+export interface SettingsImportPreview {
+  success: boolean;
+  error?: string;
+  document?: SettingsExportDocument;
+  diff: SettingsDiffEntry[];
+
+  /** Parts left applied by importSettings (none after a failed import was rolled back) */
+  applied?: SettingsImportPart[];
+}
+
+/**
+ * Check whether a parsed JSON value is an object with string keys
+ */
+const isJsonObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
 /**
  * Settings Manager Class
  * 
@@ -39,21 +199,27 @@ interface ValidationResult {
 export class SettingsManager {
   private static instance: SettingsManager;
   private settings: AppSettings;
-  private storageKey: string = '@VolumeBooster_Settings_v2';
+  private storageKey: string = '@VolumeBooster_Settings';
+  private legacyStorageKey: string = '@VolumeBooster_Settings_v2';
+  private lastLoadReport: SettingsLoadReport | null = null;
   private changeListeners: Array<(event: SettingsChangeEvent) => void> = [];
   private isInitialized: boolean = false;
 
   /**
-   * Default settings values
+   * Settings saved by a newer app version, or null
+   *
+   * Saves keep its schema version and the fields this version does not
+   * know, so running an older app does not downgrade the stored data.
+   */
+  private newerSchemaEnvelope: StoredSettingsEnvelope | null = null;
+
+  /** Administrator caps set by SafetyLockManager, or null when unlocked */
+  private safetyLimits: SafetyLimits | null = null;
+
+  /**
+   * Default settings values (from the settings schema)
    */
-  private readonly defaultSettings: AppSettings = {
-    volume: 100,
-    boost: 0,
-    gradualBoost: false,
-    appOnlyBoost: false,
-    boostEnabled: false,
-    autoVolumeEnabled: false,
-  };
+  private readonly defaultSettings: AppSettings = getDefaultSettings();
 
   /**
    * Private constructor for singleton pattern
@@ -95,30 +261,88 @@ export class SettingsManager {
 
   /**
    * Load settings from storage
+   *
+   * Reads the versioned envelope (falling back to the legacy unversioned
+   * key), runs the migration pipeline and then keeps every field that is
+   * still valid. Only invalid or missing fields are repaired (clamped,
+   * snapped to their step or reset to their default).
    */
   private async loadSettings(): Promise<void> {
     try {
       console.log('[SettingsManager] Loading settings from storage...');
-      
-      const result = await storageManager.getItem<AppSettings>(this.storageKey);
-      
-      if (result.success && result.data) {
-        // Validate loaded settings
-        const validation = this.validateSettings(result.data);
-        
-        if (validation.isValid) {
-          this.settings = { ...result.data };
-          console.log('[SettingsManager] Settings loaded successfully:', this.settings);
-        } else {
-          console.warn('[SettingsManager] Loaded settings are invalid, using defaults:', validation.errors);
-          this.settings = { ...this.defaultSettings };
-          await this.saveSettings();
-        }
+
+      let source: SettingsLoadReport['source'] = 'stored';
+      let envelope: StoredSettingsEnvelope | null = null;
+      this.newerSchemaEnvelope = null;
+
+      const result = await storageManager.getItem<unknown>(this.storageKey);
+      if (result.success && isSettingsEnvelope(result.data)) {
+        envelope = result.data;
       } else {
+        const legacyResult = await storageManager.getItem<unknown>(this.legacyStorageKey);
+        if (legacyResult.success && typeof legacyResult.data === 'object' && legacyResult.data !== null) {
+          // The legacy key holds the unversioned (v1) settings object
+          source = 'legacy';
+          envelope = { schemaVersion: 1, settings: legacyResult.data as Record<string, unknown> };
+        }
+      }
+
+      if (!envelope) {
         console.log('[SettingsManager] No saved settings found, using defaults');
         this.settings = { ...this.defaultSettings };
+        this.lastLoadReport = {
+          source: 'defaults',
+          fromVersion: null,
+          toVersion: SETTINGS_SCHEMA_VERSION,
+          migrationsApplied: [],
+          repairedFields: [],
+        };
         await this.saveSettings();
+        return;
       }
+
+      let migrated = envelope.settings;
+      let migrationsApplied: string[] = [];
+      const isNewerSchema = envelope.schemaVersion > SETTINGS_SCHEMA_VERSION;
+
+      if (isNewerSchema) {
+        console.warn(
+          `[SettingsManager] Stored settings use newer schema v${envelope.schemaVersion}, ` +
+          `using only fields known to v${SETTINGS_SCHEMA_VERSION}`,
+        );
+        this.newerSchemaEnvelope = envelope;
+      } else {
+        const migration = migrateSettings(envelope.settings, envelope.schemaVersion);
+        migrated = migration.settings;
+        migrationsApplied = migration.applied;
+      }
+
+      const { settings, errors } = repairSettings(migrated);
+      this.settings = settings;
+      this.lastLoadReport = {
+        source,
+        fromVersion: envelope.schemaVersion,
+        toVersion: isNewerSchema ? envelope.schemaVersion : SETTINGS_SCHEMA_VERSION,
+        migrationsApplied,
+        repairedFields: errors,
+      };
+
+      if (migrationsApplied.length > 0) {
+        console.log('[SettingsManager] Migrations applied:', migrationsApplied);
+      }
+      if (errors.length > 0) {
+        console.warn('[SettingsManager] Invalid fields repaired:', errors);
+      }
+
+      // Repairs of a newer blob stay in memory; its stored values are left as written
+      if (!isNewerSchema && (source === 'legacy' || migrationsApplied.length > 0 || errors.length > 0)) {
+        await this.saveSettings();
+      }
+      if (source === 'legacy') {
+        await storageManager.removeItem(this.legacyStorageKey);
+      }
+
+      console.log('[SettingsManager] Settings loaded successfully:', this.settings);
     } catch (error) {
       console.error('[SettingsManager] Failed to load settings:', error);
       this.settings = { ...this.defaultSettings };
@@ -133,7 +357,11 @@ export class SettingsManager {
     try {
       console.log('[SettingsManager] Saving settings to storage:', this.settings);
       
-      const result = await storageManager.setItem(this.storageKey, this.settings);
+      const newer = this.newerSchemaEnvelope;
+      const envelope: StoredSettingsEnvelope = newer
+        ? { schemaVersion: newer.schemaVersion, settings: { ...newer.settings, ...this.settings } }
+        : { schemaVersion: SETTINGS_SCHEMA_VERSION, settings: { ...this.settings } };
+      const result = await storageManager.setItem(this.storageKey, envelope);
       
       if (result.success) {
         console.log('[SettingsManager] Settings saved successfully');
@@ -146,46 +374,98 @@ export class SettingsManager {
   }
 
   /**
-   * Validate settings object
+   * Validate a partial settings object against the settings schema
    */
-  private validateSettings(settings: any): ValidationResult {
-    const errors: string[] = [];
-    
-    // Check if settings is an object
-    if (typeof settings !== 'object' || settings === null) {
-      errors.push('Settings must be an object');
-      return { isValid: false, errors };
-    }
+  private validateSettings(settings: Partial<AppSettings>): SettingsFieldError[] {
+    const errors: SettingsFieldError[] = [];
 
-    // Validate each setting
-    if (typeof settings.volume !== 'number' || settings.volume < 0 || settings.volume > 100) {
-      errors.push('Volume must be a number between 0 and 100');
-    }
+    (Object.keys(settings) as Array<keyof AppSettings>).forEach(key => {
+      if (!(key in this.defaultSettings)) {
+        return;
+      }
+
+      const error = validateSettingField(key, settings[key]) ?? this.checkSafetyLimit(key, settings[key]);
+      if (error !== null) {
+        errors.push(error);
+      }
+    });
+
+    return errors;
+  }
 
-    if (typeof settings.boost !== 'number' || settings.boost < 0 || settings.boost > 200) {
-      errors.push('Boost must be a number between 0 and 200');
+  // ============================================================================
+  // SAFETY LIMITS
+  // ============================================================================
+
+  /**
+   * Check a value against the safety lock caps
+   */
+  private checkSafetyLimit(key: keyof AppSettings, value: unknown): SettingsFieldError | null {
+    const limits = this.getSafetyLimits();
+    const cap = key === 'boost' ? limits.maxBoost : key === 'volume' ? limits.maxVolume : null;
+
+    if (cap !== null && typeof value === 'number' && value > cap) {
+      return { field: key, reason: 'locked', received: value, repairedTo: cap };
     }
+    return null;
+  }
 
-    if (typeof settings.gradualBoost !== 'boolean') {
-      errors.push('GradualBoost must be a boolean');
+  /**
+   * Get the active caps for boost and volume
+   *
+   * Without a safety lock these are the schema maximums.
+   */
+  public getSafetyLimits(): SafetyLimits {
+    if (this.safetyLimits) {
+      return { ...this.safetyLimits };
     }
 
-    if (typeof settings.appOnlyBoost !== 'boolean') {
-      errors.push('AppOnlyBoost must be a boolean');
+    const { boost, volume } = settingsSchema;
+    return { maxBoost: boost.max, maxVolume: volume.max };
+  }
+
+  /**
+   * Lower boost and volume in a settings object to the active caps
+   *
+   * Used wherever settings are applied as a batch (presets, device
+   * profiles, import), so stored values cannot get around the lock.
+   */
+  public clampToSafetyLimits<T extends Partial<AppSettings>>(settings: T): T {
+    const limits = this.getSafetyLimits();
+    const clamped = { ...settings };
+
+    if (typeof clamped.boost === 'number') {
+      clamped.boost = Math.min(clamped.boost, limits.maxBoost);
+    }
+    if (typeof clamped.volume === 'number') {
+      clamped.volume = Math.min(clamped.volume, limits.maxVolume);
     }
+    return clamped;
+  }
+
+  /**
+   * Set the safety lock caps (called by SafetyLockManager)
+   *
+   * Current settings above the new caps are lowered, saved and reported to
+   * change listeners.
+   *
+   * @returns true if current settings were lowered
+   */
+  public async setSafetyLimits(limits: SafetyLimits | null): Promise<boolean> {
+    this.safetyLimits = limits ? { ...limits } : null;
 
-    if (typeof settings.boostEnabled !== 'boolean') {
-      errors.push('BoostEnabled must be a boolean');
+    if (!this.isInitialized) {
+      return false;
     }
 
-    if (typeof settings.autoVolumeEnabled !== 'boolean') {
-      errors.push('AutoVolumeEnabled must be a boolean');
+    const clamped = this.clampToSafetyLimits({ boost: this.settings.boost, volume: this.settings.volume });
+    if (clamped.boost === this.settings.boost && clamped.volume === this.settings.volume) {
+      return false;
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+    console.log('[SettingsManager] Lowering settings to safety limits:', clamped);
+    const result = await this.setMultipleSettings(clamped);
+    return result.success;
   }
 
   /**
@@ -215,21 +495,20 @@ export class SettingsManager {
   /**
    * Set a specific setting value
    */
-  public async setSetting<K extends keyof AppSettings>(key: K, value: AppSettings[K]): Promise<boolean> {
+  public async setSetting<K extends keyof AppSettings>(key: K, value: AppSettings[K]): Promise<SetSettingResult> {
     if (!this.isInitialized) {
       console.error('[SettingsManager] Settings manager not initialized');
-      return false;
+      return { success: false };
     }
 
     const oldValue = this.settings[key];
     
-    // Validate the new value
-    const tempSettings = { ...this.settings, [key]: value };
-    const validation = this.validateSettings(tempSettings);
+    // Validate the new value, then check it against the safety lock
+    const error = validateSettingField(key, value) ?? this.checkSafetyLimit(key, value);
     
-    if (!validation.isValid) {
-      console.error('[SettingsManager] Invalid setting value:', validation.errors);
-      return false;
+    if (error !== null) {
+      console.error('[SettingsManager] Invalid setting value:', error);
+      return { success: false, error };
     }
 
     // Update the setting
@@ -247,30 +526,31 @@ export class SettingsManager {
     });
 
     console.log(`[SettingsManager] Setting '${key}' updated from ${oldValue} to ${value}`);
-    return true;
+    return { success: true };
   }
 
   /**
    * Set multiple settings at once
    */
-  public async setMultipleSettings(settings: Partial<AppSettings>): Promise<boolean> {
+  public async setMultipleSettings(settings: Partial<AppSettings>): Promise<SetMultipleSettingsResult> {
     if (!this.isInitialized) {
       console.error('[SettingsManager] Settings manager not initialized');
-      return false;
+      return { success: false, errors: [] };
     }
 
     try {
       console.log('[SettingsManager] Setting multiple settings:', settings);
       
       // Validate all settings
-      const tempSettings = { ...this.settings, ...settings };
-      const validation = this.validateSettings(tempSettings);
+      const errors = this.validateSettings(settings);
       
-      if (!validation.isValid) {
-        console.error('[SettingsManager] Invalid settings:', validation.errors);
-        return false;
+      if (errors.length > 0) {
+        console.error('[SettingsManager] Invalid settings:', errors);
+        return { success: false, errors };
       }
 
+      const tempSettings = { ...this.settings, ...settings };
+
       // Update settings
       const oldSettings = { ...this.settings };
       this.settings = { ...tempSettings };
@@ -281,7 +561,7 @@ export class SettingsManager {
       // Notify listeners for each changed setting
       Object.keys(settings).forEach(key => {
         const typedKey = key as keyof AppSettings;
-        if (oldSettings[typedKey] !== this.settings[typedKey]) {
+        if (!settingValuesEqual(oldSettings[typedKey], this.settings[typedKey])) {
           this.notifyChangeListeners({
             key: typedKey,
             oldValue: oldSettings[typedKey],
@@ -292,10 +572,10 @@ export class SettingsManager {
       });
 
       console.log('[SettingsManager] Multiple settings updated successfully');
-      return true;
+      return { success: true, errors: [] };
     } catch (error) {
       console.error('[SettingsManager] Failed to set multiple settings:', error);
-      return false;
+      return { success: false, errors: [] };
     }
   }
 
@@ -320,7 +600,7 @@ export class SettingsManager {
       // Notify listeners for each changed setting
       Object.keys(this.defaultSettings).forEach(key => {
         const typedKey = key as keyof AppSettings;
-        if (oldSettings[typedKey] !== this.settings[typedKey]) {
+        if (!settingValuesEqual(oldSettings[typedKey], this.settings[typedKey])) {
           this.notifyChangeListeners({
             key: typedKey,
             oldValue: oldSettings[typedKey],
@@ -346,6 +626,7 @@ export class SettingsManager {
       console.log('[SettingsManager] Clearing all settings from storage');
       
       const result = await storageManager.removeItem(this.storageKey);
+      await storageManager.removeItem(this.legacyStorageKey);
       
       if (result.success) {
         console.log('[SettingsManager] Settings cleared successfully');
@@ -360,6 +641,207 @@ export class SettingsManager {
     }
   }
 
+  /**
+   * Export settings, presets and device profiles as a portable document
+   */
+  public async exportSettings(): Promise<SettingsExportDocument> {
+    // Import managers dynamically to avoid circular dependency
+    const { PresetManager } = await import('./PresetManager');
+    const { DeviceProfileManager } = await import('./DeviceProfileManager');
+
+    return {
+      format: SETTINGS_EXPORT_FORMAT,
+      documentVersion: SETTINGS_EXPORT_DOCUMENT_VERSION,
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
+      appVersion: VolumeBoosterModule.appVersion ?? 'unknown',
+      exportedAt: new Date().toISOString(),
+      settings: this.getAllSettings(),
+      presets: PresetManager.getInstance().getPresets(),
+      deviceProfiles: DeviceProfileManager.getInstance().getProfiles(),
+    };
+  }
+
+  /**
+   * Validate an import document and diff it against the current settings
+   *
+   * Accepts the document object or its JSON text. Older schemas are run
+   * through the migration pipeline; newer schemas are rejected.
+   */
+  public async previewImport(input: unknown): Promise<SettingsImportPreview> {
+    let raw: unknown;
+    try {
+      raw = typeof input === 'string' ? JSON.parse(input) : input;
+    } catch (error) {
+      return { success: false, error: 'The settings file is not valid JSON', diff: [] };
+    }
+
+    if (!isJsonObject(raw) || raw.format !== SETTINGS_EXPORT_FORMAT) {
+      return { success: false, error: 'This is not a Volume Booster settings file', diff: [] };
+    }
+
+    const { schemaVersion, documentVersion } = raw;
+    if (typeof schemaVersion !== 'number' || typeof documentVersion !== 'number') {
+      return { success: false, error: 'The settings file has no schema version', diff: [] };
+    }
+
+    if (schemaVersion > SETTINGS_SCHEMA_VERSION || documentVersion > SETTINGS_EXPORT_DOCUMENT_VERSION) {
+      return {
+        success: false,
+        error:
+          `This settings file was exported by a newer version of Volume Booster ` +
+          `(app ${raw.appVersion ?? 'unknown'}, schema v${schemaVersion}). ` +
+          `This app supports schema v${SETTINGS_SCHEMA_VERSION} or older - update the app to import it.`,
+        diff: [],
+      };
+    }
+
+    if (!isJsonObject(raw.settings)) {
+      return { success: false, error: 'The settings file contains no settings', diff: [] };
+    }
+
+    // Bring older documents up to the current schema
+    let migrated: Record<string, unknown>;
+    try {
+      migrated = migrateSettings(raw.settings, schemaVersion).settings;
+    } catch (error) {
+      return { success: false, error: `Cannot upgrade settings file: ${error}`, diff: [] };
+    }
+
+    // Imports are all-or-nothing: any invalid field rejects the document
+    const { settings: importedSettings, errors } = repairSettings(migrated);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `Invalid settings: ${errors.map(describeSettingsError).join('; ')}`,
+        diff: [],
+      };
+    }
+
+    const { isBoostPreset } = await import('./PresetManager');
+    const { isDeviceProfile } = await import('./DeviceProfileManager');
+    const presets: unknown[] = Array.isArray(raw.presets) ? raw.presets : [];
+    const deviceProfiles: unknown[] = Array.isArray(raw.deviceProfiles) ? raw.deviceProfiles : [];
+
+    if (!presets.every(isBoostPreset)) {
+      return { success: false, error: 'The settings file contains an invalid preset', diff: [] };
+    }
+    if (!deviceProfiles.every(isDeviceProfile)) {
+      return { success: false, error: 'The settings file contains an invalid device profile', diff: [] };
+    }
+
+    // The safety lock caps apply to imported values as well
+    const settings = this.clampToSafetyLimits(importedSettings);
+
+    const current = this.getAllSettings();
+    const diff: SettingsDiffEntry[] = (Object.keys(settings) as Array<keyof AppSettings>)
+      .filter(key => !settingValuesEqual(current[key], settings[key]))
+      .map(key => ({ key, currentValue: current[key], importedValue: settings[key] }));
+
+    return {
+      success: true,
+      diff,
+      document: {
+        format: SETTINGS_EXPORT_FORMAT,
+        documentVersion,
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        appVersion: String(raw.appVersion ?? 'unknown'),
+        exportedAt: String(raw.exportedAt ?? ''),
+        settings,
+        presets,
+        deviceProfiles,
+      },
+    };
+  }
+
+  /**
+   * Import a settings document
+   *
+   * The whole document is validated before anything is written. The
+   * settings are applied in a single setMultipleSettings call, followed by
+   * presets and device profiles. If a part fails, the parts already written
+   * are rolled back; `applied` lists any part that could not be restored.
+   */
+  public async importSettings(input: unknown): Promise<SettingsImportPreview> {
+    if (!this.isInitialized) {
+      console.error('[SettingsManager] Settings manager not initialized');
+      return { success: false, error: 'Settings are not ready yet', diff: [], applied: [] };
+    }
+
+    const preview = await this.previewImport(input);
+    if (!preview.success || !preview.document) {
+      console.warn('[SettingsManager] Import rejected:', preview.error);
+      return { ...preview, applied: [] };
+    }
+
+    const { document } = preview;
+    const { PresetManager } = await import('./PresetManager');
+    const { DeviceProfileManager } = await import('./DeviceProfileManager');
+    const { pushAudioSettingsToNative } = await import('./nativeSync');
+    const presetManagerInstance = PresetManager.getInstance();
+    const deviceProfileManagerInstance = DeviceProfileManager.getInstance();
+
+    // What the import replaces, restored if a later part fails
+    const previousSettings = this.getAllSettings();
+    const previousPresets = presetManagerInstance.getPresets();
+    const previousProfiles = deviceProfileManagerInstance.getProfiles();
+
+    const parts: Array<{
+      part: SettingsImportPart;
+      apply: () => Promise<string | null>;
+      restore: () => Promise<boolean>;
+    }> = [
+      {
+        part: 'settings',
+        apply: async () => {
+          const result = await this.setMultipleSettings(document.settings);
+          return result.success ? null : `Invalid settings: ${result.errors.map(describeSettingsError).join('; ')}`;
+        },
+        restore: async () => (await this.setMultipleSettings(previousSettings)).success,
+      },
+      {
+        part: 'presets',
+        apply: async () => ((await presetManagerInstance.replacePresets(document.presets)) ? null : 'Failed to save presets'),
+        restore: () => presetManagerInstance.replacePresets(previousPresets),
+      },
+      {
+        part: 'deviceProfiles',
+        apply: async () =>
+          (await deviceProfileManagerInstance.replaceProfiles(document.deviceProfiles)) ? null : 'Failed to save device profiles',
+        restore: () => deviceProfileManagerInstance.replaceProfiles(previousProfiles),
+      },
+    ];
+
+    for (let index = 0; index < parts.length; index++) {
+      const error = await parts[index].apply();
+      if (error === null) {
+        continue;
+      }
+
+      // Roll back the parts written so far, including the failed one, which
+      // may have changed in memory without being saved
+      const applied: SettingsImportPart[] = [];
+      for (const { part, restore } of parts.slice(0, index + 1)) {
+        if (!(await restore())) {
+          applied.push(part);
+        }
+      }
+      await pushAudioSettingsToNative(this.getAllSettings());
+
+      console.error(`[SettingsManager] Import failed at '${parts[index].part}', still applied:`, applied);
+      return {
+        success: false,
+        error: applied.length > 0 ? `${error}. Could not undo the imported ${applied.join(', ')}.` : error,
+        diff: preview.diff,
+        applied,
+      };
+    }
+
+    await pushAudioSettingsToNative(this.getAllSettings());
+
+    console.log(`[SettingsManager] Imported settings exported at ${document.exportedAt}`);
+    return { ...preview, applied: parts.map(({ part }) => part) };
+  }
+
   /**
    * Add a change listener
    */
@@ -400,6 +882,8 @@ export class SettingsManager {
       const info = await storageManager.getStorageInfo();
       return {
         settingsKey: this.storageKey,
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        lastLoadReport: this.lastLoadReport,
         settings: this.settings,
         storageInfo: info.data,
         isInitialized: this.isInitialized,
@@ -411,6 +895,13 @@ export class SettingsManager {
     }
   }
 
+  /**
+   * Get the report of the last settings load (source, migrations, reset fields)
+   */
+  public getLastLoadReport(): SettingsLoadReport | null {
+    return this.lastLoadReport ? { ...this.lastLoadReport } : null;
+  }
+
   /**
    * Check if settings manager is initialized
    */
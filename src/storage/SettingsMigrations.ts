@@ -0,0 +1,191 @@
+/**
+ * Settings schema migrations
+ *
+ * Every stored settings blob carries the schema version it was written
+ * with. When AppSettings gains, renames or reshapes a field, bump
+ * SETTINGS_SCHEMA_VERSION and append a migration that upgrades blobs from
+ * the previous version. Migrations run in order, one version step at a time.
+ */
+
+/**
+ * Current settings schema version
+ */
+export const SETTINGS_SCHEMA_VERSION = 10;
+
+/**
+ * Versioned envelope the settings are stored in
+ */
+export interface StoredSettingsEnvelope {
+  schemaVersion: number;
+  settings: Record<string, unknown>;
+}
+
+/**
+ * A single migration step between two consecutive schema versions
+ */
+export interface SettingsMigration {
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  migrate: (settings: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Result of running the migration pipeline
+ */
+export interface MigrationResult {
+  settings: Record<string, unknown>;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+/**
+ * Ordered list of migrations (v1 -> v2 -> v3 ...)
+ */
+export const settingsMigrations: SettingsMigration[] = [
+  {
+    // v1 is the unversioned blob stored under '@VolumeBooster_Settings_v2'
+    fromVersion: 1,
+    toVersion: 2,
+    description: 'v1 -> v2: move unversioned settings into the versioned envelope',
+    migrate: settings => ({
+      ...settings,
+      autoVolumeEnabled: settings.autoVolumeEnabled ?? false,
+    }),
+  },
+  {
+    fromVersion: 2,
+    toVersion: 3,
+    description: 'v2 -> v3: add boost ramp duration and curve',
+    migrate: settings => ({
+      ...settings,
+      rampDurationMs: settings.rampDurationMs ?? 300,
+      rampCurve: settings.rampCurve ?? 'linear',
+    }),
+  },
+  {
+    fromVersion: 3,
+    toVersion: 4,
+    description: 'v3 -> v4: add hearing exposure tracking settings',
+    migrate: settings => ({
+      ...settings,
+      exposureTrackingEnabled: settings.exposureTrackingEnabled ?? true,
+      exposureLimitPercent: settings.exposureLimitPercent ?? 100,
+      exposureAction: settings.exposureAction ?? 'alert',
+    }),
+  },
+  {
+    fromVersion: 4,
+    toVersion: 5,
+    description: 'v4 -> v5: add equalizer settings',
+    migrate: settings => ({
+      ...settings,
+      equalizerEnabled: settings.equalizerEnabled ?? false,
+      equalizerPreset: settings.equalizerPreset ?? 'flat',
+      equalizerCustomLevels: settings.equalizerCustomLevels ?? [],
+    }),
+  },
+  {
+    fromVersion: 5,
+    toVersion: 6,
+    description: 'v5 -> v6: add bass boost and virtualizer strengths',
+    migrate: settings => ({
+      ...settings,
+      bassBoostStrength: settings.bassBoostStrength ?? 0,
+      virtualizerStrength: settings.virtualizerStrength ?? 0,
+    }),
+  },
+  {
+    fromVersion: 6,
+    toVersion: 7,
+    description: 'v6 -> v7: add compressor and limiter settings',
+    migrate: settings => ({
+      ...settings,
+      compressorEnabled: settings.compressorEnabled ?? false,
+      compressorPreset: settings.compressorPreset ?? 'movie',
+      compressorThresholdDb: settings.compressorThresholdDb ?? -24,
+      compressorRatio: settings.compressorRatio ?? 4,
+      compressorAttackMs: settings.compressorAttackMs ?? 10,
+      compressorReleaseMs: settings.compressorReleaseMs ?? 300,
+      compressorCeilingDb: settings.compressorCeilingDb ?? -1,
+    }),
+  },
+  {
+    fromVersion: 7,
+    toVersion: 8,
+    description: 'v7 -> v8: add boost curve and max boost gain',
+    migrate: settings => ({
+      ...settings,
+      boostCurve: settings.boostCurve ?? 'linear',
+      maxBoostGainDb: settings.maxBoostGainDb ?? 50,
+    }),
+  },
+  {
+    fromVersion: 8,
+    toVersion: 9,
+    description: 'v8 -> v9: add auto-start after reboot',
+    migrate: settings => ({
+      ...settings,
+      autoStartEnabled: settings.autoStartEnabled ?? true,
+    }),
+  },
+  {
+    fromVersion: 9,
+    toVersion: 10,
+    description: 'v9 -> v10: persist background mode',
+    migrate: settings => ({
+      ...settings,
+      backgroundModeEnabled: settings.backgroundModeEnabled ?? false,
+    }),
+  },
+];
+
+/**
+ * Check whether a stored value is a versioned settings envelope
+ */
+export const isSettingsEnvelope = (value: unknown): value is StoredSettingsEnvelope => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as StoredSettingsEnvelope).schemaVersion === 'number' &&
+    typeof (value as StoredSettingsEnvelope).settings === 'object' &&
+    (value as StoredSettingsEnvelope).settings !== null
+  );
+};
+
+/**
+ * Upgrade a settings blob from the given version to SETTINGS_SCHEMA_VERSION
+ *
+ * Blobs from a newer schema than this app knows are returned untouched;
+ * the caller decides how to treat unknown fields.
+ */
+export const migrateSettings = (
+  settings: Record<string, unknown>,
+  fromVersion: number,
+  migrations: SettingsMigration[] = settingsMigrations,
+  targetVersion: number = SETTINGS_SCHEMA_VERSION,
+): MigrationResult => {
+  const applied: string[] = [];
+  let current = { ...settings };
+  let version = fromVersion;
+
+  while (version < targetVersion) {
+    const migration = migrations.find(m => m.fromVersion === version);
+
+    if (!migration) {
+      throw new Error(`No settings migration registered from schema version ${version}`);
+    }
+
+    current = migration.migrate(current);
+    version = migration.toVersion;
+    applied.push(migration.description);
+  }
+
+  return {
+    settings: current,
+    fromVersion,
+    toVersion: Math.max(version, fromVersion),
+    applied,
+  };
+};
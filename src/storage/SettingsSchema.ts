@@ -0,0 +1,317 @@
+import type { AppSettings } from './SettingsManager';
+
+/**
+ * Schema for a numeric setting
+ */
+export interface NumberFieldSchema {
+  type: 'number';
+  min: number;
+  max: number;
+  /** Values must be a multiple of step (relative to min) */
+  step?: number;
+  default: number;
+}
+
+/**
+ * Schema for a boolean setting
+ */
+export interface BooleanFieldSchema {
+  type: 'boolean';
+  default: boolean;
+}
+
+/**
+ * Schema for a setting restricted to a fixed set of strings
+ */
+export interface EnumFieldSchema<T extends string = string> {
+  type: 'enum';
+  values: readonly T[];
+  default: T;
+}
+
+/**
+ * Schema for a list of numbers, each checked like a numeric setting
+ *
+ * List values are replaced as a whole, never mutated in place.
+ */
+export interface NumberListFieldSchema {
+  type: 'numberList';
+  min: number;
+  max: number;
+  /** Values must be a multiple of step (relative to min) */
+  step?: number;
+  maxLength: number;
+  default: number[];
+}
+
+/**
+ * Field schema for a single setting, derived from its AppSettings type
+ */
+export type FieldSchemaFor<T> = [T] extends [number[]]
+  ? NumberListFieldSchema
+  : [T] extends [number]
+    ? NumberFieldSchema
+    : [T] extends [boolean]
+      ? BooleanFieldSchema
+      : [T] extends [string]
+        ? EnumFieldSchema<T>
+        : never;
+
+/**
+ * Declarative schema covering every AppSettings field
+ */
+export type SettingsSchema = { [K in keyof AppSettings]: FieldSchemaFor<AppSettings[K]> };
+
+/**
+ * Why a setting value was rejected or repaired
+ */
+export type SettingsErrorReason = 'missing' | 'type' | 'range' | 'step' | 'locked';
+
+/**
+ * Structured error for a single invalid setting value
+ */
+export interface SettingsFieldError {
+  field: keyof AppSettings;
+  reason: SettingsErrorReason;
+  received: unknown;
+  repairedTo: unknown;
+}
+
+/**
+ * Settings schema - type, range, step and default of every field
+ */
+export const settingsSchema: SettingsSchema = {
+  volume: { type: 'number', min: 0, max: 100, default: 100 },
+  boost: { type: 'number', min: 0, max: 200, step: 1, default: 0 },
+  gradualBoost: { type: 'boolean', default: false },
+  appOnlyBoost: { type: 'boolean', default: false },
+  boostEnabled: { type: 'boolean', default: false },
+  autoVolumeEnabled: { type: 'boolean', default: false },
+  backgroundModeEnabled: { type: 'boolean', default: false },
+  autoStartEnabled: { type: 'boolean', default: true },
+  rampDurationMs: { type: 'number', min: 0, max: 2000, step: 50, default: 300 },
+  rampCurve: { type: 'enum', values: ['linear', 'exponential', 'equalLoudness'], default: 'linear' },
+  boostCurve: { type: 'enum', values: ['linear', 'logarithmic', 'perceptual'], default: 'linear' },
+  maxBoostGainDb: { type: 'number', min: 3, max: 50, step: 1, default: 50 },
+  exposureTrackingEnabled: { type: 'boolean', default: true },
+  exposureLimitPercent: { type: 'number', min: 50, max: 200, step: 10, default: 100 },
+  exposureAction: { type: 'enum', values: ['alert', 'reduceBoost'], default: 'alert' },
+  equalizerEnabled: { type: 'boolean', default: false },
+  equalizerPreset: {
+    type: 'enum',
+    values: ['flat', 'bassBoost', 'vocal', 'treble', 'smallSpeaker', 'custom'],
+    default: 'flat',
+  },
+  equalizerCustomLevels: { type: 'numberList', min: -1500, max: 1500, step: 100, maxLength: 10, default: [] },
+  bassBoostStrength: { type: 'number', min: 0, max: 100, step: 1, default: 0 },
+  virtualizerStrength: { type: 'number', min: 0, max: 100, step: 1, default: 0 },
+  compressorEnabled: { type: 'boolean', default: false },
+  compressorPreset: { type: 'enum', values: ['speech', 'movie', 'music', 'custom'], default: 'movie' },
+  compressorThresholdDb: { type: 'number', min: -60, max: 0, step: 1, default: -24 },
+  compressorRatio: { type: 'number', min: 1, max: 20, step: 0.5, default: 4 },
+  compressorAttackMs: { type: 'number', min: 1, max: 200, step: 1, default: 10 },
+  compressorReleaseMs: { type: 'number', min: 10, max: 2000, step: 10, default: 300 },
+  compressorCeilingDb: { type: 'number', min: -12, max: 0, step: 0.5, default: -1 },
+};
+
+/**
+ * Build the default settings from the schema
+ */
+export const getDefaultSettings = (): AppSettings => {
+  const defaults: Partial<Record<keyof AppSettings, unknown>> = {};
+
+  (Object.keys(settingsSchema) as Array<keyof AppSettings>).forEach(field => {
+    const value = settingsSchema[field].default;
+    defaults[field] = Array.isArray(value) ? [...value] : value;
+  });
+
+  return defaults as AppSettings;
+};
+
+/**
+ * Compare two setting values; lists are compared element by element
+ */
+export const settingValuesEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+  return a === b;
+};
+
+/**
+ * Validate a numeric value against its schema
+ */
+const validateNumberField = (
+  field: keyof AppSettings,
+  schema: NumberFieldSchema,
+  value: unknown,
+): SettingsFieldError | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return { field, reason: 'type', received: value, repairedTo: schema.default };
+  }
+
+  if (value < schema.min || value > schema.max) {
+    return {
+      field,
+      reason: 'range',
+      received: value,
+      repairedTo: Math.min(schema.max, Math.max(schema.min, value)),
+    };
+  }
+
+  if (schema.step !== undefined) {
+    const steps = (value - schema.min) / schema.step;
+    if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+      const snapped = schema.min + Math.round(steps) * schema.step;
+      return {
+        field,
+        reason: 'step',
+        received: value,
+        repairedTo: Math.min(schema.max, snapped),
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validate a list of numbers against its schema
+ *
+ * The repaired list keeps every valid element and clamps, snaps or drops
+ * the offending ones.
+ */
+const validateNumberListField = (
+  field: keyof AppSettings,
+  schema: NumberListFieldSchema,
+  value: unknown,
+): SettingsFieldError | null => {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'number' && Number.isFinite(item))) {
+    return { field, reason: 'type', received: value, repairedTo: [...schema.default] };
+  }
+
+  const elementSchema: NumberFieldSchema = { type: 'number', min: schema.min, max: schema.max, step: schema.step, default: 0 };
+  const elementErrors = value.map(item => validateNumberField(field, elementSchema, item));
+  const firstError = elementErrors.find(error => error !== null);
+
+  if (value.length <= schema.maxLength && !firstError) {
+    return null;
+  }
+
+  const repairedTo = value
+    .slice(0, schema.maxLength)
+    .map((item, index) => (elementErrors[index] ? elementErrors[index].repairedTo : item));
+  return {
+    field,
+    reason: value.length > schema.maxLength ? 'range' : firstError!.reason,
+    received: value,
+    repairedTo,
+  };
+};
+
+/**
+ * Validate a string value against its allowed values
+ */
+const validateEnumField = (
+  field: keyof AppSettings,
+  schema: EnumFieldSchema,
+  value: unknown,
+): SettingsFieldError | null => {
+  if (typeof value !== 'string') {
+    return { field, reason: 'type', received: value, repairedTo: schema.default };
+  }
+
+  if (!schema.values.includes(value)) {
+    return { field, reason: 'range', received: value, repairedTo: schema.default };
+  }
+
+  return null;
+};
+
+/**
+ * Validate a single setting value against the schema
+ *
+ * @returns Structured error with the repaired value, or null if the value is valid
+ */
+export const validateSettingField = (field: keyof AppSettings, value: unknown): SettingsFieldError | null => {
+  const schema = settingsSchema[field];
+
+  if (value === undefined) {
+    return { field, reason: 'missing', received: value, repairedTo: schema.default };
+  }
+
+  switch (schema.type) {
+    case 'number':
+      return validateNumberField(field, schema, value);
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? null
+        : { field, reason: 'type', received: value, repairedTo: schema.default };
+    case 'enum':
+      return validateEnumField(field, schema, value);
+    case 'numberList':
+      return validateNumberListField(field, schema, value);
+  }
+};
+
+/**
+ * Repair a settings object field by field
+ *
+ * Valid fields are kept as-is; only offending fields are clamped, snapped
+ * to their step or reset to their default.
+ */
+export const repairSettings = (data: Record<string, unknown>): {
+  settings: AppSettings;
+  errors: SettingsFieldError[];
+} => {
+  const settings: Partial<Record<keyof AppSettings, unknown>> = {};
+  const errors: SettingsFieldError[] = [];
+
+  (Object.keys(settingsSchema) as Array<keyof AppSettings>).forEach(field => {
+    const error = validateSettingField(field, data[field]);
+
+    if (error === null) {
+      settings[field] = data[field];
+    } else {
+      settings[field] = error.repairedTo;
+      errors.push(error);
+    }
+  });
+
+  return { settings: settings as AppSettings, errors };
+};
+
+/**
+ * Human-readable explanation of a settings error, for display in the UI
+ */
+export const describeSettingsError = (error: SettingsFieldError): string => {
+  const schema = settingsSchema[error.field];
+
+  switch (error.reason) {
+    case 'missing':
+      return `${error.field} is missing`;
+    case 'type':
+      if (schema.type === 'numberList') {
+        return `${error.field} must be a list of numbers`;
+      }
+      return schema.type === 'enum'
+        ? `${error.field} must be one of ${schema.values.join(', ')}`
+        : `${error.field} must be a ${schema.type}`;
+    case 'range':
+      if (schema.type === 'number') {
+        return `${error.field} must be between ${schema.min} and ${schema.max} (got ${error.received})`;
+      }
+      if (schema.type === 'numberList') {
+        return `${error.field} must have at most ${schema.maxLength} values between ${schema.min} and ${schema.max}`;
+      }
+      return schema.type === 'enum'
+        ? `${error.field} must be one of ${schema.values.join(', ')} (got ${String(error.received)})`
+        : `${error.field} is out of range`;
+    case 'step':
+      return schema.type === 'number' || schema.type === 'numberList'
+        ? `${error.field} must change in steps of ${schema.step} (got ${error.received})`
+        : `${error.field} has an invalid step`;
+    case 'locked':
+      return `${error.field} is limited to ${error.repairedTo} by the safety lock (got ${error.received})`;
+  }
+};
@@ -1,16 +1,57 @@
 // Export storage managers
 export { StorageManager, storageManager } from './StorageManager';
-export { SettingsManager, settingsManager } from './SettingsManager';
+export {
+  SettingsManager,
+  settingsManager,
+  SETTINGS_EXPORT_FORMAT,
+  SETTINGS_EXPORT_DOCUMENT_VERSION,
+} from './SettingsManager';
+export { DeviceProfileManager, deviceProfileManager, getDeviceProfileKey } from './DeviceProfileManager';
+export { PresetManager, presetManager, presetMatchesSettings } from './PresetManager';
+export { BoostRuleManager, boostRuleManager, isBoostRule } from './BoostRuleManager';
+export { SafetyLockManager, safetyLockManager } from './SafetyLockManager';
+export { SETTINGS_SCHEMA_VERSION, settingsMigrations, migrateSettings } from './SettingsMigrations';
+export {
+  settingsSchema,
+  getDefaultSettings,
+  validateSettingField,
+  repairSettings,
+  describeSettingsError,
+  settingValuesEqual,
+} from './SettingsSchema';
 
 // Export types
-export type { AppSettings, SettingsChangeEvent } from './SettingsManager';
+export type {
+  AppSettings,
+  SettingsChangeEvent,
+  SettingsLoadReport,
+  SetSettingResult,
+  SetMultipleSettingsResult,
+  SettingsExportDocument,
+  SettingsDiffEntry,
+  SettingsImportPreview,
+  SettingsImportPart,
+} from './SettingsManager';
+export type { SettingsSchema, SettingsFieldError, SettingsErrorReason } from './SettingsSchema';
+export type { SettingsMigration, MigrationResult, StoredSettingsEnvelope } from './SettingsMigrations';
 export type { StorageResult } from './StorageManager';
+export type { DeviceProfile, DeviceProfileSettings, DeviceProfileChangeEvent } from './DeviceProfileManager';
+export type { BoostPreset, PresetSettings, PresetChangeEvent } from './PresetManager';
+export type {
+  BoostRule,
+  BoostRuleAction,
+  BoostRuleInput,
+  BoostRuleScheduleState,
+  BoostRuleChangeEvent,
+} from './BoostRuleManager';
+export type { SafetyLimits, SafetyLockResult, SafetyLockChangeEvent } from './SafetyLockManager';
 
 /**
  * Initialize all storage systems
  * 
- * This function initializes both the StorageManager and SettingsManager
- * in the correct order. Call this once when the app starts.
+ * This function initializes the StorageManager, SettingsManager and the
+ * managers built on top of it (safety lock, device profiles, presets, boost rules) in the correct
+ * order. Call this once when the app starts.
  */
 export const initializeStorage = async (): Promise<void> => {
   try {
@@ -22,6 +63,20 @@ export const initializeStorage = async (): Promise<void> => {
     
     // Initialize settings manager (which also initializes storage manager)
     await settingsManagerInstance.initialize();
+
+    // The safety lock caps must be in place before anything applies settings
+    const { SafetyLockManager } = await import('./SafetyLockManager');
+    await SafetyLockManager.getInstance().initialize();
+
+    // Device profiles build on top of the loaded settings
+    const { DeviceProfileManager } = await import('./DeviceProfileManager');
+    await DeviceProfileManager.getInstance().initialize();
+
+    const { PresetManager } = await import('./PresetManager');
+    await PresetManager.getInstance().initialize();
+
+    const { BoostRuleManager } = await import('./BoostRuleManager');
+    await BoostRuleManager.getInstance().initialize();
     
     console.log('[Storage] All storage systems initialized successfully');
   } catch (error) {
@@ -0,0 +1,99 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule } from '../modules/VolumeBoosterModule';
+import type { BoostStep } from '../modules/VolumeBoosterModule';
+import { boostGainMillibels } from '../services/BoostCurve';
+import { SettingsManager } from './SettingsManager';
+import type { AppSettings } from './SettingsManager';
+
+/**
+ * Subset of settings that maps directly onto the native audio state
+ */
+export type NativeAudioSettings = Pick<AppSettings, 'volume' | 'boost' | 'boostEnabled'>;
+
+/**
+ * Push audio settings to the native module
+ *
+ * Used whenever settings are replaced as a batch (device profile switch,
+ * preset application) so the native side follows the persisted values.
+ * Mirrors the order used during app initialization: enabled state first,
+ * then the boost level (0 when disabled), then the device volume.
+ */
+export const pushAudioSettingsToNative = async (settings: NativeAudioSettings): Promise<void> => {
+  if (Platform.OS !== 'android') {
+    return;
+  }
+
+  try {
+    await VolumeBoosterModule.setBoostEnabled(settings.boostEnabled);
+    const boost = settings.boostEnabled ? settings.boost : 0;
+    await VolumeBoosterModule.setBoost(boost, boostGainMillibels(boost));
+    await VolumeBoosterModule.setVolume(settings.volume);
+
+    // Import dynamically to avoid circular dependency
+    const { audioStore } = await import('../store/AudioStore');
+    audioStore.updateActual({
+      appliedBoostEnabled: settings.boostEnabled,
+      appliedBoost: boost,
+    });
+  } catch (error) {
+    console.error('[NativeSync] Failed to push audio settings to native module:', error);
+  }
+};
+
+/**
+ * Re-apply the gain of the applied boost level
+ *
+ * Used after the boost curve or max boost gain changes so the new mapping
+ * is heard right away. Does nothing while a boost ramp runs, since each
+ * ramp step already maps its level with the current curve.
+ */
+export const pushBoostGainToNative = async (): Promise<void> => {
+  if (Platform.OS !== 'android') {
+    return;
+  }
+
+  // Import dynamically to avoid circular dependency
+  const { audioStore } = await import('../store/AudioStore');
+  const { boostRamp } = await import('../services/BoostRamp');
+  const { appliedBoost, appliedBoostEnabled } = audioStore.getState().actual;
+
+  if (!appliedBoostEnabled || !appliedBoost || boostRamp.isRunning()) {
+    return;
+  }
+
+  try {
+    await VolumeBoosterModule.setBoostGain(appliedBoost, boostGainMillibels(appliedBoost));
+  } catch (error) {
+    console.error('[NativeSync] Failed to push boost gain to native module:', error);
+  }
+};
+
+/**
+ * Boost change per notification -/+ press, in percent
+ */
+const NOTIFICATION_BOOST_STEP = 10;
+
+/**
+ * Send the notification boost -/+ steps to the background service
+ *
+ * The service applies the steps on its own, so each one is capped at the
+ * safety lock and carries its gain from the saved boost curve.
+ */
+export const pushBoostLimitsToNative = async (): Promise<void> => {
+  if (Platform.OS !== 'android') {
+    return;
+  }
+
+  const { maxBoost } = SettingsManager.getInstance().getSafetyLimits();
+  const steps: BoostStep[] = [];
+  for (let boost = 0; boost < maxBoost; boost += NOTIFICATION_BOOST_STEP) {
+    steps.push({ boost, gainMillibels: boostGainMillibels(boost) });
+  }
+  steps.push({ boost: maxBoost, gainMillibels: boostGainMillibels(maxBoost) });
+
+  try {
+    await VolumeBoosterModule.setBoostLimits({ steps });
+  } catch (error) {
+    console.error('[NativeSync] Failed to push boost limits to native module:', error);
+  }
+};
@@ -0,0 +1,434 @@
+import { Platform } from 'react-native';
+import { VolumeBoosterModule, AudioDeviceInfo } from '../modules/VolumeBoosterModule';
+import { subscribeShared } from '../hooks/nativeEventHub';
+import { ensureAudioInitialized, ensureStorageReady } from '../hooks/initialization';
+import { SettingsManager, AppSettings, SettingsChangeEvent } from '../storage/SettingsManager';
+import { DeviceProfileManager, DeviceProfileChangeEvent } from '../storage/DeviceProfileManager';
+import { getDefaultSettings } from '../storage/SettingsSchema';
+
+// ============================================================================
+// STATE TYPES
+// ============================================================================
+
+/**
+ * Persisted intent - what the user asked for, as stored in AppSettings
+ */
+export type AudioIntent = Pick<
+  AppSettings,
+  'volume' | 'boost' | 'boostEnabled' | 'gradualBoost' | 'appOnlyBoost' | 'backgroundModeEnabled'
+>;
+
+/**
+ * Actual state - what the native side reports
+ *
+ * null means the value has not been read yet.
+ */
+export interface AudioActual {
+  /** Device media volume (0-100%) */
+  volume: number | null;
+
+  /** Active output device */
+  device: AudioDeviceInfo | null;
+
+  /** Boost level last applied to the in-app LoudnessEnhancer */
+  appliedBoost: number | null;
+
+  /** Enabled state last applied to the in-app LoudnessEnhancer */
+  appliedBoostEnabled: boolean | null;
+
+  /** Whether background mode is enabled natively */
+  backgroundModeEnabled: boolean;
+
+  /** Whether the background service is running */
+  serviceRunning: boolean;
+
+  /** Why the background service could not be started, or null */
+  serviceStartError: string | null;
+
+  /** Boost level reported by the background service */
+  serviceBoostLevel: number | null;
+
+  /** Whether the background service reports boost as active */
+  serviceBoostActive: boolean | null;
+
+  /** Device whose saved profile is applied */
+  activeProfileName: string | null;
+}
+
+/**
+ * Flags derived from intent and actual state
+ */
+export interface AudioDerivedState {
+  /** Boost is enabled with a level above 0 */
+  boostRequested: boolean;
+
+  /** Boost is being applied, by the service when it runs or in-app otherwise */
+  boostActive: boolean;
+
+  /** Boost is requested but the native side does not apply it */
+  boostRequestedButInactive: boolean;
+
+  /** The background service applies a different level than requested */
+  serviceBoostMismatch: boolean;
+
+  /** Device volume differs from the saved volume */
+  volumeOutOfSync: boolean;
+
+  /** Background mode is enabled but the service is not running */
+  backgroundServiceStopped: boolean;
+}
+
+/**
+ * Complete store snapshot
+ */
+export interface AudioState {
+  intent: AudioIntent;
+  actual: AudioActual;
+  derived: AudioDerivedState;
+
+  /** Saved settings have been loaded */
+  intentLoaded: boolean;
+
+  /** Native state has been read at least once */
+  actualLoaded: boolean;
+
+  /** Last error from a native query, or null */
+  error: string | null;
+
+  /** Time of the last native refresh */
+  lastSyncedAt: number | null;
+}
+
+// ============================================================================
+// DERIVED STATE
+// ============================================================================
+
+/**
+ * Volume difference (percentage points) tolerated before the device volume
+ * counts as out of sync - about one step of a 15-step STREAM_MUSIC, since
+ * the native side truncates percentages to whole steps
+ */
+const VOLUME_SYNC_TOLERANCE = 7;
+
+/**
+ * Compute the derived flags for an intent/actual pair
+ */
+export const deriveAudioState = (
+  intent: AudioIntent,
+  actual: AudioActual,
+  actualLoaded: boolean,
+): AudioDerivedState => {
+  const boostRequested = intent.boostEnabled && intent.boost > 0;
+
+  const boostActive = actual.serviceRunning
+    ? actual.serviceBoostActive === true
+    : actual.appliedBoostEnabled === true && (actual.appliedBoost ?? 0) > 0;
+
+  return {
+    boostRequested,
+    boostActive,
+    boostRequestedButInactive: actualLoaded && boostRequested && !boostActive,
+    serviceBoostMismatch:
+      actual.serviceRunning &&
+      actual.serviceBoostLevel !== null &&
+      boostRequested &&
+      actual.serviceBoostLevel !== intent.boost,
+    volumeOutOfSync: actual.volume !== null && Math.abs(actual.volume - intent.volume) > VOLUME_SYNC_TOLERANCE,
+    backgroundServiceStopped: actual.backgroundModeEnabled && !actual.serviceRunning,
+  };
+};
+
+const pickIntent = (settings: AppSettings): AudioIntent => ({
+  volume: settings.volume,
+  boost: settings.boost,
+  boostEnabled: settings.boostEnabled,
+  gradualBoost: settings.gradualBoost,
+  appOnlyBoost: settings.appOnlyBoost,
+  backgroundModeEnabled: settings.backgroundModeEnabled,
+});
+
+const initialActual: AudioActual = {
+  volume: null,
+  device: null,
+  appliedBoost: null,
+  appliedBoostEnabled: null,
+  backgroundModeEnabled: false,
+  serviceRunning: false,
+  serviceStartError: null,
+  serviceBoostLevel: null,
+  serviceBoostActive: null,
+  activeProfileName: null,
+};
+
+// ============================================================================
+// AUDIO STORE
+// ============================================================================
+
+/**
+ * Audio State Store
+ *
+ * Single observable source of truth for audio state. Reconciles the
+ * persisted intent from SettingsManager with the actual state reported by
+ * the native module, and derives flags such as "boost requested but not
+ * active". Snapshots are immutable, so the store can back useSyncExternalStore.
+ */
+export class AudioStore {
+  private static instance: AudioStore;
+  private state: AudioState;
+  private listeners = new Set<() => void>();
+  private initPromise: Promise<void> | null = null;
+  private teardown: Array<() => void> = [];
+
+  private constructor() {
+    const intent = pickIntent(getDefaultSettings());
+    this.state = {
+      intent,
+      actual: initialActual,
+      derived: deriveAudioState(intent, initialActual, false),
+      intentLoaded: false,
+      actualLoaded: false,
+      error: null,
+      lastSyncedAt: null,
+    };
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AudioStore {
+    if (!AudioStore.instance) {
+      AudioStore.instance = new AudioStore();
+    }
+    return AudioStore.instance;
+  }
+
+  /**
+   * Start tracking settings and native state
+   *
+   * Safe to call from several places; only the first call does the work.
+   */
+  public initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.start().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async start(): Promise<void> {
+    console.log('[AudioStore] Initializing...');
+
+    await ensureStorageReady();
+
+    const settingsManagerInstance = SettingsManager.getInstance();
+    const deviceProfileManagerInstance = DeviceProfileManager.getInstance();
+
+    settingsManagerInstance.addChangeListener(this.handleSettingsChange);
+    deviceProfileManagerInstance.addChangeListener(this.handleDeviceProfileChange);
+    this.teardown.push(
+      () => settingsManagerInstance.removeChangeListener(this.handleSettingsChange),
+      () => deviceProfileManagerInstance.removeChangeListener(this.handleDeviceProfileChange),
+      subscribeShared('volumeChanged', volume => this.updateActual({ volume })),
+      subscribeShared('audioDeviceChanged', device => this.updateDevice(device)),
+      subscribeShared('serviceStateChanged', event => {
+        this.updateActual(
+          event.running
+            ? { serviceRunning: true, serviceStartError: null }
+            : { serviceRunning: false, serviceBoostLevel: null, serviceBoostActive: null },
+        );
+      }),
+      subscribeShared('boostChanged', event => {
+        this.updateActual({ serviceBoostLevel: event.boostLevel, serviceBoostActive: event.active });
+      }),
+    );
+
+    this.setState({
+      intent: pickIntent(settingsManagerInstance.getAllSettings()),
+      intentLoaded: true,
+    });
+    this.updateActual({ activeProfileName: deviceProfileManagerInstance.getActiveProfile()?.deviceName ?? null });
+
+    await this.refreshNative();
+    console.log('[AudioStore] Initialized');
+  }
+
+  /**
+   * Stop tracking and reset to the initial state (used by tests)
+   */
+  public dispose(): void {
+    this.teardown.forEach(remove => remove());
+    this.teardown = [];
+    this.initPromise = null;
+    const intent = pickIntent(getDefaultSettings());
+    this.state = {
+      intent,
+      actual: initialActual,
+      derived: deriveAudioState(intent, initialActual, false),
+      intentLoaded: false,
+      actualLoaded: false,
+      error: null,
+      lastSyncedAt: null,
+    };
+    this.notify();
+  }
+
+  // ============================================================================
+  // NATIVE SYNC
+  // ============================================================================
+
+  /**
+   * Re-read all actual state from the native module
+   *
+   * Initializes the native audio system first if needed, since the native
+   * module cannot report state before that.
+   */
+  public async refreshNative(): Promise<void> {
+    if (Platform.OS !== 'android') {
+      this.setState({ actualLoaded: true });
+      return;
+    }
+
+    try {
+      await ensureAudioInitialized();
+      const [volume, device, backgroundModeEnabled, serviceRunning] = await Promise.all([
+        VolumeBoosterModule.getVolume(),
+        VolumeBoosterModule.getAudioDeviceInfo().catch(() => null),
+        VolumeBoosterModule.isBackgroundModeEnabled(),
+        VolumeBoosterModule.isBackgroundServiceRunning(),
+      ]);
+
+      const [serviceBoostLevel, serviceBoostActive] = serviceRunning
+        ? await Promise.all([
+            VolumeBoosterModule.getBackgroundBoostLevel(),
+            VolumeBoosterModule.isBackgroundBoostActive(),
+          ])
+        : [null, null];
+
+      this.updateDevice(device);
+      this.setState({
+        actual: {
+          ...this.state.actual,
+          volume,
+          backgroundModeEnabled,
+          serviceRunning,
+          serviceBoostLevel,
+          serviceBoostActive,
+        },
+        actualLoaded: true,
+        error: null,
+        lastSyncedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error('[AudioStore] Failed to read native state:', error);
+      this.setState({
+        actualLoaded: true,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // ============================================================================
+  // UPDATES
+  // ============================================================================
+
+  /**
+   * Optimistically update the intent before it is saved
+   *
+   * SettingsManager change events confirm the value; call syncIntent()
+   * to roll back if saving fails.
+   */
+  public updateIntent(patch: Partial<AudioIntent>): void {
+    this.setState({ intent: { ...this.state.intent, ...patch } });
+  }
+
+  /**
+   * Reset the intent to the saved settings
+   */
+  public syncIntent(): void {
+    const settingsManagerInstance = SettingsManager.getInstance();
+    if (settingsManagerInstance.isReady()) {
+      this.setState({ intent: pickIntent(settingsManagerInstance.getAllSettings()) });
+    }
+  }
+
+  /**
+   * Record actual state after a successful native call
+   */
+  public updateActual(patch: Partial<AudioActual>): void {
+    this.setState({ actual: { ...this.state.actual, ...patch } });
+  }
+
+  /**
+   * Record the active output device, keeping the previous object for the same device
+   */
+  private updateDevice(device: AudioDeviceInfo | null): void {
+    const current = this.state.actual.device;
+    if (device !== null && current !== null && device.id === current.id) {
+      return;
+    }
+    this.updateActual({ device });
+  }
+
+  private handleSettingsChange = (event: SettingsChangeEvent): void => {
+    if (event.key in this.state.intent) {
+      this.updateIntent({ [event.key]: event.newValue } as Partial<AudioIntent>);
+    }
+  };
+
+  private handleDeviceProfileChange = (event: DeviceProfileChangeEvent): void => {
+    if (event.type === 'activated') {
+      this.updateActual({ activeProfileName: event.profile?.deviceName ?? null });
+    } else if (event.type === 'removed' && event.previousKey === event.profile?.key) {
+      this.updateActual({ activeProfileName: null });
+    }
+  };
+
+  // ============================================================================
+  // SUBSCRIPTION
+  // ============================================================================
+
+  /**
+   * Current immutable snapshot
+   */
+  public getState = (): AudioState => {
+    return this.state;
+  };
+
+  /**
+   * Subscribe to state changes
+   *
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private setState(patch: Partial<Omit<AudioState, 'derived'>>): void {
+    const next = { ...this.state, ...patch };
+    this.state = {
+      ...next,
+      derived: deriveAudioState(next.intent, next.actual, next.actualLoaded),
+    };
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[AudioStore] Error in state listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const audioStore = AudioStore.getInstance();